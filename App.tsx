@@ -7,14 +7,23 @@ import { MasterData } from './components/MasterData';
 import { ActivityLogs } from './components/ActivityLogs';
 import { DamagedReport } from './components/DamagedReport';
 import { UserManagement } from './components/UserManagement';
+import { CountSessions } from './components/CountSessions';
+import { VarianceApprovals } from './components/VarianceApprovals';
+import { MasterLocations } from './components/MasterLocations';
+import { LocationChecklist } from './components/LocationChecklist';
+import { LabelPrinter } from './components/LabelPrinter';
+import { SkuAliases } from './components/SkuAliases';
+import { UnitConversions } from './components/UnitConversions';
 import { Logo } from './components/Logo';
 import { Login } from './components/Login';
-import { setPermissionErrorHandler } from './services/storageService';
-import { Home, ClipboardList, Database, Activity } from 'lucide-react';
-import { getSessionUser, clearSessionUser, bootstrapUsers } from './services/authService';
-import { db } from './services/firebaseClient';
-import { doc, getDoc } from 'firebase/firestore';
-import { useGoogleAuth } from './services/googleSheets';
+import { setPermissionErrorHandler, startAuditSync, retryFailedAuditSync, flushPendingAudits, checkStorageConnection, getAuditLogById, ensureDefaultCountSession } from './services/storageService';
+import { subscribeToOutbox, getHeldAuditOwners, OutboxCounts } from './services/auditOutbox';
+import { subscribeToSheetsOutbox } from './services/sheetsOutbox';
+import { Home, ClipboardList, MapPin, Database, Activity } from 'lucide-react';
+import { getSessionUser, validateSession, clearSessionUser } from './services/authService';
+import { useGoogleAuth, isSheetsMirrorEnabled, setSheetsMirrorEnabled, SHEETS_MIRROR_CHANGED_EVENT } from './services/googleSheets';
+import { canCreateAudit, canManageUsers, canManageSessions, canViewVariance, canImportMaster } from './services/permissions';
+import { startMasterDataSync } from './services/masterDataSync';
 
 const App: React.FC = () => {
   const [view, setView] = useState<AppView>(AppView.DASHBOARD);
@@ -24,9 +33,18 @@ const App: React.FC = () => {
   const [isDbConnected, setIsDbConnected] = useState(false);
   const [currentUser, setCurrentUser] = useState<AppUser | null>(null);
   const { token: googleToken, login: loginGoogle, isLoaded: isGoogleLoaded } = useGoogleAuth();
+  const [sheetsMirror, setSheetsMirror] = useState(isSheetsMirrorEnabled());
 
   
   const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [auditOutboxCounts, setAuditOutboxCounts] = useState<OutboxCounts>({ pending: 0, failed: 0 });
+  const [sheetsOutboxCounts, setSheetsOutboxCounts] = useState<OutboxCounts>({ pending: 0, failed: 0 });
+  const outboxCounts: OutboxCounts = {
+    pending: auditOutboxCounts.pending + sheetsOutboxCounts.pending,
+    failed: auditOutboxCounts.failed + sheetsOutboxCounts.failed
+  };
+  // Queued counts of another team member on this device; recomputed whenever the outbox changes
+  const heldAuditOwners = currentUser ? getHeldAuditOwners(currentUser.name) : [];
 
   // Photo viewer deep link states
   const [photoViewData, setPhotoViewData] = useState<{itemName: string, sku: string, location: string, photo: string} | null>(null);
@@ -49,6 +67,10 @@ const App: React.FC = () => {
     const savedUser = getSessionUser();
     if (savedUser) {
         setCurrentUser(savedUser);
+        // Drop the session if it was revoked on the server (password change, user deleted)
+        validateSession().then(valid => {
+            if (mounted && !valid) setCurrentUser(null);
+        });
     }
 
     // 2. Network Listeners
@@ -64,26 +86,31 @@ const App: React.FC = () => {
         }
     });
 
-    // 4. Firebase Connection & Bootstrap
+    // 4. Database Connection
     const initDb = async () => {
         try {
             // Simple query to check connection
-            await getDoc(doc(db, 'users', 'admin'));
-            if (mounted) {
-                setIsDbConnected(true);
-                bootstrapUsers();
-            }
+            await checkStorageConnection();
+            if (mounted) setIsDbConnected(true);
         } catch (error) {
-            console.warn("Firebase connection issue:", error);
+            console.warn("Database connection issue:", error);
             if (mounted) {
                 setIsDbConnected(true); // Proceed anyway to allow offline/local usage
-                bootstrapUsers();
             }
         }
     };
     
     initDb();
 
+    // 4.5 Offline outboxes (database sync, then batched Sheets sync)
+    const stopAuditSync = startAuditSync();
+    const unsubOutbox = subscribeToOutbox((counts) => {
+        if (mounted) setAuditOutboxCounts(counts);
+    });
+    const unsubSheetsOutbox = subscribeToSheetsOutbox((counts) => {
+        if (mounted) setSheetsOutboxCounts(counts);
+    });
+
     // 5. PWA Install Listener (Android/Chrome)
     const handleBeforeInstallPrompt = (e: any) => {
       e.preventDefault();
@@ -104,17 +131,58 @@ const App: React.FC = () => {
       const iosTimer = setTimeout(() => {
         if (mounted) setShowInstallBanner(true);
       }, 5000);
-      return () => clearTimeout(iosTimer);
+      return () => {
+        clearTimeout(iosTimer);
+        stopAuditSync();
+        unsubOutbox();
+        unsubSheetsOutbox();
+      };
     }
 
     return () => {
         mounted = false;
+        stopAuditSync();
+        unsubOutbox();
+        unsubSheetsOutbox();
         window.removeEventListener('online', handleOnline);
         window.removeEventListener('offline', handleOffline);
         window.removeEventListener('beforeinstallprompt', handleBeforeInstallPrompt);
     };
   }, []);
 
+  useEffect(() => {
+    const handleMirrorChange = () => setSheetsMirror(isSheetsMirrorEnabled());
+    window.addEventListener(SHEETS_MIRROR_CHANGED_EVENT, handleMirrorChange);
+    return () => window.removeEventListener(SHEETS_MIRROR_CHANGED_EVENT, handleMirrorChange);
+  }, []);
+
+  // Queued counts waiting on an expired Google token can go out as soon as it is renewed
+  useEffect(() => {
+    if (googleToken) flushPendingAudits().catch(console.error);
+  }, [googleToken]);
+
+  // Existing installs keep their pre-session counts under a 'default' count session
+  useEffect(() => {
+    if (currentUser && canManageSessions(currentUser)) {
+      ensureDefaultCountSession().catch(e => console.warn("Count session migration failed:", e));
+    }
+  }, [currentUser]);
+
+  // Keeps master data in line with the saved Google Sheet on admin devices
+  useEffect(() => {
+    if (!currentUser || !canImportMaster(currentUser)) return;
+    return startMasterDataSync();
+  }, [currentUser]);
+
+  // Sessions expire at the end of a shift even if the tab is never reloaded
+  useEffect(() => {
+    if (!currentUser) return;
+    const interval = setInterval(() => {
+      if (!getSessionUser()) setCurrentUser(null);
+    }, 60000);
+    return () => clearInterval(interval);
+  }, [currentUser]);
+
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     const photoId = params.get('open_photo');
@@ -122,10 +190,8 @@ const App: React.FC = () => {
       setLoadingPhoto(true);
       const fetchPhoto = async () => {
         try {
-          const docRef = doc(db, 'audit_logs', photoId);
-          const snap = await getDoc(docRef);
-          if (snap.exists()) {
-            const data = snap.data();
+          const data = await getAuditLogById(photoId);
+          if (data) {
             if (data.evidencePhotos && data.evidencePhotos.length > 0) {
               setPhotoViewData({
                 itemName: data.itemName || 'Item Baru',
@@ -179,6 +245,7 @@ const App: React.FC = () => {
   const handleLoginSuccess = (user: AppUser) => {
       setCurrentUser(user);
       setView(AppView.DASHBOARD);
+      flushPendingAudits().catch(console.error);
   };
 
   const handleLogout = () => {
@@ -280,14 +347,14 @@ const App: React.FC = () => {
       return <Login onLoginSuccess={handleLoginSuccess} />;
   }
 
-  // 2.5 Show Google Login Screen if they lack token
-  if (!googleToken) {
+  // 2.5 Offer the Google login while this device mirrors counts to Sheets
+  if (!googleToken && sheetsMirror) {
     return (
         <div className="flex flex-col items-center justify-center min-h-screen bg-[#050A18] text-white gap-6 px-6 text-center">
             <Logo size={80} />
             <div className="space-y-2">
                 <h1 className="text-2xl font-black uppercase tracking-tight">Koneksi Spreadsheet</h1>
-                <p className="text-sm font-medium text-slate-400">Anda perlu menghubungkan akun Google untuk menyimpan hasil input otomatis ke Google Sheets.</p>
+                <p className="text-sm font-medium text-slate-400">Hubungkan akun Google untuk menyalin hasil input otomatis ke Google Sheets. Data tetap tersimpan di database tanpa Google.</p>
             </div>
             
             <button 
@@ -298,6 +365,12 @@ const App: React.FC = () => {
                 <img src="https://upload.wikimedia.org/wikipedia/commons/5/53/Google_%22G%22_Logo.svg" className="w-5 h-5" alt="Google" />
                 {isGoogleLoaded ? 'Hubungkan dengan Google' : 'Memuat...'}
             </button>
+            <button
+                onClick={() => setSheetsMirrorEnabled(false)}
+                className="text-xs font-bold text-slate-400 underline underline-offset-4 hover:text-white"
+            >
+                Lanjut tanpa Google Sheets
+            </button>
             <p className="text-[10px] text-slate-500 font-medium">Memerlukan akses Google Sheets</p>
         </div>
     );
@@ -306,11 +379,13 @@ const App: React.FC = () => {
   // 3. Main App
   const navItems = [
     { id: AppView.DASHBOARD, icon: Home, label: 'Beranda' },
-    { id: AppView.FORM, icon: ClipboardList, label: 'Audit Fisik' },
+    ...(canCreateAudit(currentUser) ? [{ id: AppView.FORM, icon: ClipboardList, label: 'Audit Fisik' }] : []),
+    { id: AppView.LOCATION_CHECKLIST, icon: MapPin, label: 'Lokasi' },
     { id: AppView.MASTER_DATA, icon: Database, label: 'Database' },
     { id: AppView.ACTIVITIES, icon: Activity, label: 'Aktivitas' },
   ];
   const activeIndex = navItems.findIndex(item => item.id === view);
+  const navSlot = 100 / navItems.length;
 
   return (
     <div className="min-h-screen bg-[#f6f6f8] relative">
@@ -357,6 +432,37 @@ const App: React.FC = () => {
                     {isOnline ? 'System Online' : 'Offline Mode'}
                 </span>
              </div>
+
+             {/* Audit Outbox Indicator */}
+             {(outboxCounts.pending > 0 || outboxCounts.failed > 0) && (
+                <div className="flex items-center gap-1.5 mt-1.5">
+                    {outboxCounts.pending > 0 && (
+                        <div className="flex items-center gap-1 px-2.5 py-0.5 rounded-full backdrop-blur-md shadow-sm border bg-amber-50/90 border-amber-200/50">
+                            <span className="material-symbols-outlined text-[11px] text-amber-600 animate-spin">sync</span>
+                            <span className="text-[9px] font-bold uppercase tracking-widest text-amber-700">{outboxCounts.pending} Antre</span>
+                        </div>
+                    )}
+                    {outboxCounts.failed > 0 && (
+                        <button
+                            onClick={() => retryFailedAuditSync().catch(console.error)}
+                            title="Klik untuk mencoba kirim ulang"
+                            className="pointer-events-auto flex items-center gap-1 px-2.5 py-0.5 rounded-full backdrop-blur-md shadow-sm border bg-red-50/90 border-red-200/50 cursor-pointer"
+                        >
+                            <span className="material-symbols-outlined text-[11px] text-red-600">error</span>
+                            <span className="text-[9px] font-bold uppercase tracking-widest text-red-600">{outboxCounts.failed} Gagal</span>
+                        </button>
+                    )}
+                    {heldAuditOwners.length > 0 && (
+                        <div
+                            title="Hitungan ini baru terkirim setelah pemiliknya login lagi di perangkat ini"
+                            className="flex items-center gap-1 px-2.5 py-0.5 rounded-full backdrop-blur-md shadow-sm border bg-orange-50/90 border-orange-200/50"
+                        >
+                            <span className="material-symbols-outlined text-[11px] text-orange-600">person_alert</span>
+                            <span className="text-[9px] font-bold uppercase tracking-widest text-orange-700">Menunggu login {heldAuditOwners.join(', ')}</span>
+                        </div>
+                    )}
+                </div>
+             )}
         </div>
 
         <div className="relative z-10 pb-20">
@@ -374,19 +480,50 @@ const App: React.FC = () => {
                 </div>
             )}
             
-            {view === AppView.FORM && (
+            {view === AppView.FORM && canCreateAudit(currentUser) && (
                 <div className="animate-fade-in">
                     <AuditForm 
+                        currentUser={currentUser}
                         onSuccess={() => navigate(AppView.DASHBOARD)} 
                         initialLocation={navParams?.initialLocation}
                     />
                 </div>
             )}
 
-            {view === AppView.USER_MANAGEMENT && (
+            {view === AppView.LOCATION_CHECKLIST && (
+                <div className="animate-fade-in">
+                    <LocationChecklist currentUser={currentUser} onNavigate={navigate} />
+                </div>
+            )}
+
+            {view === AppView.USER_MANAGEMENT && canManageUsers(currentUser) && (
                 <UserManagement onBack={() => setView(AppView.DASHBOARD)} />
             )}
 
+            {view === AppView.COUNT_SESSIONS && (
+                <CountSessions currentUser={currentUser} onBack={() => setView(AppView.DASHBOARD)} />
+            )}
+
+            {view === AppView.APPROVALS && canViewVariance(currentUser) && (
+                <VarianceApprovals currentUser={currentUser} onBack={() => setView(AppView.DASHBOARD)} />
+            )}
+
+            {view === AppView.MASTER_LOCATIONS && canImportMaster(currentUser) && (
+                <MasterLocations onBack={() => setView(AppView.DASHBOARD)} />
+            )}
+
+            {view === AppView.SKU_ALIASES && canImportMaster(currentUser) && (
+                <SkuAliases onBack={() => setView(AppView.DASHBOARD)} />
+            )}
+
+            {view === AppView.UNIT_CONVERSIONS && canImportMaster(currentUser) && (
+                <UnitConversions onBack={() => setView(AppView.DASHBOARD)} />
+            )}
+
+            {view === AppView.LABELS && canManageSessions(currentUser) && (
+                <LabelPrinter onBack={() => setView(AppView.DASHBOARD)} />
+            )}
+
             {view === AppView.MASTER_DATA && (
                 <div className="p-4 md:p-8 animate-fade-in relative">
                     <MasterData currentUser={currentUser} />
@@ -395,7 +532,7 @@ const App: React.FC = () => {
 
             {view === AppView.ACTIVITIES && (
                 <div className="animate-fade-in">
-                    <ActivityLogs />
+                    <ActivityLogs currentUser={currentUser} />
                 </div>
             )}
         </div>
@@ -448,7 +585,7 @@ const App: React.FC = () => {
                 <div 
                     className="magic-indicator"
                     style={{ 
-                        left: `calc(${activeIndex * 25}% + 12.5% - 32px)`,
+                        left: `calc(${activeIndex * navSlot}% + ${navSlot / 2}% - 32px)`,
                     }}
                 ></div>
 
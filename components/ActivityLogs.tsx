@@ -1,10 +1,21 @@
 
 import React, { useState, useEffect } from 'react';
-import { ActivityLog } from '../types';
-import { subscribeToActivityLogs } from '../services/storageService';
-import { Clock, User, Info, ZoomIn, X } from 'lucide-react';
+import { ActivityLog, AppUser, FieldChange } from '../types';
+import { subscribeToActivityLogs, restoreAuditLog, isRestorableDeletion } from '../services/storageService';
+import { canDeleteAudit } from '../services/permissions';
+import { Clock, User, Info, ZoomIn, X, RotateCcw } from 'lucide-react';
+
+interface ActivityLogsProps {
+    currentUser: AppUser;
+}
+
+const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
 
-export const ActivityLogs: React.FC = () => {
+export const ActivityLogs: React.FC<ActivityLogsProps> = ({ currentUser }) => {
     const [logs, setLogs] = useState<ActivityLog[]>([]);
     const [loading, setLoading] = useState(true);
     const [previewImage, setPreviewImage] = useState<string | null>(null);
@@ -30,6 +41,30 @@ export const ActivityLogs: React.FC = () => {
         }
     };
 
+    const handleRestore = async (log: ActivityLog) => {
+        if (!log.targetId || !window.confirm("Pulihkan data scan yang dihapus ini?")) return;
+        try {
+            await restoreAuditLog(log.targetId);
+        } catch (e: any) {
+            alert(e.message || "Gagal memulihkan data.");
+        }
+    };
+
+    const renderChanges = (changes: FieldChange[]) => (
+        <div className="mt-2 rounded-xl border border-white/5 overflow-hidden text-[11px]">
+            {changes.map(change => (
+                <div key={change.field} className="grid grid-cols-[90px_1fr] gap-2 px-3 py-1.5 border-b border-white/5 last:border-b-0">
+                    <span className="font-bold text-slate-500 truncate">{change.field}</span>
+                    <span className="font-mono text-slate-300 break-all">
+                        <span className="text-rose-400 line-through">{formatValue(change.before)}</span>
+                        {' → '}
+                        <span className="text-emerald-400">{formatValue(change.after)}</span>
+                    </span>
+                </div>
+            ))}
+        </div>
+    );
+
     const formatTime = (timestamp: number) => {
         return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: true }).toUpperCase();
     };
@@ -90,6 +125,17 @@ export const ActivityLogs: React.FC = () => {
                                         </div>
                                     )}
 
+                                    {log.changes && log.changes.length > 0 && renderChanges(log.changes)}
+
+                                    {isRestorableDeletion(log) && canDeleteAudit(currentUser) && (
+                                        <button
+                                            onClick={() => handleRestore(log)}
+                                            className="mt-2 flex items-center gap-1.5 text-[10px] font-black text-primary uppercase tracking-widest hover:underline"
+                                        >
+                                            <RotateCcw size={12} /> Pulihkan
+                                        </button>
+                                    )}
+
                                     {log.photos && log.photos.length > 0 && (
                                         <div className="flex gap-2 pt-2 overflow-x-auto no-scrollbar">
                                             {log.photos.map((photo, pIdx) => (
@@ -107,7 +153,7 @@ export const ActivityLogs: React.FC = () => {
                                     <div className="flex items-center gap-3 pt-1">
                                         <div className="flex items-center gap-1 text-[9px] font-black text-slate-600 uppercase tracking-tighter">
                                             <User size={10} />
-                                            {log.user}
+                                            {log.user}{log.actorRole && ` (${log.actorRole})`}
                                         </div>
                                         <div className="text-[9px] font-black text-slate-600 uppercase tracking-tighter">
                                             {formatDate(log.timestamp)}
@@ -1,51 +1,77 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { saveAuditLog, getMasterData } from '../services/storageService';
-import { MasterItem } from '../types';
+import { saveAuditLog, getMasterData, getMasterLocations, getSelectedCountSessionId, getSelectedCountSession, isInSessionScope, subscribeToAuditLogs, getRecountTasks, submitRecount, variancePercent, recountThresholdOf, findMasterBatch, batchKeyOf, sameLocation, acceptedQtyOf, getSkuAliases, findSkuAlias, saveSkuAlias, getSkuUnits, unitsOfSku, unitEntryTotal, formatUnitEntry, locationCodeOf, skuKeyOf } from '../services/storageService';
+import { parseBarcode, resolveScanSku, ScanResult } from '../services/barcodeParsers';
+import { MasterItem, MasterLocation, SkuAlias, SkuUnits, UnitQuantity, AppUser, AuditRecord } from '../types';
+import { canViewVariance, canImportMaster } from '../services/permissions';
 import { v4 as uuidv4 } from 'uuid';
 import { ScannerModal } from './ScannerModal';
 import { Logo } from './Logo';
 
 interface AuditFormProps {
+  currentUser: AppUser;
   onSuccess: () => void;
   initialLocation?: string; 
 }
 
-export const AuditForm: React.FC<AuditFormProps> = ({ onSuccess, initialLocation }) => {
+export const AuditForm: React.FC<AuditFormProps> = ({ currentUser, onSuccess, initialLocation }) => {
   const [allMasterItems, setAllMasterItems] = useState<MasterItem[]>([]);
+  const [masterLocations, setMasterLocations] = useState<MasterLocation[]>([]);
+  const [skuAliases, setSkuAliases] = useState<SkuAlias[]>([]);
+  const [skuUnits, setSkuUnits] = useState<SkuUnits[]>([]);
   const [loadingData, setLoadingData] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Form State
   const [sku, setSku] = useState('');
   const [location, setLocation] = useState(initialLocation || '');
+  // Loose quantity in the base unit; packs of the SKU's other units are counted in packCounts
   const [physicalQty, setPhysicalQty] = useState<number>(0);
+  const [packCounts, setPackCounts] = useState<Record<string, number>>({});
   const [batchNumber, setBatchNumber] = useState('');
   
   // Changed to string for DD-MM-YYYY manual input
   const [expiryDate, setExpiryDate] = useState('');
   
-  const [teamName, setTeamName] = useState(() => localStorage.getItem('team_member_name') || '');
+  // Records are filed under the logged-in user; security rules reject any other name
+  const teamName = currentUser.name;
+  const sessionId = getSelectedCountSessionId();
+  const countSession = getSelectedCountSession();
+  const sessionClosed = !!countSession && countSession.status !== 'active';
+  // Blind count: the expected quantity is never shown, so it cannot anchor the count
+  const isBlind = !!countSession?.blindCount && !canViewVariance(currentUser);
+  const [recountTasks, setRecountTasks] = useState<AuditRecord[]>([]);
+  const [sessionLogs, setSessionLogs] = useState<AuditRecord[]>([]);
+  // A recount is always blind: neither the system stock nor the first count is shown
+  const [recountOf, setRecountOf] = useState<AuditRecord | null>(null);
+  const hideExpected = isBlind || !!recountOf;
   const [notes, setNotes] = useState('');
   const [evidencePhotos, setEvidencePhotos] = useState<string[]>([]);
   
   const [foundItem, setFoundItem] = useState<MasterItem | null>(null);
   const [scannerType, setScannerType] = useState<'sku' | 'location' | null>(null);
+  // Last scan whose GTIN no alias maps to a SKU yet; applied once it is linked
+  const [unlinkedScan, setUnlinkedScan] = useState<ScanResult | null>(null);
+  const [linkSku, setLinkSku] = useState('');
+  const [linkingGtin, setLinkingGtin] = useState(false);
+  // Alias the last scan resolved through, shown while its SKU is in the form
+  const [scannedAlias, setScannedAlias] = useState<SkuAlias | null>(null);
   
   const scannedOverrides = useRef<{ sku: string, batch?: string, expiry?: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  useEffect(() => {
-    if (teamName) localStorage.setItem('team_member_name', teamName);
-  }, [teamName]);
-
   useEffect(() => {
     let mounted = true;
     const initData = async () => {
       setLoadingData(true);
       try {
-        const items = await getMasterData();
-        if (mounted) setAllMasterItems(items);
+        const [items, locations, aliases, units] = await Promise.all([getMasterData(), getMasterLocations(), getSkuAliases(), getSkuUnits()]);
+        if (mounted) {
+          setAllMasterItems(items);
+          setMasterLocations(locations);
+          setSkuAliases(aliases);
+          setSkuUnits(units);
+        }
       } catch (err) {
         console.error("Error loading master data:", err);
       } finally {
@@ -56,6 +82,23 @@ export const AuditForm: React.FC<AuditFormProps> = ({ onSuccess, initialLocation
     return () => { mounted = false; };
   }, []);
 
+  useEffect(() => {
+    const unsubscribe = subscribeToAuditLogs(logs => {
+      setSessionLogs(logs);
+      setRecountTasks(getRecountTasks(logs, teamName));
+    }, undefined, sessionId);
+    return () => unsubscribe();
+  }, [teamName, sessionId]);
+
+  const startRecount = (task: AuditRecord) => {
+    setRecountOf(task);
+    setSku(task.sku);
+    setLocation(task.location);
+    setPhysicalQty(0);
+    setPackCounts({});
+    setNotes('');
+  };
+
   // --- DATE HELPERS ---
   const formatIsoToDisplay = (isoDate: string): string => {
     // Converts YYYY-MM-DD to DD-MM-YYYY
@@ -95,12 +138,19 @@ export const AuditForm: React.FC<AuditFormProps> = ({ onSuccess, initialLocation
       return;
     }
 
-    const normalizedSku = sku.trim().toLowerCase();
-    let match = allMasterItems.find(i => i.sku.toLowerCase() === normalizedSku);
+    const skuKey = skuKeyOf(sku);
+    let match = allMasterItems.find(i => skuKeyOf(i.sku) === skuKey);
+
+    // Then any other code of the item: EAN, supplier code, old internal code
+    if (!match) {
+      const alias = findSkuAlias(skuAliases, sku);
+      if (alias) match = allMasterItems.find(i => skuKeyOf(i.sku) === skuKeyOf(alias.sku));
+    }
     
     // Fallback to searching by item name if SKU not found
-    if (!match && normalizedSku.length > 2) {
-      const searchTerms = normalizedSku.split(' ').filter(t => t.length > 0);
+    const searchText = sku.trim().toLowerCase();
+    if (!match && searchText.length > 2) {
+      const searchTerms = searchText.split(' ').filter(t => t.length > 0);
       match = allMasterItems.find(i => {
          const lowerName = i.name.toLowerCase();
          return searchTerms.every(term => lowerName.includes(term));
@@ -110,7 +160,7 @@ export const AuditForm: React.FC<AuditFormProps> = ({ onSuccess, initialLocation
     if (match) {
       setFoundItem(match);
       
-      if (scannedOverrides.current && scannedOverrides.current.sku === normalizedSku) {
+      if (scannedOverrides.current && scannedOverrides.current.sku === skuKey) {
           if (scannedOverrides.current.batch) setBatchNumber(scannedOverrides.current.batch);
           if (scannedOverrides.current.expiry) setExpiryDate(scannedOverrides.current.expiry);
           scannedOverrides.current = null;
@@ -122,81 +172,126 @@ export const AuditForm: React.FC<AuditFormProps> = ({ onSuccess, initialLocation
 
     } else {
       setFoundItem(null);
-      if (scannedOverrides.current && scannedOverrides.current.sku === normalizedSku) {
+      if (scannedOverrides.current && scannedOverrides.current.sku === skuKey) {
           if (scannedOverrides.current.batch) setBatchNumber(scannedOverrides.current.batch);
           if (scannedOverrides.current.expiry) setExpiryDate(scannedOverrides.current.expiry);
           scannedOverrides.current = null;
       }
     }
-  }, [sku, loadingData, allMasterItems]);
+  }, [sku, loadingData, allMasterItems, skuAliases]);
 
   // --- SMART SCAN PARSER ---
-  const parseScannedDate = (raw: string): string => {
-      // Logic: Convert DDMMYYYY (30093039) -> 30-09-3039
-      const clean = raw.replace(/[^0-9]/g, '');
-      if (clean.length === 8) {
-          const d = clean.substring(0, 2);
-          const m = clean.substring(2, 4);
-          const y = clean.substring(4, 8);
-          return `${d}-${m}-${y}`;
-      }
-      return raw;
-  };
-
+  // Formats live in services/barcodeParsers; a GTIN is looked up in the alias table
   const handleScanInput = (text: string) => {
       if (scannerType === 'location') {
-          setLocation(text.trim().toUpperCase());
+          setLocation(locationCodeOf(masterLocations, text));
           setScannerType(null);
           return;
       }
 
-      // Logic to handle specific format: SKU,BATCH,EXPIRY
-      // Example: 123BX,12345GG,30093039
-      let parts: string[] = [];
+      applyScan(parseBarcode(text), skuAliases);
+      setScannerType(null);
+  };
 
-      if (text.includes(',')) {
-          // Priority: Comma separated
-          parts = text.split(',');
-      } else if (text.includes('|')) {
-          // Fallback: Pipe separated
-          parts = text.split('|');
-      } else {
-          // Single SKU
-          parts = [text];
+  const applyScan = (scan: ScanResult, aliases: SkuAlias[]) => {
+      const alias = findSkuAlias(aliases, scan.code);
+      const resolution = resolveScanSku(scan, () => alias?.sku);
+      if (!resolution.resolved) {
+          // Nothing is counted under the GTIN itself; the form waits for a link
+          setUnlinkedScan(scan);
+          setScannedAlias(null);
+          scannedOverrides.current = null;
+          setSku('');
+          return;
+      }
+      const scannedSku = resolution.sku;
+      // A code printed on a pack needs that pack's size, or cartons would be counted as pieces
+      const packUnit = alias?.unit ? unitsOfSku(skuUnits, scannedSku).find(u => u.unit === alias.unit) : undefined;
+      const scannedBaseUnit = allMasterItems.find(i => skuKeyOf(i.sku) === skuKeyOf(scannedSku))?.unit?.trim().toUpperCase();
+      if (alias?.unit && !packUnit && alias.unit !== scannedBaseUnit) {
+          alert(`Satuan ${alias.unit} belum ada di Satuan Kemasan SKU ${scannedSku}. Scan tidak dihitung.`);
+          return;
       }
+      setUnlinkedScan(null);
+      setScannedAlias(alias || null);
 
-      const scannedSku = parts[0].trim();
-      
-      if (parts.length > 1) {
-          // If we have more than just SKU
+      if (scan.batchNumber || scan.expiryDate) {
           scannedOverrides.current = {
-              sku: scannedSku.toLowerCase(),
-              // Index 1 is Batch
-              batch: parts[1] ? parts[1].trim() : undefined,
-              // Index 2 is Expiry (e.g. 30093039)
-              expiry: parts[2] ? parseScannedDate(parts[2].trim()) : undefined
+              sku: skuKeyOf(scannedSku),
+              batch: scan.batchNumber,
+              expiry: scan.expiryDate
           };
       } else {
           scannedOverrides.current = null;
       }
+      // Quantity on a GS1 carton label, AI (30) or (37), in the unit the code
+      // is printed on; a pack code without one is a single pack. Scanning the
+      // item already in the form adds to its count, another item or batch
+      // starts a new one.
+      const sameItem = !!sku.trim() && skuKeyOf(sku) === skuKeyOf(scannedSku) && (!scan.batchNumber || scan.batchNumber === batchNumber);
+      if (!sameItem) {
+          setPackCounts({});
+          setPhysicalQty(0);
+      }
+      const scannedQty = scan.quantity;
+      if (packUnit) setPackCounts(prev => ({ ...prev, [packUnit.unit]: (prev[packUnit.unit] || 0) + (scannedQty ?? 1) }));
+      else if (scannedQty !== undefined) setPhysicalQty(prev => prev + scannedQty);
 
       setSku(scannedSku);
-      setScannerType(null);
   };
 
-  // Handler to auto-parse manual input if it contains comma separators
+  // Handler to auto-parse manual input when it is a structured code or an alias rather than a SKU
   const handleManualSkuBlur = (e: React.FocusEvent<HTMLInputElement>) => {
       const val = e.target.value;
-      if (val.includes(',') || val.includes('|')) {
+      if (parseBarcode(val).parser !== 'plain' || findSkuAlias(skuAliases, val)) {
           handleScanInput(val);
       }
   };
 
-  const systemStock = foundItem ? foundItem.systemStock : 0;
-  const variance = physicalQty - systemStock;
+  const handleLinkGtin = async () => {
+      if (!unlinkedScan?.gtin) return;
+      setLinkingGtin(true);
+      try {
+          const alias = await saveSkuAlias({ alias: unlinkedScan.gtin, sku: linkSku });
+          const aliases = [...skuAliases.filter(a => a.alias !== alias.alias), alias];
+          setSkuAliases(aliases);
+          setLinkSku('');
+          applyScan(unlinkedScan, aliases);
+      } catch (e: any) {
+          alert(e.message || "Gagal menghubungkan GTIN.");
+      } finally {
+          setLinkingGtin(false);
+      }
+  };
+
+  // System stock comes from the master row of the batch being counted, at
+  // this location when master data keeps the SKU's stock by location
+  const locationCode = locationCodeOf(masterLocations, location);
+  const batchItem = foundItem ? findMasterBatch(allMasterItems, foundItem.sku, batchNumber, expiryDate, locationCode) : undefined;
+  const systemStock = batchItem ? batchItem.systemStock : 0;
+  const stockByLocation = !!foundItem && allMasterItems.some(i => skuKeyOf(i.sku) === skuKeyOf(foundItem.sku) && i.location);
+  const countedHere = foundItem && location
+    ? sessionLogs
+        .filter(l => skuKeyOf(l.sku) === skuKeyOf(foundItem.sku) && sameLocation(l.location, locationCode) && batchKeyOf(l) === batchKeyOf({ batchNumber, expiryDate }))
+        .reduce((sum, l) => sum + acceptedQtyOf(l), 0)
+    : 0;
+  // Counted quantity in the base unit; the mixed-unit entry is kept alongside it
+  const packUnits = foundItem ? unitsOfSku(skuUnits, foundItem.sku) : [];
+  const baseUnit = foundItem?.unit || 'unit';
+  // Pack the last scanned alias is printed on, while its SKU is in the form
+  const scannedPack = scannedAlias?.unit && foundItem && skuKeyOf(scannedAlias.sku) === skuKeyOf(foundItem.sku)
+    ? packUnits.find(u => u.unit === scannedAlias.unit)
+    : undefined;
+  const unitEntry: UnitQuantity[] | undefined = packUnits.some(u => (packCounts[u.unit] || 0) > 0)
+    ? [...packUnits.map(u => ({ unit: u.unit, qty: packCounts[u.unit] || 0, factor: u.factor })), { unit: baseUnit, qty: physicalQty, factor: 1 }]
+        .filter(line => line.qty > 0)
+    : undefined;
+  const countedQty = unitEntry ? unitEntryTotal(unitEntry) : physicalQty;
+  const variance = countedQty - systemStock;
   const activeItemName = foundItem ? foundItem.name : 'Barang Tidak Terdaftar (Item Baru)';
-  const percentDiff = (systemStock > 0) ? (Math.abs(variance) / systemStock) * 100 : (physicalQty > 0 ? 100 : 0);
-  const isSignificant = percentDiff > 10;
+  const recountThreshold = recountThresholdOf(countSession);
+  // The photo requirement would give the variance away, so blind counts skip it
+  const isSignificant = !hideExpected && variancePercent(systemStock, countedQty) > recountThreshold;
 
   const compressImage = (base64Str: string): Promise<string> => {
     return new Promise((resolve) => {
@@ -242,8 +337,29 @@ export const AuditForm: React.FC<AuditFormProps> = ({ onSuccess, initialLocation
     if (isSubmitting) return;
     if (!sku) { alert("Mohon scan atau masukkan kode barang."); return; }
     if (!location) { alert("Mohon isi lokasi rak."); return; }
+    if (sessionClosed) { alert(`Sesi "${countSession!.name}" tidak aktif. Pilih sesi hitung yang sedang berjalan di Dashboard.`); return; }
+    if (recountOf) {
+      setIsSubmitting(true);
+      try {
+        await submitRecount(recountOf.id, { physicalQty: countedQty, unitEntry, notes });
+        onSuccess();
+      } catch (err: any) {
+        console.error("Recount error:", err);
+        alert(`Gagal menyimpan hitung ulang: ${err.message || "Periksa koneksi internet"}`);
+      } finally {
+        setIsSubmitting(false);
+      }
+      return;
+    }
+    if (countSession) {
+      const zone = masterLocations.find(l => l.id === locationCode)?.zone;
+      if (!isInSessionScope(countSession, { category: foundItem?.category, zone }) &&
+          !window.confirm(`Barang/lokasi ini di luar cakupan sesi "${countSession.name}". Tetap simpan?`)) {
+        return;
+      }
+    }
     if (isSignificant && evidencePhotos.length === 0) { 
-      alert("Selisih signifikan (>10%)! Wajib melampirkan foto bukti kondisi fisik."); 
+      alert(`Selisih signifikan (>${recountThreshold}%)! Wajib melampirkan foto bukti kondisi fisik.`); 
       document.getElementById('photo-section')?.scrollIntoView({ behavior: 'smooth' });
       return; 
     }
@@ -255,16 +371,18 @@ export const AuditForm: React.FC<AuditFormProps> = ({ onSuccess, initialLocation
         sku: foundItem ? foundItem.sku : sku.trim(), 
         itemName: activeItemName, 
         unit: foundItem ? foundItem.unit : '-',
-        location: location.trim().toUpperCase(), 
+        location: locationCode, 
         batchNumber: batchNumber || '-', 
         expiryDate: expiryDate || '-',
         systemQty: systemStock, 
-        physicalQty: physicalQty, 
+        physicalQty: countedQty, 
+        ...(unitEntry ? { unitEntry } : {}),
         variance: variance, 
         timestamp: Date.now(), 
-        teamMember: teamName || 'Petugas', 
+        teamMember: teamName, 
         notes: notes, 
-        evidencePhotos: evidencePhotos
+        evidencePhotos: evidencePhotos,
+        sessionId: sessionId
       };
       
       await saveAuditLog(auditRecord); 
@@ -308,6 +426,44 @@ export const AuditForm: React.FC<AuditFormProps> = ({ onSuccess, initialLocation
         </nav>
 
         <main className="flex-1 px-4 pt-4 pb-48 max-w-lg mx-auto w-full">
+            {/* COUNT SESSION */}
+            <section className="mb-4">
+                <div className={`rounded-xl px-3 py-2 border text-xs font-bold flex items-center gap-2 ${sessionClosed ? 'bg-red-50 border-red-200 text-red-600' : 'bg-blue-50 border-blue-100 text-primary dark:bg-blue-900/20 dark:border-blue-900/40'}`}>
+                    <span className="material-symbols-outlined text-[16px]">event_note</span>
+                    <span className="truncate">Sesi: {countSession ? countSession.name : 'Stock Opname Awal'}</span>
+                    {sessionClosed && <span className="ml-auto uppercase text-[10px]">{countSession!.status}</span>}
+                </div>
+            </section>
+
+            {/* RECOUNT TASKS */}
+            {(recountOf || recountTasks.length > 0) && (
+            <section className="mb-4">
+                {recountOf ? (
+                <div className="rounded-xl px-3 py-2 border border-amber-200 bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:border-amber-900/40 text-xs font-bold flex items-center gap-2">
+                    <span className="material-symbols-outlined text-[16px]">replay</span>
+                    <span className="truncate">Hitung ulang: {recountOf.sku} di {recountOf.location}</span>
+                    <button onClick={() => setRecountOf(null)} className="ml-auto uppercase text-[10px] underline">Batal</button>
+                </div>
+                ) : (
+                <>
+                <h3 className="text-[10px] font-semibold text-amber-600 uppercase tracking-wider mb-2 px-1">Tugas Hitung Ulang ({recountTasks.length})</h3>
+                <div className="space-y-2">
+                    {recountTasks.map(task => (
+                        <button key={task.id} onClick={() => startRecount(task)} className="w-full text-left rounded-xl px-3 py-2 border border-amber-200 bg-white dark:bg-slate-800 dark:border-amber-900/40 flex items-center gap-3">
+                            <span className="material-symbols-outlined text-amber-500 text-[18px]">replay</span>
+                            <div className="min-w-0 flex-1">
+                                <p className="text-xs font-bold truncate">{task.itemName}</p>
+                                <p className="text-[10px] text-slate-400 font-mono">{task.sku} · {task.location}</p>
+                            </div>
+                            <span className="text-[10px] font-black text-primary uppercase">Hitung</span>
+                        </button>
+                    ))}
+                </div>
+                </>
+                )}
+            </section>
+            )}
+
             {/* TEAM IDENTIFIER */}
             <section className="mb-6">
                 <h3 className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider mb-2 px-1">Petugas Pelaksana</h3>
@@ -318,8 +474,7 @@ export const AuditForm: React.FC<AuditFormProps> = ({ onSuccess, initialLocation
                     <input 
                       className="text-sm font-bold bg-transparent border-none p-0 focus:ring-0 w-full" 
                       value={teamName} 
-                      onChange={(e) => setTeamName(e.target.value)} 
-                      placeholder="Masukkan nama petugas..." 
+                      readOnly
                     />
                 </div>
             </section>
@@ -333,6 +488,7 @@ export const AuditForm: React.FC<AuditFormProps> = ({ onSuccess, initialLocation
                       placeholder="Scan atau ketik kode / nama barang..." 
                       type="text" 
                       value={sku} 
+                      readOnly={!!recountOf}
                       onChange={(e) => setSku(e.target.value)} 
                       onBlur={handleManualSkuBlur}
                       onKeyDown={(e) => {
@@ -343,11 +499,47 @@ export const AuditForm: React.FC<AuditFormProps> = ({ onSuccess, initialLocation
                       }}
                       autoFocus
                     />
-                    <button onClick={() => setScannerType('sku')} className="absolute right-1 top-1 bottom-1 w-12 bg-primary text-white rounded-lg flex items-center justify-center shadow-lg shadow-primary/20">
+                    <button onClick={() => setScannerType('sku')} disabled={!!recountOf} className="absolute right-1 top-1 bottom-1 w-12 bg-primary text-white rounded-lg flex items-center justify-center shadow-lg shadow-primary/20">
                         <span className="material-symbols-outlined">barcode_scanner</span>
                     </button>
                 </div>
-                
+
+                {unlinkedScan?.gtin && !sku && (
+                  <div className="mb-3 p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 space-y-2">
+                      <p className="text-[11px] font-bold text-amber-700 dark:text-amber-400">
+                          GTIN {unlinkedScan.gtin} belum terhubung ke SKU.
+                          {!canImportMaster(currentUser) && ' Hubungi admin untuk menambahkan alias.'}
+                      </p>
+                      {canImportMaster(currentUser) && (
+                          <div className="flex gap-2">
+                              <input
+                                className="flex-1 min-w-0 p-2 rounded-lg border border-amber-200 dark:border-slate-700 dark:bg-slate-900 text-xs font-bold uppercase"
+                                placeholder="SKU tujuan"
+                                list="audit-form-skus"
+                                value={linkSku}
+                                onChange={(e) => setLinkSku(e.target.value.toUpperCase())}
+                              />
+                              <datalist id="audit-form-skus">
+                                  {Array.from(new Set(allMasterItems.map(i => i.sku))).map(s => <option key={s} value={s} />)}
+                              </datalist>
+                              <button
+                                onClick={handleLinkGtin}
+                                disabled={linkingGtin || !linkSku.trim()}
+                                className="px-3 rounded-lg bg-amber-500 text-white text-xs font-bold disabled:opacity-50"
+                              >
+                                  Hubungkan
+                              </button>
+                          </div>
+                      )}
+                  </div>
+                )}
+
+                {scannedPack && (
+                  <p className="mb-3 px-1 text-[11px] font-bold text-primary">
+                      Kode {scannedAlias!.alias}: 1 {scannedPack.unit} = {scannedPack.factor} {baseUnit}
+                  </p>
+                )}
+
                 {/* ITEM DETAILS CARD */}
                 <div className="bg-white dark:bg-slate-800/50 rounded-xl p-4 border border-slate-200 dark:border-slate-700 shadow-sm space-y-4">
                     <div>
@@ -386,10 +578,20 @@ export const AuditForm: React.FC<AuditFormProps> = ({ onSuccess, initialLocation
                             />
                         </div>
                     </div>
-                    {foundItem && (
-                      <div className="pt-2 border-t border-slate-100 dark:border-slate-700 flex justify-between items-center">
-                          <span className="text-[10px] font-black text-slate-400 uppercase">System Stock</span>
-                          <span className="text-xs font-black text-slate-600 dark:text-slate-300">{systemStock} unit</span>
+                    {foundItem && !hideExpected && (
+                      <div className="pt-2 border-t border-slate-100 dark:border-slate-700 space-y-1">
+                          <div className="flex justify-between items-center">
+                              <span className="text-[10px] font-black text-slate-400 uppercase">
+                                  System Stock{stockByLocation ? ` · ${location.trim() || 'Pilih Lokasi'}` : ''}
+                              </span>
+                              <span className="text-xs font-black text-slate-600 dark:text-slate-300">{systemStock} unit</span>
+                          </div>
+                          {location && (
+                              <div className="flex justify-between items-center">
+                                  <span className="text-[10px] font-black text-slate-400 uppercase">Sudah Dihitung di {location.trim()}</span>
+                                  <span className="text-xs font-black text-slate-600 dark:text-slate-300">{countedHere} unit</span>
+                              </div>
+                          )}
                       </div>
                     )}
                 </div>
@@ -404,9 +606,10 @@ export const AuditForm: React.FC<AuditFormProps> = ({ onSuccess, initialLocation
                       placeholder="Scan atau ketik lokasi..." 
                       type="text" 
                       value={location} 
+                      readOnly={!!recountOf}
                       onChange={(e) => setLocation(e.target.value.toUpperCase())} 
                     />
-                    <button onClick={() => setScannerType('location')} className="absolute right-1 top-1 bottom-1 w-12 bg-primary text-white rounded-lg flex items-center justify-center">
+                    <button onClick={() => setScannerType('location')} disabled={!!recountOf} className="absolute right-1 top-1 bottom-1 w-12 bg-primary text-white rounded-lg flex items-center justify-center">
                         <span className="material-symbols-outlined">qr_code_scanner</span>
                     </button>
                 </div>
@@ -416,6 +619,39 @@ export const AuditForm: React.FC<AuditFormProps> = ({ onSuccess, initialLocation
             <section className="mb-6">
                 <h3 className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider mb-2 px-1">Hitung Fisik (Quantity)</h3>
                 <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+                    {packUnits.length > 0 && (
+                    <div className="p-2 space-y-2 border-b border-slate-100 dark:border-slate-700">
+                        {packUnits.map(u => (
+                            <div key={u.unit} className="flex gap-2 items-center">
+                                <div className="w-20 px-1">
+                                    <span className="block text-xs font-black text-slate-600 dark:text-slate-300">{u.unit}</span>
+                                    <span className="block text-[9px] font-bold text-slate-400">= {u.factor} {baseUnit}</span>
+                                </div>
+                                <button
+                                    onClick={() => setPackCounts(prev => ({ ...prev, [u.unit]: Math.max(0, (prev[u.unit] || 0) - 1) }))}
+                                    className="w-10 h-10 rounded-xl border-2 border-slate-100 dark:border-slate-700 flex items-center justify-center text-slate-400 active:scale-95"
+                                >
+                                    <span className="material-symbols-outlined text-lg font-bold">remove</span>
+                                </button>
+                                <input
+                                  className="flex-1 min-w-0 h-10 text-center text-lg font-black font-mono text-primary bg-slate-50 dark:bg-slate-900 border-none rounded-xl focus:ring-2 focus:ring-primary/20 outline-none"
+                                  type="number"
+                                  inputMode="numeric"
+                                  value={packCounts[u.unit] || 0}
+                                  onChange={(e) => setPackCounts(prev => ({ ...prev, [u.unit]: Math.max(0, parseInt(e.target.value) || 0) }))}
+                                  onFocus={(e) => e.target.select()}
+                                />
+                                <button
+                                    onClick={() => setPackCounts(prev => ({ ...prev, [u.unit]: (prev[u.unit] || 0) + 1 }))}
+                                    className="w-10 h-10 rounded-xl bg-primary/10 text-primary flex items-center justify-center active:scale-95"
+                                >
+                                    <span className="material-symbols-outlined text-lg font-bold">add</span>
+                                </button>
+                            </div>
+                        ))}
+                        <span className="block px-1 text-[9px] font-black text-slate-400 uppercase tracking-widest">{baseUnit} lepas</span>
+                    </div>
+                    )}
                     <div className="p-2 flex gap-2 items-center">
                         <button 
                             onClick={() => setPhysicalQty(prev => Math.max(0, prev - 1))} 
@@ -440,7 +676,20 @@ export const AuditForm: React.FC<AuditFormProps> = ({ onSuccess, initialLocation
                             <span className="material-symbols-outlined text-xl font-bold">add</span>
                         </button>
                     </div>
+
+                    {unitEntry && (
+                    <div className="px-4 py-2 border-t border-slate-100 dark:border-slate-700 flex items-center justify-between">
+                        <span className="text-[10px] font-bold text-slate-500">{formatUnitEntry(unitEntry)}</span>
+                        <span className="text-xs font-black text-primary">= {countedQty} {baseUnit}</span>
+                    </div>
+                    )}
                     
+                    {hideExpected ? (
+                    <div className="px-4 py-2 border-t border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 flex items-center gap-2">
+                        <span className="material-symbols-outlined text-[14px] text-slate-400">visibility_off</span>
+                        <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{recountOf ? 'Hitung Ulang' : 'Blind Count'} · Hitung sesuai fisik</span>
+                    </div>
+                    ) : (
                     <div className={`px-4 py-2 border-t border-slate-100 dark:border-slate-700 ${isSignificant ? 'bg-red-50 dark:bg-red-900/10' : 'bg-slate-50 dark:bg-slate-900/50'}`}>
                         <div className="flex items-center justify-between">
                             <div className="flex flex-col">
@@ -457,6 +706,7 @@ export const AuditForm: React.FC<AuditFormProps> = ({ onSuccess, initialLocation
                             </div>
                         </div>
                     </div>
+                    )}
                 </div>
             </section>
 
@@ -509,7 +759,7 @@ export const AuditForm: React.FC<AuditFormProps> = ({ onSuccess, initialLocation
             <div className="max-w-lg mx-auto flex gap-3">
                 <button 
                   disabled={isSubmitting} 
-                  onClick={() => { setSku(''); setPhysicalQty(0); setEvidencePhotos([]); setNotes(''); }} 
+                  onClick={() => { setSku(''); setPhysicalQty(0); setPackCounts({}); setEvidencePhotos([]); setNotes(''); }} 
                   className="flex-1 h-14 rounded-2xl border border-slate-200 dark:border-slate-700 font-bold text-slate-400 hover:bg-slate-50 transition-colors disabled:opacity-50"
                 >
                   Reset
@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import { BackupSnapshot, BackupRestoreMode } from '../types';
+import { listBackups, createBackup, restoreBackup, deleteBackup } from '../services/storageService';
+import { X, RotateCcw, Trash2, Plus, Archive } from 'lucide-react';
+
+interface BackupHistoryProps {
+    sessionId: string;
+    sessionName: string;
+    onClose: () => void;
+}
+
+const REASON_LABELS: Record<BackupSnapshot['reason'], string> = {
+    reset: 'Reset',
+    manual: 'Manual',
+    restore: 'Sebelum Restore',
+    legacy: 'Backup Lama'
+};
+
+export const BackupHistory: React.FC<BackupHistoryProps> = ({ sessionId, sessionName, onClose }) => {
+    const [backups, setBackups] = useState<BackupSnapshot[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [busy, setBusy] = useState(false);
+    const [status, setStatus] = useState<string | null>(null);
+
+    const fetchBackups = async () => {
+        setLoading(true);
+        try {
+            setBackups(await listBackups());
+        } catch (e: any) {
+            setStatus(e.message || "Gagal memuat daftar backup.");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchBackups();
+    }, []);
+
+    const run = async (action: () => Promise<unknown>, done: string) => {
+        setBusy(true);
+        try {
+            await action();
+            setStatus(done);
+            await fetchBackups();
+        } catch (e: any) {
+            setStatus(e.message || "Terjadi kesalahan.");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleCreate = () =>
+        run(() => createBackup(sessionId, setStatus), `Backup sesi "${sessionName}" berhasil dibuat.`);
+
+    const handleRestore = (backup: BackupSnapshot, mode: BackupRestoreMode) => {
+        const when = new Date(backup.createdAt).toLocaleString('id-ID');
+        const question = mode === 'merge'
+            ? `GABUNGKAN backup ${when}?\n\nHanya data yang sudah tidak ada yang dikembalikan. Data yang ada sekarang tidak diubah.`
+            : `TIMPA dengan backup ${when}?\n\nData ${backup.sessionName ? `sesi "${backup.sessionName}"` : 'semua sesi'} saat ini dibackup dulu, lalu diganti dengan isi backup ini.`;
+        if (!window.confirm(question)) return;
+        run(() => restoreBackup(backup.id, mode, setStatus), "Data berhasil dikembalikan dari backup!");
+    };
+
+    const handleDelete = (backup: BackupSnapshot) => {
+        if (!window.confirm(`Hapus backup ${new Date(backup.createdAt).toLocaleString('id-ID')} secara permanen?`)) return;
+        run(() => deleteBackup(backup.id), "Backup dihapus.");
+    };
+
+    return (
+        <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+            <div className="bg-white rounded-[2rem] w-full max-w-2xl shadow-2xl overflow-hidden border border-white/5 max-h-[85vh] flex flex-col">
+                <div className="p-6 bg-primary text-white flex justify-between items-center">
+                    <h3 className="font-bold flex items-center gap-2 text-sm"><Archive size={18} /> Riwayat Backup</h3>
+                    <button onClick={onClose} className="p-1 hover:bg-white/10 rounded-full transition-colors"><X size={20} /></button>
+                </div>
+
+                <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between gap-4">
+                    <p className="text-xs text-slate-500 font-medium">{status || 'Setiap reset menyimpan backup baru. Backup lama tidak pernah ditimpa.'}</p>
+                    <button
+                        onClick={handleCreate}
+                        disabled={busy}
+                        className="shrink-0 bg-primary text-white px-4 py-2 rounded-xl text-xs font-bold flex items-center gap-2 disabled:opacity-50"
+                    >
+                        <Plus size={14} /> Backup Sesi Ini
+                    </button>
+                </div>
+
+                <div className="overflow-y-auto flex-1 p-4 space-y-3">
+                    {loading ? (
+                        <p className="py-12 text-center text-[10px] font-bold text-slate-400 uppercase tracking-widest">Memuat backup...</p>
+                    ) : backups.length === 0 ? (
+                        <p className="py-12 text-center text-[10px] font-bold text-slate-400 uppercase tracking-widest">Belum ada backup</p>
+                    ) : backups.map(backup => (
+                        <div key={backup.id} className="p-4 rounded-2xl border border-slate-100 flex items-center justify-between gap-4">
+                            <div className="min-w-0">
+                                <div className="flex items-center gap-2">
+                                    <p className="text-sm font-black text-slate-800">{new Date(backup.createdAt).toLocaleString('id-ID')}</p>
+                                    <span className="text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded bg-slate-100 text-slate-600">{REASON_LABELS[backup.reason]}</span>
+                                </div>
+                                <p className="text-[11px] text-slate-400 mt-1 truncate">
+                                    {backup.createdBy} · {backup.sessionName ? `Sesi ${backup.sessionName}` : 'Semua sesi'} · {backup.auditLogCount} scan, {backup.locationStateCount} lokasi
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-1 shrink-0">
+                                <button onClick={() => handleRestore(backup, 'merge')} disabled={busy} className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-[#2D5B9E] hover:bg-blue-50 rounded-lg disabled:opacity-50 flex items-center gap-1">
+                                    <RotateCcw size={12} /> Gabung
+                                </button>
+                                <button onClick={() => handleRestore(backup, 'replace')} disabled={busy} className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-amber-600 hover:bg-amber-50 rounded-lg disabled:opacity-50">
+                                    Timpa
+                                </button>
+                                <button onClick={() => handleDelete(backup)} disabled={busy} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg disabled:opacity-50">
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,392 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AppUser, AuditRecord, CountSession, CountSessionStatus, MasterItem, MasterLocation } from '../types';
+import {
+    subscribeToCountSessions,
+    subscribeToAuditLogs,
+    getMasterData,
+    getMasterLocations,
+    createCountSession,
+    setCountSessionStatus,
+    setCountSessionBlindCount,
+    getSelectedCountSessionId,
+    setSelectedCountSessionId,
+    sessionIdOf,
+    acceptedQtyOf,
+    DEFAULT_RECOUNT_THRESHOLD_PERCENT
+} from '../services/storageService';
+import { canManageSessions, canViewVariance, canManageIntegrations } from '../services/permissions';
+import { SheetsTargetSettings } from './SheetsTargetSettings';
+import { ChevronLeft, CalendarPlus, Play, Square, CheckCircle2, X, Save, EyeOff, Eye, FileSpreadsheet } from 'lucide-react';
+
+interface CountSessionsProps {
+    currentUser: AppUser;
+    onBack: () => void;
+}
+
+interface SessionSummary {
+    records: number;
+    skus: number;
+    locations: number;
+    totalPhysical: number;
+    netVariance: number;
+    accuracy: string;
+}
+
+const STATUS_STYLES: Record<CountSessionStatus, string> = {
+    planned: 'bg-slate-100 text-slate-600',
+    active: 'bg-emerald-100 text-emerald-700',
+    closed: 'bg-amber-100 text-amber-700'
+};
+
+// Compares sessions on the quantities recorded at count time (systemQty on the
+// record), not today's master stock, so closed sessions keep their results.
+// Resolved recounts contribute their accepted quantity.
+const summarize = (logs: AuditRecord[]): SessionSummary => {
+    const bySku = new Map<string, { system: number; physical: number }>();
+    logs.forEach(log => {
+        const group = bySku.get(log.sku) || { system: 0, physical: 0 };
+        group.system += log.systemQty || 0;
+        group.physical += acceptedQtyOf(log) || 0;
+        bySku.set(log.sku, group);
+    });
+    const groups = Array.from(bySku.values());
+    const matched = groups.filter(g => g.physical === g.system).length;
+    return {
+        records: logs.length,
+        skus: bySku.size,
+        locations: new Set(logs.map(l => l.location)).size,
+        totalPhysical: groups.reduce((sum, g) => sum + g.physical, 0),
+        netVariance: groups.reduce((sum, g) => sum + (g.physical - g.system), 0),
+        accuracy: groups.length > 0 ? ((matched / groups.length) * 100).toFixed(1) : '-'
+    };
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export const CountSessions: React.FC<CountSessionsProps> = ({ currentUser, onBack }) => {
+    const [sessions, setSessions] = useState<CountSession[]>([]);
+    const [logs, setLogs] = useState<AuditRecord[]>([]);
+    const [categories, setCategories] = useState<string[]>([]);
+    const [zones, setZones] = useState<string[]>([]);
+    const [selectedId, setSelectedId] = useState(getSelectedCountSessionId());
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const [isCreating, setIsCreating] = useState(false);
+    const [sheetsSession, setSheetsSession] = useState<CountSession | null>(null);
+    const [form, setForm] = useState({ name: '', startDate: today(), endDate: '', zones: [] as string[], categories: [] as string[], blindCount: false, recountThreshold: DEFAULT_RECOUNT_THRESHOLD_PERCENT });
+
+    const canManage = canManageSessions(currentUser);
+
+    useEffect(() => {
+        const unsubSessions = subscribeToCountSessions(setSessions);
+        const unsubLogs = subscribeToAuditLogs(setLogs);
+        Promise.all([getMasterData(), getMasterLocations()]).then(([items, locations]: [MasterItem[], MasterLocation[]]) => {
+            setCategories(Array.from(new Set(items.map(i => i.category).filter(Boolean))).sort());
+            setZones(Array.from(new Set(locations.map(l => l.zone).filter(Boolean))).sort());
+        });
+        return () => {
+            unsubSessions();
+            unsubLogs();
+        };
+    }, []);
+
+    const summaries = useMemo(() => {
+        const bySession = new Map<string, AuditRecord[]>();
+        logs.forEach(log => {
+            const id = sessionIdOf(log);
+            if (!bySession.has(id)) bySession.set(id, []);
+            bySession.get(id)!.push(log);
+        });
+        const result: Record<string, SessionSummary> = {};
+        sessions.forEach(s => { result[s.id] = summarize(bySession.get(s.id) || []); });
+        return result;
+    }, [sessions, logs]);
+
+    const handleSelect = (id: string) => {
+        setSelectedCountSessionId(id);
+        setSelectedId(id);
+    };
+
+    const handleStatus = async (session: CountSession, status: CountSessionStatus) => {
+        const question = status === 'closed'
+            ? `Tutup sesi "${session.name}"? Setelah ditutup, petugas tidak dapat menambah hitungan ke sesi ini.`
+            : `Mulai sesi "${session.name}"?`;
+        if (!window.confirm(question)) return;
+        setBusyId(session.id);
+        try {
+            await setCountSessionStatus(session.id, status);
+            if (status === 'active') handleSelect(session.id);
+        } catch (e: any) {
+            alert(e.message || "Gagal mengubah status sesi.");
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleBlindCount = async (session: CountSession) => {
+        setBusyId(session.id);
+        try {
+            await setCountSessionBlindCount(session.id, !session.blindCount);
+        } catch (e: any) {
+            alert(e.message || "Gagal mengubah mode blind count.");
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const toggle = (list: string[], value: string) =>
+        list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            await createCountSession({
+                name: form.name,
+                startDate: form.startDate,
+                endDate: form.endDate || undefined,
+                scope: { zones: form.zones, categories: form.categories },
+                blindCount: form.blindCount,
+                recountThresholdPercent: form.recountThreshold
+            });
+            setIsCreating(false);
+            setForm({ name: '', startDate: today(), endDate: '', zones: [], categories: [], blindCount: false, recountThreshold: DEFAULT_RECOUNT_THRESHOLD_PERCENT });
+        } catch (err: any) {
+            alert(err.message || "Gagal membuat sesi.");
+        }
+    };
+
+    const scopeLabel = (session: CountSession) => {
+        const parts = [
+            session.scope.zones.length > 0 ? `Zona: ${session.scope.zones.join(', ')}` : '',
+            session.scope.categories.length > 0 ? `Kategori: ${session.scope.categories.join(', ')}` : ''
+        ].filter(Boolean);
+        return parts.length > 0 ? parts.join(' · ') : 'Semua zona & kategori';
+    };
+
+    return (
+        <div className="max-w-5xl mx-auto p-6 animate-fade-in">
+            <div className="flex items-center justify-between mb-8">
+                <div className="flex items-center gap-4">
+                    <button onClick={onBack} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+                        <ChevronLeft size={24} />
+                    </button>
+                    <div>
+                        <h1 className="text-2xl font-black text-slate-800 uppercase tracking-tight">Sesi Stock Opname</h1>
+                        <p className="text-xs text-slate-400 font-bold uppercase tracking-widest">Jadwal, Cakupan & Perbandingan Hasil</p>
+                    </div>
+                </div>
+                {canManage && (
+                    <button
+                        onClick={() => setIsCreating(true)}
+                        className="bg-primary text-white px-6 py-2.5 rounded-xl font-bold flex items-center gap-2 shadow-lg shadow-primary/20 hover:scale-105 active:scale-95 transition-all"
+                    >
+                        <CalendarPlus size={18} /> Sesi Baru
+                    </button>
+                )}
+            </div>
+
+            {sessions.length === 0 ? (
+                <div className="py-24 text-center opacity-40">
+                    <p className="font-bold uppercase tracking-widest text-xs">Belum ada sesi hitung</p>
+                </div>
+            ) : (
+                <div className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+                                <th className="text-left p-4">Sesi</th>
+                                <th className="text-right p-4">Record</th>
+                                <th className="text-right p-4">SKU</th>
+                                <th className="text-right p-4">Lokasi</th>
+                                <th className="text-right p-4">Total Fisik</th>
+                                <th className="text-right p-4">Net Var</th>
+                                <th className="text-right p-4">Akurasi</th>
+                                <th className="p-4"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {sessions.map(session => {
+                                const summary = summaries[session.id];
+                                const isSelected = session.id === selectedId;
+                                const hideVariance = !!session.blindCount && !canViewVariance(currentUser);
+                                return (
+                                    <tr key={session.id} className={`border-b border-slate-50 ${isSelected ? 'bg-blue-50/50' : ''}`}>
+                                        <td className="p-4">
+                                            <div className="flex items-center gap-2">
+                                                <span className="font-black text-slate-800">{session.name}</span>
+                                                <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded ${STATUS_STYLES[session.status]}`}>{session.status}</span>
+                                                {session.blindCount && (
+                                                    <span className="text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded bg-violet-100 text-violet-700">Blind</span>
+                                                )}
+                                            </div>
+                                            <p className="text-[11px] text-slate-400 mt-1">
+                                                {session.startDate}{session.endDate ? ` – ${session.endDate}` : ''} · {scopeLabel(session)}
+                                            </p>
+                                        </td>
+                                        <td className="p-4 text-right font-bold">{summary?.records ?? 0}</td>
+                                        <td className="p-4 text-right font-bold">{summary?.skus ?? 0}</td>
+                                        <td className="p-4 text-right font-bold">{summary?.locations ?? 0}</td>
+                                        <td className="p-4 text-right font-bold">{(summary?.totalPhysical ?? 0).toLocaleString()}</td>
+                                        {hideVariance ? (
+                                            <td colSpan={2} className="p-4 text-right text-[10px] font-bold text-slate-300 uppercase tracking-widest">Blind</td>
+                                        ) : (<>
+                                            <td className={`p-4 text-right font-black ${(summary?.netVariance ?? 0) < 0 ? 'text-red-500' : (summary?.netVariance ?? 0) > 0 ? 'text-[#2D5B9E]' : 'text-slate-700'}`}>
+                                                {(summary?.netVariance ?? 0) > 0 ? '+' : ''}{summary?.netVariance ?? 0}
+                                            </td>
+                                            <td className="p-4 text-right font-bold">{summary?.accuracy ?? '-'}{summary && summary.accuracy !== '-' ? '%' : ''}</td>
+                                        </>)}
+                                        <td className="p-4">
+                                            <div className="flex items-center justify-end gap-2">
+                                                {isSelected ? (
+                                                    <span className="text-[10px] font-black text-primary uppercase tracking-widest flex items-center gap-1"><CheckCircle2 size={14} /> Dipilih</span>
+                                                ) : (
+                                                    <button onClick={() => handleSelect(session.id)} className="text-[10px] font-black text-slate-500 uppercase tracking-widest px-2 py-1 rounded-lg hover:bg-slate-100">
+                                                        Pilih
+                                                    </button>
+                                                )}
+                                                {canManageIntegrations(currentUser) && (
+                                                    <button
+                                                        onClick={() => setSheetsSession(session)}
+                                                        title={session.sheetsTarget ? 'Atur Google Sheets' : 'Google Sheets belum diatur'}
+                                                        className={`p-2 rounded-lg hover:bg-emerald-50 ${session.sheetsTarget ? 'text-emerald-600' : 'text-slate-400'}`}
+                                                    >
+                                                        <FileSpreadsheet size={14} />
+                                                    </button>
+                                                )}
+                                                {canManage && session.status !== 'closed' && (
+                                                    <button
+                                                        onClick={() => handleBlindCount(session)}
+                                                        disabled={busyId === session.id}
+                                                        title={session.blindCount ? 'Tampilkan stok sistem ke petugas' : 'Sembunyikan stok sistem (blind count)'}
+                                                        className="p-2 text-violet-600 hover:bg-violet-50 rounded-lg disabled:opacity-50"
+                                                    >
+                                                        {session.blindCount ? <Eye size={14} /> : <EyeOff size={14} />}
+                                                    </button>
+                                                )}
+                                                {canManage && session.status !== 'active' && (
+                                                    <button
+                                                        onClick={() => handleStatus(session, 'active')}
+                                                        disabled={busyId === session.id}
+                                                        title={session.status === 'closed' ? 'Buka kembali' : 'Mulai'}
+                                                        className="p-2 text-emerald-600 hover:bg-emerald-50 rounded-lg disabled:opacity-50"
+                                                    >
+                                                        <Play size={14} />
+                                                    </button>
+                                                )}
+                                                {canManage && session.status === 'active' && (
+                                                    <button
+                                                        onClick={() => handleStatus(session, 'closed')}
+                                                        disabled={busyId === session.id}
+                                                        title="Tutup sesi"
+                                                        className="p-2 text-amber-600 hover:bg-amber-50 rounded-lg disabled:opacity-50"
+                                                    >
+                                                        <Square size={14} />
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {sheetsSession && (
+                <SheetsTargetSettings session={sheetsSession} onClose={() => setSheetsSession(null)} />
+            )}
+
+            {/* Create Modal */}
+            {isCreating && (
+                <div className="fixed inset-0 z-[200] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+                    <div className="bg-white rounded-[2rem] w-full max-w-md shadow-2xl overflow-hidden border border-white/5 max-h-[90vh] flex flex-col">
+                        <div className="p-6 bg-primary text-white flex justify-between items-center">
+                            <h3 className="font-bold flex items-center gap-2"><CalendarPlus size={20} /> Sesi Hitung Baru</h3>
+                            <button onClick={() => setIsCreating(false)} className="p-1 hover:bg-white/10 rounded-full transition-colors">
+                                <X size={24} />
+                            </button>
+                        </div>
+                        <form onSubmit={handleCreate} className="p-8 space-y-5 overflow-y-auto">
+                            <div className="space-y-1.5">
+                                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Nama Sesi</label>
+                                <input
+                                    type="text"
+                                    value={form.name}
+                                    onChange={e => setForm({...form, name: e.target.value})}
+                                    className="w-full rounded-xl border-slate-200 p-3 text-sm font-bold focus:ring-2 focus:ring-primary outline-none transition-all"
+                                    placeholder="Contoh: Stock Opname Q3 2026"
+                                />
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-1.5">
+                                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Mulai</label>
+                                    <input type="date" value={form.startDate} onChange={e => setForm({...form, startDate: e.target.value})} className="w-full rounded-xl border-slate-200 p-3 text-sm font-bold" />
+                                </div>
+                                <div className="space-y-1.5">
+                                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Selesai</label>
+                                    <input type="date" value={form.endDate} onChange={e => setForm({...form, endDate: e.target.value})} className="w-full rounded-xl border-slate-200 p-3 text-sm font-bold" />
+                                </div>
+                            </div>
+                            {zones.length > 0 && (
+                                <div className="space-y-1.5">
+                                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Zona (kosong = semua)</label>
+                                    <div className="flex flex-wrap gap-2">
+                                        {zones.map(zone => (
+                                            <button type="button" key={zone} onClick={() => setForm({...form, zones: toggle(form.zones, zone)})}
+                                                className={`px-3 py-1 rounded-lg text-xs font-bold border ${form.zones.includes(zone) ? 'bg-primary text-white border-primary' : 'border-slate-200 text-slate-500'}`}>
+                                                {zone}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                            {categories.length > 0 && (
+                                <div className="space-y-1.5">
+                                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Kategori (kosong = semua)</label>
+                                    <div className="flex flex-wrap gap-2">
+                                        {categories.map(category => (
+                                            <button type="button" key={category} onClick={() => setForm({...form, categories: toggle(form.categories, category)})}
+                                                className={`px-3 py-1 rounded-lg text-xs font-bold border ${form.categories.includes(category) ? 'bg-primary text-white border-primary' : 'border-slate-200 text-slate-500'}`}>
+                                                {category}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                            <label className="flex items-start gap-3 p-3 rounded-xl border border-slate-200 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={form.blindCount}
+                                    onChange={e => setForm({...form, blindCount: e.target.checked})}
+                                    className="mt-0.5 rounded border-slate-300 text-primary focus:ring-primary"
+                                />
+                                <span>
+                                    <span className="block text-xs font-black text-slate-700">Blind Count</span>
+                                    <span className="block text-[11px] text-slate-400">Petugas hanya melihat SKU, nama, batch dan lokasi. Stok sistem dan selisih hanya terlihat oleh supervisor.</span>
+                                </span>
+                            </label>
+                            <div className="space-y-1.5">
+                                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Ambang Hitung Ulang (%)</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={form.recountThreshold}
+                                    onChange={e => setForm({...form, recountThreshold: Number(e.target.value)})}
+                                    className="w-full rounded-xl border-slate-200 p-3 text-sm font-bold"
+                                />
+                                <p className="text-[11px] text-slate-400">Selisih di atas ambang ini wajib dihitung ulang oleh petugas lain.</p>
+                            </div>
+                            <div className="flex gap-4 pt-4">
+                                <button type="button" onClick={() => setIsCreating(false)} className="flex-1 py-3.5 text-slate-500 font-bold text-sm hover:bg-slate-100 rounded-xl transition-colors">Batal</button>
+                                <button type="submit" className="flex-[2] py-3.5 bg-primary text-white font-bold rounded-xl text-sm shadow-xl shadow-primary/25 flex items-center justify-center gap-2 active:scale-[0.98] transition-all">
+                                    <Save size={18} /> Simpan Sesi
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
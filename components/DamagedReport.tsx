@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { AppView, LocationState, MasterLocation } from '../types';
-import { getMasterLocations, getLocationStates } from '../services/storageService';
+import { getMasterLocations, getLocationStates, locationCodeOf } from '../services/storageService';
 
 interface DamagedReportProps {
   onNavigate: (view: AppView) => void;
@@ -23,7 +23,7 @@ export const DamagedReport: React.FC<DamagedReportProps> = ({ onNavigate }) => {
         const list = Object.values(states)
             .filter(s => s.status === 'damaged')
             .map(s => {
-                const loc = locations.find(l => l.name === s.locationId);
+                const loc = locations.find(l => l.id === locationCodeOf(locations, s.locationId));
                 return { ...s, zone: loc ? loc.zone : 'Zona Tidak Diketahui' };
             });
         
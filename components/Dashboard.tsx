@@ -3,16 +3,31 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { 
   subscribeToAuditLogs, 
   subscribeToMasterData, 
-  getMasterLocations, 
+  subscribeToMasterLocations,
+  subscribeToSkuAliases,
+  skusMatchingAlias,
+  formatUnitEntry,
   subscribeToLocationStates,
   subscribeToActivityLogs,
   deleteAuditLog,
   updateAuditLog,
   resetAllAuditData,
-  restoreAuditData
+  subscribeToCountSessions,
+  getCountSessions,
+  getSelectedCountSessionId,
+  setSelectedCountSessionId,
+  DEFAULT_COUNT_SESSION_ID,
+  COUNT_SESSION_CHANGED_EVENT,
+  acceptedQtyOf,
+  batchKeyOf,
+  resolveRecount,
+  reassignRecount
 } from '../services/storageService';
-import { AuditRecord, AppView, MasterItem, LocationState, MasterLocation, AppUser, ActivityLog } from '../types';
+import { canApproveVariance, canEditAudit, canDeleteAudit, canExportReports, canImportMaster, canManageSessions, canManageUsers, canResetData, canRestoreBackup, canViewVariance } from '../services/permissions';
+import { AuditRecord, AppView, MasterItem, LocationState, MasterLocation, SkuAlias, AppUser, ActivityLog, CountSession } from '../types';
 import { Logo } from './Logo';
+import { BackupHistory } from './BackupHistory';
+import { isSheetsMirrorEnabled, setSheetsMirrorEnabled } from '../services/googleSheets';
 import * as XLSX from 'xlsx';
 import { 
   Pencil, Trash2, X, Save, AlertTriangle, 
@@ -20,7 +35,7 @@ import {
   CheckCircle2, Package, MapPin, Clock, 
   BarChart3, Info, ChevronRight, LayoutDashboard,
   ArrowUpRight, ArrowDownRight, Minus, RefreshCw,
-  RotateCcw, LogOut, Plus, User
+  RotateCcw, LogOut, Plus, User, CalendarRange, ClipboardCheck, FileSpreadsheet, Printer, Barcode, Boxes
 } from 'lucide-react';
 
 interface DashboardProps {
@@ -29,6 +44,20 @@ interface DashboardProps {
   onLogout: () => void;
 }
 
+const RECOUNT_STATUS_LABELS: Record<NonNullable<AuditRecord['countStatus']>, string> = {
+    recount_required: 'Perlu Hitung Ulang',
+    recounted: 'Menunggu Keputusan',
+    resolved: 'Diterima'
+};
+
+interface BatchVariance {
+  batchNumber: string;
+  expiryDate: string;
+  system: number;
+  physical: number;
+  variance: number;
+}
+
 interface GroupedItem {
   sku: string;
   name: string;
@@ -41,12 +70,42 @@ interface GroupedItem {
   status: 'matched' | 'shortage' | 'surplus';
   locationsCount: number;
   master?: MasterItem;
+  // Empty when master data does not track batches for this SKU
+  batches: BatchVariance[];
 }
 
+// System stock is kept per batch in master data, so the count is compared
+// batch by batch as well. Batches counted but missing from master data have
+// no system stock.
+const batchVariancesOf = (masterRows: MasterItem[], logs: AuditRecord[]): BatchVariance[] => {
+  if (!masterRows.some(m => m.batchNumber && m.batchNumber !== '-')) return [];
+  const batches = new Map<string, BatchVariance>();
+  const batchOf = (item: { batchNumber?: string; expiryDate?: string }) => {
+    const key = batchKeyOf(item);
+    if (!batches.has(key)) {
+      const [batchNumber, expiryDate] = key.split('|');
+      batches.set(key, { batchNumber, expiryDate, system: 0, physical: 0, variance: 0 });
+    }
+    return batches.get(key)!;
+  };
+  masterRows.forEach(m => { batchOf(m).system += m.systemStock; });
+  logs.forEach(l => { batchOf(l).physical += acceptedQtyOf(l); });
+  return Array.from(batches.values())
+    .map(b => ({ ...b, variance: b.physical - b.system }))
+    .sort((a, b) => a.expiryDate.localeCompare(b.expiryDate) || a.batchNumber.localeCompare(b.batchNumber));
+};
+
 export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, onLogout }) => {
   const [groupedData, setGroupedData] = useState<GroupedItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [errorStatus, setErrorStatus] = useState<string | null>(null);
+
+  // Count session shown on the dashboard; shared with AuditForm via storageService
+  const [sessionId, setSessionId] = useState(getSelectedCountSessionId());
+  const [countSessions, setCountSessions] = useState<CountSession[]>(getCountSessions());
+  const selectedSession = countSessions.find(s => s.id === sessionId);
+  // In a blind-count session only supervisors see system quantities and variance
+  const hideVariance = !!selectedSession?.blindCount && !canViewVariance(currentUser);
   
   const [editingLog, setEditingLog] = useState<AuditRecord | null>(null);
   const [editForm, setEditForm] = useState({
@@ -63,7 +122,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
   
   // State for Reset/Restore Process
   const [isResetting, setIsResetting] = useState(false);
-  const [isRestoring, setIsRestoring] = useState(false);
+  const [showBackups, setShowBackups] = useState(false);
+  const sheetsMirror = isSheetsMirrorEnabled();
   
   // Notifications State
   const [notifications, setNotifications] = useState<ActivityLog[]>([]);
@@ -81,6 +141,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
   });
 
   const [searchQuery, setSearchQuery] = useState('');
+  const [skuAliases, setSkuAliases] = useState<SkuAlias[]>([]);
   const [activeFilter, setActiveFilter] = useState<'all' | 'shortage' | 'surplus' | 'matched'>('all');
 
   const dataRefs = React.useRef<{
@@ -123,11 +184,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
                 variance: 0,
                 status: 'matched',
                 locationsCount: 0,
-                master: m
+                master: m,
+                batches: []
             };
         }
         groups[log.sku].logs.push(log);
-        groups[log.sku].totalPhysical += log.physicalQty; 
+        groups[log.sku].totalPhysical += acceptedQtyOf(log); 
     });
 
     let globalVariance = 0, shortageItems = 0, surplusItems = 0, totalAuditQty = 0;
@@ -139,6 +201,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
         else if (g.variance > 0) { g.status = 'surplus'; surplusItems++; }
         else { g.status = 'matched'; }
         g.locationsCount = new Set(g.logs.map(l => l.location)).size;
+        g.batches = batchVariancesOf(masterMap.get(g.sku) || [], g.logs);
         return g;
     });
 
@@ -165,21 +228,21 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
   }, []);
 
   useEffect(() => {
-    getMasterLocations().then(locs => {
-        dataRefs.current.locations = locs;
-        processDashboardData();
-    });
-
     const handleListenerError = (err: any) => {
         if (err.code === 'permission-denied') {
             setErrorStatus("Akses Dibatasi - Hubungi Admin");
         }
     };
 
+    const unsubLocations = subscribeToMasterLocations(locs => {
+        dataRefs.current.locations = locs;
+        processDashboardData();
+    }, handleListenerError);
+
     const unsubLogs = subscribeToAuditLogs(data => { 
         dataRefs.current.logs = data; 
         processDashboardData(); 
-    }, handleListenerError);
+    }, handleListenerError, sessionId);
 
     const unsubMaster = subscribeToMasterData(data => { 
         dataRefs.current.master = data; 
@@ -189,7 +252,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
     const unsubStates = subscribeToLocationStates(data => { 
         dataRefs.current.states = data; 
         processDashboardData(); 
-    }, handleListenerError);
+    }, handleListenerError, sessionId);
+
+    const unsubSessions = subscribeToCountSessions(setCountSessions, handleListenerError);
+
+    const unsubAliases = subscribeToSkuAliases(setSkuAliases, handleListenerError);
 
     const unsubActivities = subscribeToActivityLogs(data => {
         setNotifications(prev => {
@@ -204,27 +271,34 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
         });
     }, handleListenerError);
 
+    const handleSessionChange = () => setSessionId(getSelectedCountSessionId());
+
     window.addEventListener('auditDataChanged', processDashboardData);
+    window.addEventListener(COUNT_SESSION_CHANGED_EVENT, handleSessionChange);
 
     return () => {
         unsubLogs();
         unsubMaster();
         unsubStates();
+        unsubLocations();
+        unsubSessions();
+        unsubAliases();
         unsubActivities();
         window.removeEventListener('auditDataChanged', processDashboardData);
+        window.removeEventListener(COUNT_SESSION_CHANGED_EVENT, handleSessionChange);
     };
-  }, [processDashboardData]);
+  }, [processDashboardData, sessionId]);
 
   const handleDelete = async (id: string, e: React.MouseEvent) => {
       e.preventDefault(); 
       e.stopPropagation(); 
       
-      if (currentUser.role !== 'admin') {
-          alert("Akses Ditolak: Hanya ADMIN yang dapat menghapus data scan.");
+      if (!canDeleteAudit(currentUser)) {
+          alert("Akses Ditolak: Role Anda tidak dapat menghapus data scan.");
           return;
       }
 
-      if (window.confirm("Hapus data scan ini?")) {
+      if (window.confirm("Hapus data scan ini?\n\nData dapat dipulihkan dari menu Aktivitas.")) {
           try {
               // Delete from firestore/local
               await deleteAuditLog(id);
@@ -263,21 +337,46 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
           
           setEditingLog(null);
           // Listener will update UI
-      } catch (error) {
-          alert("Gagal update.");
+      } catch (error: any) {
+          alert(error.message || "Gagal update.");
+      }
+  };
+
+  const handleResolveRecount = async (log: AuditRecord, acceptedQty: number) => {
+      if (!window.confirm(`Tetapkan jumlah akhir ${log.sku} di ${log.location} sebesar ${acceptedQty}?`)) return;
+      try {
+          await resolveRecount(log.id, acceptedQty);
+      } catch (e: any) {
+          alert(e.message || "Gagal menetapkan jumlah akhir.");
+      }
+  };
+
+  const handleResolveCustom = (log: AuditRecord) => {
+      const input = window.prompt(`Jumlah akhir untuk ${log.sku} di ${log.location}:`, String(log.recount?.physicalQty ?? log.physicalQty));
+      if (input === null) return;
+      const qty = Number(input);
+      if (!Number.isFinite(qty) || qty < 0) { alert("Jumlah tidak valid."); return; }
+      handleResolveRecount(log, qty);
+  };
+
+  const handleReassignRecount = async (log: AuditRecord, assignee: string) => {
+      try {
+          await reassignRecount(log.id, assignee);
+      } catch (e: any) {
+          alert(e.message || "Gagal mengubah petugas hitung ulang.");
       }
   };
 
   const handleResetAllData = async () => {
-      if (currentUser.role !== 'admin') {
-          alert("Akses Ditolak: Hanya ADMIN yang dapat menghapus semua data.");
+      if (!canResetData(currentUser)) {
+          alert("Akses Ditolak: Role Anda tidak dapat menghapus semua data.");
           return;
       }
       
-      if (window.confirm("PERINGATAN: Tindakan ini akan MEMINDAHKAN SEMUA DATA SCAN saat ini ke Backup dan mengosongkan Dashboard.\n\nDatabase Barang (Master Data) AMAN.\n\nLanjutkan reset?")) {
+      if (window.confirm(`PERINGATAN: Tindakan ini akan MEMINDAHKAN SEMUA DATA SCAN sesi "${selectedSession?.name || sessionId}" ke Backup dan mengosongkan Dashboard.\n\nSesi lain dan Database Barang (Master Data) AMAN.\n\nLanjutkan reset?`)) {
           setIsResetting(true);
           try {
-              await resetAllAuditData();
+              await resetAllAuditData(sessionId);
               alert("Data berhasil di-reset. Siap untuk sesi audit baru.");
           } catch (e: any) {
               alert(e.message || "Gagal melakukan reset.");
@@ -287,25 +386,6 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
       }
   };
 
-  const handleRestoreData = async () => {
-      if (currentUser.role !== 'admin') {
-          alert("Akses Ditolak: Hanya ADMIN yang dapat mengembalikan data.");
-          return;
-      }
-
-      if (window.confirm("KEMBALIKAN DATA?\n\nTindakan ini akan mengambil data dari BACKUP TERAKHIR dan menggabungkannya kembali ke Dashboard.\n\nApakah Anda yakin?")) {
-          setIsRestoring(true);
-          try {
-              await restoreAuditData();
-              alert("Data berhasil dikembalikan dari backup!");
-          } catch (e: any) {
-              alert(e.message || "Gagal mengembalikan data.");
-          } finally {
-              setIsRestoring(false);
-          }
-      }
-  };
-
   const handleExportReport = () => {
     const exportRows = groupedData.flatMap(group => 
         group.logs.map(log => {
@@ -315,15 +395,20 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
             return {
                 "Kode Barang": group.sku,
                 "Nama Barang": group.name,
-                "QTY System": log.systemQty ?? 0,
+                ...(hideVariance ? {} : { "QTY System": log.systemQty ?? 0 }),
                 "QTY Fisik": log.physicalQty,
-                "Variance": log.variance ?? (log.physicalQty - (log.systemQty ?? 0)),
+                "Rincian Satuan": log.unitEntry ? formatUnitEntry(log.unitEntry) : '-',
+                "QTY Recount": log.recount?.physicalQty ?? '-',
+                "QTY Diterima": acceptedQtyOf(log),
+                "Status Hitung": log.countStatus ? RECOUNT_STATUS_LABELS[log.countStatus] : '-',
+                ...(hideVariance ? {} : { "Variance": acceptedQtyOf(log) - (log.systemQty ?? 0) }),
                 "Satuan": group.unit,
                 "Lokasi": log.location,
                 "Batch": log.batchNumber || '-',
                 "Expired": log.expiryDate || '-',
                 "Team": log.teamMember,
                 "Catatan": log.notes || '-',
+                "Sesi": selectedSession?.name || sessionId,
                 "Jumlah Foto": log.evidencePhotos?.length || 0,
                 "Link Foto Bukti": photoLink,
                 "Tanggal Scan": new Date(log.timestamp).toLocaleString('id-ID')
@@ -333,7 +418,67 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
     const ws = XLSX.utils.json_to_sheet(exportRows);
     const wb = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(wb, ws, "AuditReport");
-    XLSX.writeFile(wb, `Audit_Report_${new Date().toISOString().slice(0,10)}.xlsx`);
+    const batchRows = groupedData.flatMap(group =>
+        group.batches.map(batch => ({
+            "Kode Barang": group.sku,
+            "Nama Barang": group.name,
+            "Batch": batch.batchNumber,
+            "Expired": batch.expiryDate,
+            ...(hideVariance ? {} : { "QTY System": batch.system }),
+            "QTY Fisik": batch.physical,
+            ...(hideVariance ? {} : { "Variance": batch.variance }),
+            "Satuan": group.unit
+        }))
+    );
+    if (batchRows.length > 0) XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(batchRows), "PerBatch");
+    const sessionLabel = (selectedSession?.name || sessionId).replace(/[^a-zA-Z0-9]+/g, '_');
+    XLSX.writeFile(wb, `Audit_Report_${sessionLabel}_${new Date().toISOString().slice(0,10)}.xlsx`);
+  };
+
+  // First count, recount and accepted quantity side by side. While a recount is
+  // open, only the first counter and supervisors see the first count.
+  const hidesFirstCount = (log: AuditRecord) =>
+      log.countStatus === 'recount_required' && !canApproveVariance(currentUser) && log.teamMember !== currentUser.name;
+
+  const renderRecount = (log: AuditRecord, unit: string) => {
+      const canResolve = canApproveVariance(currentUser);
+      const showFirst = !hidesFirstCount(log);
+      const counters = Array.from(new Set(dataRefs.current.logs.map(l => l.teamMember))).filter(name => name && name !== log.teamMember);
+      return (
+          <div className="mt-2 p-2.5 rounded-lg border border-amber-100 bg-amber-50/60 space-y-1.5">
+              <span className={`text-[9px] font-black uppercase tracking-widest ${log.countStatus === 'resolved' ? 'text-[#27AE60]' : 'text-amber-600'}`}>
+                  {RECOUNT_STATUS_LABELS[log.countStatus!]}
+              </span>
+              <div className="grid grid-cols-3 gap-2 text-[10px] font-bold text-slate-600">
+                  <div><span className="block text-[8px] text-slate-400 uppercase">Hitung 1</span>{showFirst ? `${log.physicalQty} ${unit}` : '—'}</div>
+                  <div><span className="block text-[8px] text-slate-400 uppercase">Recount</span>{log.recount ? `${log.recount.physicalQty} ${unit}` : '—'}</div>
+                  <div><span className="block text-[8px] text-slate-400 uppercase">Diterima</span>{log.acceptedQty !== undefined ? `${log.acceptedQty} ${unit}` : '—'}</div>
+              </div>
+              <p className="text-[10px] text-slate-400">
+                  {log.recount ? `Recount: ${log.recount.teamMember}` : `Petugas: ${log.recountAssignee || 'belum ditugaskan'}`}
+                  {log.resolvedBy && ` · Diputuskan: ${log.resolvedBy}`}
+              </p>
+              {canResolve && log.countStatus === 'recount_required' && counters.length > 0 && (
+                  <select
+                      value={log.recountAssignee || ''}
+                      onChange={e => handleReassignRecount(log, e.target.value)}
+                      className="w-full text-[10px] font-bold rounded-md border-slate-200 py-1"
+                  >
+                      <option value="" disabled>Tugaskan ke...</option>
+                      {counters.map(name => <option key={name} value={name}>{name}</option>)}
+                  </select>
+              )}
+              {canResolve && log.countStatus !== 'resolved' && (
+                  <div className="flex flex-wrap gap-1">
+                      <button onClick={() => handleResolveRecount(log, log.physicalQty)} className="px-2 py-1 text-[9px] font-black uppercase rounded-md bg-white border border-slate-200 text-slate-600 hover:border-primary">Pakai Hitung 1</button>
+                      {log.recount && (
+                          <button onClick={() => handleResolveRecount(log, log.recount!.physicalQty)} className="px-2 py-1 text-[9px] font-black uppercase rounded-md bg-white border border-slate-200 text-slate-600 hover:border-primary">Pakai Recount</button>
+                      )}
+                      <button onClick={() => handleResolveCustom(log)} className="px-2 py-1 text-[9px] font-black uppercase rounded-md bg-white border border-slate-200 text-slate-600 hover:border-primary">Lainnya</button>
+                  </div>
+              )}
+          </div>
+      );
   };
 
   const toggleGroupExpand = (sku: string) => {
@@ -345,9 +490,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
     });
   };
 
+  // Searching by a barcode or supplier code finds the SKU it is an alias of
+  const aliasMatches = skusMatchingAlias(skuAliases, searchQuery);
   const filteredGroups = groupedData.filter(g => {
-      const matchSearch = g.name.toLowerCase().includes(searchQuery.toLowerCase()) || g.sku.toLowerCase().includes(searchQuery.toLowerCase());
-      const matchFilter = activeFilter === 'all' ? true : g.status === activeFilter;
+      const matchSearch = g.name.toLowerCase().includes(searchQuery.toLowerCase()) || g.sku.toLowerCase().includes(searchQuery.toLowerCase()) || aliasMatches.has(g.sku.toLowerCase());
+      const matchFilter = activeFilter === 'all' || hideVariance ? true : g.status === activeFilter;
       return matchSearch && matchFilter;
   });
 
@@ -371,6 +518,15 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
           </div>
       )}
 
+      {/* BACKUP HISTORY */}
+      {showBackups && (
+        <BackupHistory
+            sessionId={sessionId}
+            sessionName={selectedSession?.name || sessionId}
+            onClose={() => setShowBackups(false)}
+        />
+      )}
+
       {/* EDIT MODAL */}
       {editingLog && (
         <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
@@ -517,37 +673,101 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
                             <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">System Settings</p>
                         </div>
                         
+                        {canExportReports(currentUser) && (
+                            <button 
+                                onClick={() => { handleExportReport(); setShowAdminMenu(false); }}
+                                className="w-full px-4 py-2.5 text-left text-sm font-bold text-slate-600 hover:bg-slate-50 flex items-center gap-3 transition-colors"
+                            >
+                                <BarChart3 size={16} /> Export Excel Report
+                            </button>
+                        )}
+
                         <button 
-                            onClick={() => { handleExportReport(); setShowAdminMenu(false); }}
+                            onClick={() => { onNavigate(AppView.COUNT_SESSIONS); setShowAdminMenu(false); }}
                             className="w-full px-4 py-2.5 text-left text-sm font-bold text-slate-600 hover:bg-slate-50 flex items-center gap-3 transition-colors"
                         >
-                            <BarChart3 size={16} /> Export Excel Report
+                            <CalendarRange size={16} /> Count Sessions
                         </button>
 
-                        {currentUser.role === 'admin' && (
-                            <>
-                                <div className="h-[1px] bg-slate-50 my-1"></div>
-                                <button 
-                                    onClick={() => { onNavigate(AppView.USER_MANAGEMENT); setShowAdminMenu(false); }}
-                                    className="w-full px-4 py-2.5 text-left text-sm font-bold text-slate-600 hover:bg-slate-50 flex items-center gap-3 transition-colors"
-                                >
-                                    <User size={16} /> User Management (Supabase)
-                                </button>
-                                <button 
-                                    onClick={() => { handleRestoreData(); setShowAdminMenu(false); }}
-                                    disabled={isRestoring}
-                                    className="w-full px-4 py-2.5 text-left text-sm font-bold text-[#2D5B9E] hover:bg-blue-50 flex items-center gap-3 transition-colors disabled:opacity-50"
-                                >
-                                    <RotateCcw size={16} className={isRestoring ? 'animate-spin' : ''} /> Restore from Backup
-                                </button>
-                                <button 
-                                    onClick={() => { handleResetAllData(); setShowAdminMenu(false); }}
-                                    disabled={isResetting}
-                                    className="w-full px-4 py-2.5 text-left text-sm font-bold text-red-500 hover:bg-red-50 flex items-center gap-3 transition-colors disabled:opacity-50"
-                                >
-                                    <RefreshCw size={16} className={isResetting ? 'animate-spin' : ''} /> Reset All Audit Data
-                                </button>
-                            </>
+                        {canImportMaster(currentUser) && (
+                            <button 
+                                onClick={() => { onNavigate(AppView.MASTER_LOCATIONS); setShowAdminMenu(false); }}
+                                className="w-full px-4 py-2.5 text-left text-sm font-bold text-slate-600 hover:bg-slate-50 flex items-center gap-3 transition-colors"
+                            >
+                                <MapPin size={16} /> Lokasi Rak
+                            </button>
+                        )}
+
+                        {canImportMaster(currentUser) && (
+                            <button 
+                                onClick={() => { onNavigate(AppView.SKU_ALIASES); setShowAdminMenu(false); }}
+                                className="w-full px-4 py-2.5 text-left text-sm font-bold text-slate-600 hover:bg-slate-50 flex items-center gap-3 transition-colors"
+                            >
+                                <Barcode size={16} /> Alias SKU
+                            </button>
+                        )}
+
+                        {canImportMaster(currentUser) && (
+                            <button 
+                                onClick={() => { onNavigate(AppView.UNIT_CONVERSIONS); setShowAdminMenu(false); }}
+                                className="w-full px-4 py-2.5 text-left text-sm font-bold text-slate-600 hover:bg-slate-50 flex items-center gap-3 transition-colors"
+                            >
+                                <Boxes size={16} /> Satuan Kemasan
+                            </button>
+                        )}
+
+                        {canManageSessions(currentUser) && (
+                            <button 
+                                onClick={() => { onNavigate(AppView.LABELS); setShowAdminMenu(false); }}
+                                className="w-full px-4 py-2.5 text-left text-sm font-bold text-slate-600 hover:bg-slate-50 flex items-center gap-3 transition-colors"
+                            >
+                                <Printer size={16} /> Cetak Label
+                            </button>
+                        )}
+
+                        {canViewVariance(currentUser) && (
+                            <button 
+                                onClick={() => { onNavigate(AppView.APPROVALS); setShowAdminMenu(false); }}
+                                className="w-full px-4 py-2.5 text-left text-sm font-bold text-slate-600 hover:bg-slate-50 flex items-center gap-3 transition-colors"
+                            >
+                                <ClipboardCheck size={16} /> Approval Selisih
+                            </button>
+                        )}
+
+                        <button 
+                            onClick={() => { setSheetsMirrorEnabled(!sheetsMirror); setShowAdminMenu(false); }}
+                            className="w-full px-4 py-2.5 text-left text-sm font-bold text-slate-600 hover:bg-slate-50 flex items-center gap-3 transition-colors"
+                        >
+                            <FileSpreadsheet size={16} /> Salin ke Sheets: {sheetsMirror ? 'Aktif' : 'Nonaktif'}
+                        </button>
+
+                        {(canManageUsers(currentUser) || canRestoreBackup(currentUser) || canResetData(currentUser)) && (
+                            <div className="h-[1px] bg-slate-50 my-1"></div>
+                        )}
+                        {canManageUsers(currentUser) && (
+                            <button 
+                                onClick={() => { onNavigate(AppView.USER_MANAGEMENT); setShowAdminMenu(false); }}
+                                className="w-full px-4 py-2.5 text-left text-sm font-bold text-slate-600 hover:bg-slate-50 flex items-center gap-3 transition-colors"
+                            >
+                                <User size={16} /> User Management
+                            </button>
+                        )}
+                        {canRestoreBackup(currentUser) && (
+                            <button 
+                                onClick={() => { setShowBackups(true); setShowAdminMenu(false); }}
+                                className="w-full px-4 py-2.5 text-left text-sm font-bold text-[#2D5B9E] hover:bg-blue-50 flex items-center gap-3 transition-colors"
+                            >
+                                <RotateCcw size={16} /> Backup History
+                            </button>
+                        )}
+                        {canResetData(currentUser) && (
+                            <button 
+                                onClick={() => { handleResetAllData(); setShowAdminMenu(false); }}
+                                disabled={isResetting}
+                                className="w-full px-4 py-2.5 text-left text-sm font-bold text-red-500 hover:bg-red-50 flex items-center gap-3 transition-colors disabled:opacity-50"
+                            >
+                                <RefreshCw size={16} className={isResetting ? 'animate-spin' : ''} /> Reset All Audit Data
+                            </button>
                         )}
 
                         <div className="h-[1px] bg-slate-50 my-1"></div>
@@ -585,6 +805,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
                 <p className="text-[11px] text-slate-400 font-medium">Total Fisik Terhitung</p>
             </div>
 
+            {!hideVariance && (<>
             <div className="bg-white p-6 rounded-xl shadow-[0_4px_20px_rgba(0,0,0,0.03)] border border-slate-50 flex flex-col">
                 <div className="flex items-center justify-between mb-6">
                     <div className="bg-[#E9F7EF] text-[#27AE60] p-3 rounded-lg">
@@ -619,6 +840,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
                 </p>
                 <p className="text-[11px] text-slate-400 font-medium">Total Variance (Net Var)</p>
             </div>
+            </>)}
       </section>
 
       {/* FILTERS & DATE */}
@@ -629,7 +851,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
                     { id: 'shortage', label: 'Shortage' },
                     { id: 'surplus', label: 'Surplus' },
                     { id: 'matched', label: 'Matched' }
-                ].map((f) => (
+                ].filter(f => !hideVariance || f.id === 'all').map((f) => (
                     <button 
                         key={f.id}
                         onClick={() => setActiveFilter(f.id as any)} 
@@ -645,6 +867,21 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
             </div>
 
             <div className="flex items-center gap-3 w-full sm:w-auto justify-end flex-wrap">
+                <div className="flex items-center gap-2 bg-white pl-3 pr-1 py-1 rounded-xl border border-slate-100 shadow-sm">
+                    <CalendarRange size={16} className="text-slate-400" />
+                    <select
+                        value={sessionId}
+                        onChange={(e) => setSelectedCountSessionId(e.target.value)}
+                        className="border-none bg-transparent text-xs font-bold text-slate-600 focus:ring-0 py-1.5 pr-8"
+                        title="Sesi hitung"
+                    >
+                        {!selectedSession && <option value={sessionId}>{sessionId === DEFAULT_COUNT_SESSION_ID ? 'Stock Opname Awal' : sessionId}</option>}
+                        {countSessions.map(s => (
+                            <option key={s.id} value={s.id}>{s.name} ({s.status})</option>
+                        ))}
+                    </select>
+                </div>
+
                 <button 
                     onClick={handleExportReport}
                     className="flex items-center gap-2 text-white bg-emerald-600 hover:bg-emerald-700 active:scale-[0.98] transition-all px-5 py-2.5 rounded-xl border border-emerald-700 font-extrabold text-xs shadow-md shadow-emerald-600/15 cursor-pointer"
@@ -688,9 +925,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
                     <div className="flex-1 p-8 border-b lg:border-b-0 lg:border-r border-slate-100 relative">
                         <div className="flex justify-between items-start mb-6">
                             <span className="bg-[#F3F6F9] text-[#2D5B9E] px-4 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-tight">SKU: {group.sku}</span>
-                            <span className={`${statusColor} px-4 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest shadow-sm`}>
-                                {group.status}
-                            </span>
+                            {!hideVariance && (
+                                <span className={`${statusColor} px-4 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest shadow-sm`}>
+                                    {group.status}
+                                </span>
+                            )}
                         </div>
                         
                         <h3 className="text-2xl font-black text-slate-800 uppercase tracking-tight mb-5 leading-tight">{group.name}</h3>
@@ -703,12 +942,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
                                     {group.totalPhysical.toLocaleString()} <span className="text-xs font-bold text-slate-500">{group.unit}</span>
                                 </span>
                             </div>
-                            <div>
-                                <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest block">Total QTY System</span>
-                                <span className="text-base font-black text-slate-650 dark:text-slate-300 block mt-1">
-                                    {group.totalSystem.toLocaleString()} <span className="text-xs font-bold text-slate-500">{group.unit}</span>
-                                </span>
-                            </div>
+                            {!hideVariance && (
+                                <div>
+                                    <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest block">Total QTY System</span>
+                                    <span className="text-base font-black text-slate-650 dark:text-slate-300 block mt-1">
+                                        {group.totalSystem.toLocaleString()} <span className="text-xs font-bold text-slate-500">{group.unit}</span>
+                                    </span>
+                                </div>
+                            )}
                             <div className="col-span-2 sm:col-span-1 border-t sm:border-t-0 sm:border-l border-slate-200/60 dark:border-slate-800/60 pt-3 sm:pt-0 sm:pl-4">
                                 <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest block">Lokasi Berbeda</span>
                                 <span className="text-base font-black text-slate-700 dark:text-slate-300 block mt-1">
@@ -725,7 +966,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
                                 <div className="text-[11px] font-bold text-slate-600 dark:text-slate-300 leading-relaxed">
                                     <span className="text-slate-400 dark:text-slate-500 font-medium">Berdasarkan Lokasi:</span>{" "}
                                     <span className="font-extrabold text-slate-800 dark:text-slate-100 bg-white dark:bg-slate-900 px-1.5 py-0.5 rounded border border-slate-200/50 dark:border-slate-800">
-                                        {group.logs.map(l => l.physicalQty).join(' + ')}
+                                        {group.logs.map(l => acceptedQtyOf(l)).join(' + ')}
                                     </span>
                                     {" = "}
                                     <span className="font-black text-sky-600 dark:text-[#00A3FF]">
@@ -735,6 +976,38 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
                             </div>
                         )}
                         
+                        {group.batches.length > 0 && (
+                            <div className="mb-5 rounded-xl border border-slate-100 dark:border-slate-800/60 overflow-hidden">
+                                <table className="w-full text-[11px]">
+                                    <thead className="bg-[#F8FAFC] dark:bg-slate-900/50 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                                        <tr>
+                                            <th className="px-3 py-2 text-left">Batch</th>
+                                            <th className="px-3 py-2 text-left">Expired</th>
+                                            {!hideVariance && <th className="px-3 py-2 text-right">System</th>}
+                                            <th className="px-3 py-2 text-right">Fisik</th>
+                                            {!hideVariance && <th className="px-3 py-2 text-right">Selisih</th>}
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100 dark:divide-slate-800/60 font-bold text-slate-600 dark:text-slate-300">
+                                        {group.batches.map(batch => (
+                                            <tr key={`${batch.batchNumber}|${batch.expiryDate}`}>
+                                                <td className="px-3 py-2 font-mono">{batch.batchNumber}</td>
+                                                <td className="px-3 py-2">{batch.expiryDate}</td>
+                                                {!hideVariance && <td className="px-3 py-2 text-right">{batch.system}</td>}
+                                                <td className="px-3 py-2 text-right">{batch.physical}</td>
+                                                {!hideVariance && (
+                                                    <td className={`px-3 py-2 text-right font-black ${batch.variance < 0 ? 'text-red-500' : batch.variance > 0 ? 'text-amber-600' : 'text-emerald-600'}`}>
+                                                        {batch.variance > 0 ? `+${batch.variance}` : batch.variance}
+                                                    </td>
+                                                )}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+
+                        {!hideVariance && (
                         <div className="mt-auto">
                             <div className="flex justify-between items-center mb-3">
                                 <span className="text-[11px] font-bold text-slate-400 uppercase tracking-wider">Accuracy Confidence</span>
@@ -747,6 +1020,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
                                 ></div>
                             </div>
                         </div>
+                        )}
                     </div>
 
                     {/* Right Section: Activity Log */}
@@ -764,13 +1038,15 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
                                             <div className="flex items-center gap-2">
                                                 <h4 className="text-sm font-black text-slate-800 leading-tight">Physical Count Input</h4>
                                                 <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                                                    <button 
-                                                        onClick={(e) => handleEditClick(log, e)}
-                                                        className="p-1 text-slate-400 hover:text-primary hover:bg-white rounded-md transition-all"
-                                                    >
-                                                        <Pencil size={12} />
-                                                    </button>
-                                                    {currentUser.role === 'admin' && (
+                                                    {canEditAudit(currentUser) && (
+                                                        <button 
+                                                            onClick={(e) => handleEditClick(log, e)}
+                                                            className="p-1 text-slate-400 hover:text-primary hover:bg-white rounded-md transition-all"
+                                                        >
+                                                            <Pencil size={12} />
+                                                        </button>
+                                                    )}
+                                                    {canDeleteAudit(currentUser) && (
                                                         <button 
                                                             onClick={(e) => handleDelete(log.id, e)}
                                                             className="p-1 text-slate-400 hover:text-red-500 hover:bg-white rounded-md transition-all"
@@ -781,10 +1057,19 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, currentUser, o
                                                 </div>
                                             </div>
                                             <p className="text-[11px] text-slate-400 font-medium mt-1">Operator: {log.teamMember}</p>
+                                            {log.countStatus && renderRecount(log, group.unit)}
+                                            {log.approvalStatus && !hideVariance && (
+                                                <span className={`inline-block mt-1 text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded ${log.approvalStatus === 'approved' ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-600'}`}>
+                                                    {log.approvalStatus === 'approved' ? 'Selisih Disetujui' : 'Selisih Ditolak'}
+                                                </span>
+                                            )}
                                             <div className="flex items-center gap-3 mt-2">
                                                 <div className="flex items-center gap-1 bg-white px-2 py-0.5 rounded border border-slate-100">
                                                     <Package size={10} className="text-slate-400" />
-                                                    <span className="text-[10px] font-bold text-slate-700">{log.physicalQty} {group.unit}</span>
+                                                    <span className="text-[10px] font-bold text-slate-700">{hidesFirstCount(log) ? '—' : `${acceptedQtyOf(log)} ${group.unit}`}</span>
+                                                    {log.unitEntry && log.acceptedQty === undefined && !hidesFirstCount(log) && (
+                                                        <span className="text-[9px] text-slate-400">({formatUnitEntry(log.unitEntry)})</span>
+                                                    )}
                                                 </div>
                                                 <div className="flex items-center gap-1 bg-white px-2 py-0.5 rounded border border-slate-100">
                                                     <MapPin size={10} className="text-slate-400" />
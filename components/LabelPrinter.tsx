@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { MasterItem, MasterLocation, SkuAlias } from '../types';
+import { getMasterData, getMasterLocations, getSkuAliases, masterItemKey } from '../services/storageService';
+import { LABEL_SIZES, LabelSymbology, LabelLayout, Label, itemLabel, locationLabel, renderSymbol, printLabels, labelCodeProblem } from '../services/labels';
+import { ChevronLeft, Printer, Search, MapPin, Package, QrCode, Barcode } from 'lucide-react';
+
+interface LabelPrinterProps {
+    onBack: () => void;
+}
+
+type LabelSource = 'locations' | 'items';
+
+interface LabelRow {
+    key: string;
+    label: Label;
+    search: string;
+}
+
+const locationRows = (locations: MasterLocation[]): LabelRow[] =>
+    locations.map(l => ({ key: l.id, label: locationLabel(l), search: `${l.id} ${l.name} ${l.zone}`.toLowerCase() }));
+
+// Alias codes are searchable too, so scanning a carton barcode into the search box finds the item
+const itemRows = (items: MasterItem[], aliases: SkuAlias[]): LabelRow[] => {
+    const codesBySku = new Map<string, string[]>();
+    aliases.forEach(a => codesBySku.set(a.sku.toLowerCase(), [...(codesBySku.get(a.sku.toLowerCase()) || []), a.alias]));
+    return items.map(i => ({
+        key: masterItemKey(i),
+        label: itemLabel(i),
+        search: [i.sku, i.name, i.batchNumber, ...(codesBySku.get(i.sku.toLowerCase()) || [])].join(' ').toLowerCase()
+    }));
+};
+
+export const LabelPrinter: React.FC<LabelPrinterProps> = ({ onBack }) => {
+    const [source, setSource] = useState<LabelSource>('locations');
+    const [locations, setLocations] = useState<MasterLocation[]>([]);
+    const [items, setItems] = useState<MasterItem[]>([]);
+    const [aliases, setAliases] = useState<SkuAlias[]>([]);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+
+    const [symbology, setSymbology] = useState<LabelSymbology>('qr');
+    const [sizeId, setSizeId] = useState(LABEL_SIZES[1].id);
+    const [layout, setLayout] = useState<LabelLayout>('sheet');
+    const [preview, setPreview] = useState<string | null>(null);
+    const [printing, setPrinting] = useState(false);
+
+    useEffect(() => {
+        Promise.all([getMasterLocations(), getMasterData(), getSkuAliases()]).then(([locs, masterItems, skuAliases]) => {
+            setLocations(locs);
+            setItems(masterItems);
+            setAliases(skuAliases);
+        });
+    }, []);
+
+    const rows = source === 'locations' ? locationRows(locations) : itemRows(items, aliases);
+    const query = searchQuery.toLowerCase().trim();
+    const filtered = query ? rows.filter(r => r.search.includes(query)) : rows;
+    const selectedRows = rows.filter(r => selected.has(r.key));
+    const size = LABEL_SIZES.find(s => s.id === sizeId) || LABEL_SIZES[0];
+    const previewLabel = (selectedRows[0] || filtered[0])?.label;
+    const previewProblem = previewLabel ? labelCodeProblem(previewLabel.code, symbology) : null;
+
+    useEffect(() => {
+        if (!previewLabel || previewProblem) {
+            setPreview(null);
+            return;
+        }
+        let cancelled = false;
+        renderSymbol(previewLabel.code, symbology)
+            .then(svg => { if (!cancelled) setPreview(svg); })
+            .catch(() => { if (!cancelled) setPreview(null); });
+        return () => { cancelled = true; };
+    }, [previewLabel?.code, previewProblem, symbology]);
+
+    const switchSource = (next: LabelSource) => {
+        setSource(next);
+        setSelected(new Set());
+        setSearchQuery('');
+    };
+
+    const toggle = (key: string) => {
+        const next = new Set(selected);
+        if (next.has(key)) next.delete(key);
+        else next.add(key);
+        setSelected(next);
+    };
+
+    const allFilteredSelected = filtered.length > 0 && filtered.every(r => selected.has(r.key));
+    const toggleAll = () => {
+        const next = new Set(selected);
+        filtered.forEach(r => allFilteredSelected ? next.delete(r.key) : next.add(r.key));
+        setSelected(next);
+    };
+
+    const handlePrint = async () => {
+        setPrinting(true);
+        try {
+            await printLabels(selectedRows.map(r => r.label), { symbology, size, layout });
+        } catch (e: any) {
+            alert(e.message || "Gagal menyiapkan label.");
+        } finally {
+            setPrinting(false);
+        }
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto p-6 animate-fade-in">
+            <div className="flex items-center gap-4 mb-8">
+                <button onClick={onBack} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+                    <ChevronLeft size={24} />
+                </button>
+                <div>
+                    <h1 className="text-2xl font-black text-slate-800 uppercase tracking-tight">Cetak Label</h1>
+                    <p className="text-xs text-slate-400 font-bold uppercase tracking-widest">QR / Barcode untuk Lokasi & Barang</p>
+                </div>
+            </div>
+
+            <div className="grid md:grid-cols-[1fr_260px] gap-6">
+                <div className="space-y-4">
+                    <div className="flex bg-white rounded-xl border border-slate-200 p-1">
+                        {([['locations', 'Lokasi Rak', MapPin], ['items', 'Barang', Package]] as const).map(([id, label, Icon]) => (
+                            <button
+                                key={id}
+                                onClick={() => switchSource(id)}
+                                className={`flex-1 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-colors ${source === id ? 'bg-primary text-white' : 'text-slate-500 hover:bg-slate-50'}`}
+                            >
+                                <Icon size={14} /> {label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="relative">
+                        <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+                        <input
+                            type="text"
+                            placeholder={source === 'locations' ? 'Cari kode, nama atau zona...' : 'Cari SKU, nama atau batch...'}
+                            className="w-full bg-white border border-slate-200 rounded-xl py-3 pl-12 pr-4 text-sm font-medium outline-none shadow-sm"
+                            value={searchQuery}
+                            onChange={e => setSearchQuery(e.target.value)}
+                        />
+                    </div>
+
+                    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-hidden">
+                        <label className="flex items-center gap-3 px-4 py-3 bg-slate-50 text-[10px] font-black text-slate-400 uppercase tracking-widest cursor-pointer">
+                            <input type="checkbox" checked={allFilteredSelected} onChange={toggleAll} />
+                            Pilih Semua ({filtered.length})
+                        </label>
+                        <div className="max-h-[420px] overflow-y-auto divide-y divide-slate-100">
+                            {filtered.length === 0 && (
+                                <p className="text-center py-12 text-sm text-slate-400">
+                                    {rows.length === 0 ? (source === 'locations' ? 'Belum ada lokasi.' : 'Belum ada master data.') : 'Tidak ada yang cocok.'}
+                                </p>
+                            )}
+                            {filtered.map(row => (
+                                <label key={row.key} className="flex items-center gap-3 px-4 py-2.5 hover:bg-slate-50 cursor-pointer">
+                                    <input type="checkbox" checked={selected.has(row.key)} onChange={() => toggle(row.key)} />
+                                    <div className="min-w-0">
+                                        <p className="text-xs font-bold text-slate-700 font-mono truncate">{row.label.title}</p>
+                                        <p className="text-[11px] text-slate-400 truncate">{row.label.subtitle}</p>
+                                    </div>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                <div className="space-y-4">
+                    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4 space-y-4">
+                        <div className="space-y-1.5">
+                            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Jenis Kode</span>
+                            <div className="flex gap-2">
+                                {([['qr', 'QR', QrCode], ['code128', 'Code128', Barcode]] as const).map(([id, label, Icon]) => (
+                                    <button
+                                        key={id}
+                                        onClick={() => setSymbology(id)}
+                                        className={`flex-1 py-2 rounded-lg border text-xs font-bold flex items-center justify-center gap-1.5 ${symbology === id ? 'border-primary text-primary bg-blue-50' : 'border-slate-200 text-slate-500'}`}
+                                    >
+                                        <Icon size={14} /> {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <label className="block space-y-1.5">
+                            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Ukuran Label</span>
+                            <select value={sizeId} onChange={e => setSizeId(e.target.value)} className="w-full rounded-xl border-slate-200 text-sm font-bold">
+                                {LABEL_SIZES.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                            </select>
+                        </label>
+                        <label className="block space-y-1.5">
+                            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Tata Letak</span>
+                            <select value={layout} onChange={e => setLayout(e.target.value as LabelLayout)} className="w-full rounded-xl border-slate-200 text-sm font-bold">
+                                <option value="sheet">Lembar A4</option>
+                                <option value="roll">Printer Label (1 label per halaman)</option>
+                            </select>
+                        </label>
+                    </div>
+
+                    {previewLabel && (
+                        <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4">
+                            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Contoh</span>
+                            <div
+                                className={`mt-2 mx-auto border border-dashed border-slate-300 p-1.5 flex gap-1.5 overflow-hidden ${symbology === 'qr' ? 'flex-row' : 'flex-col'}`}
+                                style={{ width: `${size.widthMm * 2.4}px`, height: `${size.heightMm * 2.4}px` }}
+                            >
+                                {preview && (
+                                    <div
+                                        className={`${symbology === 'qr' ? 'h-full aspect-square' : 'flex-1 min-h-0'} [&>svg]:w-full [&>svg]:h-full`}
+                                        dangerouslySetInnerHTML={{ __html: preview }}
+                                    />
+                                )}
+                                <div className={`min-w-0 ${symbology === 'code128' ? 'text-center' : ''}`}>
+                                    <p className="text-[10px] font-bold leading-tight break-all">{previewLabel.title}</p>
+                                    <p className="text-[8px] leading-tight text-slate-600 line-clamp-2">{previewLabel.subtitle}</p>
+                                </div>
+                            </div>
+                            <p className="mt-2 text-[10px] font-mono text-slate-400 break-all text-center">{previewLabel.code}</p>
+                            {previewProblem && <p className="mt-1 text-[10px] font-bold text-red-500 text-center">Tidak bisa dicetak: {previewProblem}</p>}
+                        </div>
+                    )}
+
+                    <button
+                        onClick={handlePrint}
+                        disabled={printing || selectedRows.length === 0}
+                        className="w-full py-3.5 bg-primary text-white font-bold rounded-xl text-sm shadow-xl shadow-primary/25 flex items-center justify-center gap-2 disabled:opacity-50"
+                    >
+                        <Printer size={18} /> Cetak {selectedRows.length} Label
+                    </button>
+                    <p className="text-[11px] text-slate-400">Pilih "Save as PDF" di dialog cetak untuk menyimpan sebagai PDF.</p>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,17 +1,31 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { MasterLocation, AppView, AuditRecord } from '../types';
-import { getMasterLocations, getLocationStates, updateLocationStatus, getAuditLogs } from '../services/storageService';
+import { MasterLocation, MasterItem, AppView, AppUser, AuditRecord, LocationState } from '../types';
+import {
+  subscribeToMasterLocations,
+  subscribeToMasterData,
+  subscribeToLocationStates,
+  subscribeToAuditLogs,
+  updateLocationStatus,
+  getSelectedCountSessionId,
+  getSelectedCountSession,
+  sameLocation,
+  locationCodeOf,
+  acceptedQtyOf
+} from '../services/storageService';
+import { canCreateAudit, canViewVariance } from '../services/permissions';
 import { ScannerModal } from './ScannerModal';
 
 interface LocationChecklistProps {
+  currentUser: AppUser;
   onNavigate: (view: AppView, params?: any) => void;
 }
 
-export const LocationChecklist: React.FC<LocationChecklistProps> = ({ onNavigate }) => {
+export const LocationChecklist: React.FC<LocationChecklistProps> = ({ currentUser, onNavigate }) => {
   const [locations, setLocations] = useState<MasterLocation[]>([]);
-  const [locationStates, setLocationStates] = useState<Record<string, any>>({});
+  const [locationStates, setLocationStates] = useState<Record<string, LocationState>>({});
   const [logs, setLogs] = useState<AuditRecord[]>([]);
+  const [masterItems, setMasterItems] = useState<MasterItem[]>([]);
   const [activeTab, setActiveTab] = useState<'pending' | 'completed'>('pending');
   const [loading, setLoading] = useState(true);
 
@@ -20,40 +34,39 @@ export const LocationChecklist: React.FC<LocationChecklistProps> = ({ onNavigate
 
   // Damage Reporting State
   const [isDamageModalOpen, setIsDamageModalOpen] = useState(false);
-  const [selectedLocation, setSelectedLocation] = useState<string | null>(null);
+  const [selectedLocation, setSelectedLocation] = useState<MasterLocation | null>(null);
   const [damageDescription, setDamageDescription] = useState('');
   const [damagePhoto, setDamagePhoto] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const refreshData = async () => {
-      setLoading(true);
-      const [locs, states, auditLogs] = await Promise.all([
-          getMasterLocations(),
-          getLocationStates(),
-          getAuditLogs()
-      ]);
-      setLocations(locs);
-      setLocationStates(states);
-      setLogs(auditLogs);
-      setLoading(false);
-  };
+  const canCount = canCreateAudit(currentUser);
 
+  // Live, so locations marked on other devices move between tabs as it happens
   useEffect(() => {
-    refreshData();
+    const sessionId = getSelectedCountSessionId();
+    const unsubscribers = [
+      subscribeToMasterLocations(list => {
+        setLocations(list);
+        setLoading(false);
+      }, () => setLoading(false)),
+      subscribeToLocationStates(setLocationStates, undefined, sessionId),
+      subscribeToAuditLogs(setLogs, undefined, sessionId),
+      subscribeToMasterData(setMasterItems)
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
   }, []);
 
   // --- FILTER LOGIC FIXED ---
   
-  // Helper to safely find state regardless of casing (e.g. "Rack A" vs "RACK A")
-  const getState = (name: string) => {
-      if (!name) return undefined;
-      return locationStates[name] || locationStates[name.toUpperCase()] || locationStates[name.trim()];
-  };
+  // Counts and states carry the location code; older ones the name as typed
+  const atLocation = (loc: MasterLocation, value?: string) => sameLocation(value, loc.id) || sameLocation(value, loc.name);
+
+  const getState = (loc: MasterLocation) =>
+      locationStates[loc.id] || locationStates[loc.name.trim().toUpperCase()];
 
   // Helper to get variance/stats for a location
-  const getLocationStats = (locName: string) => {
-      const normLoc = locName.toLowerCase().trim();
-      const locLogs = logs.filter(l => l.location.toLowerCase().trim() === normLoc);
+  const getLocationStats = (loc: MasterLocation) => {
+      const locLogs = logs.filter(l => atLocation(loc, l.location));
       
       if (locLogs.length === 0) return null;
 
@@ -63,9 +76,35 @@ export const LocationChecklist: React.FC<LocationChecklistProps> = ({ onNavigate
       return { hasVariance, totalVariance, count: locLogs.length };
   };
 
+  // Blind counts keep variance and expected stock from counters, as the count
+  // form does: they only see which locations are counted and which are not.
+  const hideVariance = !!getSelectedCountSession()?.blindCount && !canViewVariance(currentUser);
+
+  const hasVarianceAt = (loc: MasterLocation) => !hideVariance && !!getLocationStats(loc)?.hasVariance;
+
+  // Expected stock is known per location only when master data carries it
+  const showExpected = masterItems.some(i => i.location) && !hideVariance;
+
+  const getExpectedVsCounted = (loc: MasterLocation) => {
+      return {
+          expected: masterItems.filter(i => atLocation(loc, i.location)).reduce((sum, i) => sum + i.systemStock, 0),
+          counted: logs.filter(l => atLocation(loc, l.location)).reduce((sum, l) => sum + acceptedQtyOf(l), 0)
+      };
+  };
+
+  const renderExpectedVsCounted = (loc: MasterLocation) => {
+      if (!showExpected) return null;
+      const { expected, counted } = getExpectedVsCounted(loc);
+      return (
+          <p className="text-[10px] text-slate-500 dark:text-slate-400 mt-1 font-medium">
+              Sistem <span className="font-bold text-slate-700 dark:text-slate-200">{expected}</span>
+              {' · '}Terhitung <span className={`font-bold ${counted === expected ? 'text-emerald-600' : 'text-amber-600'}`}>{counted}</span>
+          </p>
+      );
+  };
+
   const pendingLocations = locations.filter(loc => {
-      const state = getState(loc.name);
-      const stats = getLocationStats(loc.name);
+      const state = getState(loc);
       
       // 1. Belum pernah disentuh sama sekali (Implicit Pending) -> Masuk Tab Masalah
       if (!state) return true;
@@ -77,24 +116,23 @@ export const LocationChecklist: React.FC<LocationChecklistProps> = ({ onNavigate
       if (state.status === 'damaged') return true;
 
       // 4. Status 'audited' TAPI ada selisih (Variance) -> Masuk Tab Masalah
-      if (state.status === 'audited' && stats?.hasVariance) return true;
+      if (state.status === 'audited' && hasVarianceAt(loc)) return true;
 
       // Sisanya (audited bersih / empty) tidak masuk sini
       return false;
   });
 
   const completedLocations = locations.filter(loc => {
-      const state = getState(loc.name);
-      const stats = getLocationStats(loc.name);
+      const state = getState(loc);
       if (!state) return false;
       
       // Exclude items that are in the Pending/Issue list
       if (state.status === 'damaged') return false;
       if (state.status === 'pending') return false;
-      if (state.status === 'audited' && stats?.hasVariance) return false;
+      if (state.status === 'audited' && hasVarianceAt(loc)) return false;
 
       // Include Empty or Audited Clean
-      return state.status === 'empty' || (state.status === 'audited' && !stats?.hasVariance);
+      return state.status === 'empty' || state.status === 'audited';
   });
 
   const totalLocations = locations.length;
@@ -102,22 +140,51 @@ export const LocationChecklist: React.FC<LocationChecklistProps> = ({ onNavigate
   // Progress only counts "Clean" audits
   const progressPercentage = totalLocations > 0 ? Math.round((completedCount / totalLocations) * 100) : 0;
 
+  // Sections follow the location list order, which is sorted by zone
+  const zoneProgress = (zone: string) => {
+      const total = locations.filter(l => l.zone === zone).length;
+      const completed = completedLocations.filter(l => l.zone === zone).length;
+      return { total, completed, percent: total > 0 ? Math.round((completed / total) * 100) : 0 };
+  };
+
+  const renderByZone = (list: MasterLocation[], renderLocation: (loc: MasterLocation) => React.ReactNode) => {
+      const zones = Array.from(new Set(list.map(l => l.zone)));
+      return zones.map(zone => {
+          const progress = zoneProgress(zone);
+          return (
+              <section key={zone} className="flex flex-col gap-3">
+                  <div className="flex items-center gap-3 px-1 pt-2">
+                      <h2 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{zone}</h2>
+                      <div className="flex-1 h-1.5 bg-slate-200 dark:bg-slate-800 rounded-full overflow-hidden">
+                          <div className="h-full bg-primary rounded-full transition-all duration-500" style={{ width: `${progress.percent}%` }}></div>
+                      </div>
+                      <span className="text-[10px] font-bold text-slate-400">{progress.completed}/{progress.total}</span>
+                  </div>
+                  {list.filter(l => l.zone === zone).map(renderLocation)}
+              </section>
+          );
+      });
+  };
+
   // --- Handlers ---
 
+  const openForm = (locationCode: string) => {
+      onNavigate(AppView.FORM, { initialLocation: locationCode });
+  };
+
   const handleScanSuccess = (decodedText: string) => {
       setIsScannerOpen(false);
-      onNavigate(AppView.FORM, { initialLocation: decodedText.toUpperCase() });
+      openForm(locationCodeOf(locations, decodedText));
   };
 
-  const handleMarkEmpty = async (locationName: string) => {
-    if (confirm(`Tandai ${locationName} sebagai Kosong?`)) {
-        await updateLocationStatus(locationName, 'empty');
-        refreshData();
+  const handleMarkEmpty = async (loc: MasterLocation) => {
+    if (confirm(`Tandai ${loc.name} sebagai Kosong?`)) {
+        await updateLocationStatus(loc.id, 'empty', { teamMember: localStorage.getItem('team_member_name') || undefined });
     }
   };
 
-  const openDamageModal = (locationName: string) => {
-      setSelectedLocation(locationName);
+  const openDamageModal = (loc: MasterLocation) => {
+      setSelectedLocation(loc);
       setDamageDescription('');
       setDamagePhoto(null);
       setIsDamageModalOpen(true);
@@ -140,13 +207,108 @@ export const LocationChecklist: React.FC<LocationChecklistProps> = ({ onNavigate
           alert("Mohon isi deskripsi kerusakan.");
           return;
       }
-      await updateLocationStatus(selectedLocation, 'damaged', {
+      await updateLocationStatus(selectedLocation.id, 'damaged', {
           photoUrl: damagePhoto || undefined,
           description: damageDescription,
-          teamMember: 'Current Team' 
+          teamMember: localStorage.getItem('team_member_name') || undefined
       });
       setIsDamageModalOpen(false);
-      refreshData();
+  };
+
+  const renderPendingLocation = (loc: MasterLocation) => {
+    const state = getState(loc);
+    const stats = getLocationStats(loc);
+    
+    const isDamaged = state?.status === 'damaged';
+    const hasVariance = state?.status === 'audited' && hasVarianceAt(loc);
+    const isPending = !state || state?.status === 'pending';
+    
+    let borderClass = 'border-slate-200 dark:border-slate-800';
+    let bgClass = 'bg-white dark:bg-slate-900';
+    
+    if (isDamaged) {
+        borderClass = 'border-red-200 dark:border-red-900/50';
+        bgClass = 'bg-red-50/20';
+    } else if (hasVariance) {
+        borderClass = 'border-amber-200 dark:border-amber-900/50';
+        bgClass = 'bg-amber-50/20';
+    }
+    
+    return (
+      <div key={loc.id} className={`${bgClass} rounded-xl p-4 shadow-sm border ${borderClass} flex flex-col gap-3 transition-all`}>
+          <div className="flex justify-between items-start border-b border-slate-50 dark:border-slate-800 pb-2">
+              <div className={`min-w-0 flex-1 ${canCount ? 'cursor-pointer' : ''}`} onClick={() => canCount && openForm(loc.id)}>
+                  <h3 className="font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2 flex-wrap">
+                      {loc.name}
+                      {isDamaged && <span className="flex-shrink-0 px-2 py-0.5 rounded-full bg-red-100 text-red-600 text-[8px] font-bold uppercase tracking-tighter">Rusak / Masalah</span>}
+                      {hasVariance && (
+                          <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-[8px] font-bold uppercase tracking-tighter ${stats!.totalVariance > 0 ? 'bg-blue-100 text-blue-700' : 'bg-amber-100 text-amber-700'}`}>
+                             {stats!.totalVariance > 0 ? `Plus (+${stats!.totalVariance})` : `Selisih (${stats!.totalVariance})`}
+                          </span>
+                      )}
+                      {isPending && <span className="flex-shrink-0 px-2 py-0.5 rounded-full bg-slate-100 text-slate-500 text-[8px] font-bold uppercase tracking-tighter">Belum Cek</span>}
+                  </h3>
+                  {loc.id !== loc.name && <span className="text-[10px] text-slate-400 font-mono">{loc.id}</span>}
+                  {renderExpectedVsCounted(loc)}
+                  {state?.description && (
+                      <p className="text-[10px] text-red-600 mt-2 font-medium bg-red-50 dark:bg-red-900/20 p-2 rounded-lg italic">"{state.description}"</p>
+                  )}
+              </div>
+              {canCount && (
+                  <button 
+                      onClick={() => openForm(loc.id)}
+                      className="ml-3 bg-primary text-white hover:bg-primary/90 transition-all p-3 rounded-xl flex items-center shadow-lg shadow-primary/20"
+                  >
+                      <span className="material-symbols-outlined text-[20px]">qr_code_scanner</span>
+                  </button>
+              )}
+          </div>
+          {canCount && (
+          <div className="flex gap-2">
+              <button 
+                  onClick={() => handleMarkEmpty(loc)}
+                  className="flex-1 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800 text-[10px] font-bold flex items-center justify-center gap-1 transition-colors uppercase"
+              >
+                  Tandai Kosong
+              </button>
+              <button 
+                  onClick={() => openDamageModal(loc)}
+                  className="flex-1 py-2 rounded-lg border border-red-200 dark:border-red-900/50 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 text-[10px] font-bold flex items-center justify-center gap-1 transition-colors uppercase"
+              >
+                  Lapor Masalah
+              </button>
+          </div>
+          )}
+      </div>
+    );
+  };
+
+  const renderCompletedLocation = (loc: MasterLocation) => {
+    const state = getState(loc);
+    const status = state?.status;
+    let statusClass = "bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-400 border-green-200 dark:border-green-900/50";
+    let icon = "check_circle";
+
+    if (status === 'empty') {
+        statusClass = "bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 border-slate-200 dark:border-slate-700";
+        icon = "check_box_outline_blank";
+    }
+
+    return (
+      <div key={loc.id} className="bg-white dark:bg-slate-900 rounded-xl p-4 shadow-sm border border-slate-100 dark:border-slate-800 flex justify-between items-center transition-all">
+          <div>
+              <h3 className="font-bold text-slate-700 dark:text-slate-200">{loc.name}</h3>
+              <div className="text-[10px] text-slate-400 mt-0.5 flex items-center gap-2">
+                  <span className="text-[8px]">{state?.timestamp ? new Date(state.timestamp).toLocaleTimeString([], {hour:'2-digit', minute:'2-digit'}) : '-'}</span>
+              </div>
+              {renderExpectedVsCounted(loc)}
+          </div>
+          <div className={`px-3 py-1.5 rounded-lg border flex items-center gap-1.5 text-[8px] font-bold uppercase tracking-widest ${statusClass}`}>
+              <span className="material-symbols-outlined text-[14px]">{icon}</span>
+              {status === 'audited' ? (hideVariance ? 'TERHITUNG' : 'OK / BERSIH') : 'KOSONG'}
+          </div>
+      </div>
+    );
   };
 
   if (loading) {
@@ -174,9 +336,11 @@ export const LocationChecklist: React.FC<LocationChecklistProps> = ({ onNavigate
           <span className="material-symbols-outlined">arrow_back</span>
         </button>
         <h1 className="text-lg font-bold text-center flex-1 text-slate-900 dark:text-white">Ceklis Lokasi</h1>
-        <button onClick={() => setIsScannerOpen(true)} className="flex items-center justify-center w-10 h-10 rounded-full text-primary hover:bg-primary/10">
-          <span className="material-symbols-outlined">qr_code_scanner</span>
-        </button>
+        {canCount ? (
+          <button onClick={() => setIsScannerOpen(true)} className="flex items-center justify-center w-10 h-10 rounded-full text-primary hover:bg-primary/10">
+            <span className="material-symbols-outlined">qr_code_scanner</span>
+          </button>
+        ) : <span className="w-10" />}
       </nav>
 
       {/* Progress Widget */}
@@ -202,13 +366,13 @@ export const LocationChecklist: React.FC<LocationChecklistProps> = ({ onNavigate
           onClick={() => setActiveTab('pending')}
           className={`flex-1 py-3 text-[10px] font-bold uppercase tracking-widest border-b-2 transition-colors ${activeTab === 'pending' ? 'border-primary text-primary' : 'border-transparent text-slate-400 hover:text-slate-600'}`}
         >
-          Belum Cek / Masalah ({pendingLocations.length})
+          {hideVariance ? 'Belum Cek' : 'Belum Cek / Masalah'} ({pendingLocations.length})
         </button>
         <button 
           onClick={() => setActiveTab('completed')}
           className={`flex-1 py-3 text-[10px] font-bold uppercase tracking-widest border-b-2 transition-colors ${activeTab === 'completed' ? 'border-primary text-primary' : 'border-transparent text-slate-400 hover:text-slate-600'}`}
         >
-          Selesai / Bersih ({completedLocations.length})
+          {hideVariance ? 'Selesai' : 'Selesai / Bersih'} ({completedLocations.length})
         </button>
       </div>
 
@@ -219,105 +383,17 @@ export const LocationChecklist: React.FC<LocationChecklistProps> = ({ onNavigate
                   {pendingLocations.length === 0 ? (
                       <div className="text-center py-12 text-slate-400 bg-white dark:bg-slate-900 rounded-xl border border-slate-100 dark:border-slate-800 shadow-sm">
                           <span className="material-symbols-outlined text-4xl mb-2 text-emerald-500">check_circle</span>
-                          <p className="text-sm">Semua Lokasi Aman & Selesai!</p>
+                          <p className="text-sm">{locations.length === 0 ? 'Belum ada lokasi. Admin dapat menambahkannya di menu Lokasi Rak.' : hideVariance ? 'Semua lokasi sudah dicek.' : 'Semua Lokasi Aman & Selesai!'}</p>
                       </div>
                   ) : (
-                      pendingLocations.map(loc => {
-                          const state = getState(loc.name);
-                          const stats = getLocationStats(loc.name);
-                          
-                          const isDamaged = state?.status === 'damaged';
-                          const hasVariance = state?.status === 'audited' && stats?.hasVariance;
-                          const isPending = !state || state?.status === 'pending';
-                          
-                          let borderClass = 'border-slate-200 dark:border-slate-800';
-                          let bgClass = 'bg-white dark:bg-slate-900';
-                          
-                          if (isDamaged) {
-                              borderClass = 'border-red-200 dark:border-red-900/50';
-                              bgClass = 'bg-red-50/20';
-                          } else if (hasVariance) {
-                              borderClass = 'border-amber-200 dark:border-amber-900/50';
-                              bgClass = 'bg-amber-50/20';
-                          }
-                          
-                          return (
-                            <div key={loc.id} className={`${bgClass} rounded-xl p-4 shadow-sm border ${borderClass} flex flex-col gap-3 transition-all`}>
-                                <div className="flex justify-between items-start border-b border-slate-50 dark:border-slate-800 pb-2">
-                                    <div className="min-w-0 flex-1">
-                                        <h3 className="font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2 flex-wrap">
-                                            {loc.name}
-                                            {isDamaged && <span className="flex-shrink-0 px-2 py-0.5 rounded-full bg-red-100 text-red-600 text-[8px] font-bold uppercase tracking-tighter">Rusak / Masalah</span>}
-                                            {hasVariance && (
-                                                <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-[8px] font-bold uppercase tracking-tighter ${stats!.totalVariance > 0 ? 'bg-blue-100 text-blue-700' : 'bg-amber-100 text-amber-700'}`}>
-                                                   {stats!.totalVariance > 0 ? `Plus (+${stats!.totalVariance})` : `Selisih (${stats!.totalVariance})`}
-                                                </span>
-                                            )}
-                                            {isPending && <span className="flex-shrink-0 px-2 py-0.5 rounded-full bg-slate-100 text-slate-500 text-[8px] font-bold uppercase tracking-tighter">Belum Cek</span>}
-                                        </h3>
-                                        <span className="text-[10px] text-slate-400 font-medium bg-slate-50 dark:bg-slate-800 px-2 py-0.5 rounded mt-1 inline-block uppercase">{loc.zone}</span>
-                                        {state?.description && (
-                                            <p className="text-[10px] text-red-600 mt-2 font-medium bg-red-50 dark:bg-red-900/20 p-2 rounded-lg italic">"{state.description}"</p>
-                                        )}
-                                    </div>
-                                    <button 
-                                        onClick={() => onNavigate(AppView.FORM, { initialLocation: loc.name })}
-                                        className="ml-3 bg-primary text-white hover:bg-primary/90 transition-all p-3 rounded-xl flex items-center shadow-lg shadow-primary/20"
-                                    >
-                                        <span className="material-symbols-outlined text-[20px]">qr_code_scanner</span>
-                                    </button>
-                                </div>
-                                <div className="flex gap-2">
-                                    <button 
-                                        onClick={() => handleMarkEmpty(loc.name)}
-                                        className="flex-1 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800 text-[10px] font-bold flex items-center justify-center gap-1 transition-colors uppercase"
-                                    >
-                                        Tandai Kosong
-                                    </button>
-                                    <button 
-                                        onClick={() => openDamageModal(loc.name)}
-                                        className="flex-1 py-2 rounded-lg border border-red-200 dark:border-red-900/50 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 text-[10px] font-bold flex items-center justify-center gap-1 transition-colors uppercase"
-                                    >
-                                        Lapor Masalah
-                                    </button>
-                                </div>
-                            </div>
-                          );
-                      })
+                      renderByZone(pendingLocations, renderPendingLocation)
                   )}
               </div>
           )}
 
           {activeTab === 'completed' && (
               <div className="flex flex-col gap-3">
-                  {completedLocations.map(loc => {
-                      const state = getState(loc.name);
-                      const status = state?.status;
-                      let statusClass = "bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-400 border-green-200 dark:border-green-900/50";
-                      let icon = "check_circle";
-
-                      if (status === 'empty') {
-                          statusClass = "bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 border-slate-200 dark:border-slate-700";
-                          icon = "check_box_outline_blank";
-                      }
-
-                      return (
-                        <div key={loc.id} className="bg-white dark:bg-slate-900 rounded-xl p-4 shadow-sm border border-slate-100 dark:border-slate-800 flex justify-between items-center transition-all">
-                            <div>
-                                <h3 className="font-bold text-slate-700 dark:text-slate-200">{loc.name}</h3>
-                                <div className="text-[10px] text-slate-400 mt-0.5 flex items-center gap-2">
-                                    <span className="uppercase">{loc.zone}</span>
-                                    <span>•</span>
-                                    <span className="text-[8px]">{state?.timestamp ? new Date(state.timestamp).toLocaleTimeString([], {hour:'2-digit', minute:'2-digit'}) : '-'}</span>
-                                </div>
-                            </div>
-                            <div className={`px-3 py-1.5 rounded-lg border flex items-center gap-1.5 text-[8px] font-bold uppercase tracking-widest ${statusClass}`}>
-                                <span className="material-symbols-outlined text-[14px]">{icon}</span>
-                                {status === 'audited' ? 'OK / BERSIH' : 'KOSONG'}
-                            </div>
-                        </div>
-                      );
-                  })}
+                  {renderByZone(completedLocations, renderCompletedLocation)}
               </div>
           )}
       </main>
@@ -338,7 +414,7 @@ export const LocationChecklist: React.FC<LocationChecklistProps> = ({ onNavigate
                       <div>
                           <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Lokasi</label>
                           <div className="bg-slate-100 dark:bg-slate-800 p-2 rounded-lg font-mono font-bold text-slate-700 dark:text-slate-200">
-                              {selectedLocation}
+                              {selectedLocation?.name}
                           </div>
                       </div>
                       <div>
@@ -1,7 +1,8 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Logo } from './Logo';
-import { authenticateUser, setSessionUser } from '../services/authService';
+import { UserImport } from './UserImport';
+import { authenticateUser, needsInitialSetup, createInitialAdmin, MIN_PASSWORD_LENGTH } from '../services/authService';
 import { saveActivityLog } from '../services/storageService';
 import { AppUser } from '../types';
 
@@ -25,6 +26,19 @@ export const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
     const [requestName, setRequestName] = useState('');
     const [requestDept, setRequestDept] = useState('');
 
+    // First-run setup: shown only while the users table is empty
+    const [setupStep, setSetupStep] = useState<'none' | 'admin' | 'import'>('none');
+    const [setupAdmin, setSetupAdmin] = useState<AppUser | null>(null);
+    const [setupForm, setSetupForm] = useState({ username: '', name: '', password: '', confirm: '' });
+
+    useEffect(() => {
+        let mounted = true;
+        needsInitialSetup().then(empty => {
+            if (mounted && empty) setSetupStep('admin');
+        });
+        return () => { mounted = false; };
+    }, []);
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setError('');
@@ -33,8 +47,7 @@ export const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
         try {
             const result = await authenticateUser(username, password);
             if (result.user) {
-                setSessionUser(result.user);
-                
+
                 // Log login activity
                 saveActivityLog({
                     type: 'adjustment',
@@ -55,6 +68,30 @@ export const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
         }
     };
 
+    const handleCreateAdmin = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        if (setupForm.password !== setupForm.confirm) {
+            setError('Konfirmasi password tidak sama.');
+            return;
+        }
+        setLoading(true);
+        const result = await createInitialAdmin(setupForm);
+        setLoading(false);
+        if (!result.user) {
+            setError(result.error || 'Gagal membuat akun admin.');
+            return;
+        }
+        saveActivityLog({
+            type: 'create',
+            title: 'Initial Setup',
+            description: `Administrator account ${result.user.username} created.`,
+            user: result.user.name
+        }).catch(console.error);
+        setSetupAdmin(result.user);
+        setSetupStep('import');
+    };
+
     const handleRequestAccess = (e: React.FormEvent) => {
         e.preventDefault();
         const message = `Halo Administrator IT,\n\nSaya ingin meminta akses untuk sistem Stock Opname.\n\nNama Lengkap: ${requestName}\nDepartemen: ${requestDept}\n\nTerima kasih.`;
@@ -131,7 +168,79 @@ export const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
                         {/* Glow effect behind form */}
                         <div className="absolute -inset-4 bg-white/5 blur-2xl -z-10 rounded-full"></div>
 
-                        {showRequestAccess ? (
+                        {setupStep === 'admin' ? (
+                            // First-run Setup: create the initial admin
+                            <div className="animate-fade-in">
+                                <div className="flex flex-col gap-2 mb-8">
+                                    <div className="flex items-center gap-2 mb-2">
+                                        <span className="px-2 py-0.5 rounded text-[10px] font-bold bg-amber-400/20 text-amber-300 uppercase tracking-wider border border-amber-400/30">Setup Awal</span>
+                                    </div>
+                                    <h1 className="text-3xl font-headline font-extrabold text-white tracking-tight leading-none">Buat Akun Admin</h1>
+                                    <p className="text-slate-400 text-sm font-medium">Belum ada akun di database. Buat administrator pertama untuk melanjutkan.</p>
+                                </div>
+
+                                <form onSubmit={handleCreateAdmin} className="flex flex-col gap-4">
+                                    {error && (
+                                        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-3 flex items-center gap-3">
+                                            <span className="material-symbols-outlined text-red-500">error</span>
+                                            <span className="text-xs font-bold text-red-500">{error}</span>
+                                        </div>
+                                    )}
+                                    {([
+                                        { key: 'username', label: 'USER NAME', type: 'text', placeholder: 'MBI-XXXX' },
+                                        { key: 'name', label: 'NAMA LENGKAP', type: 'text', placeholder: 'Nama Administrator' },
+                                        { key: 'password', label: 'SANDI', type: 'password', placeholder: `Minimal ${MIN_PASSWORD_LENGTH} karakter` },
+                                        { key: 'confirm', label: 'ULANGI SANDI', type: 'password', placeholder: '••••••••' }
+                                    ] as const).map(field => (
+                                        <div key={field.key} className="flex flex-col gap-2">
+                                            <label className="font-label text-xs font-semibold uppercase tracking-widest text-slate-400">{field.label}</label>
+                                            <input 
+                                                className="w-full bg-[#121418] border border-white/10 rounded-lg px-4 py-3.5 text-white font-medium focus:ring-2 focus:ring-[#00daf3]/50 focus:border-transparent transition-all duration-300 placeholder:text-slate-600 outline-none" 
+                                                placeholder={field.placeholder}
+                                                type={field.type}
+                                                autoComplete={field.type === 'password' ? 'new-password' : 'off'}
+                                                value={setupForm[field.key]}
+                                                onChange={(e) => setSetupForm({ ...setupForm, [field.key]: e.target.value })}
+                                                required
+                                            />
+                                        </div>
+                                    ))}
+
+                                    <button 
+                                        className="group relative flex items-center justify-center w-full bg-[#00daf3] text-[#001e40] font-headline font-bold text-sm py-4 rounded-lg transition-all duration-300 hover:bg-white shadow-[0_0_20px_rgba(0,218,243,0.3)] active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed mt-2" 
+                                        type="submit"
+                                        disabled={loading || setupForm.password.length < MIN_PASSWORD_LENGTH}
+                                    >
+                                        <span className="flex items-center gap-2">
+                                            {loading ? (
+                                                <><span className="material-symbols-outlined animate-spin">sync</span> Memproses...</>
+                                            ) : (
+                                                <>Buat Admin <span className="material-symbols-outlined text-base">arrow_forward</span></>
+                                            )}
+                                        </span>
+                                    </button>
+                                </form>
+                            </div>
+                        ) : setupStep === 'import' && setupAdmin ? (
+                            // First-run Setup: optional bulk import of staff accounts
+                            <div className="animate-fade-in">
+                                <div className="flex flex-col gap-2 mb-6">
+                                    <h1 className="text-3xl font-headline font-extrabold text-white tracking-tight leading-none">Impor User</h1>
+                                    <p className="text-slate-400 text-sm font-medium">Opsional: unggah daftar pegawai. Akun juga bisa ditambahkan nanti di Manajemen User.</p>
+                                </div>
+
+                                <UserImport dark />
+
+                                <button 
+                                    onClick={() => onLoginSuccess(setupAdmin)}
+                                    className="group relative flex items-center justify-center w-full bg-[#00daf3] text-[#001e40] font-headline font-bold text-sm py-4 rounded-lg transition-all duration-300 hover:bg-white shadow-[0_0_20px_rgba(0,218,243,0.3)] active:scale-[0.98] mt-6" 
+                                >
+                                    <span className="flex items-center gap-2">
+                                        Selesai, Masuk Ke Dashboard <span className="material-symbols-outlined text-base">arrow_forward</span>
+                                    </span>
+                                </button>
+                            </div>
+                        ) : showRequestAccess ? (
                             // Request Access Form
                             <div className="animate-fade-in">
                                 <div className="flex flex-col gap-2 mb-8">
@@ -2,6 +2,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { MasterItem, AppUser } from '../types';
 import { getMasterData, saveMasterData, deleteAllMasterData, fetchMasterData } from '../services/storageService';
+import { canImportMaster } from '../services/permissions';
+import { parseSheetUrl, fetchSheetRows, parseMasterRows, guessHeaderMapping, MASTER_DATA_SYNCED_EVENT } from '../services/masterDataSync';
+import { MasterDataSourceSync } from './MasterDataSourceSync';
 import { Download, Upload, FileSpreadsheet, Link as LinkIcon, Check, Sheet, ArrowRight, RefreshCw, ChevronLeft, ChevronRight, AlertTriangle, Database, Trash2 } from 'lucide-react';
 import * as XLSX from 'xlsx';
 
@@ -42,35 +45,12 @@ export const MasterData: React.FC<MasterDataProps> = ({ currentUser }) => {
         setLoading(false);
     };
     fetch();
-  }, []);
-
-  // --- SMART MAPPING LOGIC FOR NEW HEADERS ---
-  const normalizeHeader = (header: string): string | null => {
-      const h = header.toLowerCase().replace(/[^a-z0-9]/g, '');
-      if (['kodebarang', 'kode', 'sku', 'itemcode', 'partnumber'].includes(h)) return 'sku';
-      if (['namabarang', 'nama', 'name', 'description'].includes(h)) return 'name';
-      if (['namasatuanbarangjasa', 'namasatuan', 'satuan', 'unit', 'uom'].includes(h)) return 'unit';
-      if (['namagudang', 'warehouse', 'gudang', 'lokasi', 'namagudangwarehouse', 'kategori'].includes(h)) return 'category';
-      if (['noseriproduksi', 'noseri', 'noproduksi', 'serial', 'batch', 'batchnumber', 'lot'].includes(h)) return 'batchNumber';
-      if (['tglkadaluarsa', 'tgl', 'kadaluarsa', 'expired', 'expirydate', 'ed'].includes(h)) return 'expiryDate';
-      if (['kuantitas', 'qty', 'quantity', 'stok', 'stock', 'systemstock', 'jumlah'].includes(h)) return 'systemStock';
-      return null;
-  };
 
-  const formatDate = (raw: any): string => {
-      if (!raw) return '';
-      if (typeof raw === 'number' && raw > 20000) {
-          const date = new Date(Math.round((raw - 25569) * 86400 * 1000));
-          return date.toISOString().split('T')[0];
-      }
-      const str = String(raw).trim();
-      if (str.match(/^\d{4}-\d{2}-\d{2}$/)) return str;
-      if (str.match(/^\d{1,2}[/-]\d{1,2}[/-]\d{4}$/)) {
-          const parts = str.split(/[/-]/);
-          return `${parts[2]}-${parts[1].padStart(2, '0')}-${parts[0].padStart(2, '0')}`;
-      }
-      return str;
-  };
+    // Scheduled syncs from the saved Google Sheet refresh the table in place
+    const handleSynced = () => { fetchMasterData().then(setItems); };
+    window.addEventListener(MASTER_DATA_SYNCED_EVENT, handleSynced);
+    return () => window.removeEventListener(MASTER_DATA_SYNCED_EVENT, handleSynced);
+  }, []);
 
   // --- EXCEL HANDLERS ---
   const handleExportExcel = () => {
@@ -81,7 +61,8 @@ export const MasterData: React.FC<MasterDataProps> = ({ currentUser }) => {
         "Nama Gudang ( Warehouse)": item.category,
         "No Seri/Produksi": item.batchNumber,
         "Tgl Kadaluarsa": item.expiryDate,
-        "Kuantitas": item.systemStock
+        "Kuantitas": item.systemStock,
+        "Lokasi Rak": item.location || ''
     }));
 
     const ws = XLSX.utils.json_to_sheet(exportData);
@@ -119,50 +100,11 @@ export const MasterData: React.FC<MasterDataProps> = ({ currentUser }) => {
   // --- GOOGLE SHEETS URL HANDLER ---
   const fetchGoogleSheet = async () => {
       if (!sheetUrl) return;
-      
-      // Extract Spreadsheet ID
-      const idMatches = sheetUrl.match(/\/d\/([a-zA-Z0-9-_]+)/);
-      if (!idMatches || !idMatches[1]) {
-          alert("URL Google Sheets tidak valid. Pastikan link mengandung ID spreadsheet.");
-          return;
-      }
-      const sheetId = idMatches[1];
-
-      // Extract GID (Sheet ID) if present
-      const gidMatches = sheetUrl.match(/[#&]gid=([0-9]+)/);
-      const gid = gidMatches ? gidMatches[1] : '0'; // Default to first sheet (gid=0) if not found
-
-      // Construct CSV Export URL (Using /export endpoint is often more reliable for public sheets than /gviz)
-      const csvUrl = `https://docs.google.com/spreadsheets/d/${sheetId}/export?format=csv&gid=${gid}`;
 
       setIsFetchingSheet(true);
       try {
-          console.log("Fetching CSV from:", csvUrl);
-          const response = await fetch(csvUrl);
-          
-          if (!response.ok) {
-              if (response.status === 404) throw new Error("Spreadsheet tidak ditemukan.");
-              if (response.status === 401 || response.status === 403) throw new Error("Izin ditolak. Pastikan akses 'Anyone with the link' sudah aktif.");
-              throw new Error(`Gagal mengambil data (Status: ${response.status})`);
-          }
-
-          const csvText = await response.text();
-          
-          // Basic validation to check if we got HTML instead of CSV (common login page redirect issue)
-          if (csvText.trim().toLowerCase().startsWith("<!doctype html") || csvText.includes("<html")) {
-              throw new Error("Link mengarah ke halaman login. Pastikan file bersifat PUBLIK (Anyone with the link).");
-          }
-
-          const workbook = XLSX.read(csvText, { type: 'string' });
-          const sheetName = workbook.SheetNames[0];
-          const sheet = workbook.Sheets[sheetName];
-          const jsonData = XLSX.utils.sheet_to_json<any>(sheet);
-          
-          if (jsonData.length === 0) {
-              throw new Error("Sheet kosong atau format tidak terbaca.");
-          }
-
-          processToPreview(jsonData);
+          const { spreadsheetId, gid } = parseSheetUrl(sheetUrl);
+          processToPreview(await fetchSheetRows(spreadsheetId, gid));
       } catch (error: any) {
           console.error("Sheet Fetch Error:", error);
           alert(`ERROR: ${error.message}\n\nTips:\n1. Klik tombol 'Share' di pojok kanan atas Google Sheet.\n2. Ubah akses menjadi 'Anyone with the link'.\n3. Copy link tersebut.`);
@@ -178,56 +120,13 @@ export const MasterData: React.FC<MasterDataProps> = ({ currentUser }) => {
         return;
     }
 
-    // Debug: Log raw headers to help troubleshoot
     const rawHeaders = Object.keys(jsonData[0]);
-    console.log("Raw Headers found:", rawHeaders);
-
-    const headerMap: Record<string, string | null> = {};
-    let skuFound = false;
-    
-    rawHeaders.forEach(h => {
-        const normalized = normalizeHeader(h);
-        headerMap[h] = normalized;
-        if (normalized === 'sku') skuFound = true;
-    });
-
-    if (!skuFound) {
-        alert("Gagal menemukan kolom 'Kode Barang' atau 'SKU'.\n\nHeader yang terbaca: " + rawHeaders.join(", ") + "\n\nPastikan baris pertama adalah header tabel.");
-        return;
+    try {
+        setPreviewItems(parseMasterRows(jsonData, guessHeaderMapping(rawHeaders)));
+        setCurrentPage(1); // Reset to first page on new data
+    } catch (e: any) {
+        alert(e.message + "\n\nHeader yang terbaca: " + rawHeaders.join(", ") + "\n\nPastikan baris pertama adalah header tabel.");
     }
-
-    const parsedItems: MasterItem[] = jsonData.map((row) => {
-        const item: any = {
-            sku: '', name: '', systemStock: 0, batchNumber: '-', expiryDate: '-', category: 'General', unit: 'Pcs'
-        };
-
-        Object.keys(row).forEach(key => {
-            const fieldType = headerMap[key];
-            let value = row[key];
-            if (!value) return;
-
-            if (fieldType === 'sku') item.sku = String(value).trim();
-            if (fieldType === 'name') item.name = String(value).trim();
-            if (fieldType === 'unit') item.unit = String(value).trim();
-            if (fieldType === 'category') item.category = String(value).trim();
-            if (fieldType === 'batchNumber') item.batchNumber = String(value).trim();
-            
-            if (fieldType === 'systemStock') {
-                if (typeof value === 'string') value = parseFloat(value.replace(/,/g, '').replace(/\./g, '').trim()) || 0;
-                else value = Number(value) || 0;
-                item.systemStock = value;
-            }
-
-            if (fieldType === 'expiryDate') {
-                item.expiryDate = formatDate(value);
-            }
-        });
-
-        return item;
-    }).filter(item => item.sku && String(item.sku).trim() !== '');
-
-    setPreviewItems(parsedItems);
-    setCurrentPage(1); // Reset to first page on new data
   };
 
   const confirmImport = async () => {
@@ -328,11 +227,11 @@ export const MasterData: React.FC<MasterDataProps> = ({ currentUser }) => {
             Master Data & Sync
           </h2>
           <p className="text-slate-400 text-xs mt-1 font-mono">
-            Format: Kode barang | Nama Barang | Nama Satuan | Nama Gudang | No Seri/Produksi | Tgl Kadaluarsa | Kuantitas
+            Format: Kode barang | Nama Barang | Nama Satuan | Nama Gudang | No Seri/Produksi | Tgl Kadaluarsa | Kuantitas | Lokasi Rak (opsional)
           </p>
         </div>
 
-        {currentUser?.role === 'admin' && items.length > 0 && (
+        {canImportMaster(currentUser) && items.length > 0 && (
             <button 
                 onClick={handleManualDeleteAll}
                 className="bg-red-500/10 hover:bg-red-500 text-red-500 hover:text-white px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 transition-all border border-red-500/20"
@@ -343,6 +242,7 @@ export const MasterData: React.FC<MasterDataProps> = ({ currentUser }) => {
         )}
       </div>
 
+      {canImportMaster(currentUser) && (<>
       <div className="flex border-b border-gray-200">
         <button onClick={() => { setActiveTab('sheets'); setPreviewItems([]); }} className={`flex-1 py-4 text-sm font-medium flex justify-center gap-2 ${activeTab === 'sheets' ? 'text-green-600 border-b-2 border-green-600 bg-green-50/50' : 'text-gray-500'}`}>
           <Sheet size={18} /> Google Sheets Link
@@ -421,6 +321,7 @@ export const MasterData: React.FC<MasterDataProps> = ({ currentUser }) => {
                             </div>
                             <p className="text-xs text-slate-500 mt-2">Pastikan Google Sheet di-set ke <b>"Anyone with the link"</b>.</p>
                         </div>
+                        <MasterDataSourceSync />
                         <div className="bg-green-50 rounded-xl p-6 border border-green-100 flex justify-between items-center">
                             <div>
                                 <h3 className="text-lg font-bold text-green-800">Download Template</h3>
@@ -455,6 +356,7 @@ export const MasterData: React.FC<MasterDataProps> = ({ currentUser }) => {
             </>
         )}
       </div>
+      </>)}
 
       {/* Data Table with Pagination */}
       <div className="border-t border-gray-200">
@@ -496,11 +398,12 @@ export const MasterData: React.FC<MasterDataProps> = ({ currentUser }) => {
                           <th className="px-6 py-3 text-left text-xs font-bold text-gray-500 uppercase tracking-wider">No Seri</th>
                           <th className="px-6 py-3 text-left text-xs font-bold text-gray-500 uppercase tracking-wider">Tgl Kadaluarsa</th>
                           <th className="px-6 py-3 text-left text-xs font-bold text-gray-500 uppercase tracking-wider">Kuantitas</th>
+                          <th className="px-6 py-3 text-left text-xs font-bold text-gray-500 uppercase tracking-wider">Lokasi Rak</th>
                       </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
                       {currentItems.length === 0 ? (
-                          <tr><td colSpan={7} className="text-center py-12 text-gray-400">Belum ada data.</td></tr>
+                          <tr><td colSpan={8} className="text-center py-12 text-gray-400">Belum ada data.</td></tr>
                       ) : currentItems.map((item, idx) => (
                           <tr key={idx} className="hover:bg-gray-50">
                               <td className="px-6 py-4 whitespace-nowrap text-xs font-mono font-medium">{item.sku}</td>
@@ -510,6 +413,7 @@ export const MasterData: React.FC<MasterDataProps> = ({ currentUser }) => {
                               <td className="px-6 py-4 whitespace-nowrap text-xs font-mono text-gray-500">{item.batchNumber}</td>
                               <td className="px-6 py-4 whitespace-nowrap text-xs font-mono text-gray-500">{item.expiryDate}</td>
                               <td className="px-6 py-4 whitespace-nowrap text-xs font-bold text-gray-900">{item.systemStock}</td>
+                              <td className="px-6 py-4 whitespace-nowrap text-xs font-mono text-gray-500">{item.location || '-'}</td>
                           </tr>
                       ))}
                   </tbody>
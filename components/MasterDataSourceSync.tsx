@@ -0,0 +1,257 @@
+import React, { useState, useEffect } from 'react';
+import { MasterField, MasterDataSource, MasterDataDiff, MasterSyncRun, MasterSyncTrigger, MasterSyncStatus } from '../types';
+import {
+  getMasterDataSource,
+  saveMasterDataSource,
+  listMasterSyncHistory,
+  previewMasterDataSync,
+  applyMasterDataDiff,
+  parseSheetUrl,
+  fetchSheetRows,
+  guessHeaderMapping,
+  stockChangesOf,
+  isEmptyDiff,
+  MASTER_FIELD_LABELS,
+  MASTER_DATA_SYNCED_EVENT
+} from '../services/masterDataSync';
+import { masterItemKey } from '../services/storageService';
+import { CalendarClock, RefreshCw, Save, Check, X, History } from 'lucide-react';
+
+const FIELDS = Object.keys(MASTER_FIELD_LABELS) as MasterField[];
+
+const INTERVAL_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'Hanya saat aplikasi dibuka' },
+  { value: 15, label: 'Tiap 15 menit' },
+  { value: 60, label: 'Tiap jam' },
+  { value: 240, label: 'Tiap 4 jam' },
+  { value: 1440, label: 'Tiap hari' }
+];
+
+const TRIGGER_LABELS: Record<MasterSyncTrigger, string> = {
+  manual: 'Manual',
+  startup: 'Buka Aplikasi',
+  scheduled: 'Terjadwal'
+};
+
+const STATUS_STYLES: Record<MasterSyncStatus, string> = {
+  applied: 'bg-emerald-100 text-emerald-700',
+  unchanged: 'bg-slate-100 text-slate-500',
+  pending: 'bg-amber-100 text-amber-700',
+  failed: 'bg-red-100 text-red-600'
+};
+
+const STATUS_LABELS: Record<MasterSyncStatus, string> = {
+  applied: 'Diterapkan',
+  unchanged: 'Tidak Ada Perubahan',
+  pending: 'Menunggu Review',
+  failed: 'Gagal'
+};
+
+const PREVIEW_LIMIT = 50;
+
+export const MasterDataSourceSync: React.FC = () => {
+  const [source, setSource] = useState<MasterDataSource | null>(null);
+  const [history, setHistory] = useState<MasterSyncRun[]>([]);
+  const [sheetUrl, setSheetUrl] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Record<string, MasterField>>({});
+  const [intervalMinutes, setIntervalMinutes] = useState(60);
+  const [autoApply, setAutoApply] = useState(true);
+  const [removeMissing, setRemoveMissing] = useState(false);
+  const [diff, setDiff] = useState<MasterDataDiff | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const [saved, runs] = await Promise.all([getMasterDataSource(), listMasterSyncHistory()]);
+      setSource(saved);
+      setHistory(runs.slice(0, 10));
+      return saved;
+    } catch (e: any) {
+      setStatus(e.message || "Gagal memuat sumber master data.");
+      return null;
+    }
+  };
+
+  useEffect(() => {
+    load().then(saved => {
+      if (!saved) return;
+      setSheetUrl(saved.sheetUrl);
+      setHeaders(Object.keys(saved.headerMapping));
+      setMapping(saved.headerMapping);
+      setIntervalMinutes(saved.intervalMinutes);
+      setAutoApply(saved.autoApply);
+      setRemoveMissing(saved.removeMissing);
+    });
+    const handleSynced = () => { load(); };
+    window.addEventListener(MASTER_DATA_SYNCED_EVENT, handleSynced);
+    return () => window.removeEventListener(MASTER_DATA_SYNCED_EVENT, handleSynced);
+  }, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      await action();
+    } catch (e: any) {
+      setStatus(e.message || "Terjadi kesalahan.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReadHeaders = () => run(async () => {
+    const { spreadsheetId, gid } = parseSheetUrl(sheetUrl);
+    const rows = await fetchSheetRows(spreadsheetId, gid);
+    const found = Object.keys(rows[0]);
+    setHeaders(found);
+    setMapping(guessHeaderMapping(found));
+  });
+
+  const setHeaderField = (header: string, field: MasterField | '') => {
+    const next = { ...mapping };
+    if (field) next[header] = field;
+    else delete next[header];
+    setMapping(next);
+  };
+
+  const handleSave = () => run(async () => {
+    setSource(await saveMasterDataSource({ sheetUrl, headerMapping: mapping, intervalMinutes, autoApply, removeMissing }));
+    setStatus("Sumber master data disimpan.");
+  });
+
+  const handlePreview = () => run(async () => {
+    const preview = await previewMasterDataSync();
+    if (isEmptyDiff(preview.diff)) setStatus("Master data sudah sama dengan Google Sheets.");
+    setDiff(isEmptyDiff(preview.diff) ? null : preview.diff);
+  });
+
+  const handleApply = () => {
+    if (!diff) return;
+    if (diff.removed.length > 0 && !window.confirm(`${diff.removed.length} baris (SKU/batch) akan dihapus dari master data. Lanjutkan?`)) return;
+    run(async () => {
+      await applyMasterDataDiff(diff, 'manual');
+      setDiff(null);
+      setStatus("Perubahan master data diterapkan.");
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 border border-slate-200 space-y-5">
+      <div>
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2"><CalendarClock size={20} /> Sinkronisasi Terjadwal</h3>
+        <p className="text-xs text-slate-500 mt-1">Simpan link Google Sheet agar stok sistem diperbarui otomatis selama stock opname berlangsung.</p>
+      </div>
+
+      {status && <p className="text-xs font-medium text-slate-600 bg-slate-50 rounded-lg p-3">{status}</p>}
+
+      <div className="flex gap-2">
+        <input type="url" className="flex-1 p-3 border rounded-lg text-sm" placeholder="https://docs.google.com/spreadsheets/d/...#gid=0" value={sheetUrl} onChange={(e) => setSheetUrl(e.target.value)} />
+        <button onClick={handleReadHeaders} disabled={!sheetUrl || busy} className="bg-slate-800 text-white px-4 rounded-lg text-sm font-bold disabled:opacity-50">
+          Baca Header
+        </button>
+      </div>
+
+      {headers.length > 0 && (
+        <div className="grid sm:grid-cols-2 gap-2">
+          {headers.map(header => (
+            <label key={header} className="flex items-center gap-2 text-xs">
+              <span className="flex-1 font-mono text-slate-600 truncate" title={header}>{header}</span>
+              <select value={mapping[header] || ''} onChange={e => setHeaderField(header, e.target.value as MasterField | '')} className="w-44 rounded-lg border-slate-200 text-xs py-1.5">
+                <option value="">(abaikan)</option>
+                {FIELDS.map(f => <option key={f} value={f}>{MASTER_FIELD_LABELS[f]}</option>)}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4 text-sm">
+        <select value={intervalMinutes} onChange={e => setIntervalMinutes(Number(e.target.value))} className="rounded-lg border-slate-200 text-sm">
+          {INTERVAL_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+        <label className="flex items-center gap-2 text-xs text-slate-600">
+          <input type="checkbox" checked={autoApply} onChange={e => setAutoApply(e.target.checked)} />
+          Terapkan otomatis tanpa review
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-600">
+          <input type="checkbox" checked={removeMissing} onChange={e => setRemoveMissing(e.target.checked)} />
+          Hapus batch yang tidak ada di sheet
+        </label>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={handleSave} disabled={!sheetUrl || headers.length === 0 || busy} className="px-4 py-2 rounded-lg border border-slate-200 text-sm font-bold text-slate-700 flex items-center gap-2 disabled:opacity-50">
+          <Save size={16} /> Simpan Sumber
+        </button>
+        <button onClick={handlePreview} disabled={!source || busy} className="px-4 py-2 rounded-lg bg-green-600 text-white text-sm font-bold flex items-center gap-2 hover:bg-green-700 disabled:opacity-50">
+          <RefreshCw size={16} className={busy ? 'animate-spin' : ''} /> Cek Perubahan
+        </button>
+      </div>
+
+      {diff && (
+        <div className="border border-blue-200 bg-blue-50 rounded-xl p-4 space-y-3">
+          <div className="flex flex-wrap gap-3 text-xs font-bold">
+            <span className="text-emerald-700">+{diff.added.length} baru</span>
+            <span className="text-blue-700">{diff.changed.length} berubah ({stockChangesOf(diff)} stok)</span>
+            <span className="text-red-600">-{diff.removed.length} dihapus</span>
+          </div>
+          <div className="max-h-64 overflow-y-auto bg-white rounded-lg border border-blue-100">
+            <table className="min-w-full text-xs">
+              <tbody className="divide-y divide-slate-100">
+                {diff.added.slice(0, PREVIEW_LIMIT).map(item => (
+                  <tr key={`a-${masterItemKey(item)}`}>
+                    <td className="px-3 py-2 font-bold text-emerald-700">Baru</td>
+                    <td className="px-3 py-2 font-mono">{item.sku} · {item.batchNumber}</td>
+                    <td className="px-3 py-2 text-slate-600">{item.name} · stok {item.systemStock}</td>
+                  </tr>
+                ))}
+                {diff.changed.slice(0, PREVIEW_LIMIT).map(change => (
+                  <tr key={`c-${masterItemKey(change.after)}`}>
+                    <td className="px-3 py-2 font-bold text-blue-700">Ubah</td>
+                    <td className="px-3 py-2 font-mono">{change.after.sku} · {change.after.batchNumber}</td>
+                    <td className="px-3 py-2 text-slate-600">
+                      {change.fields.map(field => `${field}: ${change.before[field]} → ${change.after[field]}`).join(' · ')}
+                    </td>
+                  </tr>
+                ))}
+                {diff.removed.slice(0, PREVIEW_LIMIT).map(item => (
+                  <tr key={`r-${masterItemKey(item)}`}>
+                    <td className="px-3 py-2 font-bold text-red-600">Hapus</td>
+                    <td className="px-3 py-2 font-mono">{item.sku} · {item.batchNumber}</td>
+                    <td className="px-3 py-2 text-slate-600">{item.name}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDiff(null)} className="px-4 py-2 text-slate-600 text-sm font-medium hover:bg-slate-200 rounded-lg flex items-center gap-1"><X size={14} /> Batal</button>
+            <button onClick={handleApply} disabled={busy} className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-bold flex items-center gap-1 disabled:opacity-50"><Check size={14} /> Terapkan</button>
+          </div>
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div>
+          <h4 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1 mb-2"><History size={14} /> Riwayat Sinkronisasi</h4>
+          <div className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+            {history.map(runEntry => (
+              <div key={runEntry.id} className="px-3 py-2 flex flex-wrap items-center gap-3 text-xs">
+                <span className="font-mono text-slate-500">{new Date(runEntry.startedAt).toLocaleString('id-ID')}</span>
+                <span className="text-slate-500">{TRIGGER_LABELS[runEntry.trigger]} · {runEntry.user}</span>
+                <span className={`px-2 py-0.5 rounded font-bold ${STATUS_STYLES[runEntry.status]}`}>{STATUS_LABELS[runEntry.status]}</span>
+                {runEntry.status === 'failed' ? (
+                  <span className="text-red-600">{runEntry.error}</span>
+                ) : runEntry.status !== 'unchanged' && (
+                  <span className="text-slate-600">+{runEntry.added} · {runEntry.changed} berubah ({runEntry.stockChanges} stok) · -{runEntry.removed}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,331 @@
+import React, { useState, useEffect } from 'react';
+import * as XLSX from 'xlsx';
+import { MasterLocation } from '../types';
+import { subscribeToMasterLocations, saveMasterLocations, saveMasterLocation, deleteMasterLocation } from '../services/storageService';
+import { parseSheetUrl, fetchSheetRows } from '../services/masterDataSync';
+import { MapPin, Plus, Pencil, Trash2, Save, X, Search, ChevronLeft, Upload, Download, Link } from 'lucide-react';
+
+interface MasterLocationsProps {
+    onBack: () => void;
+}
+
+// Same header matching as the master data import: case, spaces and
+// punctuation are ignored, Indonesian and English names are accepted.
+const normalizeHeader = (header: string): keyof MasterLocation | null => {
+    const h = header.toLowerCase().replace(/[^a-z0-9]/g, '');
+    if (['kode', 'kodelokasi', 'koderak', 'kodebin', 'id', 'locationid', 'bin', 'bincode'].includes(h)) return 'id';
+    if (['nama', 'namalokasi', 'namarak', 'name', 'lokasi', 'lokasirak', 'rak', 'location', 'locationname'].includes(h)) return 'name';
+    if (['zona', 'zone', 'area', 'gudang', 'namagudang', 'warehouse'].includes(h)) return 'zone';
+    return null;
+};
+
+// A sheet with only a name column uses the name as the code
+const parseLocationRows = (rows: any[]): MasterLocation[] => {
+    if (rows.length === 0) throw new Error("Data kosong atau tidak terbaca.");
+    const fields = Object.keys(rows[0]).map(normalizeHeader);
+    if (!fields.includes('id') && !fields.includes('name')) {
+        throw new Error("Gagal menemukan kolom 'Kode Lokasi' atau 'Nama Lokasi'.");
+    }
+    return rows.map(row => {
+        const location: MasterLocation = { id: '', name: '', zone: '' };
+        Object.keys(row).forEach(key => {
+            const field = normalizeHeader(key);
+            if (field) location[field] = String(row[key] ?? '').trim();
+        });
+        return { ...location, id: location.id || location.name };
+    }).filter(l => l.id);
+};
+
+const EMPTY_FORM: MasterLocation = { id: '', name: '', zone: '' };
+
+export const MasterLocations: React.FC<MasterLocationsProps> = ({ onBack }) => {
+    const [locations, setLocations] = useState<MasterLocation[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [searchQuery, setSearchQuery] = useState('');
+
+    const [showImport, setShowImport] = useState(false);
+    const [sheetUrl, setSheetUrl] = useState('');
+    const [previewRows, setPreviewRows] = useState<MasterLocation[]>([]);
+    const [progress, setProgress] = useState<number | null>(null);
+
+    const [editing, setEditing] = useState<MasterLocation | null>(null);
+    const [isEditing, setIsEditing] = useState(false);
+    const [form, setForm] = useState<MasterLocation>(EMPTY_FORM);
+    const [busy, setBusy] = useState(false);
+
+    useEffect(() => {
+        const unsubscribe = subscribeToMasterLocations(list => {
+            setLocations(list);
+            setLoading(false);
+        }, () => setLoading(false));
+        return () => unsubscribe();
+    }, []);
+
+    const toPreview = (rows: any[]) => {
+        try {
+            setPreviewRows(parseLocationRows(rows));
+        } catch (e: any) {
+            alert(e.message + "\n\nPastikan baris pertama adalah header tabel.");
+        }
+    };
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (evt) => {
+            try {
+                const workbook = XLSX.read(evt.target?.result, { type: 'array' });
+                toPreview(XLSX.utils.sheet_to_json<any>(workbook.Sheets[workbook.SheetNames[0]]));
+            } catch (err) {
+                console.error("Failed to parse location file:", err);
+                alert("File tidak dapat dibaca. Gunakan format CSV atau Excel.");
+            }
+        };
+        reader.readAsArrayBuffer(file);
+        e.target.value = '';
+    };
+
+    const handleFetchSheet = async () => {
+        setBusy(true);
+        try {
+            const { spreadsheetId, gid } = parseSheetUrl(sheetUrl);
+            toPreview(await fetchSheetRows(spreadsheetId, gid));
+        } catch (e: any) {
+            alert(`ERROR: ${e.message}`);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleImport = async () => {
+        setProgress(0);
+        try {
+            await saveMasterLocations(previewRows, setProgress);
+            alert(`${previewRows.length} lokasi berhasil disimpan.`);
+            setPreviewRows([]);
+            setShowImport(false);
+        } catch (e: any) {
+            alert(e.message || "Gagal mengimpor lokasi.");
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    const downloadTemplate = () => {
+        const rows = (locations.length > 0 ? locations : [{ id: 'A-01-01', name: 'A-01-01', zone: 'Zona A' }])
+            .map(l => ({ "Kode Lokasi": l.id, "Nama Lokasi": l.name, "Zona": l.zone }));
+        const wb = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), "Lokasi");
+        XLSX.writeFile(wb, 'master_lokasi.xlsx');
+    };
+
+    const openForm = (location: MasterLocation | null) => {
+        setEditing(location);
+        setForm(location || EMPTY_FORM);
+        setIsEditing(true);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setBusy(true);
+        try {
+            await saveMasterLocation(form, editing?.id);
+            setIsEditing(false);
+        } catch (err: any) {
+            alert(err.message || "Gagal menyimpan lokasi.");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleDelete = async (location: MasterLocation) => {
+        if (!window.confirm(`Hapus lokasi ${location.id}?\n\nData hitung di lokasi ini tidak ikut terhapus.`)) return;
+        try {
+            await deleteMasterLocation(location.id);
+        } catch (e: any) {
+            alert(e.message || "Gagal menghapus lokasi.");
+        }
+    };
+
+    const query = searchQuery.toLowerCase();
+    const filtered = locations.filter(l =>
+        l.id.toLowerCase().includes(query) || l.name.toLowerCase().includes(query) || l.zone.toLowerCase().includes(query)
+    );
+
+    return (
+        <div className="max-w-4xl mx-auto p-6 animate-fade-in">
+            <div className="flex items-center justify-between mb-8">
+                <div className="flex items-center gap-4">
+                    <button onClick={onBack} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+                        <ChevronLeft size={24} />
+                    </button>
+                    <div>
+                        <h1 className="text-2xl font-black text-slate-800 uppercase tracking-tight">Lokasi Rak</h1>
+                        <p className="text-xs text-slate-400 font-bold uppercase tracking-widest">{locations.length} Lokasi Terdaftar</p>
+                    </div>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => setShowImport(!showImport)}
+                        className="bg-white border border-slate-200 text-slate-600 px-4 py-2.5 rounded-xl font-bold flex items-center gap-2 hover:bg-slate-50 transition-all"
+                    >
+                        <Upload size={18} /> Impor
+                    </button>
+                    <button
+                        onClick={() => openForm(null)}
+                        className="bg-primary text-white px-6 py-2.5 rounded-xl font-bold flex items-center gap-2 shadow-lg shadow-primary/20 hover:scale-105 active:scale-95 transition-all"
+                    >
+                        <Plus size={18} /> Tambah Lokasi
+                    </button>
+                </div>
+            </div>
+
+            {showImport && (
+                <div className="bg-white p-6 rounded-2xl border border-slate-100 shadow-sm mb-6 space-y-4">
+                    <div className="flex flex-col sm:flex-row gap-3">
+                        <label className="flex-1 border border-dashed border-slate-300 rounded-xl p-4 text-xs font-bold text-slate-500 flex items-center justify-center gap-2 cursor-pointer hover:bg-slate-50">
+                            <Upload size={16} /> Pilih File Excel / CSV
+                            <input type="file" accept=".xlsx,.xls,.csv" className="hidden" onChange={handleFile} />
+                        </label>
+                        <button onClick={downloadTemplate} className="px-4 py-3 rounded-xl border border-slate-200 text-xs font-bold text-slate-600 flex items-center justify-center gap-2 hover:bg-slate-50">
+                            <Download size={16} /> Unduh Template
+                        </button>
+                    </div>
+                    <div className="flex gap-2">
+                        <input
+                            type="url"
+                            className="flex-1 p-3 border border-slate-200 rounded-xl text-sm"
+                            placeholder="https://docs.google.com/spreadsheets/d/...#gid=0"
+                            value={sheetUrl}
+                            onChange={e => setSheetUrl(e.target.value)}
+                        />
+                        <button onClick={handleFetchSheet} disabled={!sheetUrl || busy} className="bg-slate-800 text-white px-4 rounded-xl text-sm font-bold flex items-center gap-2 disabled:opacity-50">
+                            <Link size={16} /> Ambil
+                        </button>
+                    </div>
+                    <p className="text-[11px] text-slate-400">Kolom: Kode Lokasi | Nama Lokasi | Zona. Lokasi dengan kode yang sudah ada diperbarui, lokasi lain tidak dihapus.</p>
+
+                    {previewRows.length > 0 && (
+                        <div className="flex items-center justify-between bg-blue-50 rounded-xl p-4">
+                            <span className="text-sm font-bold text-slate-700">{previewRows.length} lokasi siap diimpor</span>
+                            <div className="flex gap-2">
+                                <button onClick={() => setPreviewRows([])} disabled={progress !== null} className="px-4 py-2 text-xs font-bold text-slate-500 hover:bg-white rounded-lg">Batal</button>
+                                <button onClick={handleImport} disabled={progress !== null} className="px-4 py-2 bg-primary text-white text-xs font-bold rounded-lg disabled:opacity-50">
+                                    {progress !== null ? `Menyimpan ${progress}%` : 'Simpan Lokasi'}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className="relative mb-6">
+                <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+                <input
+                    type="text"
+                    placeholder="Cari kode, nama atau zona..."
+                    className="w-full bg-white border border-slate-200 rounded-xl py-3 pl-12 pr-4 text-sm font-medium focus:ring-2 focus:ring-primary/20 outline-none transition-all shadow-sm"
+                    value={searchQuery}
+                    onChange={e => setSearchQuery(e.target.value)}
+                />
+            </div>
+
+            {loading ? (
+                <p className="text-center py-24 font-bold uppercase tracking-widest text-xs text-slate-300">Memuat lokasi...</p>
+            ) : filtered.length === 0 ? (
+                <div className="text-center py-16 text-slate-400 bg-white rounded-2xl border border-slate-100">
+                    <MapPin className="mx-auto mb-2" size={32} />
+                    <p className="text-sm">{locations.length === 0 ? 'Belum ada lokasi. Impor atau tambahkan lokasi rak.' : 'Tidak ada lokasi yang cocok.'}</p>
+                </div>
+            ) : (
+                <div className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-hidden">
+                    <table className="min-w-full divide-y divide-slate-100">
+                        <thead className="bg-slate-50 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                            <tr>
+                                <th className="px-6 py-3 text-left">Kode</th>
+                                <th className="px-6 py-3 text-left">Nama</th>
+                                <th className="px-6 py-3 text-left">Zona</th>
+                                <th className="px-6 py-3"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {filtered.map(location => (
+                                <tr key={location.id} className="hover:bg-slate-50 group">
+                                    <td className="px-6 py-3 text-xs font-mono font-bold text-slate-700">{location.id}</td>
+                                    <td className="px-6 py-3 text-xs text-slate-600">{location.name}</td>
+                                    <td className="px-6 py-3 text-xs text-slate-500 uppercase">{location.zone}</td>
+                                    <td className="px-6 py-3 text-right whitespace-nowrap">
+                                        <button onClick={() => openForm(location)} className="p-2 text-slate-400 hover:text-primary hover:bg-white rounded-lg transition-all">
+                                            <Pencil size={14} />
+                                        </button>
+                                        <button onClick={() => handleDelete(location)} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all">
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {isEditing && (
+                <div className="fixed inset-0 z-[200] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+                    <div className="bg-white rounded-[2rem] w-full max-w-md shadow-2xl overflow-hidden border border-white/5">
+                        <div className="p-6 bg-primary text-white flex justify-between items-center">
+                            <h3 className="font-bold flex items-center gap-2">
+                                <MapPin size={20} /> {editing ? 'Edit Lokasi' : 'Tambah Lokasi'}
+                            </h3>
+                            <button onClick={() => setIsEditing(false)} className="p-1 hover:bg-white/10 rounded-full transition-colors">
+                                <X size={24} />
+                            </button>
+                        </div>
+                        <form onSubmit={handleSubmit} className="p-8 space-y-4">
+                            <div className="space-y-1.5">
+                                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Kode Lokasi</label>
+                                <input
+                                    type="text"
+                                    value={form.id}
+                                    onChange={e => setForm({ ...form, id: e.target.value.toUpperCase() })}
+                                    className="w-full rounded-xl border-slate-200 p-3 text-sm font-bold font-mono focus:ring-2 focus:ring-primary outline-none transition-all"
+                                    placeholder="A-01-01"
+                                />
+                            </div>
+                            <div className="space-y-1.5">
+                                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Nama Lokasi</label>
+                                <input
+                                    type="text"
+                                    value={form.name}
+                                    onChange={e => setForm({ ...form, name: e.target.value })}
+                                    className="w-full rounded-xl border-slate-200 p-3 text-sm font-bold focus:ring-2 focus:ring-primary outline-none transition-all"
+                                    placeholder="Sama dengan kode bila dikosongkan"
+                                />
+                            </div>
+                            <div className="space-y-1.5">
+                                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Zona</label>
+                                <input
+                                    type="text"
+                                    list="location-zones"
+                                    value={form.zone}
+                                    onChange={e => setForm({ ...form, zone: e.target.value })}
+                                    className="w-full rounded-xl border-slate-200 p-3 text-sm font-bold focus:ring-2 focus:ring-primary outline-none transition-all"
+                                    placeholder="Zona A"
+                                />
+                                <datalist id="location-zones">
+                                    {Array.from(new Set(locations.map(l => l.zone))).map(zone => <option key={zone} value={zone} />)}
+                                </datalist>
+                            </div>
+                            <div className="flex gap-4 pt-4">
+                                <button type="button" onClick={() => setIsEditing(false)} className="flex-1 py-3.5 text-slate-500 font-bold text-sm hover:bg-slate-100 rounded-xl transition-colors">Batal</button>
+                                <button type="submit" disabled={busy || !form.id.trim()} className="flex-[2] py-3.5 bg-primary text-white font-bold rounded-xl text-sm shadow-xl shadow-primary/25 flex items-center justify-center gap-2 active:scale-[0.98] transition-all disabled:opacity-50">
+                                    <Save size={18} /> Simpan Lokasi
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
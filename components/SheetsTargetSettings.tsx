@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { CountSession, SheetsColumnField } from '../types';
+import { setSessionSheetsTarget, createSessionSpreadsheet } from '../services/storageService';
+import { SHEETS_COLUMNS, DEFAULT_SHEETS_COLUMNS, hasGoogleToken, spreadsheetUrl } from '../services/googleSheets';
+import { X, FileSpreadsheet, Plus, Trash2, ArrowUp, ArrowDown, Save, ExternalLink } from 'lucide-react';
+
+interface SheetsTargetSettingsProps {
+    session: CountSession;
+    onClose: () => void;
+}
+
+const FIELDS = Object.keys(SHEETS_COLUMNS) as SheetsColumnField[];
+
+// 0 -> A, 26 -> AA
+const columnName = (index: number): string =>
+    index < 26 ? String.fromCharCode(65 + index) : columnName(Math.floor(index / 26) - 1) + columnName(index % 26);
+
+export const SheetsTargetSettings: React.FC<SheetsTargetSettingsProps> = ({ session, onClose }) => {
+    const current = session.sheetsTarget;
+    const [spreadsheet, setSpreadsheet] = useState(current?.spreadsheetId || '');
+    const [sheetTitle, setSheetTitle] = useState(current?.sheetTitle || 'Audit');
+    const [columns, setColumns] = useState<SheetsColumnField[]>(current?.columns?.length ? current.columns : DEFAULT_SHEETS_COLUMNS);
+    const [busy, setBusy] = useState(false);
+    const [status, setStatus] = useState<string | null>(null);
+
+    const connected = hasGoogleToken();
+
+    const setColumn = (index: number, field: SheetsColumnField) =>
+        setColumns(columns.map((c, i) => i === index ? field : c));
+
+    const moveColumn = (index: number, offset: number) => {
+        const next = [...columns];
+        [next[index], next[index + offset]] = [next[index + offset], next[index]];
+        setColumns(next);
+    };
+
+    const run = async (action: () => Promise<unknown>, done: string) => {
+        setBusy(true);
+        try {
+            await action();
+            setStatus(done);
+        } catch (e: any) {
+            setStatus(e.message || "Terjadi kesalahan.");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleSave = () =>
+        run(() => setSessionSheetsTarget(session.id, { spreadsheet, sheetTitle, columns }), "Target disimpan dan baris judul ditulis ulang.");
+
+    const handleCreate = () => {
+        if (!window.confirm(`Buat spreadsheet baru untuk sesi "${session.name}" di akun Google yang terhubung?`)) return;
+        run(async () => {
+            const target = await createSessionSpreadsheet(session.id, columns);
+            setSpreadsheet(target.spreadsheetId);
+            setSheetTitle(target.sheetTitle);
+        }, "Spreadsheet baru dibuat.");
+    };
+
+    return (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+            <div className="bg-white rounded-[2rem] w-full max-w-lg shadow-2xl overflow-hidden border border-white/5 max-h-[90vh] flex flex-col">
+                <div className="p-6 bg-primary text-white flex justify-between items-center">
+                    <h3 className="font-bold flex items-center gap-2 text-sm"><FileSpreadsheet size={18} /> Google Sheets · {session.name}</h3>
+                    <button onClick={onClose} className="p-1 hover:bg-white/10 rounded-full transition-colors"><X size={20} /></button>
+                </div>
+
+                <div className="p-6 space-y-5 overflow-y-auto">
+                    {!connected && (
+                        <p className="text-xs font-bold text-amber-700 bg-amber-50 rounded-xl p-3">Hubungkan akun Google terlebih dahulu untuk memilih atau membuat spreadsheet.</p>
+                    )}
+                    {status && <p className="text-xs text-slate-500 font-medium">{status}</p>}
+
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">URL atau ID Spreadsheet</label>
+                        <input
+                            type="text"
+                            value={spreadsheet}
+                            onChange={e => setSpreadsheet(e.target.value)}
+                            placeholder="https://docs.google.com/spreadsheets/d/..."
+                            className="w-full rounded-xl border-slate-200 p-3 text-sm font-mono"
+                        />
+                        {current && (
+                            <a href={spreadsheetUrl(current.spreadsheetId)} target="_blank" rel="noreferrer" className="text-[11px] font-bold text-primary flex items-center gap-1">
+                                <ExternalLink size={12} /> Buka spreadsheet saat ini
+                            </a>
+                        )}
+                    </div>
+
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Nama Tab</label>
+                        <input
+                            type="text"
+                            value={sheetTitle}
+                            onChange={e => setSheetTitle(e.target.value)}
+                            className="w-full rounded-xl border-slate-200 p-3 text-sm font-bold"
+                        />
+                        <p className="text-[11px] text-slate-400">Tab dibuat otomatis bila belum ada. Baris 1 diisi judul kolom.</p>
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Kolom</label>
+                        <p className="text-[11px] text-slate-400">Bila ID Record tidak dipilih, kolom itu ditambahkan di akhir. Baris dicocokkan lewat ID saat data diubah atau dihapus.</p>
+                        {columns.map((field, index) => (
+                            <div key={index} className="flex items-center gap-2">
+                                <span className="w-8 text-center text-xs font-black text-slate-400">{columnName(index)}</span>
+                                <select
+                                    value={field}
+                                    onChange={e => setColumn(index, e.target.value as SheetsColumnField)}
+                                    className="flex-1 rounded-xl border-slate-200 text-xs font-bold py-2"
+                                >
+                                    {FIELDS.map(f => <option key={f} value={f}>{SHEETS_COLUMNS[f].header}</option>)}
+                                </select>
+                                <button type="button" onClick={() => moveColumn(index, -1)} disabled={index === 0} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded-lg disabled:opacity-30"><ArrowUp size={14} /></button>
+                                <button type="button" onClick={() => moveColumn(index, 1)} disabled={index === columns.length - 1} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded-lg disabled:opacity-30"><ArrowDown size={14} /></button>
+                                <button type="button" onClick={() => setColumns(columns.filter((_, i) => i !== index))} className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg"><Trash2 size={14} /></button>
+                            </div>
+                        ))}
+                        <div className="flex gap-2">
+                            <button type="button" onClick={() => setColumns([...columns, 'id'])} className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-primary hover:bg-blue-50 rounded-lg flex items-center gap-1">
+                                <Plus size={12} /> Tambah Kolom
+                            </button>
+                            <button type="button" onClick={() => setColumns(DEFAULT_SHEETS_COLUMNS)} className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:bg-slate-100 rounded-lg">
+                                Susunan Bawaan
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="p-6 border-t border-slate-100 flex gap-3">
+                    <button onClick={handleCreate} disabled={busy || !connected} className="flex-1 py-3 rounded-xl border border-slate-200 text-xs font-bold text-slate-600 hover:bg-slate-50 disabled:opacity-50 flex items-center justify-center gap-2">
+                        <Plus size={14} /> Buat Spreadsheet Baru
+                    </button>
+                    <button onClick={handleSave} disabled={busy || !connected} className="flex-1 py-3 rounded-xl bg-primary text-white text-xs font-bold disabled:opacity-50 flex items-center justify-center gap-2">
+                        <Save size={14} /> Simpan Target
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
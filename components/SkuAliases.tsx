@@ -0,0 +1,360 @@
+import React, { useState, useEffect } from 'react';
+import * as XLSX from 'xlsx';
+import { SkuAlias, MasterItem, SkuUnits } from '../types';
+import { subscribeToSkuAliases, subscribeToSkuUnits, getMasterData, saveSkuAliases, saveSkuAlias, deleteSkuAlias, unitsOfSku } from '../services/storageService';
+import { parseSheetUrl, fetchSheetRows } from '../services/masterDataSync';
+import { Barcode, Plus, Pencil, Trash2, Save, X, Search, ChevronLeft, Upload, Download, Link } from 'lucide-react';
+
+interface SkuAliasesProps {
+    onBack: () => void;
+}
+
+// Same header matching as the master data import: case, spaces and
+// punctuation are ignored, Indonesian and English names are accepted.
+const normalizeHeader = (header: string): 'alias' | 'sku' | 'unit' | null => {
+    const h = header.toLowerCase().replace(/[^a-z0-9]/g, '');
+    if (['alias', 'kodealias', 'barcode', 'kodebarcode', 'ean', 'gtin', 'upc', 'kodesupplier', 'suppliercode', 'kodelama', 'oldcode'].includes(h)) return 'alias';
+    if (['sku', 'kodebarang', 'kodeitem', 'itemcode', 'skuinternal'].includes(h)) return 'sku';
+    if (['satuan', 'unit', 'uom', 'kemasan', 'satuankemasan', 'packaging'].includes(h)) return 'unit';
+    return null;
+};
+
+const parseAliasRows = (rows: any[]): SkuAlias[] => {
+    if (rows.length === 0) throw new Error("Data kosong atau tidak terbaca.");
+    const fields = Object.keys(rows[0]).map(normalizeHeader);
+    if (!fields.includes('alias') || !fields.includes('sku')) {
+        throw new Error("Gagal menemukan kolom 'Kode Alias' dan 'SKU'.");
+    }
+    return rows.map(row => {
+        const alias: SkuAlias = { alias: '', sku: '' };
+        Object.keys(row).forEach(key => {
+            const field = normalizeHeader(key);
+            const value = String(row[key] ?? '').trim();
+            if (field) alias[field] = value;
+        });
+        return alias;
+    }).filter(a => a.alias && a.sku);
+};
+
+const EMPTY_FORM: SkuAlias = { alias: '', sku: '', unit: '' };
+
+export const SkuAliases: React.FC<SkuAliasesProps> = ({ onBack }) => {
+    const [aliases, setAliases] = useState<SkuAlias[]>([]);
+    const [items, setItems] = useState<MasterItem[]>([]);
+    const [skuUnits, setSkuUnits] = useState<SkuUnits[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [searchQuery, setSearchQuery] = useState('');
+
+    const [showImport, setShowImport] = useState(false);
+    const [sheetUrl, setSheetUrl] = useState('');
+    const [previewRows, setPreviewRows] = useState<SkuAlias[]>([]);
+    const [progress, setProgress] = useState<number | null>(null);
+
+    const [editing, setEditing] = useState<SkuAlias | null>(null);
+    const [isEditing, setIsEditing] = useState(false);
+    const [form, setForm] = useState<SkuAlias>(EMPTY_FORM);
+    const [busy, setBusy] = useState(false);
+
+    useEffect(() => {
+        getMasterData().then(setItems);
+        const unsubscribe = subscribeToSkuAliases(list => {
+            setAliases([...list].sort((a, b) => a.sku.localeCompare(b.sku) || a.alias.localeCompare(b.alias)));
+            setLoading(false);
+        }, () => setLoading(false));
+        const unsubscribeUnits = subscribeToSkuUnits(setSkuUnits);
+        return () => {
+            unsubscribe();
+            unsubscribeUnits();
+        };
+    }, []);
+
+    const nameOf = (sku: string) => items.find(i => i.sku.toLowerCase() === sku.toLowerCase())?.name;
+    const packUnitsOf = (sku: string) => unitsOfSku(skuUnits, sku).map(u => u.unit);
+    const isKnownUnit = (alias: SkuAlias) => !alias.unit
+        || alias.unit === (items.find(i => i.sku.toLowerCase() === alias.sku.toLowerCase())?.unit || '').trim().toUpperCase()
+        || packUnitsOf(alias.sku).includes(alias.unit);
+
+    const toPreview = (rows: any[]) => {
+        try {
+            setPreviewRows(parseAliasRows(rows));
+        } catch (e: any) {
+            alert(e.message + "\n\nPastikan baris pertama adalah header tabel.");
+        }
+    };
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (evt) => {
+            try {
+                const workbook = XLSX.read(evt.target?.result, { type: 'array' });
+                toPreview(XLSX.utils.sheet_to_json<any>(workbook.Sheets[workbook.SheetNames[0]]));
+            } catch (err) {
+                console.error("Failed to parse alias file:", err);
+                alert("File tidak dapat dibaca. Gunakan format CSV atau Excel.");
+            }
+        };
+        reader.readAsArrayBuffer(file);
+        e.target.value = '';
+    };
+
+    const handleFetchSheet = async () => {
+        setBusy(true);
+        try {
+            const { spreadsheetId, gid } = parseSheetUrl(sheetUrl);
+            toPreview(await fetchSheetRows(spreadsheetId, gid));
+        } catch (e: any) {
+            alert(`ERROR: ${e.message}`);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleImport = async () => {
+        setProgress(0);
+        try {
+            await saveSkuAliases(previewRows, setProgress);
+            alert(`${previewRows.length} kode alias berhasil disimpan.`);
+            setPreviewRows([]);
+            setShowImport(false);
+        } catch (e: any) {
+            alert(e.message || "Gagal mengimpor kode alias.");
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    const downloadTemplate = () => {
+        const rows = (aliases.length > 0 ? aliases : [
+            { alias: '8991234567890', sku: 'SKU-001', unit: '' },
+            { alias: '18991234567897', sku: 'SKU-001', unit: 'CTN' }
+        ]).map(a => ({ "Kode Alias": a.alias, "SKU": a.sku, "Satuan": a.unit || '' }));
+        const wb = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), "Alias");
+        XLSX.writeFile(wb, 'alias_sku.xlsx');
+    };
+
+    const openForm = (alias: SkuAlias | null) => {
+        setEditing(alias);
+        setForm(alias ? { ...EMPTY_FORM, ...alias } : EMPTY_FORM);
+        setIsEditing(true);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setBusy(true);
+        try {
+            await saveSkuAlias(form, editing?.alias);
+            setIsEditing(false);
+        } catch (err: any) {
+            alert(err.message || "Gagal menyimpan kode alias.");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleDelete = async (alias: SkuAlias) => {
+        if (!window.confirm(`Hapus kode ${alias.alias}?\n\nKode ini tidak lagi dikenali saat scan.`)) return;
+        try {
+            await deleteSkuAlias(alias.alias);
+        } catch (e: any) {
+            alert(e.message || "Gagal menghapus kode alias.");
+        }
+    };
+
+    const query = searchQuery.toLowerCase();
+    const filtered = aliases.filter(a =>
+        a.alias.toLowerCase().includes(query) || a.sku.toLowerCase().includes(query) || (nameOf(a.sku) || '').toLowerCase().includes(query)
+    );
+
+    return (
+        <div className="max-w-4xl mx-auto p-6 animate-fade-in">
+            <div className="flex items-center justify-between mb-8">
+                <div className="flex items-center gap-4">
+                    <button onClick={onBack} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+                        <ChevronLeft size={24} />
+                    </button>
+                    <div>
+                        <h1 className="text-2xl font-black text-slate-800 uppercase tracking-tight">Alias SKU</h1>
+                        <p className="text-xs text-slate-400 font-bold uppercase tracking-widest">{aliases.length} Kode Terdaftar</p>
+                    </div>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => setShowImport(!showImport)}
+                        className="bg-white border border-slate-200 text-slate-600 px-4 py-2.5 rounded-xl font-bold flex items-center gap-2 hover:bg-slate-50 transition-all"
+                    >
+                        <Upload size={18} /> Impor
+                    </button>
+                    <button
+                        onClick={() => openForm(null)}
+                        className="bg-primary text-white px-6 py-2.5 rounded-xl font-bold flex items-center gap-2 shadow-lg shadow-primary/20 hover:scale-105 active:scale-95 transition-all"
+                    >
+                        <Plus size={18} /> Tambah Alias
+                    </button>
+                </div>
+            </div>
+
+            {showImport && (
+                <div className="bg-white p-6 rounded-2xl border border-slate-100 shadow-sm mb-6 space-y-4">
+                    <div className="flex flex-col sm:flex-row gap-3">
+                        <label className="flex-1 border border-dashed border-slate-300 rounded-xl p-4 text-xs font-bold text-slate-500 flex items-center justify-center gap-2 cursor-pointer hover:bg-slate-50">
+                            <Upload size={16} /> Pilih File Excel / CSV
+                            <input type="file" accept=".xlsx,.xls,.csv" className="hidden" onChange={handleFile} />
+                        </label>
+                        <button onClick={downloadTemplate} className="px-4 py-3 rounded-xl border border-slate-200 text-xs font-bold text-slate-600 flex items-center justify-center gap-2 hover:bg-slate-50">
+                            <Download size={16} /> Unduh Template
+                        </button>
+                    </div>
+                    <div className="flex gap-2">
+                        <input
+                            type="url"
+                            className="flex-1 p-3 border border-slate-200 rounded-xl text-sm"
+                            placeholder="https://docs.google.com/spreadsheets/d/...#gid=0"
+                            value={sheetUrl}
+                            onChange={e => setSheetUrl(e.target.value)}
+                        />
+                        <button onClick={handleFetchSheet} disabled={!sheetUrl || busy} className="bg-slate-800 text-white px-4 rounded-xl text-sm font-bold flex items-center gap-2 disabled:opacity-50">
+                            <Link size={16} /> Ambil
+                        </button>
+                    </div>
+                    <p className="text-[11px] text-slate-400">Kolom: Kode Alias | SKU | Satuan. Satuan kosong berarti satuan dasar; isi kemasan diambil dari Satuan Kemasan. Kode yang sudah ada diperbarui, kode lain tidak dihapus.</p>
+
+                    {previewRows.length > 0 && (
+                        <div className="flex items-center justify-between bg-blue-50 rounded-xl p-4">
+                            <span className="text-sm font-bold text-slate-700">{previewRows.length} kode siap diimpor</span>
+                            <div className="flex gap-2">
+                                <button onClick={() => setPreviewRows([])} disabled={progress !== null} className="px-4 py-2 text-xs font-bold text-slate-500 hover:bg-white rounded-lg">Batal</button>
+                                <button onClick={handleImport} disabled={progress !== null} className="px-4 py-2 bg-primary text-white text-xs font-bold rounded-lg disabled:opacity-50">
+                                    {progress !== null ? `Menyimpan ${progress}%` : 'Simpan Alias'}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className="relative mb-6">
+                <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+                <input
+                    type="text"
+                    placeholder="Cari kode, SKU atau nama barang..."
+                    className="w-full bg-white border border-slate-200 rounded-xl py-3 pl-12 pr-4 text-sm font-medium focus:ring-2 focus:ring-primary/20 outline-none transition-all shadow-sm"
+                    value={searchQuery}
+                    onChange={e => setSearchQuery(e.target.value)}
+                />
+            </div>
+
+            {loading ? (
+                <p className="text-center py-24 font-bold uppercase tracking-widest text-xs text-slate-300">Memuat alias...</p>
+            ) : filtered.length === 0 ? (
+                <div className="text-center py-16 text-slate-400 bg-white rounded-2xl border border-slate-100">
+                    <Barcode className="mx-auto mb-2" size={32} />
+                    <p className="text-sm">{aliases.length === 0 ? 'Belum ada kode alias. Impor atau tambahkan barcode barang.' : 'Tidak ada kode yang cocok.'}</p>
+                </div>
+            ) : (
+                <div className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-hidden">
+                    <table className="min-w-full divide-y divide-slate-100">
+                        <thead className="bg-slate-50 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                            <tr>
+                                <th className="px-6 py-3 text-left">Kode</th>
+                                <th className="px-6 py-3 text-left">SKU</th>
+                                <th className="px-6 py-3 text-left">Kemasan</th>
+                                <th className="px-6 py-3"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {filtered.map(alias => (
+                                <tr key={alias.alias} className="hover:bg-slate-50 group">
+                                    <td className="px-6 py-3 text-xs font-mono font-bold text-slate-700">{alias.alias}</td>
+                                    <td className="px-6 py-3 text-xs text-slate-600">
+                                        <span className="font-mono font-bold">{alias.sku}</span>
+                                        <span className={`block text-[11px] ${nameOf(alias.sku) ? 'text-slate-400' : 'text-amber-600 italic'}`}>
+                                            {nameOf(alias.sku) || 'SKU tidak ada di master data'}
+                                        </span>
+                                    </td>
+                                    <td className="px-6 py-3 text-xs text-slate-500 uppercase">
+                                        {alias.unit || '-'}
+                                        {!isKnownUnit(alias) && (
+                                            <span className="block text-[11px] normal-case text-amber-600 italic">Belum ada di Satuan Kemasan</span>
+                                        )}
+                                    </td>
+                                    <td className="px-6 py-3 text-right whitespace-nowrap">
+                                        <button onClick={() => openForm(alias)} className="p-2 text-slate-400 hover:text-primary hover:bg-white rounded-lg transition-all">
+                                            <Pencil size={14} />
+                                        </button>
+                                        <button onClick={() => handleDelete(alias)} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all">
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {isEditing && (
+                <div className="fixed inset-0 z-[200] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+                    <div className="bg-white rounded-[2rem] w-full max-w-md shadow-2xl overflow-hidden border border-white/5">
+                        <div className="p-6 bg-primary text-white flex justify-between items-center">
+                            <h3 className="font-bold flex items-center gap-2">
+                                <Barcode size={20} /> {editing ? 'Edit Alias' : 'Tambah Alias'}
+                            </h3>
+                            <button onClick={() => setIsEditing(false)} className="p-1 hover:bg-white/10 rounded-full transition-colors">
+                                <X size={24} />
+                            </button>
+                        </div>
+                        <form onSubmit={handleSubmit} className="p-8 space-y-4">
+                            <div className="space-y-1.5">
+                                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Kode Alias (Barcode / EAN / Kode Supplier)</label>
+                                <input
+                                    type="text"
+                                    value={form.alias}
+                                    onChange={e => setForm({ ...form, alias: e.target.value.toUpperCase() })}
+                                    className="w-full rounded-xl border-slate-200 p-3 text-sm font-bold font-mono focus:ring-2 focus:ring-primary outline-none transition-all"
+                                    placeholder="8991234567890"
+                                />
+                            </div>
+                            <div className="space-y-1.5">
+                                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">SKU</label>
+                                <input
+                                    type="text"
+                                    list="alias-skus"
+                                    value={form.sku}
+                                    onChange={e => setForm({ ...form, sku: e.target.value })}
+                                    className="w-full rounded-xl border-slate-200 p-3 text-sm font-bold font-mono focus:ring-2 focus:ring-primary outline-none transition-all"
+                                    placeholder="SKU-001"
+                                />
+                                <datalist id="alias-skus">
+                                    {Array.from(new Set(items.map(i => i.sku))).map(sku => <option key={sku} value={sku}>{nameOf(sku)}</option>)}
+                                </datalist>
+                            </div>
+                            <div className="space-y-1.5">
+                                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Satuan Kemasan</label>
+                                <select
+                                    value={form.unit || ''}
+                                    onChange={e => setForm({ ...form, unit: e.target.value })}
+                                    className="w-full rounded-xl border-slate-200 p-3 text-sm font-bold focus:ring-2 focus:ring-primary outline-none transition-all"
+                                >
+                                    <option value="">Satuan dasar</option>
+                                    {Array.from(new Set([...packUnitsOf(form.sku), ...(form.unit ? [form.unit] : [])])).map(unit => (
+                                        <option key={unit} value={unit}>{unit}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <p className="text-[11px] text-slate-400">Satu scan kode ini dihitung sebagai 1 {form.unit || 'satuan dasar'}. Isi tiap kemasan diatur di Satuan Kemasan.</p>
+                            <div className="flex gap-4 pt-4">
+                                <button type="button" onClick={() => setIsEditing(false)} className="flex-1 py-3.5 text-slate-500 font-bold text-sm hover:bg-slate-100 rounded-xl transition-colors">Batal</button>
+                                <button type="submit" disabled={busy || !form.alias.trim() || !form.sku.trim()} className="flex-[2] py-3.5 bg-primary text-white font-bold rounded-xl text-sm shadow-xl shadow-primary/25 flex items-center justify-center gap-2 active:scale-[0.98] transition-all disabled:opacity-50">
+                                    <Save size={18} /> Simpan Alias
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,225 @@
+import React, { useState, useEffect } from 'react';
+import { MasterItem, SkuUnits } from '../types';
+import { getMasterData, subscribeToSkuUnits, unitsOfSku, saveSkuUnits } from '../services/storageService';
+import { Boxes, Plus, Pencil, Trash2, Save, X, Search, ChevronLeft } from 'lucide-react';
+
+interface UnitConversionsProps {
+    onBack: () => void;
+}
+
+interface SkuRow {
+    sku: string;
+    name: string;
+    baseUnit: string;
+}
+
+// One editor line: "1 <unit> = <qty> <of>", where <of> is the base unit or a
+// unit on an earlier line, so "1 CTN = 10 BOX" works once BOX is defined.
+interface UnitLine {
+    unit: string;
+    qty: number;
+    of: string;
+}
+
+const skuRowsOf = (items: MasterItem[]): SkuRow[] => {
+    const bySku = new Map<string, SkuRow>();
+    items.forEach(i => {
+        if (!bySku.has(i.sku)) bySku.set(i.sku, { sku: i.sku, name: i.name, baseUnit: (i.unit || '').trim().toUpperCase() });
+    });
+    return Array.from(bySku.values()).sort((a, b) => a.sku.localeCompare(b.sku));
+};
+
+// Base units per line, resolving each line through the lines above it
+const toConversions = (lines: UnitLine[], baseUnit: string) => {
+    const factors = new Map<string, number>([[baseUnit, 1]]);
+    return lines.map(line => {
+        const unit = line.unit.trim().toUpperCase();
+        const factor = line.qty * (factors.get(line.of) ?? NaN);
+        if (Number.isNaN(factor)) throw new Error(`Satuan ${line.of} untuk ${unit} belum didefinisikan di atasnya.`);
+        factors.set(unit, factor);
+        return { unit, factor };
+    });
+};
+
+export const UnitConversions: React.FC<UnitConversionsProps> = ({ onBack }) => {
+    const [items, setItems] = useState<MasterItem[]>([]);
+    const [skuUnits, setSkuUnits] = useState<SkuUnits[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [searchQuery, setSearchQuery] = useState('');
+
+    const [editing, setEditing] = useState<SkuRow | null>(null);
+    const [lines, setLines] = useState<UnitLine[]>([]);
+    const [busy, setBusy] = useState(false);
+
+    useEffect(() => {
+        getMasterData().then(setItems);
+        const unsubscribe = subscribeToSkuUnits(list => {
+            setSkuUnits(list);
+            setLoading(false);
+        }, () => setLoading(false));
+        return () => unsubscribe();
+    }, []);
+
+    const rows = skuRowsOf(items);
+    const query = searchQuery.toLowerCase();
+    const filtered = rows.filter(r => r.sku.toLowerCase().includes(query) || r.name.toLowerCase().includes(query));
+    const withUnits = rows.filter(r => unitsOfSku(skuUnits, r.sku).length > 0).length;
+
+    const openEditor = (row: SkuRow) => {
+        setEditing(row);
+        // Smallest pack first, so each line can refer to the ones above it
+        setLines(unitsOfSku(skuUnits, row.sku).reverse().map(u => ({ unit: u.unit, qty: u.factor, of: row.baseUnit })));
+    };
+
+    const updateLine = (index: number, changes: Partial<UnitLine>) =>
+        setLines(prev => prev.map((line, i) => i === index ? { ...line, ...changes } : line));
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing) return;
+        setBusy(true);
+        try {
+            await saveSkuUnits(editing.sku, toConversions(lines, editing.baseUnit), editing.baseUnit);
+            setEditing(null);
+        } catch (err: any) {
+            alert(err.message || "Gagal menyimpan satuan.");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto p-6 animate-fade-in">
+            <div className="flex items-center gap-4 mb-8">
+                <button onClick={onBack} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+                    <ChevronLeft size={24} />
+                </button>
+                <div>
+                    <h1 className="text-2xl font-black text-slate-800 uppercase tracking-tight">Satuan Kemasan</h1>
+                    <p className="text-xs text-slate-400 font-bold uppercase tracking-widest">{withUnits} dari {rows.length} SKU punya satuan kemasan</p>
+                </div>
+            </div>
+
+            <div className="relative mb-6">
+                <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+                <input
+                    type="text"
+                    placeholder="Cari SKU atau nama barang..."
+                    className="w-full bg-white border border-slate-200 rounded-xl py-3 pl-12 pr-4 text-sm font-medium focus:ring-2 focus:ring-primary/20 outline-none transition-all shadow-sm"
+                    value={searchQuery}
+                    onChange={e => setSearchQuery(e.target.value)}
+                />
+            </div>
+
+            {loading ? (
+                <p className="text-center py-24 font-bold uppercase tracking-widest text-xs text-slate-300">Memuat satuan...</p>
+            ) : filtered.length === 0 ? (
+                <div className="text-center py-16 text-slate-400 bg-white rounded-2xl border border-slate-100">
+                    <Boxes className="mx-auto mb-2" size={32} />
+                    <p className="text-sm">{rows.length === 0 ? 'Belum ada master data.' : 'Tidak ada SKU yang cocok.'}</p>
+                </div>
+            ) : (
+                <div className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-hidden">
+                    <table className="min-w-full divide-y divide-slate-100">
+                        <thead className="bg-slate-50 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                            <tr>
+                                <th className="px-6 py-3 text-left">SKU</th>
+                                <th className="px-6 py-3 text-left">Satuan Dasar</th>
+                                <th className="px-6 py-3 text-left">Kemasan</th>
+                                <th className="px-6 py-3"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {filtered.map(row => {
+                                const units = unitsOfSku(skuUnits, row.sku);
+                                return (
+                                    <tr key={row.sku} className="hover:bg-slate-50 group">
+                                        <td className="px-6 py-3 text-xs text-slate-600">
+                                            <span className="font-mono font-bold text-slate-700">{row.sku}</span>
+                                            <span className="block text-[11px] text-slate-400">{row.name}</span>
+                                        </td>
+                                        <td className="px-6 py-3 text-xs font-bold text-slate-500">{row.baseUnit}</td>
+                                        <td className="px-6 py-3 text-xs text-slate-500">
+                                            {units.length > 0 ? units.map(u => `1 ${u.unit} = ${u.factor} ${row.baseUnit}`).join(' · ') : '-'}
+                                        </td>
+                                        <td className="px-6 py-3 text-right whitespace-nowrap">
+                                            <button onClick={() => openEditor(row)} className="p-2 text-slate-400 hover:text-primary hover:bg-white rounded-lg transition-all">
+                                                <Pencil size={14} />
+                                            </button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {editing && (
+                <div className="fixed inset-0 z-[200] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+                    <div className="bg-white rounded-[2rem] w-full max-w-lg shadow-2xl overflow-hidden border border-white/5">
+                        <div className="p-6 bg-primary text-white flex justify-between items-center">
+                            <h3 className="font-bold flex items-center gap-2">
+                                <Boxes size={20} /> Satuan {editing.sku}
+                            </h3>
+                            <button onClick={() => setEditing(null)} className="p-1 hover:bg-white/10 rounded-full transition-colors">
+                                <X size={24} />
+                            </button>
+                        </div>
+                        <form onSubmit={handleSave} className="p-8 space-y-4">
+                            <p className="text-[11px] text-slate-400">
+                                Hitungan disimpan dalam satuan dasar <span className="font-bold text-slate-600">{editing.baseUnit}</span>. Kemasan bisa diisi dalam satuan dasar atau kemasan di atasnya, mis. 1 CTN = 10 BOX.
+                            </p>
+                            {lines.map((line, index) => (
+                                <div key={index} className="flex items-center gap-2">
+                                    <span className="text-sm font-bold text-slate-400">1</span>
+                                    <input
+                                        type="text"
+                                        value={line.unit}
+                                        onChange={e => updateLine(index, { unit: e.target.value.toUpperCase() })}
+                                        className="w-24 rounded-xl border-slate-200 p-2.5 text-sm font-bold uppercase focus:ring-2 focus:ring-primary outline-none"
+                                        placeholder="BOX"
+                                    />
+                                    <span className="text-sm font-bold text-slate-400">=</span>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={line.qty || ''}
+                                        onChange={e => updateLine(index, { qty: parseInt(e.target.value) || 0 })}
+                                        className="w-20 rounded-xl border-slate-200 p-2.5 text-sm font-bold focus:ring-2 focus:ring-primary outline-none"
+                                        placeholder="12"
+                                    />
+                                    <select
+                                        value={line.of}
+                                        onChange={e => updateLine(index, { of: e.target.value })}
+                                        className="flex-1 min-w-0 rounded-xl border-slate-200 p-2.5 text-sm font-bold"
+                                    >
+                                        {[editing.baseUnit, ...lines.slice(0, index).map(l => l.unit.trim().toUpperCase()).filter(Boolean)].map(unit => (
+                                            <option key={unit} value={unit}>{unit}</option>
+                                        ))}
+                                    </select>
+                                    <button type="button" onClick={() => setLines(prev => prev.filter((_, i) => i !== index))} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all">
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                            ))}
+                            <button
+                                type="button"
+                                onClick={() => setLines(prev => [...prev, { unit: '', qty: 0, of: editing.baseUnit }])}
+                                className="w-full py-2.5 border border-dashed border-slate-300 rounded-xl text-xs font-bold text-slate-500 flex items-center justify-center gap-2 hover:bg-slate-50"
+                            >
+                                <Plus size={14} /> Tambah Satuan
+                            </button>
+                            <div className="flex gap-4 pt-4">
+                                <button type="button" onClick={() => setEditing(null)} className="flex-1 py-3.5 text-slate-500 font-bold text-sm hover:bg-slate-100 rounded-xl transition-colors">Batal</button>
+                                <button type="submit" disabled={busy} className="flex-[2] py-3.5 bg-primary text-white font-bold rounded-xl text-sm shadow-xl shadow-primary/25 flex items-center justify-center gap-2 active:scale-[0.98] transition-all disabled:opacity-50">
+                                    <Save size={18} /> Simpan Satuan
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
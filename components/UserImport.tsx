@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import * as XLSX from 'xlsx';
+import { importUsers, UserImportRow, MIN_PASSWORD_LENGTH } from '../services/authService';
+import { ROLES, isValidRole } from '../services/permissions';
+import { Upload, FileSpreadsheet, Download } from 'lucide-react';
+
+interface UserImportProps {
+    onImported?: (count: number) => void;
+    dark?: boolean;
+}
+
+// Accepts English or Indonesian column names, matching how MasterData reads uploads.
+const normalizeHeader = (header: string): keyof UserImportRow | null => {
+    const h = header.toLowerCase().trim().replace(/[\s_-]+/g, '');
+    if (['username', 'user', 'idpegawai', 'id'].includes(h)) return 'username';
+    if (['name', 'nama', 'namalengkap'].includes(h)) return 'name';
+    if (['password', 'sandi', 'katasandi'].includes(h)) return 'password';
+    if (['role', 'akses', 'peran'].includes(h)) return 'role';
+    return null;
+};
+
+const toRows = (jsonData: any[]): UserImportRow[] =>
+    jsonData.map(raw => {
+        const row: any = { username: '', name: '', password: '', role: 'user' };
+        Object.keys(raw).forEach(key => {
+            const field = normalizeHeader(key);
+            if (field) row[field] = String(raw[key] ?? '').trim();
+        });
+        const role = String(row.role).toLowerCase();
+        row.role = isValidRole(role) ? role : 'user';
+        return row as UserImportRow;
+    }).filter(r => r.username || r.name);
+
+export const UserImport: React.FC<UserImportProps> = ({ onImported, dark }) => {
+    const [rows, setRows] = useState<UserImportRow[]>([]);
+    const [fileName, setFileName] = useState('');
+    const [importing, setImporting] = useState(false);
+    const [result, setResult] = useState<string | null>(null);
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setFileName(file.name);
+        setResult(null);
+        const reader = new FileReader();
+        reader.onload = (evt) => {
+            try {
+                const workbook = XLSX.read(evt.target?.result, { type: 'array' });
+                const sheet = workbook.Sheets[workbook.SheetNames[0]];
+                setRows(toRows(XLSX.utils.sheet_to_json<any>(sheet)));
+            } catch (err) {
+                console.error("Failed to parse user file:", err);
+                alert("File tidak dapat dibaca. Gunakan format CSV atau Excel.");
+            }
+        };
+        reader.readAsArrayBuffer(file);
+        e.target.value = '';
+    };
+
+    const downloadTemplate = () => {
+        const ws = XLSX.utils.json_to_sheet([{ username: 'MBI-0001', name: 'Budi Santoso', password: 'gantiSandi123', role: 'user' }]);
+        const wb = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(wb, ws, "Users");
+        XLSX.writeFile(wb, 'user_import_template.csv', { bookType: 'csv' });
+    };
+
+    const handleImport = async () => {
+        setImporting(true);
+        try {
+            const { imported, skipped } = await importUsers(rows);
+            setResult(skipped.length > 0
+                ? `${imported} user diimpor. ${skipped.length} dilewati (sudah ada / data tidak valid): ${skipped.join(', ')}`
+                : `${imported} user berhasil diimpor.`);
+            setRows([]);
+            onImported?.(imported);
+        } catch (err: any) {
+            setResult(`Gagal mengimpor user: ${err.message || err}`);
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const invalid = rows.filter(r => !r.username || !r.name || r.password.length < MIN_PASSWORD_LENGTH).length;
+    const muted = dark ? 'text-slate-400' : 'text-slate-500';
+    const border = dark ? 'border-white/10' : 'border-slate-200';
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div className="flex gap-2">
+                <label className={`flex-1 flex items-center justify-center gap-2 border border-dashed ${border} rounded-lg py-3 text-xs font-bold uppercase tracking-wider cursor-pointer ${muted} hover:border-primary transition-colors`}>
+                    <Upload size={16} /> {fileName || 'Pilih File CSV / Excel'}
+                    <input type="file" accept=".csv,.xlsx,.xls" className="hidden" onChange={handleFile} />
+                </label>
+                <button type="button" onClick={downloadTemplate} title="Unduh template" className={`px-3 border ${border} rounded-lg ${muted} hover:text-primary transition-colors`}>
+                    <Download size={16} />
+                </button>
+            </div>
+            <p className={`text-[10px] ${muted}`}>Kolom: username, name, password (min. {MIN_PASSWORD_LENGTH} karakter), role ({ROLES.join('/')}).</p>
+
+            {rows.length > 0 && (
+                <div className={`border ${border} rounded-lg p-3 text-xs ${muted}`}>
+                    <div className="flex items-center gap-2 font-bold">
+                        <FileSpreadsheet size={14} /> {rows.length} baris terbaca
+                        {invalid > 0 && <span className="text-red-500">· {invalid} tidak valid</span>}
+                    </div>
+                    <button
+                        type="button"
+                        onClick={handleImport}
+                        disabled={importing}
+                        className="mt-3 w-full py-2.5 bg-primary text-white font-bold rounded-lg disabled:opacity-50"
+                    >
+                        {importing ? 'Mengimpor...' : `Impor ${rows.length - invalid} User`}
+                    </button>
+                </div>
+            )}
+
+            {result && <p className={`text-xs font-bold ${muted}`}>{result}</p>}
+        </div>
+    );
+};
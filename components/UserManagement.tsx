@@ -1,8 +1,10 @@
 
 import React, { useState, useEffect } from 'react';
-import { AppUser } from '../types';
+import { AppUser, UserRole } from '../types';
 import { getAllUsers, saveUser, deleteUser } from '../services/authService';
-import { UserPlus, Trash2, Shield, User, Key, Save, X, Search, ChevronLeft } from 'lucide-react';
+import { UserImport } from './UserImport';
+import { ROLES, ROLE_LABELS } from '../services/permissions';
+import { UserPlus, Trash2, Shield, User, Key, Save, X, Search, ChevronLeft, Upload } from 'lucide-react';
 
 interface UserManagementProps {
     onBack: () => void;
@@ -12,6 +14,7 @@ export const UserManagement: React.FC<UserManagementProps> = ({ onBack }) => {
     const [users, setUsers] = useState<any[]>([]);
     const [loading, setLoading] = useState(true);
     const [searchQuery, setSearchQuery] = useState('');
+    const [showImport, setShowImport] = useState(false);
     
     const [isEditing, setIsEditing] = useState(false);
     const [editingUser, setEditingUser] = useState<any | null>(null);
@@ -19,7 +22,7 @@ export const UserManagement: React.FC<UserManagementProps> = ({ onBack }) => {
         username: '',
         password: '',
         name: '',
-        role: 'user' as 'admin' | 'user'
+        role: 'user' as UserRole
     });
 
     const fetchUsers = async () => {
@@ -43,7 +46,7 @@ export const UserManagement: React.FC<UserManagementProps> = ({ onBack }) => {
         setEditingUser(user);
         setForm({
             username: user.username,
-            password: user.password || '',
+            password: '',
             name: user.name,
             role: user.role
         });
@@ -51,8 +54,9 @@ export const UserManagement: React.FC<UserManagementProps> = ({ onBack }) => {
     };
 
     const handleDeleteClick = async (username: string) => {
-        if (username === 'admin') {
-            alert("Akun 'admin' utama tidak dapat dihapus.");
+        const admins = users.filter(u => u.role === 'admin');
+        if (admins.length === 1 && admins[0].username === username) {
+            alert("Admin terakhir tidak dapat dihapus.");
             return;
         }
         if (window.confirm(`Hapus user ${username}?`)) {
@@ -63,7 +67,7 @@ export const UserManagement: React.FC<UserManagementProps> = ({ onBack }) => {
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!form.username || !form.password || !form.name) {
+        if (!form.username || !form.name || (!editingUser && !form.password)) {
             alert("Semua field harus diisi.");
             return;
         }
@@ -91,17 +95,31 @@ export const UserManagement: React.FC<UserManagementProps> = ({ onBack }) => {
                     </button>
                     <div>
                         <h1 className="text-2xl font-black text-slate-800 uppercase tracking-tight">Manajemen User</h1>
-                        <p className="text-xs text-slate-400 font-bold uppercase tracking-widest">Kelola Akses Pegawai di Supabase</p>
+                        <p className="text-xs text-slate-400 font-bold uppercase tracking-widest">Kelola Akses Pegawai</p>
                     </div>
                 </div>
-                <button 
-                    onClick={handleAddClick}
-                    className="bg-primary text-white px-6 py-2.5 rounded-xl font-bold flex items-center gap-2 shadow-lg shadow-primary/20 hover:scale-105 active:scale-95 transition-all"
-                >
-                    <UserPlus size={18} /> Tambah User
-                </button>
+                <div className="flex gap-2">
+                    <button 
+                        onClick={() => setShowImport(!showImport)}
+                        className="bg-white border border-slate-200 text-slate-600 px-4 py-2.5 rounded-xl font-bold flex items-center gap-2 hover:bg-slate-50 transition-all"
+                    >
+                        <Upload size={18} /> Impor CSV
+                    </button>
+                    <button 
+                        onClick={handleAddClick}
+                        className="bg-primary text-white px-6 py-2.5 rounded-xl font-bold flex items-center gap-2 shadow-lg shadow-primary/20 hover:scale-105 active:scale-95 transition-all"
+                    >
+                        <UserPlus size={18} /> Tambah User
+                    </button>
+                </div>
             </div>
 
+            {showImport && (
+                <div className="bg-white p-6 rounded-2xl border border-slate-100 shadow-sm mb-6">
+                    <UserImport onImported={() => fetchUsers()} />
+                </div>
+            )}
+
             {/* Search Bar */}
             <div className="relative mb-6">
                 <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
@@ -117,7 +135,7 @@ export const UserManagement: React.FC<UserManagementProps> = ({ onBack }) => {
             {loading ? (
                 <div className="flex flex-col items-center justify-center py-24 opacity-30">
                     <RefreshCw className="animate-spin mb-4" size={40} />
-                    <p className="font-bold uppercase tracking-widest text-xs">Menghubungkan ke Supabase...</p>
+                    <p className="font-bold uppercase tracking-widest text-xs">Memuat daftar user...</p>
                 </div>
             ) : (
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -143,7 +161,7 @@ export const UserManagement: React.FC<UserManagementProps> = ({ onBack }) => {
                                 </div>
                             </div>
                             <div className="mt-4 flex items-center gap-2">
-                                <span className={`text-[10px] font-black uppercase tracking-widest px-2 py-0.5 rounded ${user.role === 'admin' ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-600'}`}>
+                                <span className={`text-[10px] font-black uppercase tracking-widest px-2 py-0.5 rounded ${user.role === 'admin' ? 'bg-amber-100 text-amber-700' : user.role === 'supervisor' ? 'bg-violet-100 text-violet-700' : 'bg-slate-100 text-slate-600'}`}>
                                     {user.role}
                                 </span>
                             </div>
@@ -189,31 +207,33 @@ export const UserManagement: React.FC<UserManagementProps> = ({ onBack }) => {
                                     />
                                 </div>
                                 <div className="space-y-1.5">
-                                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Password</label>
+                                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{editingUser ? 'Password Baru' : 'Password'}</label>
                                     <input 
-                                        type="text" 
+                                        type="password" 
+                                        autoComplete="new-password"
                                         value={form.password}
                                         onChange={e => setForm({...form, password: e.target.value})}
                                         className="w-full rounded-xl border-slate-200 p-3 text-sm font-bold focus:ring-2 focus:ring-primary outline-none transition-all" 
-                                        placeholder="••••••••"
+                                        placeholder={editingUser ? 'Kosongkan jika tidak diubah' : '••••••••'}
                                     />
                                 </div>
                                 <div className="space-y-1.5">
                                     <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Role Akses</label>
                                     <select 
                                         value={form.role}
-                                        onChange={e => setForm({...form, role: e.target.value as any})}
+                                        onChange={e => setForm({...form, role: e.target.value as UserRole})}
                                         className="w-full rounded-xl border-slate-200 p-3 text-sm font-bold focus:ring-2 focus:ring-primary outline-none transition-all"
                                     >
-                                        <option value="user">User (Operator)</option>
-                                        <option value="admin">Admin (Full Access)</option>
+                                        {ROLES.map(role => (
+                                            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                                        ))}
                                     </select>
                                 </div>
                             </div>
                             <div className="flex gap-4 pt-4">
                                 <button type="button" onClick={() => setIsEditing(false)} className="flex-1 py-3.5 text-slate-500 font-bold text-sm hover:bg-slate-100 rounded-xl transition-colors">Batal</button>
                                 <button type="submit" className="flex-[2] py-3.5 bg-primary text-white font-bold rounded-xl text-sm shadow-xl shadow-primary/25 flex items-center justify-center gap-2 active:scale-[0.98] transition-all">
-                                    <Save size={18} /> Simpan ke Supabase
+                                    <Save size={18} /> Simpan User
                                 </button>
                             </div>
                         </form>
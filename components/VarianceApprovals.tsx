@@ -0,0 +1,255 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import * as XLSX from 'xlsx';
+import { AppUser, AuditRecord, AdjustmentEntry, VarianceReasonCode } from '../types';
+import {
+    subscribeToAuditLogs,
+    subscribeToAdjustments,
+    getSelectedCountSessionId,
+    getSelectedCountSession,
+    getApprovalQueue,
+    approveVariance,
+    rejectVariance,
+    markAdjustmentsPosted,
+    acceptedQtyOf,
+    varianceOf,
+    VARIANCE_REASON_LABELS
+} from '../services/storageService';
+import { canApproveVariance, canExportReports } from '../services/permissions';
+import { ChevronLeft, Check, X, Download, Send } from 'lucide-react';
+
+interface VarianceApprovalsProps {
+    currentUser: AppUser;
+    onBack: () => void;
+}
+
+interface Decision {
+    reason: VarianceReasonCode;
+    note: string;
+}
+
+const REASON_CODES = Object.keys(VARIANCE_REASON_LABELS) as VarianceReasonCode[];
+
+export const VarianceApprovals: React.FC<VarianceApprovalsProps> = ({ currentUser, onBack }) => {
+    const sessionId = getSelectedCountSessionId();
+    const sessionName = getSelectedCountSession()?.name || sessionId;
+    const [tab, setTab] = useState<'queue' | 'journal'>('queue');
+    const [logs, setLogs] = useState<AuditRecord[]>([]);
+    const [journal, setJournal] = useState<AdjustmentEntry[]>([]);
+    const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const canApprove = canApproveVariance(currentUser);
+
+    useEffect(() => {
+        const unsubLogs = subscribeToAuditLogs(setLogs, undefined, sessionId);
+        const unsubJournal = subscribeToAdjustments(setJournal, undefined, sessionId);
+        return () => {
+            unsubLogs();
+            unsubJournal();
+        };
+    }, [sessionId]);
+
+    const queue = useMemo(() => getApprovalQueue(logs), [logs]);
+    const unposted = journal.filter(e => !e.postedAt);
+
+    const decisionFor = (id: string): Decision => decisions[id] || { reason: 'miscount', note: '' };
+
+    const setDecision = (id: string, changes: Partial<Decision>) =>
+        setDecisions(prev => ({ ...prev, [id]: { ...decisionFor(id), ...changes } }));
+
+    const handleDecide = async (log: AuditRecord, approve: boolean) => {
+        const { reason, note } = decisionFor(log.id);
+        if (!approve && !note.trim()) {
+            alert("Tuliskan catatan alasan penolakan.");
+            return;
+        }
+        setBusyId(log.id);
+        try {
+            if (approve) await approveVariance(log.id, reason, note.trim());
+            else await rejectVariance(log.id, reason, note.trim());
+        } catch (e: any) {
+            alert(e.message || "Gagal menyimpan keputusan.");
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleExport = () => {
+        const rows = journal.map(e => ({
+            "Tanggal Disetujui": new Date(e.approvedAt).toLocaleString('id-ID'),
+            "Kode Barang": e.sku,
+            "Nama Barang": e.itemName,
+            "Batch": e.batchNumber,
+            "Expired": e.expiryDate,
+            "Lokasi": e.location,
+            "Satuan": e.unit || '-',
+            "QTY System": e.systemQty,
+            "QTY Hitung": e.countedQty,
+            "Selisih": e.qtyDelta,
+            "Kode Alasan": e.reasonCode,
+            "Alasan": VARIANCE_REASON_LABELS[e.reasonCode],
+            "Catatan": e.note || '-',
+            "Disetujui Oleh": e.approvedBy,
+            "Sesi": sessionName,
+            "Diposting": e.postedAt ? new Date(e.postedAt).toLocaleString('id-ID') : '-'
+        }));
+        const ws = XLSX.utils.json_to_sheet(rows);
+        const wb = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(wb, ws, "AdjustmentJournal");
+        const sessionLabel = sessionName.replace(/[^a-zA-Z0-9]+/g, '_');
+        XLSX.writeFile(wb, `Adjustment_Journal_${sessionLabel}_${new Date().toISOString().slice(0, 10)}.xlsx`);
+    };
+
+    const handleMarkPosted = async () => {
+        if (!window.confirm(`Tandai ${unposted.length} baris jurnal sebagai sudah diposting ke ERP?`)) return;
+        try {
+            await markAdjustmentsPosted(unposted.map(e => e.id));
+        } catch (e: any) {
+            alert(e.message || "Gagal menandai jurnal.");
+        }
+    };
+
+    const deltaClass = (delta: number) => delta < 0 ? 'text-red-500' : delta > 0 ? 'text-[#2D5B9E]' : 'text-slate-700';
+
+    return (
+        <div className="max-w-5xl mx-auto p-6 animate-fade-in">
+            <div className="flex items-center justify-between mb-8">
+                <div className="flex items-center gap-4">
+                    <button onClick={onBack} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+                        <ChevronLeft size={24} />
+                    </button>
+                    <div>
+                        <h1 className="text-2xl font-black text-slate-800 uppercase tracking-tight">Approval Selisih</h1>
+                        <p className="text-xs text-slate-400 font-bold uppercase tracking-widest">Sesi {sessionName}</p>
+                    </div>
+                </div>
+                <div className="flex bg-slate-100 rounded-xl p-1">
+                    <button onClick={() => setTab('queue')} className={`px-4 py-2 rounded-lg text-xs font-black uppercase tracking-widest ${tab === 'queue' ? 'bg-white text-primary shadow-sm' : 'text-slate-500'}`}>
+                        Antrian ({queue.length})
+                    </button>
+                    <button onClick={() => setTab('journal')} className={`px-4 py-2 rounded-lg text-xs font-black uppercase tracking-widest ${tab === 'journal' ? 'bg-white text-primary shadow-sm' : 'text-slate-500'}`}>
+                        Jurnal ({journal.length})
+                    </button>
+                </div>
+            </div>
+
+            {tab === 'queue' ? (
+                queue.length === 0 ? (
+                    <div className="py-24 text-center opacity-40">
+                        <p className="font-bold uppercase tracking-widest text-xs">Tidak ada selisih yang menunggu keputusan</p>
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        {queue.map(log => {
+                            const delta = varianceOf(log);
+                            const decision = decisionFor(log.id);
+                            return (
+                                <div key={log.id} className="bg-white rounded-2xl border border-slate-100 shadow-sm p-5 flex flex-col lg:flex-row gap-4 lg:items-center">
+                                    <div className="flex-1 min-w-0">
+                                        <p className="font-black text-slate-800 truncate">{log.itemName}</p>
+                                        <p className="text-[11px] text-slate-400 mt-1 font-mono">
+                                            {log.sku} · Batch {log.batchNumber || '-'} · {log.location} · {log.teamMember}
+                                        </p>
+                                        <div className="flex gap-4 mt-2 text-xs font-bold text-slate-600">
+                                            <span>Sistem: {log.systemQty}</span>
+                                            <span>Hitung: {acceptedQtyOf(log)}</span>
+                                            <span className={`font-black ${deltaClass(delta)}`}>Selisih: {delta > 0 ? '+' : ''}{delta}</span>
+                                        </div>
+                                    </div>
+                                    {canApprove && (
+                                        <div className="flex flex-col sm:flex-row gap-2 lg:w-[420px]">
+                                            <select
+                                                value={decision.reason}
+                                                onChange={e => setDecision(log.id, { reason: e.target.value as VarianceReasonCode })}
+                                                className="rounded-xl border-slate-200 text-xs font-bold py-2"
+                                            >
+                                                {REASON_CODES.map(code => <option key={code} value={code}>{VARIANCE_REASON_LABELS[code]}</option>)}
+                                            </select>
+                                            <input
+                                                type="text"
+                                                value={decision.note}
+                                                onChange={e => setDecision(log.id, { note: e.target.value })}
+                                                placeholder="Catatan"
+                                                className="flex-1 rounded-xl border-slate-200 text-xs py-2"
+                                            />
+                                            <div className="flex gap-1">
+                                                <button onClick={() => handleDecide(log, true)} disabled={busyId === log.id} title="Setujui" className="p-2.5 bg-emerald-500 text-white rounded-xl disabled:opacity-50">
+                                                    <Check size={16} />
+                                                </button>
+                                                <button onClick={() => handleDecide(log, false)} disabled={busyId === log.id} title="Tolak" className="p-2.5 bg-red-50 text-red-500 rounded-xl disabled:opacity-50">
+                                                    <X size={16} />
+                                                </button>
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )
+            ) : (
+                <>
+                    <div className="flex justify-end gap-2 mb-4">
+                        {canApprove && unposted.length > 0 && (
+                            <button onClick={handleMarkPosted} className="px-4 py-2 rounded-xl border border-slate-200 text-xs font-bold text-slate-600 flex items-center gap-2 hover:bg-slate-50">
+                                <Send size={14} /> Tandai Terposting ({unposted.length})
+                            </button>
+                        )}
+                        {canExportReports(currentUser) && journal.length > 0 && (
+                            <button onClick={handleExport} className="px-4 py-2 rounded-xl bg-primary text-white text-xs font-bold flex items-center gap-2">
+                                <Download size={14} /> Export Jurnal
+                            </button>
+                        )}
+                    </div>
+                    {journal.length === 0 ? (
+                        <div className="py-24 text-center opacity-40">
+                            <p className="font-bold uppercase tracking-widest text-xs">Belum ada penyesuaian yang disetujui</p>
+                        </div>
+                    ) : (
+                        <div className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+                                        <th className="text-left p-4">SKU</th>
+                                        <th className="text-left p-4">Batch</th>
+                                        <th className="text-left p-4">Lokasi</th>
+                                        <th className="text-right p-4">Selisih</th>
+                                        <th className="text-left p-4">Alasan</th>
+                                        <th className="text-left p-4">Disetujui</th>
+                                        <th className="text-left p-4">ERP</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {journal.map(entry => (
+                                        <tr key={entry.id} className="border-b border-slate-50">
+                                            <td className="p-4">
+                                                <span className="font-black text-slate-800">{entry.sku}</span>
+                                                <p className="text-[11px] text-slate-400 truncate max-w-[200px]">{entry.itemName}</p>
+                                            </td>
+                                            <td className="p-4 font-mono text-xs">{entry.batchNumber}</td>
+                                            <td className="p-4 font-bold text-xs uppercase">{entry.location}</td>
+                                            <td className={`p-4 text-right font-black ${deltaClass(entry.qtyDelta)}`}>{entry.qtyDelta > 0 ? '+' : ''}{entry.qtyDelta} {entry.unit || ''}</td>
+                                            <td className="p-4 text-xs">
+                                                <span className="font-bold">{VARIANCE_REASON_LABELS[entry.reasonCode]}</span>
+                                                {entry.note && <p className="text-[11px] text-slate-400">{entry.note}</p>}
+                                            </td>
+                                            <td className="p-4 text-xs">
+                                                <span className="font-bold">{entry.approvedBy}</span>
+                                                <p className="text-[11px] text-slate-400">{new Date(entry.approvedAt).toLocaleString('id-ID')}</p>
+                                            </td>
+                                            <td className="p-4">
+                                                <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded ${entry.postedAt ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-500'}`}>
+                                                    {entry.postedAt ? 'Terposting' : 'Belum'}
+                                                </span>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
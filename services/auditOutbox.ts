@@ -0,0 +1,169 @@
+import { AuditRecord } from '../types';
+import { STORES, idbGetAll, idbPut, idbDelete } from './indexedDb';
+
+// Persistent queue of audit records that still have to reach the database
+// and the Google Sheets queue (sheetsOutbox). Every count is written here
+// first so nothing is lost when the warehouse Wi-Fi drops.
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  record: AuditRecord;
+  sheetsSynced: boolean;
+  dbSynced: boolean;
+  attempts: number;
+  nextAttemptAt: number;
+  status: OutboxStatus;
+  lastError?: string;
+  createdAt: number;
+}
+
+export interface OutboxCounts {
+  pending: number;
+  failed: number;
+}
+
+// A processor flips sheetsSynced/dbSynced on the entry it receives as each
+// target succeeds; the flags are kept even when it throws halfway through.
+export type OutboxProcessor = (entry: OutboxEntry) => Promise<void>;
+
+export const OUTBOX_CHANGED_EVENT = 'auditOutboxChanged';
+
+const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 5000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+// In-memory mirror so subscriptions can merge queued records synchronously.
+const entries = new Map<string, OutboxEntry>();
+let loaded: Promise<void> | null = null;
+let flushing = false;
+
+const ensureLoaded = (): Promise<void> => {
+  if (!loaded) {
+    loaded = idbGetAll<OutboxEntry>(STORES.AUDIT_OUTBOX)
+      .then(list => {
+        list.forEach(e => entries.set(e.id, e));
+        notify();
+      })
+      .catch(e => {
+        console.warn("Audit outbox unavailable, using memory only:", e);
+      });
+  }
+  return loaded;
+};
+
+const notify = () => {
+  window.dispatchEvent(new Event(OUTBOX_CHANGED_EVENT));
+};
+
+const persist = async (entry: OutboxEntry) => {
+  entries.set(entry.id, entry);
+  try {
+    await idbPut(STORES.AUDIT_OUTBOX, entry.id, entry);
+  } catch (e) {
+    console.warn("Failed to persist outbox entry:", e);
+  }
+};
+
+const remove = async (id: string) => {
+  entries.delete(id);
+  try {
+    await idbDelete(STORES.AUDIT_OUTBOX, id);
+  } catch (e) {
+    console.warn("Failed to remove outbox entry:", e);
+  }
+};
+
+export const getBackoffDelay = (attempts: number) =>
+  Math.min(BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), MAX_DELAY_MS);
+
+export const enqueueAuditRecord = async (record: AuditRecord) => {
+  await ensureLoaded();
+  await persist({
+    id: record.id,
+    record,
+    sheetsSynced: false,
+    dbSynced: false,
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    status: 'pending',
+    createdAt: Date.now()
+  });
+  notify();
+};
+
+export const getQueuedAuditRecords = (): AuditRecord[] =>
+  Array.from(entries.values()).map(e => e.record);
+
+// Records are written under the counter's own name, so on a shared device only
+// the signed-in counter's entries can be sent; the rest wait for their owner.
+const isOwnedBy = (entry: OutboxEntry, owner?: string) =>
+  owner === undefined || entry.record.teamMember === owner;
+
+// Team members whose queued counts cannot be sent in this session
+export const getHeldAuditOwners = (owner: string): string[] =>
+  [...new Set(Array.from(entries.values()).filter(e => !isOwnedBy(e, owner)).map(e => e.record.teamMember))];
+
+export const getOutboxCounts = (): OutboxCounts => {
+  let pending = 0, failed = 0;
+  entries.forEach(e => {
+    if (e.status === 'failed') failed++;
+    else pending++;
+  });
+  return { pending, failed };
+};
+
+export const subscribeToOutbox = (onUpdate: (counts: OutboxCounts) => void) => {
+  const handler = () => onUpdate(getOutboxCounts());
+  window.addEventListener(OUTBOX_CHANGED_EVENT, handler);
+  ensureLoaded().then(handler);
+  return () => window.removeEventListener(OUTBOX_CHANGED_EVENT, handler);
+};
+
+// Process every due entry once. Entries that fail are rescheduled with
+// exponential backoff and marked 'failed' after MAX_ATTEMPTS. Given an owner,
+// other team members' entries stay pending without using up attempts.
+export const flushAuditOutbox = async (processor: OutboxProcessor, owner?: string) => {
+  await ensureLoaded();
+  if (flushing) return;
+  flushing = true;
+  try {
+    const now = Date.now();
+    const due = Array.from(entries.values())
+      .filter(e => e.status === 'pending' && e.nextAttemptAt <= now && isOwnedBy(e, owner))
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    for (const entry of due) {
+      let next: OutboxEntry = { ...entry };
+      try {
+        await processor(next);
+      } catch (e: any) {
+        const attempts = entry.attempts + 1;
+        next = {
+          ...next,
+          attempts,
+          lastError: e?.message || String(e),
+          status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+          nextAttemptAt: Date.now() + getBackoffDelay(attempts)
+        };
+      }
+
+      if (next.sheetsSynced && next.dbSynced) await remove(entry.id);
+      else await persist(next);
+      notify();
+    }
+  } finally {
+    flushing = false;
+  }
+};
+
+export const retryFailedAudits = async (processor: OutboxProcessor, owner?: string) => {
+  await ensureLoaded();
+  const failed = Array.from(entries.values()).filter(e => e.status === 'failed' && isOwnedBy(e, owner));
+  for (const entry of failed) {
+    await persist({ ...entry, status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+  }
+  notify();
+  await flushAuditOutbox(processor, owner);
+};
@@ -1,106 +1,285 @@
-import { AppUser } from "../types";
-import { db, handleFirestoreError, OperationType } from "./firebaseClient";
-import { doc, getDoc, getDocs, collection, setDoc, deleteDoc } from 'firebase/firestore';
+import { AppUser, AppSession } from "../types";
+import { getBackend, TABLES } from "./storageBackend";
+import { hashPassword, derivePasswordHash, hashesEqual, randomToken, PasswordCredential } from "./passwordHash";
+import { can, isValidRole, Permission } from "./permissions";
 
-const STORAGE_KEY = 'app_session_user';
+const SESSION_KEY = 'app_session';
+const LEGACY_SESSION_KEY = 'app_session_user';
+const SETUP_DOC = 'setup';
 
-// Authenticate user against Firestore
-export const authenticateUser = async (username: string, password: string): Promise<{ user: AppUser | null, error: string | null }> => {
+// A session covers one working shift; after that the user must log in again.
+// firestore.rules caps expiresAt with the same value.
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export interface UserImportRow extends AppUser {
+    password: string;
+}
+
+// Shape of a users row as persisted. The salt is public so a client can derive
+// its proof before logging in; the hash itself lives in user_credentials, which
+// security rules never expose. `password` (plaintext) and an inline
+// `passwordHash` are legacy layouts that are migrated on the next login.
+interface StoredUser extends AppUser {
+    passwordSalt?: string;
+    passwordIterations?: number;
+    passwordHash?: string;
+    password?: string | null;
+}
+
+interface StoredCredential {
+    username: string;
+    passwordHash: string;
+}
+
+// Written to login_proofs just before the session and deleted right after it.
+// Rules compare the hash with user_credentials and only accept a session while
+// a fresh proof for the same client exists; nobody can read login_proofs, so
+// the hash never ends up in a document another user could list.
+interface LoginProof {
+    username: string;
+    passwordHash: string;
+    createdAt: number;
+}
+
+type AuthResult = { user: AppUser | null, error: string | null };
+
+const toAppUser = (data: StoredUser): AppUser => ({
+    username: data.username,
+    role: data.role,
+    name: data.name
+});
+
+// `password: null` (rather than omitting it) so Supabase upserts clear the
+// legacy column instead of leaving the old plaintext in place.
+const toStoredUser = (user: AppUser, credential: PasswordCredential): StoredUser => ({
+    ...toAppUser(user),
+    passwordSalt: credential.passwordSalt,
+    passwordIterations: credential.passwordIterations,
+    password: null
+});
+
+const writeUser = async (user: AppUser, credential: PasswordCredential) => {
+    const stored: StoredCredential = { username: user.username, passwordHash: credential.passwordHash };
+    await getBackend().set(TABLES.USER_CREDENTIALS, user.username, stored);
+    await getBackend().set(TABLES.USERS, user.username, toStoredUser(user, credential));
+};
+
+const isPermissionError = (e: any) =>
+    /permission/i.test(e?.message || '') || e?.code === 'permission-denied';
+
+// Under Firestore rules the hash is unreadable and the login proof write is
+// the check. Everywhere else we compare locally first; any other read error fails.
+const checkStoredHash = async (username: string, proof: string): Promise<boolean> => {
     try {
-        const userDocRef = doc(db, 'users', username);
-        let userSnap;
-        try {
-            userSnap = await getDoc(userDocRef);
-        } catch (error) {
-            handleFirestoreError(error, OperationType.GET, `users/${username}`);
+        const stored = await getBackend().get<StoredCredential>(TABLES.USER_CREDENTIALS, username);
+        return !!stored && hashesEqual(stored.passwordHash, proof);
+    } catch (e) {
+        if (isPermissionError(e)) return true;
+        throw e;
+    }
+};
+
+// Legacy accounts are verified against the users row and then rewritten in the
+// split layout. Only possible while the rules still allow it (or for admins).
+const migrateLegacyUser = async (data: StoredUser, password: string): Promise<string | null> => {
+    let matches = false;
+    if (data.passwordHash && data.passwordSalt && data.passwordIterations) {
+        matches = hashesEqual(await derivePasswordHash(password, data.passwordSalt, data.passwordIterations), data.passwordHash);
+    } else if (typeof data.password === 'string') {
+        matches = data.password === password;
+    }
+    if (!matches) return null;
+    const credential = await hashPassword(password);
+    await writeUser(data, credential);
+    return credential.passwordHash;
+};
+
+const startSession = async (user: AppUser, proof: string): Promise<AppSession> => {
+    const now = Date.now();
+    const session: AppSession = {
+        token: (await getBackend().clientId?.()) || randomToken(),
+        ...toAppUser(user),
+        issuedAt: now,
+        expiresAt: now + SESSION_TTL_MS
+    };
+    const loginProof: LoginProof = { username: user.username, passwordHash: proof, createdAt: now };
+    await getBackend().set(TABLES.LOGIN_PROOFS, session.token, loginProof);
+    try {
+        await getBackend().set(TABLES.SESSIONS, session.token, session);
+    } finally {
+        getBackend().remove(TABLES.LOGIN_PROOFS, session.token)
+            .catch(e => console.warn("Failed to remove login proof:", e));
+    }
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    // Also update team member name for audit logs convenience
+    localStorage.setItem('team_member_name', user.name);
+    return session;
+};
+
+const describeAuthError = (e: any): string => {
+    let displayError = e.message || "Terjadi kesalahan sistem.";
+    try {
+        const parsed = JSON.parse(e.message);
+        if (parsed.error && parsed.error.includes("Missing or insufficient permissions")) {
+            displayError = "Akses database ditolak. Pastikan Anonymous Authentication aktif di Firebase Console dan firestore.rules sudah di-deploy.";
         }
+    } catch (_) {}
+    return displayError;
+};
 
-        if (!userSnap.exists()) {
-            // First check if database is empty by querying all users.
-            // If empty, we can bootstrap that admin user.
-            let usersSnap;
-            try {
-                usersSnap = await getDocs(collection(db, 'users'));
-            } catch (error) {
-                console.warn("Could not list users, falling back. Error:", error);
-                if (username === 'admin' && password === 'admin123') {
-                    return { user: { username: 'admin', role: 'admin', name: 'Administrator' }, error: null };
-                }
-                handleFirestoreError(error, OperationType.LIST, 'users');
-            }
+// Authenticate user against the configured storage backend and open a session
+export const authenticateUser = async (username: string, password: string): Promise<AuthResult> => {
+    try {
+        const data = await getBackend().get<StoredUser>(TABLES.USERS, username);
 
-            if (usersSnap && usersSnap.empty) {
-                await bootstrapUsers();
-                return { user: null, error: "Database kosong. Sistem mencoba melakukan inisialisasi akun default. Silakan coba masuk kembali dalam 3 detik." };
-            }
+        if (!data) {
             return { user: null, error: "Username tidak ditemukan." };
         }
 
-        const data = userSnap.data();
-        if (data && data.password === password) {
-            return {
-                user: {
-                    username: data.username,
-                    role: data.role,
-                    name: data.name
-                },
-                error: null
-            };
+        let proof: string | null;
+        if (data.passwordSalt && data.passwordIterations && !data.passwordHash) {
+            proof = await derivePasswordHash(password, data.passwordSalt, data.passwordIterations);
+            if (!(await checkStoredHash(username, proof))) proof = null;
+        } else {
+            try {
+                proof = await migrateLegacyUser(data, password);
+            } catch (e) {
+                if (!isPermissionError(e)) throw e;
+                return { user: null, error: "Password akun ini belum dimigrasi. Minta admin mengatur ulang password Anda." };
+            }
+        }
+        if (!proof) return { user: null, error: "Password salah." };
+
+        const user = toAppUser(data);
+        try {
+            await startSession(user, proof);
+        } catch (e) {
+            if (isPermissionError(e)) return { user: null, error: "Password salah." };
+            throw e;
         }
-        return { user: null, error: "Password salah." };
+        if (user.role === 'admin') closeInitialSetup(user.username);
+        return { user, error: null };
     } catch (e: any) {
         console.error("Auth failed:", e);
-        if (username === 'admin' && password === 'admin123') {
-            return { user: { username: 'admin', role: 'admin', name: 'Administrator' }, error: null };
-        }
-        
-        let displayError = e.message || "Terjadi kesalahan sistem.";
-        try {
-            const parsed = JSON.parse(e.message);
-            if (parsed.error && parsed.error.includes("Missing or insufficient permissions")) {
-                displayError = "Gagal mengakses database Firebase. Pastikan Anda telah membuat 'Firestore Database' di Firebase Console, dan mengatur rules ke allow read, write: if true;";
-            }
-        } catch (_) {}
-        
-        return { user: null, error: displayError };
+        return { user: null, error: describeAuthError(e) };
     }
 };
 
-// Get all users from Firestore
-export const getAllUsers = async (): Promise<AppUser[]> => {
+// The system/setup marker records that the first admin exists; until it is
+// written the rules let an anonymous client create that admin.
+export const needsInitialSetup = async (): Promise<boolean> => {
     try {
-        let querySnapshot;
+        if (await getBackend().get(TABLES.SYSTEM, SETUP_DOC)) return false;
+        const users = await getBackend().list<StoredUser>(TABLES.USERS);
+        return users.length === 0;
+    } catch (e) {
+        console.warn("Could not check for existing users:", e);
+        return false;
+    }
+};
+
+// Installs that predate the marker get it the first time an admin logs in, so
+// the setup window cannot be reopened on them.
+const closeInitialSetup = (adminUsername: string) => {
+    getBackend().get(TABLES.SYSTEM, SETUP_DOC)
+        .then(marker => {
+            if (!marker) return getBackend().set(TABLES.SYSTEM, SETUP_DOC, { admin: adminUsername, completedAt: Date.now() });
+        })
+        .catch(e => console.warn("Could not record setup marker:", e));
+};
+
+// Creates the first admin account. Refuses once setup has been completed so
+// the wizard cannot be replayed to take over an installed system.
+export const createInitialAdmin = async (admin: { username: string, name: string, password: string }): Promise<AuthResult> => {
+    if (!admin.username.trim() || !admin.name.trim()) {
+        return { user: null, error: "Username dan nama wajib diisi." };
+    }
+    if (admin.password.length < MIN_PASSWORD_LENGTH) {
+        return { user: null, error: `Password minimal ${MIN_PASSWORD_LENGTH} karakter.` };
+    }
+    try {
+        if (!(await needsInitialSetup())) {
+            return { user: null, error: "Setup awal sudah pernah dilakukan. Silakan masuk." };
+        }
+        const user: AppUser = { username: admin.username.trim(), name: admin.name.trim(), role: 'admin' };
+        const credential = await hashPassword(admin.password);
+        await writeUser(user, credential);
+        await getBackend().set(TABLES.SYSTEM, SETUP_DOC, { admin: user.username, completedAt: Date.now() });
+        await startSession(user, credential.passwordHash);
+        return { user, error: null };
+    } catch (e: any) {
+        console.error("Initial setup failed:", e);
+        return { user: null, error: describeAuthError(e) };
+    }
+};
+
+// Bulk-creates accounts from an uploaded user list. Existing usernames are
+// left untouched so a re-upload cannot silently reset someone's password.
+export const importUsers = async (rows: UserImportRow[]): Promise<{ imported: number, skipped: string[] }> => {
+    requirePermission('manageUsers');
+    const existing = new Set((await getBackend().list<StoredUser>(TABLES.USERS)).map(u => u.username));
+    const skipped: string[] = [];
+    let imported = 0;
+
+    for (const row of rows) {
+        const username = row.username.trim();
+        if (!username || !row.name.trim() || row.password.length < MIN_PASSWORD_LENGTH || existing.has(username)) {
+            skipped.push(username || '(kosong)');
+            continue;
+        }
+        const user: AppUser = { username, name: row.name.trim(), role: isValidRole(row.role) ? row.role : 'user' };
         try {
-            querySnapshot = await getDocs(collection(db, 'users'));
-        } catch (error) {
-            handleFirestoreError(error, OperationType.LIST, 'users');
+            await writeUser(user, await hashPassword(row.password));
+            existing.add(username);
+            imported++;
+        } catch (e) {
+            console.error(`Failed to import user ${username}:`, e);
+            skipped.push(username);
         }
+    }
+    return { imported, skipped };
+};
 
-        const users: AppUser[] = [];
-        querySnapshot.forEach((doc) => {
-            const data = doc.data();
-            users.push({
-                username: data.username,
-                role: data.role,
-                name: data.name,
-                password: data.password // Included for management purposes
-            } as any);
-        });
-        return users;
+// Get all users from the storage backend. Credentials never leave this module.
+export const getAllUsers = async (): Promise<AppUser[]> => {
+    try {
+        requirePermission('manageUsers');
+        const rows = await getBackend().list<StoredUser>(TABLES.USERS);
+        return rows.map(toAppUser);
     } catch (e) {
         console.error("Failed to fetch users:", e);
         return [];
     }
 };
 
-// Save or update a user in Firestore
-export const saveUser = async (user: any) => {
+// Save or update a user in the storage backend. A blank password keeps the
+// existing hash; new users must be given one. Changing it ends open sessions.
+export const saveUser = async (user: AppUser & { password?: string }) => {
     try {
-        const userDocRef = doc(db, 'users', user.username);
-        try {
-            await setDoc(userDocRef, user);
-        } catch (error) {
-            handleFirestoreError(error, OperationType.WRITE, `users/${user.username}`);
+        requirePermission('manageUsers');
+        if (!isValidRole(user.role)) {
+            return { success: false, error: `Role tidak dikenal: ${user.role}` };
+        }
+        if (user.password && user.password.length < MIN_PASSWORD_LENGTH) {
+            return { success: false, error: `Password minimal ${MIN_PASSWORD_LENGTH} karakter.` };
+        }
+        const profile = toAppUser(user);
+        if (user.password) {
+            await writeUser(profile, await hashPassword(user.password));
+            await revokeUserSessions(user.username);
+        } else {
+            const existing = await getBackend().get<StoredUser>(TABLES.USERS, user.username);
+            if (!existing || !existing.passwordSalt || !existing.passwordIterations || existing.passwordHash) {
+                return { success: false, error: "Password wajib diisi untuk user baru atau akun lama." };
+            }
+            await getBackend().set(TABLES.USERS, user.username, {
+                ...profile,
+                passwordSalt: existing.passwordSalt,
+                passwordIterations: existing.passwordIterations,
+                password: null
+            });
         }
         return { success: true };
     } catch (e: any) {
@@ -109,15 +288,13 @@ export const saveUser = async (user: any) => {
     }
 };
 
-// Delete a user from Firestore
+// Delete a user from the storage backend
 export const deleteUser = async (username: string) => {
     try {
-        const userDocRef = doc(db, 'users', username);
-        try {
-            await deleteDoc(userDocRef);
-        } catch (error) {
-            handleFirestoreError(error, OperationType.DELETE, `users/${username}`);
-        }
+        requirePermission('manageUsers');
+        await getBackend().remove(TABLES.USERS, username);
+        await getBackend().remove(TABLES.USER_CREDENTIALS, username);
+        await revokeUserSessions(username);
         return true;
     } catch (e) {
         console.error("Failed to delete user:", e);
@@ -125,65 +302,75 @@ export const deleteUser = async (username: string) => {
     }
 };
 
-// Bootstrap users if the collection is empty
-export const bootstrapUsers = async () => {
+const readSession = (): AppSession | null => {
     try {
-        // Always ensure admin exists to prevent lockout
-        const adminUser = { username: 'admin', password: 'admin123', role: 'admin', name: 'Administrator' };
-        const adminDocRef = doc(db, 'users', adminUser.username);
-        
-        try {
-            await setDoc(adminDocRef, adminUser);
-        } catch (adminError) {
-            console.error("Failed to bootstrap admin user:", adminError);
-        }
-
-        let querySnapshot;
-        try {
-            querySnapshot = await getDocs(collection(db, 'users'));
-        } catch (error) {
-            console.error("Failed to query users during bootstrap:", error);
-            return;
-        }
-        
-        if (querySnapshot.size <= 1) { // Only admin or empty
-            console.log("Bootstrapping users to Firestore...");
-            const users = Array.from({ length: 20 }, (_, i) => ({
-                username: `User${i + 1}`,
-                password: `User${i + 1}`,
-                role: 'user',
-                name: `Staff ${i + 1}`
-            }));
-            
-            for (const u of users) {
-                try {
-                    await setDoc(doc(db, 'users', u.username), u);
-                } catch (insertError) {
-                    console.error(`Failed to bootstrap staff user ${u.username}:`, insertError);
-                }
-            }
-            console.log("Bootstrapping complete.");
-        }
+        const stored = localStorage.getItem(SESSION_KEY);
+        return stored ? JSON.parse(stored) : null;
     } catch (e) {
-        console.error("Bootstrap failed:", e);
+        return null;
     }
 };
 
+const removeLocalSession = () => {
+    localStorage.removeItem(SESSION_KEY);
+    localStorage.removeItem(LEGACY_SESSION_KEY);
+};
+
+// Returns the logged-in user, or null once the session has expired.
 export const getSessionUser = (): AppUser | null => {
-    try {
-        const stored = localStorage.getItem(STORAGE_KEY);
-        return stored ? JSON.parse(stored) : null;
-    } catch (e) {
+    // Sessions from before expiry existed have no token; force a fresh login.
+    localStorage.removeItem(LEGACY_SESSION_KEY);
+    const session = readSession();
+    if (!session) return null;
+    if (!session.token || session.expiresAt <= Date.now()) {
+        clearSessionUser();
         return null;
     }
+    return toAppUser(session);
 };
 
-export const setSessionUser = (user: AppUser) => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(user));
-    // Also update team member name for audit logs convenience
-    localStorage.setItem('team_member_name', user.name); 
+// Checks the local session against the backend so revoked sessions (password
+// change, deleted user) are logged out. Offline, the local expiry is trusted.
+export const validateSession = async (): Promise<AppUser | null> => {
+    const user = getSessionUser();
+    const session = readSession();
+    if (!user || !session) return null;
+    try {
+        const remote = await getBackend().get<AppSession>(TABLES.SESSIONS, session.token);
+        if (!remote || remote.username !== session.username || remote.expiresAt <= Date.now()) {
+            removeLocalSession();
+            return null;
+        }
+        return toAppUser(remote);
+    } catch (e) {
+        console.warn("Could not validate session, using local copy:", e);
+        return user;
+    }
 };
 
 export const clearSessionUser = () => {
-    localStorage.removeItem(STORAGE_KEY);
+    const session = readSession();
+    removeLocalSession();
+    if (session?.token) {
+        getBackend().remove(TABLES.SESSIONS, session.token)
+            .catch(e => console.warn("Failed to revoke session:", e));
+    }
+};
+
+// Services call this before any privileged write so a tampered UI cannot bypass
+// the role matrix on backends without server-side rules.
+export const requirePermission = (permission: Permission) => {
+    if (!can(getSessionUser(), permission)) {
+        throw new Error(`Akses Ditolak: role Anda tidak memiliki izin "${permission}".`);
+    }
+};
+
+const revokeUserSessions = async (username: string) => {
+    try {
+        const entries = await getBackend().listEntries<AppSession>(TABLES.SESSIONS);
+        const ids = entries.filter(e => e.data.username === username || e.data.expiresAt <= Date.now()).map(e => e.id);
+        if (ids.length > 0) await getBackend().removeMany(TABLES.SESSIONS, ids);
+    } catch (e) {
+        console.warn(`Failed to revoke sessions for ${username}:`, e);
+    }
 };
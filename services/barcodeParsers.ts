@@ -0,0 +1,192 @@
+// Turns the raw text a scanner delivers into the fields the count form fills.
+// Parsers are tried in order and the first one that recognises the text wins;
+// anything no parser claims is taken as a plain code. Supplier formats can be
+// added with registerBarcodeParser without touching AuditForm.
+
+export interface ScanResult {
+  parser: string;          // id of the parser that read the code
+  code: string;            // looked up in the alias table: a SKU, or the GTIN when the code carries one
+  gtin?: string;           // 14 digits
+  batchNumber?: string;
+  expiryDate?: string;     // DD-MM-YYYY, as the count form shows it
+  quantity?: number;
+}
+
+export interface BarcodeParser {
+  id: string;
+  // null when the text is not in this parser's format
+  parse(text: string): ScanResult | null;
+}
+
+// --- GS1 ---
+
+// FNC1 arrives as the ASCII group separator from most scanners
+const GS = '\u001d';
+
+// Symbology identifiers some scanners prefix: GS1-128, DataBar, DataMatrix, QR
+const SYMBOLOGY_IDS = [']C1', ']e0', ']d2', ']Q3'];
+
+interface AiSpec {
+  ai: string;
+  fixed?: number;  // data length of a fixed-length AI
+  max: number;     // longest value a variable-length AI may carry
+}
+
+const FIXED_AIS: Record<string, number> = {
+  '00': 18, '01': 14, '02': 14, '11': 6, '12': 6, '13': 6, '15': 6, '16': 6, '17': 6, '20': 2,
+  '410': 13, '411': 13, '412': 13, '413': 13, '414': 13, '415': 13, '422': 3, '7003': 10
+};
+
+const VARIABLE_AIS: Record<string, number> = {
+  '10': 20, '21': 20, '22': 20, '30': 8, '37': 8, '90': 30,
+  '91': 90, '92': 90, '93': 90, '94': 90, '95': 90, '96': 90, '97': 90, '98': 90, '99': 90,
+  '240': 30, '241': 30, '250': 30, '251': 30, '400': 30, '401': 30, '403': 30, '420': 20, '421': 12,
+  '8020': 25
+};
+
+const specAt = (data: string, pos: number): AiSpec | null => {
+  for (const length of [2, 3, 4]) {
+    const ai = data.slice(pos, pos + length);
+    if (ai in FIXED_AIS) return { ai, fixed: FIXED_AIS[ai], max: FIXED_AIS[ai] };
+    if (ai in VARIABLE_AIS) return { ai, max: VARIABLE_AIS[ai] };
+    // Trade measures (31nn-36nn): the last digit is the decimal point position
+    if (length === 4 && /^3[1-6]\d\d$/.test(ai)) return { ai, fixed: 6, max: 6 };
+  }
+  return null;
+};
+
+// Unbracketed element string: fixed-length AIs run straight into the next
+// AI, variable-length ones end at FNC1 or at the end of the data.
+const parseElementString = (data: string): Record<string, string> | null => {
+  const fields: Record<string, string> = {};
+  let pos = 0;
+  while (pos < data.length) {
+    if (data[pos] === GS) { pos++; continue; }
+    const spec = specAt(data, pos);
+    if (!spec) break;
+    pos += spec.ai.length;
+    const end = data.indexOf(GS, pos);
+    const value = data.slice(pos, Math.min(end === -1 ? data.length : end, pos + spec.max));
+    if (spec.fixed && value.length !== spec.fixed) return null;
+    fields[spec.ai] = value;
+    pos += value.length;
+  }
+  return Object.keys(fields).length > 0 ? fields : null;
+};
+
+// Human-readable form as printed under the barcode: (01)0951...(10)ABC
+const parseBracketed = (data: string): Record<string, string> | null => {
+  const fields: Record<string, string> = {};
+  for (const match of data.matchAll(/\((\d{2,4})\)([^(]*)/g)) {
+    fields[match[1]] = match[2].replace(new RegExp(GS, 'g'), '').trim();
+  }
+  return Object.keys(fields).length > 0 ? fields : null;
+};
+
+export const isValidGtin = (gtin: string) => {
+  if (!/^\d{14}$/.test(gtin)) return false;
+  const sum = gtin.slice(0, 13).split('').reduce((acc, digit, i) => acc + Number(digit) * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(gtin[13]);
+};
+
+// YYMMDD; day 00 means the last day of the month. The century follows the
+// GS1 rule of keeping the year within 50 years ahead of today.
+const gs1DateToDisplay = (value: string) => {
+  if (!/^\d{6}$/.test(value)) return undefined;
+  const now = new Date().getFullYear();
+  let year = Math.floor(now / 100) * 100 + Number(value.slice(0, 2));
+  if (year - now >= 51) year -= 100;
+  else if (now - year > 49) year += 100;
+  const month = value.slice(2, 4);
+  if (Number(month) < 1 || Number(month) > 12) return undefined;
+  let day = value.slice(4, 6);
+  if (day === '00') day = String(new Date(year, Number(month), 0).getDate()).padStart(2, '0');
+  return `${day}-${month}-${year}`;
+};
+
+export const gs1Parser: BarcodeParser = {
+  id: 'gs1',
+  parse(text) {
+    let data = text;
+    const prefix = SYMBOLOGY_IDS.find(id => data.startsWith(id));
+    if (prefix) data = data.slice(prefix.length);
+
+    let fields: Record<string, string> | null = null;
+    if (/^\(\d{2,4}\)/.test(data)) fields = parseBracketed(data);
+    // Without a prefix or FNC1, only claim text that starts with a valid GTIN
+    else if (prefix || data.includes(GS) || (/^01\d{14}/.test(data) && isValidGtin(data.slice(2, 16)))) fields = parseElementString(data);
+
+    const gtin = fields?.['01'] || fields?.['02'];
+    if (!fields || !gtin) return null;
+    const quantity = fields['30'] ?? fields['37'];
+    return {
+      parser: 'gs1',
+      code: gtin,
+      gtin,
+      batchNumber: fields['10'],
+      expiryDate: fields['17'] ? gs1DateToDisplay(fields['17']) : undefined,
+      quantity: quantity !== undefined && /^\d+$/.test(quantity) ? Number(quantity) : undefined
+    };
+  }
+};
+
+// --- SKU,BATCH,EXPIRY ---
+
+// Logic: Convert DDMMYYYY (30093039) -> 30-09-3039
+const parseScannedDate = (raw: string): string => {
+  const clean = raw.replace(/[^0-9]/g, '');
+  if (clean.length === 8) return `${clean.substring(0, 2)}-${clean.substring(2, 4)}-${clean.substring(4, 8)}`;
+  return raw;
+};
+
+// Our own labels: SKU,BATCH,EXPIRY (comma first, pipe as fallback)
+// Example: 123BX,12345GG,30093039
+export const delimitedParser: BarcodeParser = {
+  id: 'delimited',
+  parse(text) {
+    const separator = text.includes(',') ? ',' : text.includes('|') ? '|' : null;
+    if (!separator) return null;
+    const parts = text.split(separator).map(p => p.trim());
+    return {
+      parser: 'delimited',
+      code: parts[0],
+      batchNumber: parts[1] || undefined,
+      expiryDate: parts[2] ? parseScannedDate(parts[2]) : undefined
+    };
+  }
+};
+
+// --- REGISTRY ---
+
+let parsers: BarcodeParser[] = [gs1Parser, delimitedParser];
+
+// Registered parsers are tried before the built-in ones; registering an id
+// again replaces the earlier parser.
+export const registerBarcodeParser = (parser: BarcodeParser) => {
+  parsers = [parser, ...parsers.filter(p => p.id !== parser.id)];
+};
+
+export const parseBarcode = (raw: string): ScanResult => {
+  const text = raw.replace(/^\s+|\s+$/g, '');
+  for (const parser of parsers) {
+    const result = parser.parse(text);
+    if (result) return result;
+  }
+  return { parser: 'plain', code: text };
+};
+
+// --- RESOLUTION ---
+
+export type ScanResolution =
+  | { resolved: true; sku: string }
+  | { resolved: false; gtin: string };
+
+// The SKU a scan counts as. A code with an alias counts as the alias's SKU,
+// and any other code as a SKU of its own, except a GTIN: that never is one,
+// so a GTIN without an alias stays unresolved until someone links it.
+export const resolveScanSku = (scan: ScanResult, skuOfAlias: (code: string) => string | undefined): ScanResolution => {
+  const sku = skuOfAlias(scan.code);
+  if (sku) return { resolved: true, sku };
+  if (scan.gtin) return { resolved: false, gtin: scan.gtin };
+  return { resolved: true, sku: scan.code };
+};
@@ -1,5 +1,5 @@
 import { initializeApp } from 'firebase/app';
-import { getAuth } from 'firebase/auth';
+import { getAuth, signInAnonymously } from 'firebase/auth';
 import { getFirestore, doc, getDocFromServer } from 'firebase/firestore';
 import firebaseConfig from '../firebase-applet-config.json';
 
@@ -9,6 +9,24 @@ export const db = (firebaseConfig as any).firestoreDatabaseId
   : getFirestore(app);
 export const auth = getAuth(app);
 
+// Security rules identify a browser by its (anonymous) Firebase Auth uid; the
+// app's own login then binds that uid to a user via sessions/{uid}. If
+// anonymous sign-in is disabled in the console we carry on unauthenticated.
+let signInPromise: Promise<string | null> | null = null;
+
+export const ensureSignedIn = (): Promise<string | null> => {
+  if (!signInPromise) {
+    signInPromise = auth.authStateReady()
+      .then(async () => auth.currentUser?.uid || (await signInAnonymously(auth)).user.uid)
+      .catch((error) => {
+        console.warn("Anonymous sign-in failed, continuing without Firebase Auth:", error);
+        signInPromise = null;
+        return null;
+      });
+  }
+  return signInPromise;
+};
+
 export enum OperationType {
   CREATE = 'create',
   UPDATE = 'update',
@@ -56,8 +74,8 @@ export function handleFirestoreError(error: unknown, operationType: OperationTyp
   throw new Error(JSON.stringify(errInfo));
 }
 
-// Simple connection validation
-async function testConnection() {
+// Simple connection validation, run when the Firestore backend is selected
+export async function testConnection() {
   try {
     console.log("Firebase DB ID:", (firebaseConfig as any).firestoreDatabaseId || "default");
     await getDocFromServer(doc(db, 'test', 'connection'));
@@ -70,4 +88,3 @@ async function testConnection() {
     }
   }
 }
-testConnection();
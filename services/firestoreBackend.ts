@@ -0,0 +1,146 @@
+import { db, ensureSignedIn, handleFirestoreError, OperationType, testConnection } from './firebaseClient';
+import {
+  collection,
+  doc,
+  query,
+  orderBy,
+  where,
+  getDoc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  updateDoc,
+  onSnapshot,
+  writeBatch
+} from 'firebase/firestore';
+import type { StorageBackend, QueryOptions, BackendEntry } from './storageBackend';
+
+const BATCH_SIZE = 400;
+
+const buildQuery = (table: string, options?: QueryOptions) => {
+  const ref = collection(db, table);
+  return options?.orderBy ? query(ref, orderBy(options.orderBy, options.direction || 'asc')) : ref;
+};
+
+const commitInChunks = async <T>(items: T[], apply: (batch: ReturnType<typeof writeBatch>, item: T) => void) => {
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    items.slice(i, i + BATCH_SIZE).forEach(item => apply(batch, item));
+    await batch.commit();
+  }
+};
+
+// Only this backend talks to Firestore; the local and Supabase ones never
+// open a connection to the Firebase project.
+export const createFirestoreBackend = (): StorageBackend => {
+  testConnection();
+  return {
+    name: 'firestore',
+
+    subscribe<T>(table: string, onUpdate: (rows: T[]) => void, onError: (error: any) => void, options?: QueryOptions) {
+      let active = true;
+      let unsubscribe: (() => void) | null = null;
+      ensureSignedIn().then(() => {
+        if (!active) return;
+        unsubscribe = onSnapshot(buildQuery(table, options), (snapshot) => {
+          const rows: T[] = [];
+          snapshot.forEach((d) => {
+            rows.push(d.data() as T);
+          });
+          onUpdate(rows);
+        }, onError);
+      });
+      return () => {
+        active = false;
+        unsubscribe?.();
+      };
+    },
+
+    async list<T>(table: string, options?: QueryOptions) {
+      try {
+        await ensureSignedIn();
+        const snapshot = await getDocs(buildQuery(table, options));
+        return snapshot.docs.map(d => d.data() as T);
+      } catch (error) {
+        handleFirestoreError(error, OperationType.LIST, table);
+      }
+    },
+
+    async listEntries<T>(table: string) {
+      try {
+        await ensureSignedIn();
+        const snapshot = await getDocs(collection(db, table));
+        return snapshot.docs.map(d => ({ id: d.id, data: d.data() as T }));
+      } catch (error) {
+        handleFirestoreError(error, OperationType.LIST, table);
+      }
+    },
+
+    async listWhere<T>(table: string, field: string, value: string | number) {
+      try {
+        await ensureSignedIn();
+        const snapshot = await getDocs(query(collection(db, table), where(field, '==', value)));
+        return snapshot.docs.map(d => ({ id: d.id, data: d.data() as T }));
+      } catch (error) {
+        handleFirestoreError(error, OperationType.LIST, table);
+      }
+    },
+
+    async get<T>(table: string, id: string) {
+      try {
+        await ensureSignedIn();
+        const snap = await getDoc(doc(db, table, id));
+        return snap.exists() ? (snap.data() as T) : null;
+      } catch (error) {
+        handleFirestoreError(error, OperationType.GET, `${table}/${id}`);
+      }
+    },
+
+    async set<T>(table: string, id: string, data: T) {
+      try {
+        await ensureSignedIn();
+        await setDoc(doc(db, table, id), data as any);
+      } catch (error) {
+        handleFirestoreError(error, OperationType.WRITE, `${table}/${id}`);
+      }
+    },
+
+    async setMany<T>(table: string, entries: BackendEntry<T>[]) {
+      try {
+        await ensureSignedIn();
+        await commitInChunks(entries, (batch, entry) => batch.set(doc(db, table, entry.id), entry.data as any));
+      } catch (error) {
+        handleFirestoreError(error, OperationType.WRITE, table);
+      }
+    },
+
+    async update<T>(table: string, id: string, updates: Partial<T>) {
+      try {
+        await ensureSignedIn();
+        await updateDoc(doc(db, table, id), updates as any);
+      } catch (error) {
+        handleFirestoreError(error, OperationType.UPDATE, `${table}/${id}`);
+      }
+    },
+
+    async remove(table: string, id: string) {
+      try {
+        await ensureSignedIn();
+        await deleteDoc(doc(db, table, id));
+      } catch (error) {
+        handleFirestoreError(error, OperationType.DELETE, `${table}/${id}`);
+      }
+    },
+
+    async removeMany(table: string, ids: string[]) {
+      try {
+        await ensureSignedIn();
+        await commitInChunks(ids, (batch, id) => batch.delete(doc(db, table, id)));
+      } catch (error) {
+        handleFirestoreError(error, OperationType.DELETE, table);
+      }
+    },
+
+    clientId: ensureSignedIn
+  };
+};
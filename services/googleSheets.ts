@@ -1,10 +1,23 @@
 import { useState, useEffect } from 'react';
 import { signInWithPopup, GoogleAuthProvider, onAuthStateChanged, signOut } from 'firebase/auth';
 import { auth } from './firebaseClient';
+import { AuditRecord, SheetsColumnField, SheetsTarget } from '../types';
 
 let globalToken: string | null = null;
 const scopes = ['https://www.googleapis.com/auth/spreadsheets'];
 
+// Counts are stored in the database; copying them to Google Sheets is optional
+// and can be switched off per device.
+const SHEETS_MIRROR_KEY = 'sheets_mirror_enabled';
+export const SHEETS_MIRROR_CHANGED_EVENT = 'sheetsMirrorChanged';
+
+export const isSheetsMirrorEnabled = () => localStorage.getItem(SHEETS_MIRROR_KEY) !== 'false';
+
+export const setSheetsMirrorEnabled = (enabled: boolean) => {
+  localStorage.setItem(SHEETS_MIRROR_KEY, String(enabled));
+  window.dispatchEvent(new Event(SHEETS_MIRROR_CHANGED_EVENT));
+};
+
 export function useGoogleAuth() {
   const [token, setToken] = useState<string | null>(globalToken);
   const [isLoaded, setIsLoaded] = useState(true);
@@ -53,79 +66,281 @@ export function useGoogleAuth() {
   return { token, login, logout, isLoaded };
 }
 
-// Function to initialize or get the spreadsheet ID
-export const getOrInitializeSpreadsheet = async (accessToken: string): Promise<string> => {
-  // Use the spreadsheet provided by the user
-  const spreadsheetId = '1OH-PS33N0WLgE4AMF6PpO2pL9kXfyNuQlDuQol-KwgA';
-  return spreadsheetId;
+// --- EXPORT TARGET ---
+
+const SHEETS_API = 'https://sheets.googleapis.com/v4/spreadsheets';
+
+export const hasGoogleToken = () => !!globalToken;
+
+interface SheetsColumn {
+  header: string;
+  value: (record: AuditRecord) => string | number;
+}
+
+export const SHEETS_COLUMNS: Record<SheetsColumnField, SheetsColumn> = {
+  id: { header: 'ID Record', value: r => r.id },
+  sessionId: { header: 'Sesi', value: r => r.sessionId || '-' },
+  sku: { header: 'Kode Barang', value: r => r.sku },
+  itemName: { header: 'Nama Barang', value: r => r.itemName },
+  systemQty: { header: 'QTY System', value: r => r.systemQty },
+  physicalQty: { header: 'QTY Fisik', value: r => r.physicalQty },
+  variance: { header: 'Selisih', value: r => r.variance },
+  acceptedQty: { header: 'QTY Diterima', value: r => r.acceptedQty ?? r.physicalQty },
+  unit: { header: 'Satuan', value: r => r.unit || '-' },
+  location: { header: 'Lokasi', value: r => r.location },
+  batchNumber: { header: 'Batch', value: r => r.batchNumber },
+  expiryDate: { header: 'Expired', value: r => r.expiryDate },
+  teamMember: { header: 'Petugas', value: r => r.teamMember },
+  notes: { header: 'Catatan', value: r => r.notes || '-' },
+  photoCount: { header: 'Jumlah Foto', value: r => r.evidencePhotos ? r.evidencePhotos.length : 0 },
+  photoLink: { header: 'Link Foto', value: r => r.evidencePhotos?.length ? `${window.location.origin}/?open_photo=${r.id}` : '-' },
+  timestamp: { header: 'Waktu', value: r => new Date(r.timestamp).toLocaleString('id-ID') },
+  unitEntry: { header: 'Rincian Satuan', value: r => r.unitEntry?.map(l => `${l.qty} ${l.unit}`).join(' + ') || '-' }
 };
 
-export const appendRowToSheet = async (accessToken: string, spreadsheetId: string, range: string, values: any[][]) => {
-  const response = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${range}:append?valueInputOption=USER_ENTERED`, {
-    method: 'POST',
+// The column order every spreadsheet used before mappings were configurable
+export const DEFAULT_SHEETS_COLUMNS: SheetsColumnField[] = [
+  'sku', 'itemName', 'systemQty', 'physicalQty', 'variance', 'unit', 'location',
+  'batchNumber', 'expiryDate', 'teamMember', 'notes', 'photoCount', 'photoLink', 'timestamp'
+];
+
+// Accepts a spreadsheet URL as copied from the browser, or the bare ID
+export const parseSpreadsheetId = (input: string): string => {
+  const trimmed = input.trim();
+  const match = trimmed.match(/\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/);
+  return match ? match[1] : trimmed;
+};
+
+export const spreadsheetUrl = (spreadsheetId: string) => `https://docs.google.com/spreadsheets/d/${spreadsheetId}/edit`;
+
+// 1 -> A, 27 -> AA
+const columnLetter = (n: number): string => {
+  let letters = '';
+  for (let i = n; i > 0; i = Math.floor((i - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((i - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+// Tab names with spaces or quotes must be quoted in A1 notation
+const quoteTab = (sheetTitle: string) => `'${sheetTitle.replace(/'/g, "''")}'`;
+
+const sheetRange = (sheetTitle: string, columnCount: number, firstRow?: number) => {
+  const tab = quoteTab(sheetTitle);
+  const last = columnLetter(Math.max(columnCount, 1));
+  return firstRow ? `${tab}!A${firstRow}:${last}${firstRow}` : `${tab}!A:${last}`;
+};
+
+const requireToken = () => {
+  if (!globalToken) throw new Error('Google authentication required to save to Sheets');
+  return globalToken;
+};
+
+const sheetsRequest = async (url: string, init: RequestInit = {}) => {
+  const token = requireToken();
+  const response = await fetch(url, {
+    ...init,
     headers: {
-      'Authorization': `Bearer ${accessToken}`,
+      'Authorization': `Bearer ${token}`,
       'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      values: values
-    })
+      ...(init.headers || {})
+    }
   });
-  
+
   if (!response.ok) {
     if (response.status === 401) {
       // Token expired or invalid
       globalToken = null;
       throw new Error('Google authentication expired. Please login to Google again.');
     }
-    throw new Error('Failed to append to spreadsheet');
+    if (response.status === 403 || response.status === 404) {
+      throw new Error('Spreadsheet tidak ditemukan atau akun Google ini tidak punya akses edit.');
+    }
+    throw new Error('Google Sheets request failed');
   }
-  
   return response.json();
 };
 
-export const appendAuditLogToSheets = async (auditRecord: any) => {
-  const token = globalToken;
-  if (!token) {
-    throw new Error('Google authentication required to save to Sheets');
+export const appendRowToSheet = async (spreadsheetId: string, range: string, values: any[][]) =>
+  sheetsRequest(`${SHEETS_API}/${spreadsheetId}/values/${encodeURIComponent(range)}:append?valueInputOption=USER_ENTERED`, {
+    method: 'POST',
+    body: JSON.stringify({ values })
+  });
+
+const KEY_HEADER = SHEETS_COLUMNS.id.header;
+
+// Field written to each column of a tab. The record id keeps the column whose
+// header is "ID Record", so editing the mapping never moves it; other columns
+// follow the mapping and null leaves a column the mapping does not cover alone.
+const rowLayout = (columns: SheetsColumnField[], keyIndex: number): (SheetsColumnField | null)[] => {
+  const mapped = (columns.length > 0 ? columns : DEFAULT_SHEETS_COLUMNS).filter(field => field !== 'id');
+  const layout: (SheetsColumnField | null)[] = [];
+  for (const field of mapped) {
+    if (layout.length === keyIndex) layout.push('id');
+    layout.push(field);
   }
+  while (layout.length < keyIndex) layout.push(null);
+  if (layout.length === keyIndex) layout.push('id');
+  return layout;
+};
 
-  const spreadsheetId = await getOrInitializeSpreadsheet(token);
-  
-  // Get spreadsheet info to get the first sheet's title
-  const spreadsheetInfoRes = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}`, {
-    headers: {
-      'Authorization': `Bearer ${token}`
-    }
+// Where a tab keeps record ids: the "ID Record" column if row 1 has one.
+// Otherwise an empty tab takes the mapping's id column (or the one after the
+// mapped columns) and a tab with older headers the first column after them.
+const keyIndexOf = (header: string[], columns: SheetsColumnField[]) => {
+  const headed = header.indexOf(KEY_HEADER);
+  if (headed !== -1) return headed;
+  const mapped = columns.length > 0 ? columns : DEFAULT_SHEETS_COLUMNS;
+  const fieldCount = mapped.filter(field => field !== 'id').length;
+  if (header.every(cell => !cell)) return mapped.includes('id') ? mapped.indexOf('id') : fieldCount;
+  return Math.max(header.length, fieldCount);
+};
+
+const readHeaderRow = async (spreadsheetId: string, sheetTitle: string): Promise<string[]> => {
+  const row = await sheetsRequest(`${SHEETS_API}/${spreadsheetId}/values/${encodeURIComponent(`${quoteTab(sheetTitle)}!1:1`)}`);
+  return ((row.values && row.values[0]) || []).map((cell: any) => String(cell).trim());
+};
+
+interface SheetInfo {
+  title: string;
+  sheetId: number;
+}
+
+// Tab titles and ids per spreadsheet, fetched once instead of before every write
+const sheetInfoCache = new Map<string, Promise<SheetInfo[]>>();
+
+const getSheets = (spreadsheetId: string, refresh = false): Promise<SheetInfo[]> => {
+  const cached = sheetInfoCache.get(spreadsheetId);
+  if (cached && !refresh) return cached;
+  const request: Promise<SheetInfo[]> = sheetsRequest(`${SHEETS_API}/${spreadsheetId}?fields=sheets.properties(title,sheetId)`)
+    .then(info => (info.sheets || []).map((sheet: any) => ({ title: sheet.properties.title, sheetId: sheet.properties.sheetId })));
+  request.catch(() => sheetInfoCache.delete(spreadsheetId));
+  sheetInfoCache.set(spreadsheetId, request);
+  return request;
+};
+
+// A target without a tab name (older setups) uses the spreadsheet's first tab
+const findSheet = async (target: SheetsTarget): Promise<SheetInfo> => {
+  const sheets = await getSheets(target.spreadsheetId);
+  const sheet = target.sheetTitle ? sheets.find(s => s.title === target.sheetTitle) : sheets[0];
+  if (!sheet) {
+    // The tab may have been renamed or removed; look again on the next attempt
+    sheetInfoCache.delete(target.spreadsheetId);
+    throw new Error(`Tab "${target.sheetTitle}" tidak ditemukan di spreadsheet.`);
+  }
+  return sheet;
+};
+
+export const writeHeaderRow = async (target: SheetsTarget) => {
+  const header = await readHeaderRow(target.spreadsheetId, target.sheetTitle);
+  const layout = rowLayout(target.columns, keyIndexOf(header, target.columns));
+  return sheetsRequest(`${SHEETS_API}/${target.spreadsheetId}/values/${encodeURIComponent(sheetRange(target.sheetTitle, layout.length, 1))}?valueInputOption=RAW`, {
+    method: 'PUT',
+    body: JSON.stringify({ values: [layout.map(field => (field ? SHEETS_COLUMNS[field].header : null))] })
+  });
+};
+
+// Makes sure the tab exists and row 1 names the mapped columns
+export const prepareSheetsTarget = async (target: SheetsTarget): Promise<SheetsTarget> => {
+  const sheets = await getSheets(target.spreadsheetId, true);
+  const sheetTitle = target.sheetTitle.trim() || sheets[0]?.title || 'Sheet1';
+  if (!sheets.some(s => s.title === sheetTitle)) {
+    await sheetsRequest(`${SHEETS_API}/${target.spreadsheetId}:batchUpdate`, {
+      method: 'POST',
+      body: JSON.stringify({ requests: [{ addSheet: { properties: { title: sheetTitle } } }] })
+    });
+    await getSheets(target.spreadsheetId, true);
+  }
+  const prepared = { ...target, sheetTitle };
+  await writeHeaderRow(prepared);
+  return prepared;
+};
+
+// Creates a new spreadsheet in the signed-in Google account with the header row in place
+export const createSpreadsheet = async (title: string, sheetTitle: string, columns: SheetsColumnField[]): Promise<SheetsTarget> => {
+  const created = await sheetsRequest(SHEETS_API, {
+    method: 'POST',
+    body: JSON.stringify({
+      properties: { title },
+      sheets: [{ properties: { title: sheetTitle } }]
+    })
+  });
+  const target: SheetsTarget = { spreadsheetId: created.spreadsheetId, sheetTitle, columns };
+  await writeHeaderRow(target);
+  return target;
+};
+
+export interface SheetsChange {
+  record: AuditRecord;
+  operation: 'upsert' | 'delete';
+}
+
+// Writes a batch of changes to one tab with at most five requests: read the
+// header row and the id column, rewrite rows that already exist, append the
+// new ones in a single call, and remove the rows of deleted records. Rows are
+// matched by record id, so replaying a batch after a timeout never adds a
+// second row.
+export const syncRecordsToSheet = async (target: SheetsTarget, changes: SheetsChange[]) => {
+  const { spreadsheetId } = target;
+  const sheet = await findSheet(target);
+  const tab = quoteTab(sheet.title);
+  const header = await readHeaderRow(spreadsheetId, sheet.title);
+  const keyIndex = keyIndexOf(header, target.columns);
+  const keyColumn = columnLetter(keyIndex + 1);
+  if (header[keyIndex] !== KEY_HEADER) {
+    // Tabs set up before rows were keyed get their id column titled once
+    await sheetsRequest(`${SHEETS_API}/${spreadsheetId}/values/${encodeURIComponent(`${tab}!${keyColumn}1`)}?valueInputOption=RAW`, {
+      method: 'PUT',
+      body: JSON.stringify({ values: [[KEY_HEADER]] })
+    });
+  }
+  const layout = rowLayout(target.columns, keyIndex);
+  const lastColumn = columnLetter(layout.length);
+
+  const keys = await sheetsRequest(`${SHEETS_API}/${spreadsheetId}/values/${encodeURIComponent(`${tab}!${keyColumn}2:${keyColumn}`)}?majorDimension=COLUMNS`);
+  const rowsById = new Map<string, number[]>();
+  ((keys.values && keys.values[0]) || []).forEach((value: string, index: number) => {
+    if (value) rowsById.set(value, [...(rowsById.get(value) || []), index + 2]);
   });
-  
-  let sheetTitle = 'Sheet1';
-  if (spreadsheetInfoRes.ok) {
-    const info = await spreadsheetInfoRes.json();
-    if (info.sheets && info.sheets.length > 0) {
-      sheetTitle = info.sheets[0].properties.title;
+
+  const updates: { range: string; values: any[][] }[] = [];
+  const appends: any[][] = [];
+  const deletions: number[] = [];
+  for (const { record, operation } of changes) {
+    const rows = rowsById.get(record.id) || [];
+    if (operation === 'delete') {
+      deletions.push(...rows);
+      continue;
+    }
+    // null skips the cell, so columns outside the mapping keep what is there
+    const values = layout.map(field => (field ? SHEETS_COLUMNS[field].value(record) : null));
+    if (rows.length === 0) {
+      appends.push(values);
+    } else {
+      updates.push({ range: `${tab}!A${rows[0]}:${lastColumn}${rows[0]}`, values: [values] });
+      // The same id on several rows (two devices appended the record before
+      // either saw the other's row): keep the first, remove the rest
+      deletions.push(...rows.slice(1));
     }
   }
-  
-  const hasPhoto = auditRecord.evidencePhotos && auditRecord.evidencePhotos.length > 0;
-  const photoLink = hasPhoto ? `${window.location.origin}/?open_photo=${auditRecord.id}` : '-';
-
-  const rowData = [
-    auditRecord.sku,
-    auditRecord.itemName,
-    auditRecord.systemQty,
-    auditRecord.physicalQty,
-    auditRecord.variance,
-    auditRecord.unit || '-',
-    auditRecord.location,
-    auditRecord.batchNumber,
-    auditRecord.expiryDate,
-    auditRecord.teamMember,
-    auditRecord.notes || '-',
-    auditRecord.evidencePhotos ? auditRecord.evidencePhotos.length : 0,
-    photoLink,
-    new Date(auditRecord.timestamp).toLocaleString('id-ID')
-  ];
-
-  await appendRowToSheet(token, spreadsheetId, `${sheetTitle}!A:N`, [rowData]);
+
+  if (updates.length > 0) {
+    await sheetsRequest(`${SHEETS_API}/${spreadsheetId}/values:batchUpdate`, {
+      method: 'POST',
+      body: JSON.stringify({ valueInputOption: 'USER_ENTERED', data: updates })
+    });
+  }
+  if (appends.length > 0) {
+    await appendRowToSheet(spreadsheetId, `${tab}!A:${lastColumn}`, appends);
+  }
+  if (deletions.length > 0) {
+    // Bottom-up, so each deletion leaves the row numbers still to go intact
+    const requests = Array.from(new Set(deletions))
+      .sort((a, b) => b - a)
+      .map(row => ({ deleteDimension: { range: { sheetId: sheet.sheetId, dimension: 'ROWS', startIndex: row - 1, endIndex: row } } }));
+    await sheetsRequest(`${SHEETS_API}/${spreadsheetId}:batchUpdate`, {
+      method: 'POST',
+      body: JSON.stringify({ requests })
+    });
+  }
 };
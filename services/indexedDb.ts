@@ -0,0 +1,59 @@
+// Thin promise wrapper around IndexedDB used for data that must survive
+// reloads while the device is offline (localStorage is too small for photos).
+
+const DB_NAME = 'smart_cycle_count';
+const DB_VERSION = 3;
+
+export const STORES = {
+  AUDIT_OUTBOX: 'audit_outbox',
+  SHEETS_OUTBOX: 'sheets_outbox',
+  LOCAL_TABLES: 'local_tables'
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(STORES).forEach(store => {
+        if (!db.objectStoreNames.contains(store)) db.createObjectStore(store);
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const runRequest = async <T>(store: string, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = action(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const idbGetAll = <T>(store: string): Promise<T[]> =>
+  runRequest<T[]>(store, 'readonly', s => s.getAll());
+
+export const idbGet = <T>(store: string, key: string): Promise<T | undefined> =>
+  runRequest<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const idbPut = <T>(store: string, key: string, value: T): Promise<void> =>
+  runRequest<void>(store, 'readwrite', s => s.put(value, key));
+
+export const idbDelete = (store: string, key: string): Promise<void> =>
+  runRequest<void>(store, 'readwrite', s => s.delete(key));
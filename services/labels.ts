@@ -0,0 +1,170 @@
+import QRCode from 'qrcode';
+import JsBarcode from 'jsbarcode';
+import { MasterItem, MasterLocation } from '../types';
+
+// Printable labels for the scanner flows. Location labels carry the location
+// code, which counts and location states are recorded under; item labels
+// carry "SKU,BATCH,DDMMYYYY", the format of the delimited scan parser.
+
+export type LabelSymbology = 'qr' | 'code128';
+
+// 'sheet' tiles labels on A4 paper; 'roll' prints one label per page for
+// label printers loaded with a roll of that size.
+export type LabelLayout = 'sheet' | 'roll';
+
+export interface LabelSize {
+    id: string;
+    name: string;
+    widthMm: number;
+    heightMm: number;
+}
+
+export const LABEL_SIZES: LabelSize[] = [
+    { id: '38x25', name: '38 × 25 mm', widthMm: 38, heightMm: 25 },
+    { id: '50x30', name: '50 × 30 mm', widthMm: 50, heightMm: 30 },
+    { id: '70x40', name: '70 × 40 mm', widthMm: 70, heightMm: 40 },
+    { id: '100x50', name: '100 × 50 mm', widthMm: 100, heightMm: 50 }
+];
+
+export interface Label {
+    code: string;     // what the scanner reads
+    title: string;
+    subtitle?: string;
+}
+
+export interface LabelPrintOptions {
+    symbology: LabelSymbology;
+    size: LabelSize;
+    layout: LabelLayout;
+}
+
+// --- LABEL CONTENT ---
+
+const isTracked = (value?: string) => !!value && value.trim() !== '' && value.trim() !== '-';
+
+// Master data keeps YYYY-MM-DD; the delimited scan parser reads DDMMYYYY
+const toScanDate = (date: string) => {
+    const match = date.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    return match ? `${match[3]}${match[2]}${match[1]}` : date.trim().replace(/[^0-9]/g, '');
+};
+
+export const itemLabelCode = (item: MasterItem) => {
+    const parts = [item.sku.trim()];
+    if (isTracked(item.batchNumber) || isTracked(item.expiryDate)) {
+        parts.push(isTracked(item.batchNumber) ? item.batchNumber.trim() : '-');
+        if (isTracked(item.expiryDate)) parts.push(toScanDate(item.expiryDate));
+    }
+    return parts.join(',');
+};
+
+export const itemLabel = (item: MasterItem): Label => {
+    const details = [
+        isTracked(item.batchNumber) ? `Batch ${item.batchNumber}` : '',
+        isTracked(item.expiryDate) ? `ED ${item.expiryDate}` : ''
+    ].filter(Boolean);
+    return {
+        code: itemLabelCode(item),
+        title: item.sku,
+        subtitle: [item.name, ...details].join(' · ')
+    };
+};
+
+export const locationLabel = (location: MasterLocation): Label => ({
+    code: location.id,
+    title: location.name,
+    subtitle: location.name !== location.id ? `${location.id} · ${location.zone}` : location.zone
+});
+
+// --- RENDERING ---
+
+// Code128 labels hold printable ASCII only (JsBarcode throws on the rest), and neither
+// symbol can encode an empty code. Returns why a label cannot be printed.
+export const labelCodeProblem = (code: string, symbology: LabelSymbology): string | null => {
+    if (!code.trim()) return 'kode kosong';
+    if (symbology === 'code128' && /[^\x20-\x7E]/.test(code)) return 'berisi karakter yang tidak didukung Code128';
+    return null;
+};
+
+// Both symbols are rendered as SVG so they stay sharp at any label size
+export const renderSymbol = async (code: string, symbology: LabelSymbology): Promise<string> => {
+    if (symbology === 'qr') {
+        return QRCode.toString(code, { type: 'svg', margin: 0, errorCorrectionLevel: 'M' });
+    }
+    const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    JsBarcode(svg, code, { format: 'CODE128', displayValue: false, margin: 0, height: 60 });
+    // Bars stretch to the label width; the ratio between bar widths is kept
+    svg.setAttribute('preserveAspectRatio', 'none');
+    return svg.outerHTML;
+};
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const sheetStyles = ({ symbology, size, layout }: LabelPrintOptions) => {
+    const fontMm = Math.max(2.2, size.heightMm / 9);
+    return `
+        @page { size: ${layout === 'roll' ? `${size.widthMm}mm ${size.heightMm}mm` : 'A4'}; margin: ${layout === 'roll' ? '0' : '8mm'}; }
+        * { box-sizing: border-box; }
+        body { margin: 0; font-family: Arial, Helvetica, sans-serif; color: #000; }
+        .sheet { display: flex; flex-wrap: wrap; gap: ${layout === 'roll' ? '0' : '2mm'}; }
+        .label {
+            width: ${size.widthMm}mm; height: ${size.heightMm}mm; padding: 1.5mm;
+            display: flex; gap: 1.5mm; overflow: hidden; break-inside: avoid;
+            flex-direction: ${symbology === 'qr' ? 'row' : 'column'};
+            ${layout === 'roll' ? 'break-after: page;' : 'outline: 0.2mm dashed #bbb;'}
+        }
+        .symbol { flex: ${symbology === 'qr' ? '0 0 auto' : '1 1 auto'}; min-height: 0; ${symbology === 'qr' ? 'height: 100%; aspect-ratio: 1;' : ''} }
+        .symbol svg { display: block; width: 100%; height: 100%; }
+        .text { min-width: 0; display: flex; flex-direction: column; justify-content: center; ${symbology === 'code128' ? 'text-align: center;' : ''} }
+        .title { font-weight: bold; font-size: ${fontMm * 1.3}mm; line-height: 1.1; word-break: break-all; }
+        .subtitle { font-size: ${fontMm}mm; line-height: 1.15; margin-top: 0.5mm; max-height: ${fontMm * 3.5}mm; overflow: hidden; }
+    `;
+};
+
+export const buildLabelSheet = async (labels: Label[], options: LabelPrintOptions): Promise<string> => {
+    const items = await Promise.all(labels.map(async label => `
+        <div class="label">
+            <div class="symbol">${await renderSymbol(label.code, options.symbology)}</div>
+            <div class="text">
+                <div class="title">${escapeHtml(label.title)}</div>
+                ${label.subtitle ? `<div class="subtitle">${escapeHtml(label.subtitle)}</div>` : ''}
+            </div>
+        </div>`));
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Label (${labels.length})</title>
+<style>${sheetStyles(options)}</style>
+</head>
+<body><div class="sheet">${items.join('')}</div></body>
+</html>`;
+};
+
+// Opens the sheet in a new window and starts printing; "Save as PDF" in the
+// print dialog gives a PDF of the same layout.
+export const printLabels = async (labels: Label[], options: LabelPrintOptions) => {
+    if (labels.length === 0) throw new Error("Pilih minimal satu label.");
+    // Checked before rendering, since one bad code would fail the whole sheet
+    const invalid = labels.filter(label => labelCodeProblem(label.code, options.symbology));
+    if (invalid.length > 0) {
+        const names = invalid.slice(0, 5).map(label => `${label.title} (${labelCodeProblem(label.code, options.symbology)})`);
+        const more = invalid.length > 5 ? ` dan ${invalid.length - 5} lainnya` : '';
+        throw new Error(`${invalid.length} label tidak bisa dicetak: ${names.join(', ')}${more}. Hapus dari pilihan atau pakai QR.`);
+    }
+    // Opened before rendering so the browser still treats it as a user action
+    const win = window.open('', '_blank');
+    if (!win) throw new Error("Pop-up diblokir browser. Izinkan pop-up untuk mencetak label.");
+    try {
+        const html = await buildLabelSheet(labels, options);
+        win.document.open();
+        win.document.write(html);
+        win.document.close();
+        win.focus();
+        win.onafterprint = () => win.close();
+        setTimeout(() => win.print(), 300);
+    } catch (e) {
+        win.close();
+        throw e;
+    }
+};
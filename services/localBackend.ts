@@ -0,0 +1,119 @@
+import { STORES, idbGet, idbPut } from './indexedDb';
+import type { StorageBackend, QueryOptions, BackendEntry } from './storageBackend';
+
+// Backend that keeps every table in memory and, when IndexedDB is available,
+// writes each table through so data survives a reload. Needs no network at all.
+
+type Table = Map<string, any>;
+type Listener = (rows: any[]) => void;
+
+const sortRows = <T>(rows: T[], options?: QueryOptions): T[] => {
+  if (!options?.orderBy) return rows;
+  const key = options.orderBy;
+  const dir = options.direction === 'desc' ? -1 : 1;
+  return [...rows].sort((a: any, b: any) => {
+    if (a[key] === b[key]) return 0;
+    return a[key] > b[key] ? dir : -dir;
+  });
+};
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export const createLocalBackend = (options?: { persist?: boolean }): StorageBackend => {
+  const persist = options?.persist ?? typeof indexedDB !== 'undefined';
+  const tables = new Map<string, Promise<Table>>();
+  const listeners = new Map<string, Set<{ onUpdate: Listener; options?: QueryOptions }>>();
+
+  const load = (name: string): Promise<Table> => {
+    let table = tables.get(name);
+    if (!table) {
+      table = (persist ? idbGet<Record<string, any>>(STORES.LOCAL_TABLES, name) : Promise.resolve(undefined))
+        .catch(() => undefined)
+        .then(saved => new Map(Object.entries(saved || {})));
+      tables.set(name, table);
+    }
+    return table;
+  };
+
+  const commit = async (name: string, table: Table) => {
+    if (persist) {
+      try {
+        await idbPut(STORES.LOCAL_TABLES, name, Object.fromEntries(table));
+      } catch (e) {
+        console.warn(`Local backend could not persist ${name}:`, e);
+      }
+    }
+    listeners.get(name)?.forEach(l => l.onUpdate(sortRows(Array.from(table.values()).map(clone), l.options)));
+  };
+
+  return {
+    name: 'local',
+
+    subscribe<T>(table: string, onUpdate: (rows: T[]) => void, onError: (error: any) => void, options?: QueryOptions) {
+      const listener = { onUpdate: onUpdate as Listener, options };
+      if (!listeners.has(table)) listeners.set(table, new Set());
+      listeners.get(table)!.add(listener);
+      load(table)
+        .then(t => {
+          if (listeners.get(table)?.has(listener)) onUpdate(sortRows(Array.from(t.values()).map(clone), options));
+        })
+        .catch(onError);
+      return () => {
+        listeners.get(table)?.delete(listener);
+      };
+    },
+
+    async list<T>(table: string, options?: QueryOptions) {
+      const t = await load(table);
+      return sortRows(Array.from(t.values()).map(clone) as T[], options);
+    },
+
+    async listEntries<T>(table: string) {
+      const t = await load(table);
+      return Array.from(t.entries()).map(([id, data]) => ({ id, data: clone(data) as T }));
+    },
+
+    async listWhere<T>(table: string, field: string, value: string | number) {
+      const t = await load(table);
+      return Array.from(t.entries())
+        .filter(([, data]) => data?.[field] === value)
+        .map(([id, data]) => ({ id, data: clone(data) as T }));
+    },
+
+    async get<T>(table: string, id: string) {
+      const t = await load(table);
+      return t.has(id) ? (clone(t.get(id)) as T) : null;
+    },
+
+    async set<T>(table: string, id: string, data: T) {
+      const t = await load(table);
+      t.set(id, clone(data));
+      await commit(table, t);
+    },
+
+    async setMany<T>(table: string, entries: BackendEntry<T>[]) {
+      const t = await load(table);
+      entries.forEach(e => t.set(e.id, clone(e.data)));
+      await commit(table, t);
+    },
+
+    async update<T>(table: string, id: string, updates: Partial<T>) {
+      const t = await load(table);
+      if (!t.has(id)) throw new Error(`No document to update: ${table}/${id}`);
+      t.set(id, { ...t.get(id), ...clone(updates) });
+      await commit(table, t);
+    },
+
+    async remove(table: string, id: string) {
+      const t = await load(table);
+      t.delete(id);
+      await commit(table, t);
+    },
+
+    async removeMany(table: string, ids: string[]) {
+      const t = await load(table);
+      ids.forEach(id => t.delete(id));
+      await commit(table, t);
+    }
+  };
+};
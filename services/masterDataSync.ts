@@ -0,0 +1,321 @@
+import * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import { MasterItem, MasterField, MasterDataSource, MasterDataDiff, MasterItemChange, MasterSyncRun, MasterSyncTrigger } from '../types';
+import { getBackend, TABLES } from './storageBackend';
+import { requirePermission, getSessionUser } from './authService';
+import { can } from './permissions';
+import { fetchMasterData, saveActivityLog, masterItemKey, migrateMasterDataKeys, actorFields } from './storageService';
+
+// Master data can be pulled from a saved Google Sheet instead of a one-off
+// upload. The sheet is read as a public CSV export, compared with the stored
+// master data, and the difference is applied (or kept for an admin to review),
+// so system stock stays current through a count that runs for several days.
+
+const SOURCE_ID = 'default';
+const SCHEDULE_TICK_MS = 60 * 1000;
+
+export const MASTER_DATA_SYNCED_EVENT = 'masterDataSynced';
+
+export const MASTER_FIELD_LABELS: Record<MasterField, string> = {
+    sku: 'Kode Barang',
+    name: 'Nama Barang',
+    unit: 'Satuan',
+    category: 'Gudang / Kategori',
+    batchNumber: 'No Seri / Batch',
+    expiryDate: 'Tgl Kadaluarsa',
+    systemStock: 'Kuantitas',
+    location: 'Lokasi Rak / Bin'
+};
+
+// --- PARSING ---
+
+export const normalizeHeader = (header: string): MasterField | null => {
+    const h = header.toLowerCase().replace(/[^a-z0-9]/g, '');
+    if (['kodebarang', 'kode', 'sku', 'itemcode', 'partnumber'].includes(h)) return 'sku';
+    if (['namabarang', 'nama', 'name', 'description'].includes(h)) return 'name';
+    if (['namasatuanbarangjasa', 'namasatuan', 'satuan', 'unit', 'uom'].includes(h)) return 'unit';
+    if (['namagudang', 'warehouse', 'gudang', 'lokasi', 'namagudangwarehouse', 'kategori'].includes(h)) return 'category';
+    if (['noseriproduksi', 'noseri', 'noproduksi', 'serial', 'batch', 'batchnumber', 'lot'].includes(h)) return 'batchNumber';
+    if (['tglkadaluarsa', 'tgl', 'kadaluarsa', 'expired', 'expirydate', 'ed'].includes(h)) return 'expiryDate';
+    if (['kuantitas', 'qty', 'quantity', 'stok', 'stock', 'systemstock', 'jumlah'].includes(h)) return 'systemStock';
+    if (['rak', 'lokasirak', 'bin', 'binlocation', 'kodelokasi', 'location'].includes(h)) return 'location';
+    return null;
+};
+
+export const guessHeaderMapping = (headers: string[]): Record<string, MasterField> => {
+    const mapping: Record<string, MasterField> = {};
+    headers.forEach(h => {
+        const field = normalizeHeader(h);
+        if (field) mapping[h] = field;
+    });
+    return mapping;
+};
+
+const formatDate = (raw: any): string => {
+    if (!raw) return '';
+    if (typeof raw === 'number' && raw > 20000) {
+        const date = new Date(Math.round((raw - 25569) * 86400 * 1000));
+        return date.toISOString().split('T')[0];
+    }
+    const str = String(raw).trim();
+    if (str.match(/^\d{4}-\d{2}-\d{2}$/)) return str;
+    if (str.match(/^\d{1,2}[/-]\d{1,2}[/-]\d{4}$/)) {
+        const parts = str.split(/[/-]/);
+        return `${parts[2]}-${parts[1].padStart(2, '0')}-${parts[0].padStart(2, '0')}`;
+    }
+    return str;
+};
+
+export const parseMasterRows = (rows: any[], mapping: Record<string, MasterField>): MasterItem[] => {
+    if (!Object.values(mapping).includes('sku')) {
+        throw new Error("Gagal menemukan kolom 'Kode Barang' atau 'SKU'.");
+    }
+
+    return rows.map((row) => {
+        const item: MasterItem = {
+            sku: '', name: '', systemStock: 0, batchNumber: '-', expiryDate: '-', category: 'General', unit: 'Pcs'
+        };
+
+        Object.keys(row).forEach(key => {
+            const field = mapping[key];
+            let value = row[key];
+            if (!field || !value) return;
+
+            if (field === 'systemStock') {
+                if (typeof value === 'string') value = parseFloat(value.replace(/,/g, '').replace(/\./g, '').trim()) || 0;
+                else value = Number(value) || 0;
+                item.systemStock = value;
+            } else if (field === 'expiryDate') {
+                item.expiryDate = formatDate(value);
+            } else if (field === 'location') {
+                // Counts store locations upper-cased
+                item.location = String(value).trim().toUpperCase();
+            } else {
+                item[field] = String(value).trim();
+            }
+        });
+
+        return item;
+    }).filter(item => item.sku && item.sku.trim() !== '');
+};
+
+// --- GOOGLE SHEETS CSV EXPORT ---
+
+export const parseSheetUrl = (url: string): { spreadsheetId: string; gid: string } => {
+    const idMatches = url.match(/\/d\/([a-zA-Z0-9-_]+)/);
+    if (!idMatches || !idMatches[1]) {
+        throw new Error("URL Google Sheets tidak valid. Pastikan link mengandung ID spreadsheet.");
+    }
+    // Default to the first tab (gid=0) when the link does not name one
+    const gidMatches = url.match(/[#&?]gid=([0-9]+)/);
+    return { spreadsheetId: idMatches[1], gid: gidMatches ? gidMatches[1] : '0' };
+};
+
+// The /export endpoint is more reliable for public sheets than /gviz
+export const fetchSheetRows = async (spreadsheetId: string, gid: string): Promise<any[]> => {
+    const response = await fetch(`https://docs.google.com/spreadsheets/d/${spreadsheetId}/export?format=csv&gid=${gid}`);
+    if (!response.ok) {
+        if (response.status === 404) throw new Error("Spreadsheet tidak ditemukan.");
+        if (response.status === 401 || response.status === 403) throw new Error("Izin ditolak. Pastikan akses 'Anyone with the link' sudah aktif.");
+        throw new Error(`Gagal mengambil data (Status: ${response.status})`);
+    }
+
+    const csvText = await response.text();
+    // Private sheets redirect to a login page instead of failing
+    if (csvText.trim().toLowerCase().startsWith("<!doctype html") || csvText.includes("<html")) {
+        throw new Error("Link mengarah ke halaman login. Pastikan file bersifat PUBLIK (Anyone with the link).");
+    }
+
+    const workbook = XLSX.read(csvText, { type: 'string' });
+    const rows = XLSX.utils.sheet_to_json<any>(workbook.Sheets[workbook.SheetNames[0]]);
+    if (rows.length === 0) throw new Error("Sheet kosong atau format tidak terbaca.");
+    return rows;
+};
+
+// --- DIFF ---
+
+// SKU, batch, expiry and location form the key, so only these can change
+const COMPARED_FIELDS: (keyof MasterItem)[] = ['name', 'unit', 'category', 'systemStock'];
+
+export const diffMasterData = (current: MasterItem[], incoming: MasterItem[], includeRemoved: boolean): MasterDataDiff => {
+    const existing = new Map(current.map(item => [masterItemKey(item), item]));
+    // A batch listed twice in the sheet keeps its last row, as the import always did
+    const next = new Map(incoming.map(item => [masterItemKey(item), item]));
+
+    const added: MasterItem[] = [];
+    const changed: MasterItemChange[] = [];
+    next.forEach((after, key) => {
+        const before = existing.get(key);
+        if (!before) {
+            added.push(after);
+            return;
+        }
+        const fields = COMPARED_FIELDS.filter(field => before[field] !== after[field]);
+        if (fields.length > 0) changed.push({ before, after, fields });
+    });
+    const removed = includeRemoved ? current.filter(item => !next.has(masterItemKey(item))) : [];
+    return { added, changed, removed };
+};
+
+export const stockChangesOf = (diff: MasterDataDiff) =>
+    diff.changed.filter(c => c.fields.includes('systemStock')).length;
+
+export const isEmptyDiff = (diff: MasterDataDiff) =>
+    diff.added.length === 0 && diff.changed.length === 0 && diff.removed.length === 0;
+
+// --- SOURCE AND HISTORY ---
+
+export const getMasterDataSource = async (): Promise<MasterDataSource | null> =>
+    getBackend().get<MasterDataSource>(TABLES.MASTER_DATA_SOURCES, SOURCE_ID);
+
+export const saveMasterDataSource = async (input: {
+    sheetUrl: string;
+    headerMapping: Record<string, MasterField>;
+    intervalMinutes: number;
+    autoApply: boolean;
+    removeMissing: boolean;
+}): Promise<MasterDataSource> => {
+    requirePermission('importMaster');
+    const { spreadsheetId, gid } = parseSheetUrl(input.sheetUrl.trim());
+    if (!Object.values(input.headerMapping).includes('sku')) {
+        throw new Error("Pilih kolom yang berisi Kode Barang.");
+    }
+    if (!Number.isFinite(input.intervalMinutes) || input.intervalMinutes < 0) {
+        throw new Error("Interval sinkronisasi tidak valid.");
+    }
+    const previous = await getMasterDataSource();
+    const source: MasterDataSource = {
+        id: SOURCE_ID,
+        sheetUrl: input.sheetUrl.trim(),
+        spreadsheetId,
+        gid,
+        headerMapping: input.headerMapping,
+        intervalMinutes: input.intervalMinutes,
+        autoApply: input.autoApply,
+        removeMissing: input.removeMissing,
+        updatedBy: actorFields().user,
+        updatedAt: Date.now(),
+        ...(previous?.lastSyncAt ? { lastSyncAt: previous.lastSyncAt } : {})
+    };
+    await getBackend().set(TABLES.MASTER_DATA_SOURCES, SOURCE_ID, source);
+
+    await saveActivityLog({
+        type: 'update',
+        title: 'Master Data Source Updated',
+        description: `Sumber master data diatur ke Google Sheets (${input.intervalMinutes > 0 ? `tiap ${input.intervalMinutes} menit` : 'saat aplikasi dibuka'}).`,
+        ...actorFields()
+    });
+    return source;
+};
+
+export const listMasterSyncHistory = async (): Promise<MasterSyncRun[]> => {
+    const runs = await getBackend().list<MasterSyncRun>(TABLES.MASTER_SYNC_HISTORY);
+    return runs.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+const recordRun = async (run: Omit<MasterSyncRun, 'id' | 'user'>) => {
+    const entry: MasterSyncRun = { ...run, id: uuidv4(), user: actorFields().user };
+    await getBackend().set(TABLES.MASTER_SYNC_HISTORY, entry.id, entry);
+    await getBackend().update<MasterDataSource>(TABLES.MASTER_DATA_SOURCES, SOURCE_ID, { lastSyncAt: run.startedAt });
+    window.dispatchEvent(new Event(MASTER_DATA_SYNCED_EVENT));
+};
+
+// --- SYNC ---
+
+// Reads the saved sheet and compares it with the stored master data
+export const previewMasterDataSync = async (): Promise<{ source: MasterDataSource; diff: MasterDataDiff }> => {
+    requirePermission('importMaster');
+    const source = await getMasterDataSource();
+    if (!source) throw new Error("Sumber Google Sheets belum diatur.");
+    const rows = await fetchSheetRows(source.spreadsheetId, source.gid);
+    const incoming = parseMasterRows(rows, source.headerMapping);
+    const current = await fetchMasterData();
+    return { source, diff: diffMasterData(current, incoming, source.removeMissing) };
+};
+
+export const applyMasterDataDiff = async (diff: MasterDataDiff, trigger: MasterSyncTrigger, startedAt: number = Date.now()) => {
+    requirePermission('importMaster');
+    await migrateMasterDataKeys();
+    const upserts = [...diff.added, ...diff.changed.map(c => c.after)];
+    const batchSize = 400;
+    for (let i = 0; i < upserts.length; i += batchSize) {
+        const chunk = upserts.slice(i, i + batchSize);
+        await getBackend().setMany(TABLES.MASTER_DATA, chunk.map(item => ({ id: masterItemKey(item), data: item })));
+    }
+    if (diff.removed.length > 0) {
+        await getBackend().removeMany(TABLES.MASTER_DATA, diff.removed.map(masterItemKey));
+    }
+    await fetchMasterData();
+
+    const stockChanges = stockChangesOf(diff);
+    await recordRun({
+        startedAt,
+        trigger,
+        status: 'applied',
+        added: diff.added.length,
+        changed: diff.changed.length,
+        removed: diff.removed.length,
+        stockChanges
+    });
+    await saveActivityLog({
+        type: 'update',
+        title: 'Master Data Synced',
+        description: `Sinkronisasi dari Google Sheets: ${diff.added.length} baru, ${diff.changed.length} berubah (${stockChanges} stok), ${diff.removed.length} dihapus.`,
+        ...actorFields()
+    });
+};
+
+// One pass of the schedule. Scheduled and startup runs apply changes only
+// when the source allows it; otherwise they leave a 'pending' entry so an
+// admin can review the preview from Master Data.
+export const runMasterDataSync = async (trigger: MasterSyncTrigger) => {
+    const startedAt = Date.now();
+    try {
+        const { source, diff } = await previewMasterDataSync();
+        if (isEmptyDiff(diff)) {
+            await recordRun({ startedAt, trigger, status: 'unchanged', added: 0, changed: 0, removed: 0, stockChanges: 0 });
+        } else if (trigger === 'manual' || source.autoApply) {
+            await applyMasterDataDiff(diff, trigger, startedAt);
+        } else {
+            await recordRun({
+                startedAt,
+                trigger,
+                status: 'pending',
+                added: diff.added.length,
+                changed: diff.changed.length,
+                removed: diff.removed.length,
+                stockChanges: stockChangesOf(diff)
+            });
+        }
+    } catch (e: any) {
+        await recordRun({ startedAt, trigger, status: 'failed', added: 0, changed: 0, removed: 0, stockChanges: 0, error: e?.message || String(e) })
+            .catch(err => console.error("Failed to record master data sync:", err));
+        throw e;
+    }
+};
+
+// Runs once on app start and then whenever the source's interval has passed
+// since the last run on any device. Only devices allowed to import master data
+// take part.
+export const startMasterDataSync = () => {
+    let running = false;
+    const run = async (trigger: MasterSyncTrigger) => {
+        if (running || !navigator.onLine || !can(getSessionUser(), 'importMaster')) return;
+        running = true;
+        try {
+            const source = await getMasterDataSource();
+            if (!source) return;
+            const due = trigger === 'startup'
+                || (source.intervalMinutes > 0 && Date.now() - (source.lastSyncAt || 0) >= source.intervalMinutes * 60 * 1000);
+            if (due) await runMasterDataSync(trigger);
+        } catch (e) {
+            console.error("Master data sync failed:", e);
+        } finally {
+            running = false;
+        }
+    };
+
+    run('startup');
+    const timer = setInterval(() => run('scheduled'), SCHEDULE_TICK_MS);
+    return () => clearInterval(timer);
+};
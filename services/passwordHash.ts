@@ -0,0 +1,65 @@
+// Salted PBKDF2-SHA256 password hashing via WebCrypto. Hashes and salts are
+// stored base64-encoded next to the user record; plaintext is never persisted.
+
+export const PBKDF2_ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export interface PasswordCredential {
+  passwordHash: string;
+  passwordSalt: string;
+  passwordIterations: number;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const randomToken = (bytes = 32): string => {
+  const buf = new Uint8Array(bytes);
+  crypto.getRandomValues(buf);
+  return Array.from(buf, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const derive = async (password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return toBase64(new Uint8Array(bits));
+};
+
+// Compare without short-circuiting so timing does not leak the matching prefix.
+export const hashesEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+export const hashPassword = async (password: string): Promise<PasswordCredential> => {
+  const salt = new Uint8Array(SALT_BYTES);
+  crypto.getRandomValues(salt);
+  return {
+    passwordHash: await derive(password, salt, PBKDF2_ITERATIONS),
+    passwordSalt: toBase64(salt),
+    passwordIterations: PBKDF2_ITERATIONS
+  };
+};
+
+// Re-derives the hash for a stored salt; used both to verify locally and as
+// the proof a client presents when opening a session.
+export const derivePasswordHash = (password: string, salt: string, iterations: number): Promise<string> =>
+  derive(password, fromBase64(salt), iterations);
+
+export const verifyPassword = async (password: string, credential: PasswordCredential): Promise<boolean> => {
+  const hash = await derivePasswordHash(password, credential.passwordSalt, credential.passwordIterations);
+  return hashesEqual(hash, credential.passwordHash);
+};
@@ -0,0 +1,56 @@
+import { AppUser, UserRole } from '../types';
+
+// Single source of truth for what each role may do. UI components use it to
+// hide menus; services call requirePermission (authService) before writing.
+// firestore.rules mirrors this table for the Firestore backend.
+
+export type Permission =
+  | 'createAudit'      // submit physical counts and location reports
+  | 'editAudit'        // correct quantities/locations on submitted counts
+  | 'deleteAudit'
+  | 'approveVariance'
+  | 'viewVariance'     // see system stock and variance in blind-count sessions
+  | 'exportReports'
+  | 'manageSessions'   // plan, start and close count sessions
+  | 'importMaster'     // upload, sync or clear master data and locations
+  | 'resetData'        // move audit data to backup and start over
+  | 'restoreBackup'
+  | 'manageUsers'
+  | 'manageIntegrations'; // choose the Google Sheets target and column mapping
+
+export const ROLES: UserRole[] = ['admin', 'supervisor', 'auditor', 'user', 'viewer'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin (Full Access)',
+  supervisor: 'Supervisor (Edit & Approve)',
+  auditor: 'Auditor (Count & Export)',
+  user: 'User (Operator)',
+  viewer: 'Viewer (Read Only)'
+};
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ['createAudit', 'editAudit', 'deleteAudit', 'approveVariance', 'viewVariance', 'exportReports', 'manageSessions', 'importMaster', 'resetData', 'restoreBackup', 'manageUsers', 'manageIntegrations'],
+  supervisor: ['createAudit', 'editAudit', 'approveVariance', 'viewVariance', 'exportReports', 'manageSessions'],
+  auditor: ['createAudit', 'exportReports'],
+  user: ['createAudit'],
+  viewer: ['viewVariance', 'exportReports']
+};
+
+export const isValidRole = (role: unknown): role is UserRole =>
+  typeof role === 'string' && (ROLES as string[]).includes(role);
+
+export const can = (user: AppUser | null | undefined, permission: Permission): boolean =>
+  !!user && isValidRole(user.role) && ROLE_PERMISSIONS[user.role].includes(permission);
+
+export const canCreateAudit = (user: AppUser | null | undefined) => can(user, 'createAudit');
+export const canEditAudit = (user: AppUser | null | undefined) => can(user, 'editAudit');
+export const canDeleteAudit = (user: AppUser | null | undefined) => can(user, 'deleteAudit');
+export const canApproveVariance = (user: AppUser | null | undefined) => can(user, 'approveVariance');
+export const canViewVariance = (user: AppUser | null | undefined) => can(user, 'viewVariance');
+export const canExportReports = (user: AppUser | null | undefined) => can(user, 'exportReports');
+export const canManageSessions = (user: AppUser | null | undefined) => can(user, 'manageSessions');
+export const canImportMaster = (user: AppUser | null | undefined) => can(user, 'importMaster');
+export const canResetData = (user: AppUser | null | undefined) => can(user, 'resetData');
+export const canRestoreBackup = (user: AppUser | null | undefined) => can(user, 'restoreBackup');
+export const canManageUsers = (user: AppUser | null | undefined) => can(user, 'manageUsers');
+export const canManageIntegrations = (user: AppUser | null | undefined) => can(user, 'manageIntegrations');
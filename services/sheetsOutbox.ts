@@ -0,0 +1,152 @@
+import { AuditRecord } from '../types';
+import { STORES, idbGetAll, idbPut, idbDelete } from './indexedDb';
+import { OutboxCounts, OutboxStatus, getBackoffDelay } from './auditOutbox';
+
+// Persistent queue of changes that still have to reach Google Sheets. There
+// is one entry per audit record: a later change replaces the queued one, so a
+// record edited three times while offline is written to the sheet once.
+
+export type SheetsOperation = 'upsert' | 'delete';
+
+export interface SheetsOutboxEntry {
+  id: string; // AuditRecord.id
+  operation: SheetsOperation;
+  record: AuditRecord;
+  attempts: number;
+  nextAttemptAt: number;
+  status: OutboxStatus;
+  lastError?: string;
+  createdAt: number;
+}
+
+// Receives every due entry at once and returns the ids that reached the
+// sheet; the rest are rescheduled with the error it reports for them.
+export type SheetsBatchProcessor = (entries: SheetsOutboxEntry[]) => Promise<{ done: string[]; errors: Record<string, string> }>;
+
+export const SHEETS_OUTBOX_CHANGED_EVENT = 'sheetsOutboxChanged';
+
+const MAX_ATTEMPTS = 8;
+
+const entries = new Map<string, SheetsOutboxEntry>();
+let loaded: Promise<void> | null = null;
+let flushing = false;
+
+const ensureLoaded = (): Promise<void> => {
+  if (!loaded) {
+    loaded = idbGetAll<SheetsOutboxEntry>(STORES.SHEETS_OUTBOX)
+      .then(list => {
+        list.forEach(e => entries.set(e.id, e));
+        notify();
+      })
+      .catch(e => {
+        console.warn("Sheets outbox unavailable, using memory only:", e);
+      });
+  }
+  return loaded;
+};
+
+const notify = () => {
+  window.dispatchEvent(new Event(SHEETS_OUTBOX_CHANGED_EVENT));
+};
+
+const persist = async (entry: SheetsOutboxEntry) => {
+  entries.set(entry.id, entry);
+  try {
+    await idbPut(STORES.SHEETS_OUTBOX, entry.id, entry);
+  } catch (e) {
+    console.warn("Failed to persist Sheets outbox entry:", e);
+  }
+};
+
+const remove = async (id: string) => {
+  entries.delete(id);
+  try {
+    await idbDelete(STORES.SHEETS_OUTBOX, id);
+  } catch (e) {
+    console.warn("Failed to remove Sheets outbox entry:", e);
+  }
+};
+
+export const enqueueSheetsChange = async (record: AuditRecord, operation: SheetsOperation) => {
+  await ensureLoaded();
+  const queued = entries.get(record.id);
+  await persist({
+    id: record.id,
+    operation,
+    record,
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    status: 'pending',
+    createdAt: queued?.createdAt ?? Date.now()
+  });
+  notify();
+};
+
+export const getSheetsOutboxCounts = (): OutboxCounts => {
+  let pending = 0, failed = 0;
+  entries.forEach(e => {
+    if (e.status === 'failed') failed++;
+    else pending++;
+  });
+  return { pending, failed };
+};
+
+export const subscribeToSheetsOutbox = (onUpdate: (counts: OutboxCounts) => void) => {
+  const handler = () => onUpdate(getSheetsOutboxCounts());
+  window.addEventListener(SHEETS_OUTBOX_CHANGED_EVENT, handler);
+  ensureLoaded().then(handler);
+  return () => window.removeEventListener(SHEETS_OUTBOX_CHANGED_EVENT, handler);
+};
+
+// Hands every due entry to the processor in one call. An entry that was
+// replaced while the batch was in flight stays queued with its newer change.
+export const flushSheetsOutbox = async (processor: SheetsBatchProcessor) => {
+  await ensureLoaded();
+  if (flushing) return;
+  flushing = true;
+  try {
+    const now = Date.now();
+    const due = Array.from(entries.values())
+      .filter(e => e.status === 'pending' && e.nextAttemptAt <= now)
+      .sort((a, b) => a.createdAt - b.createdAt);
+    if (due.length === 0) return;
+
+    let result: Awaited<ReturnType<SheetsBatchProcessor>>;
+    try {
+      result = await processor(due);
+    } catch (e: any) {
+      const message = e?.message || String(e);
+      result = { done: [], errors: Object.fromEntries(due.map(entry => [entry.id, message])) };
+    }
+
+    const done = new Set(result.done);
+    for (const entry of due) {
+      if (entries.get(entry.id) !== entry) continue;
+      if (done.has(entry.id)) {
+        await remove(entry.id);
+        continue;
+      }
+      const attempts = entry.attempts + 1;
+      await persist({
+        ...entry,
+        attempts,
+        lastError: result.errors[entry.id] || 'Google Sheets sync failed',
+        status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+        nextAttemptAt: Date.now() + getBackoffDelay(attempts)
+      });
+    }
+    notify();
+  } finally {
+    flushing = false;
+  }
+};
+
+export const retryFailedSheetsChanges = async (processor: SheetsBatchProcessor) => {
+  await ensureLoaded();
+  const failed = Array.from(entries.values()).filter(e => e.status === 'failed');
+  for (const entry of failed) {
+    await persist({ ...entry, status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+  }
+  notify();
+  await flushSheetsOutbox(processor);
+};
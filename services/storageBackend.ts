@@ -0,0 +1,90 @@
+import { createFirestoreBackend } from './firestoreBackend';
+import { createLocalBackend } from './localBackend';
+import { createSupabaseBackend } from './supabaseBackend';
+
+// Every persistence call in storageService/authService goes through a
+// StorageBackend so the app can run against Firestore, Supabase or fully offline.
+
+export const TABLES = {
+  MASTER_DATA: 'master_data',
+  MASTER_DATA_SOURCES: 'master_data_sources',
+  MASTER_SYNC_HISTORY: 'master_sync_history',
+  AUDIT_LOGS: 'audit_logs',
+  COUNT_SESSIONS: 'count_sessions',
+  ADJUSTMENTS: 'adjustments',
+  MASTER_LOCATIONS: 'master_locations',
+  SKU_ALIASES: 'sku_aliases',
+  SKU_UNITS: 'sku_units',
+  LOCATION_STATES: 'location_states',
+  ACTIVITY_LOGS: 'activity_logs',
+  USERS: 'users',
+  USER_CREDENTIALS: 'user_credentials',
+  SESSIONS: 'sessions',
+  LOGIN_PROOFS: 'login_proofs',
+  SYSTEM: 'system',
+  BACKUPS: 'backups',
+  BACKUP_RECORDS: 'backup_records',
+  // Single-slot backup tables from before versioned backups; only read to migrate them
+  BACKUP_AUDIT_LOGS: 'backup_audit_logs_latest',
+  BACKUP_LOCATION_STATES: 'backup_location_states_latest'
+};
+
+export type BackendName = 'firestore' | 'supabase' | 'local';
+
+export interface QueryOptions {
+  orderBy?: string;
+  direction?: 'asc' | 'desc';
+}
+
+export interface BackendEntry<T> {
+  id: string;
+  data: T;
+}
+
+export type Unsubscribe = () => void;
+
+export interface StorageBackend {
+  readonly name: BackendName;
+  subscribe<T>(table: string, onUpdate: (rows: T[]) => void, onError: (error: any) => void, options?: QueryOptions): Unsubscribe;
+  list<T>(table: string, options?: QueryOptions): Promise<T[]>;
+  listEntries<T>(table: string): Promise<BackendEntry<T>[]>;
+  // Entries whose field equals value, without reading the whole table
+  listWhere<T>(table: string, field: string, value: string | number): Promise<BackendEntry<T>[]>;
+  get<T>(table: string, id: string): Promise<T | null>;
+  set<T>(table: string, id: string, data: T): Promise<void>;
+  setMany<T>(table: string, entries: BackendEntry<T>[]): Promise<void>;
+  update<T>(table: string, id: string, updates: Partial<T>): Promise<void>;
+  remove(table: string, id: string): Promise<void>;
+  removeMany(table: string, ids: string[]): Promise<void>;
+  // Identity the backend's access rules know this client by. Sessions are
+  // stored under it so rules can resolve the caller; backends without rules omit it.
+  clientId?(): Promise<string | null>;
+}
+
+const resolveBackendName = (): BackendName => {
+  const configured = (import.meta.env.VITE_STORAGE_BACKEND || '').toLowerCase();
+  if (configured === 'local' || configured === 'supabase') return configured;
+  return 'firestore';
+};
+
+const createBackend = (name: BackendName): StorageBackend => {
+  switch (name) {
+    case 'local': return createLocalBackend();
+    case 'supabase': return createSupabaseBackend();
+    default: return createFirestoreBackend();
+  }
+};
+
+let activeBackend: StorageBackend | null = null;
+
+export const getBackend = (): StorageBackend => {
+  if (!activeBackend) {
+    activeBackend = createBackend(resolveBackendName());
+  }
+  return activeBackend;
+};
+
+// Swap the backend at runtime, e.g. an in-memory store for tests or demos.
+export const setBackend = (backend: StorageBackend) => {
+  activeBackend = backend;
+};
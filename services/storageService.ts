@@ -1,40 +1,22 @@
-import { db, handleFirestoreError, OperationType } from './firebaseClient';
-import { 
-  collection, 
-  doc, 
-  query, 
-  orderBy, 
-  getDoc,
-  getDocs, 
-  setDoc, 
-  deleteDoc, 
-  updateDoc,
-  onSnapshot, 
-  writeBatch
-} from 'firebase/firestore';
-import { AuditRecord, MasterItem, MasterLocation, LocationState, LocationStatusType, ActivityLog } from '../types';
+import { AuditRecord, RecountEntry, AdjustmentEntry, VarianceReasonCode, FieldChange, SheetsColumnField, SheetsTarget, MasterItem, MasterLocation, SkuAlias, SkuUnits, UnitConversion, UnitQuantity, LocationState, LocationStatusType, ActivityLog, CountSession, CountSessionScope, CountSessionStatus, BackupSnapshot, BackupReason, BackupRestoreMode } from '../types';
 import { v4 as uuidv4 } from 'uuid';
-import { appendAuditLogToSheets } from './googleSheets';
-
-const TABLES = {
-  MASTER_DATA: 'master_data',
-  AUDIT_LOGS: 'audit_logs',
-  MASTER_LOCATIONS: 'master_locations',
-  LOCATION_STATES: 'location_states',
-  ACTIVITY_LOGS: 'activity_logs'
-};
-
-const BACKUP_TABLES = {
-  AUDIT_LOGS: 'backup_audit_logs_latest',
-  LOCATION_STATES: 'backup_location_states_latest'
-};
+import { syncRecordsToSheet, isSheetsMirrorEnabled, createSpreadsheet, prepareSheetsTarget, parseSpreadsheetId, DEFAULT_SHEETS_COLUMNS } from './googleSheets';
+import { OutboxProcessor, enqueueAuditRecord, flushAuditOutbox, retryFailedAudits, getQueuedAuditRecords } from './auditOutbox';
+import { SheetsBatchProcessor, SheetsOperation, enqueueSheetsChange, flushSheetsOutbox, retryFailedSheetsChanges } from './sheetsOutbox';
+import { getBackend, TABLES, BackendEntry } from './storageBackend';
+import { requirePermission, getSessionUser } from './authService';
+import { can } from './permissions';
 
 const LOCAL_KEYS = {
   MASTER_DATA: 'local_master_data',
   AUDIT_LOGS: 'local_audit_logs',
   LOCATIONS: 'local_locations',
+  SKU_ALIASES: 'local_sku_aliases',
+  SKU_UNITS: 'local_sku_units',
   STATES: 'local_states',
-  ACTIVITY_LOGS: 'local_activity_logs'
+  ACTIVITY_LOGS: 'local_activity_logs',
+  COUNT_SESSIONS: 'local_count_sessions',
+  SELECTED_SESSION: 'selected_count_session'
 };
 
 let onPermissionError: ((error: any) => void) | null = null;
@@ -60,83 +42,229 @@ export const setLocal = (key: string, data: any) => {
     }
 };
 
+// --- COUNT SESSION KEYS ---
+
+// Records written before count sessions existed carry no sessionId. They belong
+// to this session, whose location states also keep their old bare-location keys.
+export const DEFAULT_COUNT_SESSION_ID = 'default';
+export const COUNT_SESSION_CHANGED_EVENT = 'countSessionChanged';
+
+export const sessionIdOf = (item: { sessionId?: string }) => item.sessionId || DEFAULT_COUNT_SESSION_ID;
+
+export const locationStateKey = (sessionId: string, locationId: string) =>
+    sessionId === DEFAULT_COUNT_SESSION_ID ? locationId : `${sessionId}__${locationId}`;
+
+export const getCountSessions = (): CountSession[] => getLocal<CountSession[]>(LOCAL_KEYS.COUNT_SESSIONS, []);
+
+// The session this device counts into and reports on. Falls back to the newest
+// active session, so a fresh device lands on the current stock opname.
+export const getSelectedCountSessionId = (): string => {
+    const saved = localStorage.getItem(LOCAL_KEYS.SELECTED_SESSION);
+    if (saved) return saved;
+    const active = getCountSessions().filter(s => s.status === 'active').sort((a, b) => b.createdAt - a.createdAt);
+    return active[0]?.id || DEFAULT_COUNT_SESSION_ID;
+};
+
+export const setSelectedCountSessionId = (id: string) => {
+    localStorage.setItem(LOCAL_KEYS.SELECTED_SESSION, id);
+    window.dispatchEvent(new Event(COUNT_SESSION_CHANGED_EVENT));
+};
+
+export const getSelectedCountSession = (): CountSession | null => {
+    const id = getSelectedCountSessionId();
+    return getCountSessions().find(s => s.id === id) || null;
+};
+
+export const isInSessionScope = (session: CountSession, target: { category?: string; zone?: string }) => {
+    const { zones, categories } = session.scope;
+    if (target.category && categories.length > 0 && !categories.includes(target.category)) return false;
+    if (target.zone && zones.length > 0 && !zones.includes(target.zone)) return false;
+    return true;
+};
+
+// --- MASTER DATA KEYS ---
+
+// One master row per SKU, batch, expiry date and (when stock is kept by bin)
+// location, so per-batch system stock survives an import. Master data stores
+// expiry as YYYY-MM-DD, audit records as DD-MM-YYYY; keys always use the
+// former. '-' means not tracked.
+export const toIsoDate = (date?: string) => {
+    const value = (date || '').trim();
+    const match = value.match(/^(\d{2})-(\d{2})-(\d{4})$/);
+    return match ? `${match[3]}-${match[2]}-${match[1]}` : value;
+};
+
+const keyPart = (value?: string) => {
+    const trimmed = (value || '').trim();
+    return trimmed === '' ? '-' : trimmed;
+};
+
+export const batchKeyOf = (item: { batchNumber?: string; expiryDate?: string }) =>
+    `${keyPart(item.batchNumber)}|${keyPart(toIsoDate(item.expiryDate))}`;
+
+// SKUs match regardless of case or surrounding spaces, in keys and lookups alike
+export const skuKeyOf = (sku: string) => sku.trim().toUpperCase();
+
+export const sameLocation = (a?: string, b?: string) =>
+    (a || '').trim().toUpperCase() === (b || '').trim().toUpperCase();
+
+// Firestore document ids cannot contain '/'. Rows without a location keep
+// the key they had before stock by location existed.
+export const masterItemKey = (item: { sku: string; batchNumber?: string; expiryDate?: string; location?: string }) => {
+    const location = (item.location || '').trim().toUpperCase();
+    return `${skuKeyOf(item.sku)}|${batchKeyOf(item)}${location ? `|${location}` : ''}`.replace(/\//g, '%2F');
+};
+
+const isUntrackedBatch = (item: MasterItem) => keyPart(item.batchNumber) === '-';
+
+// The master row a count is compared with. When the SKU's stock is kept by
+// location only the rows of the counted location qualify, so a partial count
+// on one shelf is not compared with the whole warehouse. A SKU imported
+// without batch numbers has a single row that stands for every batch;
+// otherwise a batch or expiry date missing from master data has no system stock.
+export const findMasterBatch = (items: MasterItem[], sku: string, batchNumber?: string, expiryDate?: string, location?: string): MasterItem | undefined => {
+    const key = skuKeyOf(sku);
+    let rows = items.filter(i => skuKeyOf(i.sku) === key);
+    if (location !== undefined && rows.some(i => i.location)) rows = rows.filter(i => sameLocation(i.location, location));
+    if (rows.length === 1 && isUntrackedBatch(rows[0])) return rows[0];
+    const batch = batchKeyOf({ batchNumber, expiryDate });
+    return rows.find(i => batchKeyOf(i) === batch);
+};
+
+// --- VARIANCE THRESHOLDS ---
+
+export const DEFAULT_RECOUNT_THRESHOLD_PERCENT = 10;
+
+export const variancePercent = (systemQty: number, physicalQty: number) => {
+    if (systemQty > 0) return Math.abs(physicalQty - systemQty) / systemQty * 100;
+    return physicalQty > 0 ? 100 : 0;
+};
+
+export const recountThresholdOf = (session: CountSession | null | undefined) =>
+    session?.recountThresholdPercent ?? DEFAULT_RECOUNT_THRESHOLD_PERCENT;
+
+// The quantity reports should use: the supervisor's decision once resolved,
+// otherwise the first count.
+export const acceptedQtyOf = (record: AuditRecord) => record.acceptedQty ?? record.physicalQty;
+
+const countSessionName = (id: string) => getCountSessions().find(s => s.id === id)?.name || id;
+
+const statesForSession = (all: Record<string, LocationState>, sessionId: string) => {
+    const states: Record<string, LocationState> = {};
+    Object.values(all).forEach(item => {
+        if (sessionIdOf(item) === sessionId) states[item.locationId] = item;
+    });
+    return states;
+};
+
 // --- SUBSCRIPTIONS ---
 
-export const subscribeToAuditLogs = (onUpdate: (data: AuditRecord[]) => void, onError?: (error: any) => void) => {
-    const q = query(collection(db, TABLES.AUDIT_LOGS), orderBy('timestamp', 'desc'));
-    
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-        const auditLogs: AuditRecord[] = [];
-        snapshot.forEach((doc) => {
-            auditLogs.push(doc.data() as AuditRecord);
+// Without a sessionId every session's records are delivered, e.g. for comparisons.
+export const subscribeToAuditLogs = (onUpdate: (data: AuditRecord[]) => void, onError?: (error: any) => void, sessionId?: string) => {
+    return getBackend().subscribe<AuditRecord>(TABLES.AUDIT_LOGS, (rows) => {
+        // Soft-deleted records stay in the table but nowhere else
+        const auditLogs = rows.filter(l => !l.deletedAt);
+        // Counts still waiting in the outbox are not in the database yet
+        const syncedIds = new Set(auditLogs.map(l => l.id));
+        getQueuedAuditRecords().forEach(r => {
+            if (!syncedIds.has(r.id)) auditLogs.push(r);
         });
+        auditLogs.sort((a, b) => b.timestamp - a.timestamp);
         setLocal(LOCAL_KEYS.AUDIT_LOGS, auditLogs);
-        onUpdate(auditLogs);
+        onUpdate(sessionId ? auditLogs.filter(l => sessionIdOf(l) === sessionId) : auditLogs);
     }, (error) => {
         console.error("Audit logs subscription error:", error);
         if (onError) onError(error);
-        else handleFirestoreError(error, OperationType.LIST, TABLES.AUDIT_LOGS);
-    });
-
-    return unsubscribe;
+    }, { orderBy: 'timestamp', direction: 'desc' });
 };
 
 export const subscribeToMasterData = (onUpdate: (data: MasterItem[]) => void, onError?: (error: any) => void) => {
-    const q = collection(db, TABLES.MASTER_DATA);
-    
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-        const list: MasterItem[] = [];
-        snapshot.forEach((doc) => {
-            list.push(doc.data() as MasterItem);
-        });
+    return getBackend().subscribe<MasterItem>(TABLES.MASTER_DATA, (list) => {
         setLocal(LOCAL_KEYS.MASTER_DATA, list);
         onUpdate(list);
     }, (error) => {
         console.error("Master data subscription error:", error);
         if (onError) onError(error);
-        else handleFirestoreError(error, OperationType.LIST, TABLES.MASTER_DATA);
     });
-
-    return unsubscribe;
 };
 
-export const subscribeToLocationStates = (onUpdate: (data: Record<string, LocationState>) => void, onError?: (error: any) => void) => {
-    const q = collection(db, TABLES.LOCATION_STATES);
-    
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-        const states: Record<string, LocationState> = {};
-        snapshot.forEach((doc) => {
-            const item = doc.data() as LocationState;
-            states[item.locationId] = item;
+// States are keyed by locationId, so they are always read for a single session.
+export const subscribeToLocationStates = (
+    onUpdate: (data: Record<string, LocationState>) => void,
+    onError?: (error: any) => void,
+    sessionId: string = getSelectedCountSessionId()
+) => {
+    return getBackend().subscribe<LocationState>(TABLES.LOCATION_STATES, (rows) => {
+        const all: Record<string, LocationState> = {};
+        rows.forEach((item) => {
+            all[locationStateKey(sessionIdOf(item), item.locationId)] = item;
         });
-        setLocal(LOCAL_KEYS.STATES, states);
-        onUpdate(states);
+        setLocal(LOCAL_KEYS.STATES, all);
+        onUpdate(statesForSession(all, sessionId));
     }, (error) => {
         console.error("Location states subscription error:", error);
         if (onError) onError(error);
-        else handleFirestoreError(error, OperationType.LIST, TABLES.LOCATION_STATES);
     });
+};
 
-    return unsubscribe;
+export const subscribeToMasterLocations = (onUpdate: (data: MasterLocation[]) => void, onError?: (error: any) => void) => {
+    return getBackend().subscribe<MasterLocation>(TABLES.MASTER_LOCATIONS, (list) => {
+        const sorted = sortLocations(list);
+        setLocal(LOCAL_KEYS.LOCATIONS, sorted);
+        onUpdate(sorted);
+    }, (error) => {
+        console.error("Master locations subscription error:", error);
+        if (onError) onError(error);
+    });
+};
+
+export const subscribeToSkuAliases = (onUpdate: (data: SkuAlias[]) => void, onError?: (error: any) => void) => {
+    return getBackend().subscribe<SkuAlias>(TABLES.SKU_ALIASES, (list) => {
+        setLocal(LOCAL_KEYS.SKU_ALIASES, list);
+        onUpdate(list);
+    }, (error) => {
+        console.error("SKU aliases subscription error:", error);
+        if (onError) onError(error);
+    });
+};
+
+export const subscribeToSkuUnits = (onUpdate: (data: SkuUnits[]) => void, onError?: (error: any) => void) => {
+    return getBackend().subscribe<SkuUnits>(TABLES.SKU_UNITS, (list) => {
+        setLocal(LOCAL_KEYS.SKU_UNITS, list);
+        onUpdate(list);
+    }, (error) => {
+        console.error("SKU units subscription error:", error);
+        if (onError) onError(error);
+    });
+};
+
+export const subscribeToCountSessions = (onUpdate: (data: CountSession[]) => void, onError?: (error: any) => void) => {
+    return getBackend().subscribe<CountSession>(TABLES.COUNT_SESSIONS, (list) => {
+        setLocal(LOCAL_KEYS.COUNT_SESSIONS, list);
+        onUpdate(list);
+    }, (error) => {
+        console.error("Count sessions subscription error:", error);
+        if (onError) onError(error);
+    }, { orderBy: 'createdAt', direction: 'desc' });
+};
+
+export const subscribeToAdjustments = (onUpdate: (data: AdjustmentEntry[]) => void, onError?: (error: any) => void, sessionId?: string) => {
+    return getBackend().subscribe<AdjustmentEntry>(TABLES.ADJUSTMENTS, (rows) => {
+        onUpdate(sessionId ? rows.filter(r => r.sessionId === sessionId) : rows);
+    }, (error) => {
+        console.error("Adjustments subscription error:", error);
+        if (onError) onError(error);
+    }, { orderBy: 'approvedAt', direction: 'desc' });
 };
 
 export const subscribeToActivityLogs = (onUpdate: (data: ActivityLog[]) => void, onError?: (error: any) => void) => {
-    const q = query(collection(db, TABLES.ACTIVITY_LOGS), orderBy('timestamp', 'desc'));
-    
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-        const list: ActivityLog[] = [];
-        snapshot.forEach((doc) => {
-            list.push(doc.data() as ActivityLog);
-        });
+    return getBackend().subscribe<ActivityLog>(TABLES.ACTIVITY_LOGS, (list) => {
         setLocal(LOCAL_KEYS.ACTIVITY_LOGS, list);
         onUpdate(list);
     }, (error) => {
         console.error("Activity logs subscription error:", error);
         if (onError) onError(error);
-        else handleFirestoreError(error, OperationType.LIST, TABLES.ACTIVITY_LOGS);
-    });
-
-    return unsubscribe;
+    }, { orderBy: 'timestamp', direction: 'desc' });
 };
 
 // --- OPERATIONS ---
@@ -149,11 +277,7 @@ export const saveActivityLog = async (log: Omit<ActivityLog, 'id' | 'timestamp'>
       id,
       timestamp: Date.now()
     };
-    try {
-        await setDoc(doc(db, TABLES.ACTIVITY_LOGS, id), fullLog);
-    } catch (error) {
-        handleFirestoreError(error, OperationType.WRITE, `${TABLES.ACTIVITY_LOGS}/${id}`);
-    }
+    await getBackend().set(TABLES.ACTIVITY_LOGS, id, withoutUndefined(fullLog));
   } catch (e) {
     console.error("Failed to save activity log:", e);
   }
@@ -167,17 +291,7 @@ export const getMasterData = async (): Promise<MasterItem[]> => {
 
 export const fetchMasterData = async (): Promise<MasterItem[]> => {
     try {
-        let snapshot;
-        try {
-            snapshot = await getDocs(collection(db, TABLES.MASTER_DATA));
-        } catch (error) {
-            handleFirestoreError(error, OperationType.LIST, TABLES.MASTER_DATA);
-        }
-
-        const data: MasterItem[] = [];
-        snapshot.forEach((doc) => {
-            data.push(doc.data() as MasterItem);
-        });
+        const data = await getBackend().list<MasterItem>(TABLES.MASTER_DATA);
         setLocal(LOCAL_KEYS.MASTER_DATA, data);
         return data;
     } catch (e) {
@@ -186,23 +300,42 @@ export const fetchMasterData = async (): Promise<MasterItem[]> => {
     }
 };
 
-export const getMasterLocations = async (): Promise<MasterLocation[]> => getLocal<MasterLocation[]>(LOCAL_KEYS.LOCATIONS, []);
+export const getMasterLocations = async (): Promise<MasterLocation[]> => {
+    const local = getLocal<MasterLocation[]>(LOCAL_KEYS.LOCATIONS, []);
+    if (local.length > 0) return local;
+    return fetchMasterLocations();
+};
+
+export const fetchMasterLocations = async (): Promise<MasterLocation[]> => {
+    try {
+        const data = sortLocations(await getBackend().list<MasterLocation>(TABLES.MASTER_LOCATIONS));
+        setLocal(LOCAL_KEYS.LOCATIONS, data);
+        return data;
+    } catch (e) {
+        console.error("Fetch master locations failed:", e);
+        return getLocal<MasterLocation[]>(LOCAL_KEYS.LOCATIONS, []);
+    }
+};
+
+// Master rows used to be keyed by SKU alone; move them to their composite key
+// before writing, or the old row would count as a second batch.
+export const migrateMasterDataKeys = async () => {
+    requirePermission('importMaster');
+    const entries = await getBackend().listEntries<MasterItem>(TABLES.MASTER_DATA);
+    const stale = entries.filter(e => e.id !== masterItemKey(e.data));
+    if (stale.length === 0) return;
+    await getBackend().setMany(TABLES.MASTER_DATA, stale.map(e => ({ id: masterItemKey(e.data), data: e.data })));
+    await getBackend().removeMany(TABLES.MASTER_DATA, stale.map(e => e.id));
+};
 
 export const saveMasterData = async (items: MasterItem[], onProgress?: (progress: number) => void) => {
+    requirePermission('importMaster');
+    await migrateMasterDataKeys();
     const batchSize = 400;
     const total = items.length;
     for (let i = 0; i < total; i += batchSize) {
         const chunk = items.slice(i, i + batchSize);
-        const batch = writeBatch(db);
-        chunk.forEach(item => {
-            const docRef = doc(db, TABLES.MASTER_DATA, item.sku);
-            batch.set(docRef, item);
-        });
-        try {
-            await batch.commit();
-        } catch (error) {
-            handleFirestoreError(error, OperationType.WRITE, TABLES.MASTER_DATA);
-        }
+        await getBackend().setMany(TABLES.MASTER_DATA, chunk.map(item => ({ id: masterItemKey(item), data: item })));
         if (onProgress) onProgress(Math.round(((i + chunk.length) / total) * 100));
     }
     await fetchMasterData();
@@ -211,97 +344,529 @@ export const saveMasterData = async (items: MasterItem[], onProgress?: (progress
         type: 'update',
         title: 'Master Data Updated',
         description: `Berhasil mengimpor ${total} item ke database master.`,
-        user: 'System/Admin'
+        ...actorFields()
     });
 };
 
 export const deleteAllMasterData = async (onStatus?: (msg: string) => void) => {
+    requirePermission('importMaster');
     if (onStatus) onStatus(`Cleaning master data...`);
-    try {
-        await clearTable(TABLES.MASTER_DATA);
-    } catch (error) {
-        handleFirestoreError(error, OperationType.DELETE, TABLES.MASTER_DATA);
-    }
+    await clearTable(TABLES.MASTER_DATA);
     setLocal(LOCAL_KEYS.MASTER_DATA, []);
     
     await saveActivityLog({
         type: 'delete',
         title: 'Master Data Cleared',
         description: 'Semua item di database master telah dihapus.',
-        user: 'Admin'
+        ...actorFields()
+    });
+};
+
+
+// --- MASTER LOCATIONS ---
+
+// A location is identified by its code, upper-cased: counts, location states
+// and labels all carry it, and it is the document id in the same form.
+// Firestore document ids cannot contain '/'.
+const locationDocId = (id: string) => id.trim().toUpperCase().replace(/\//g, '%2F');
+
+// The code a typed or scanned location stands for. Labels printed before
+// locations were keyed by code hold the name, so a name resolves too;
+// values matching no location are kept as typed.
+export const locationCodeOf = (locations: MasterLocation[], value: string) => {
+    const code = value.trim().toUpperCase();
+    const match = locations.find(l => l.id === code) || locations.find(l => l.name.trim().toUpperCase() === code);
+    return match ? match.id : code;
+};
+
+const sortLocations = (list: MasterLocation[]) =>
+    [...list].sort((a, b) => a.zone.localeCompare(b.zone) || a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+const normalizeLocation = (location: MasterLocation): MasterLocation => {
+    const id = location.id.trim().toUpperCase();
+    return { id, name: location.name.trim() || id, zone: location.zone.trim() || 'General' };
+};
+
+// Import upserts by code: existing locations are updated, none are removed
+export const saveMasterLocations = async (locations: MasterLocation[], onProgress?: (progress: number) => void) => {
+    requirePermission('importMaster');
+    const rows = locations.map(normalizeLocation).filter(l => l.id);
+    const batchSize = 400;
+    for (let i = 0; i < rows.length; i += batchSize) {
+        const chunk = rows.slice(i, i + batchSize);
+        await getBackend().setMany(TABLES.MASTER_LOCATIONS, chunk.map(l => ({ id: locationDocId(l.id), data: l })));
+        if (onProgress) onProgress(Math.round(((i + chunk.length) / rows.length) * 100));
+    }
+    await fetchMasterLocations();
+
+    await saveActivityLog({
+        type: 'update',
+        title: 'Master Locations Imported',
+        description: `Berhasil mengimpor ${rows.length} lokasi rak.`,
+        ...actorFields(),
+        targetTable: TABLES.MASTER_LOCATIONS
+    });
+};
+
+// previousId is the code the location had before this edit, if any
+export const saveMasterLocation = async (location: MasterLocation, previousId?: string) => {
+    requirePermission('importMaster');
+    const next = normalizeLocation(location);
+    if (!next.id) throw new Error("Kode lokasi wajib diisi.");
+    const id = locationDocId(next.id);
+    const oldId = previousId ? locationDocId(previousId) : undefined;
+    const current = oldId ? await getBackend().get<MasterLocation>(TABLES.MASTER_LOCATIONS, oldId) : null;
+    if (id !== oldId && await getBackend().get<MasterLocation>(TABLES.MASTER_LOCATIONS, id)) {
+        throw new Error(`Kode lokasi ${next.id} sudah dipakai.`);
+    }
+
+    await getBackend().set(TABLES.MASTER_LOCATIONS, id, next);
+    if (oldId && oldId !== id) await getBackend().remove(TABLES.MASTER_LOCATIONS, oldId);
+    await fetchMasterLocations();
+
+    const changes = current ? diffFields(current, next) : [];
+    await saveActivityLog({
+        type: current ? 'update' : 'create',
+        title: current ? 'Master Location Updated' : 'Master Location Added',
+        description: current
+            ? `Lokasi ${current.id} diperbarui: ${changes.map(c => c.field).join(', ') || 'tidak ada perubahan'}.`
+            : `Lokasi ${next.id} (${next.zone}) ditambahkan.`,
+        ...actorFields(),
+        targetTable: TABLES.MASTER_LOCATIONS,
+        targetId: id,
+        ...(current ? { changes } : {})
+    });
+};
+
+export const deleteMasterLocation = async (id: string) => {
+    requirePermission('importMaster');
+    await getBackend().remove(TABLES.MASTER_LOCATIONS, locationDocId(id));
+    await fetchMasterLocations();
+
+    await saveActivityLog({
+        type: 'delete',
+        title: 'Master Location Deleted',
+        description: `Lokasi ${id} dihapus dari daftar lokasi.`,
+        ...actorFields(),
+        targetTable: TABLES.MASTER_LOCATIONS,
+        targetId: locationDocId(id)
     });
 };
 
+// --- SKU ALIASES ---
+
+// GTIN-8/12/13/14 are the same number padded to 14 digits, which is how the
+// GS1 scanner parser returns them; other codes match case-insensitively.
+export const normalizeAliasCode = (code: string) => {
+    const clean = code.trim().toUpperCase();
+    return /^(\d{8}|\d{12,14})$/.test(clean) ? clean.padStart(14, '0') : clean;
+};
+
+const aliasDocId = (code: string) => normalizeAliasCode(code).replace(/\//g, '%2F');
+
+export const getSkuAliases = async (): Promise<SkuAlias[]> => {
+    const local = getLocal<SkuAlias[]>(LOCAL_KEYS.SKU_ALIASES, []);
+    if (local.length > 0) return local;
+    return fetchSkuAliases();
+};
+
+export const fetchSkuAliases = async (): Promise<SkuAlias[]> => {
+    try {
+        const data = await getBackend().list<SkuAlias>(TABLES.SKU_ALIASES);
+        setLocal(LOCAL_KEYS.SKU_ALIASES, data);
+        return data;
+    } catch (e) {
+        console.error("Fetch SKU aliases failed:", e);
+        return getLocal<SkuAlias[]>(LOCAL_KEYS.SKU_ALIASES, []);
+    }
+};
+
+export const findSkuAlias = (aliases: SkuAlias[], code: string): SkuAlias | undefined => {
+    const key = normalizeAliasCode(code);
+    return key ? aliases.find(a => normalizeAliasCode(a.alias) === key) : undefined;
+};
+
+// Lower-cased SKUs that have an alias containing the query, for search boxes;
+// a GTIN typed without its leading zeros still finds the padded alias.
+export const skusMatchingAlias = (aliases: SkuAlias[], query: string) => {
+    const q = query.trim().toUpperCase();
+    if (!q) return new Set<string>();
+    const padded = normalizeAliasCode(q);
+    return new Set(aliases.filter(a => a.alias.includes(q) || a.alias === padded).map(a => a.sku.toLowerCase()));
+};
+
+// An alias only names the unit it is printed on; how many base units that is
+// comes from the SKU's pack units (sku_units)
+const normalizeSkuAlias = (alias: SkuAlias): SkuAlias => {
+    const next: SkuAlias = { alias: normalizeAliasCode(alias.alias), sku: alias.sku.trim() };
+    if (alias.unit?.trim()) next.unit = alias.unit.trim().toUpperCase();
+    return next;
+};
+
+// Import upserts by code, like master locations; other aliases are kept
+export const saveSkuAliases = async (aliases: SkuAlias[], onProgress?: (progress: number) => void) => {
+    requirePermission('importMaster');
+    const createdBy = getSessionUser()?.name || 'Unknown';
+    const rows = aliases.map(normalizeSkuAlias).filter(a => a.alias && a.sku)
+        .map(a => ({ ...a, createdBy, createdAt: Date.now() }));
+    const batchSize = 400;
+    for (let i = 0; i < rows.length; i += batchSize) {
+        const chunk = rows.slice(i, i + batchSize);
+        await getBackend().setMany(TABLES.SKU_ALIASES, chunk.map(a => ({ id: aliasDocId(a.alias), data: a })));
+        if (onProgress) onProgress(Math.round(((i + chunk.length) / rows.length) * 100));
+    }
+    await fetchSkuAliases();
+
+    await saveActivityLog({
+        type: 'update',
+        title: 'SKU Aliases Imported',
+        description: `Berhasil mengimpor ${rows.length} kode alias SKU.`,
+        ...actorFields(),
+        targetTable: TABLES.SKU_ALIASES
+    });
+};
+
+// previousAlias is the code the alias had before this edit, if any
+export const saveSkuAlias = async (alias: SkuAlias, previousAlias?: string) => {
+    requirePermission('importMaster');
+    if (!alias.alias.trim() || !alias.sku.trim()) throw new Error("Kode alias dan SKU wajib diisi.");
+    const next = normalizeSkuAlias(alias);
+    const id = aliasDocId(next.alias);
+    const oldId = previousAlias ? aliasDocId(previousAlias) : undefined;
+    const current = oldId ? await getBackend().get<SkuAlias>(TABLES.SKU_ALIASES, oldId) : null;
+    if (id !== oldId && await getBackend().get<SkuAlias>(TABLES.SKU_ALIASES, id)) {
+        throw new Error(`Kode ${next.alias} sudah terhubung ke SKU lain.`);
+    }
+
+    const saved: SkuAlias = {
+        ...next,
+        createdBy: current?.createdBy || getSessionUser()?.name || 'Unknown',
+        createdAt: current?.createdAt || Date.now()
+    };
+    await getBackend().set(TABLES.SKU_ALIASES, id, saved);
+    if (oldId && oldId !== id) await getBackend().remove(TABLES.SKU_ALIASES, oldId);
+    await fetchSkuAliases();
+
+    const changes = current ? diffFields(current, saved) : [];
+    await saveActivityLog({
+        type: current ? 'update' : 'create',
+        title: current ? 'SKU Alias Updated' : 'SKU Alias Linked',
+        description: current
+            ? `Alias ${current.alias} diperbarui: ${changes.map(c => c.field).join(', ') || 'tidak ada perubahan'}.`
+            : `Kode ${saved.alias} dihubungkan ke SKU ${saved.sku}.`,
+        ...actorFields(),
+        targetTable: TABLES.SKU_ALIASES,
+        targetId: id,
+        ...(current ? { changes } : {})
+    });
+    return saved;
+};
+
+export const deleteSkuAlias = async (alias: string) => {
+    requirePermission('importMaster');
+    await getBackend().remove(TABLES.SKU_ALIASES, aliasDocId(alias));
+    await fetchSkuAliases();
+
+    await saveActivityLog({
+        type: 'delete',
+        title: 'SKU Alias Deleted',
+        description: `Kode ${normalizeAliasCode(alias)} tidak lagi dihubungkan ke SKU.`,
+        ...actorFields(),
+        targetTable: TABLES.SKU_ALIASES,
+        targetId: aliasDocId(alias)
+    });
+};
+
+// --- UNITS OF MEASURE ---
+
+// Counts are stored in the SKU's base unit (MasterItem.unit); pack units
+// convert into it. Firestore document ids cannot contain '/'.
+const skuDocId = (sku: string) => skuKeyOf(sku).replace(/\//g, '%2F');
+
+export const getSkuUnits = async (): Promise<SkuUnits[]> => {
+    const local = getLocal<SkuUnits[]>(LOCAL_KEYS.SKU_UNITS, []);
+    if (local.length > 0) return local;
+    return fetchSkuUnits();
+};
+
+export const fetchSkuUnits = async (): Promise<SkuUnits[]> => {
+    try {
+        const data = await getBackend().list<SkuUnits>(TABLES.SKU_UNITS);
+        setLocal(LOCAL_KEYS.SKU_UNITS, data);
+        return data;
+    } catch (e) {
+        console.error("Fetch SKU units failed:", e);
+        return getLocal<SkuUnits[]>(LOCAL_KEYS.SKU_UNITS, []);
+    }
+};
+
+// Pack units of a SKU, largest first; the base unit itself is not listed
+export const unitsOfSku = (list: SkuUnits[], sku: string): UnitConversion[] => {
+    const key = skuKeyOf(sku);
+    const entry = list.find(s => skuKeyOf(s.sku) === key);
+    return entry ? [...entry.units].sort((a, b) => b.factor - a.factor) : [];
+};
+
+// The unit a SKU is counted in: the unit column of its master rows. All rows
+// of a SKU must agree, or pack factors would mean something else per batch.
+export const baseUnitOf = (items: MasterItem[], sku: string): string => {
+    const key = skuKeyOf(sku);
+    const units = new Set(items.filter(i => skuKeyOf(i.sku) === key).map(i => (i.unit || '').trim().toUpperCase()));
+    if (units.size === 0) throw new Error(`SKU ${sku.trim()} tidak ada di master data.`);
+    if (units.size > 1) throw new Error(`Master data ${sku.trim()} memakai satuan berbeda (${Array.from(units).join(', ')}). Samakan dulu satuannya.`);
+    const [unit] = Array.from(units);
+    if (!unit) throw new Error(`Satuan ${sku.trim()} di master data masih kosong.`);
+    return unit;
+};
+
+export const unitEntryTotal = (entry: UnitQuantity[]) =>
+    entry.reduce((sum, line) => sum + line.qty * line.factor, 0);
+
+// "2 CTN + 3 BOX + 5 PCS"
+export const formatUnitEntry = (entry: UnitQuantity[]) =>
+    entry.filter(line => line.qty > 0).map(line => `${line.qty} ${line.unit}`).join(' + ');
+
+// Replaces the pack units of a SKU; an empty list removes them. baseUnit is
+// the unit the factors were entered in, which must be the master data unit.
+export const saveSkuUnits = async (sku: string, units: UnitConversion[], baseUnit: string) => {
+    requirePermission('importMaster');
+    const target = sku.trim();
+    if (!target) throw new Error("SKU wajib diisi.");
+    const base = baseUnit.trim().toUpperCase();
+    const next = units.map(u => ({ unit: u.unit.trim().toUpperCase(), factor: Number(u.factor) }));
+    if (next.length > 0) {
+        const masterUnit = baseUnitOf(await getMasterData(), target);
+        if (base !== masterUnit) throw new Error(`Satuan dasar ${base || '-'} tidak sama dengan satuan ${target} di master data (${masterUnit}).`);
+    }
+    const seen = new Set<string>();
+    next.forEach(u => {
+        if (!u.unit) throw new Error("Nama satuan wajib diisi.");
+        if (u.unit === base) throw new Error(`${u.unit} adalah satuan dasar ${target}.`);
+        if (seen.has(u.unit)) throw new Error(`Satuan ${u.unit} tercantum dua kali.`);
+        if (!Number.isInteger(u.factor) || u.factor < 2) throw new Error(`Isi satuan ${u.unit} harus bilangan bulat lebih dari 1.`);
+        seen.add(u.unit);
+    });
+
+    const id = skuDocId(target);
+    // Units saved before ids were upper-cased sit under the SKU as typed
+    const legacyId = target.replace(/\//g, '%2F');
+    const current = await getBackend().get<SkuUnits>(TABLES.SKU_UNITS, id)
+        ?? (legacyId !== id ? await getBackend().get<SkuUnits>(TABLES.SKU_UNITS, legacyId) : null);
+    if (next.length === 0) {
+        if (!current) return;
+        await getBackend().remove(TABLES.SKU_UNITS, id);
+    } else {
+        await getBackend().set<SkuUnits>(TABLES.SKU_UNITS, id, {
+            sku: target,
+            units: next,
+            updatedBy: getSessionUser()?.name || 'Unknown',
+            updatedAt: Date.now()
+        });
+    }
+    if (legacyId !== id && current) await getBackend().remove(TABLES.SKU_UNITS, legacyId);
+    await fetchSkuUnits();
+
+    const summary = next.map(u => `1 ${u.unit} = ${u.factor} ${base}`).join(', ');
+    await saveActivityLog({
+        type: next.length === 0 ? 'delete' : current ? 'update' : 'create',
+        title: 'SKU Units Updated',
+        description: next.length === 0 ? `Satuan kemasan ${target} dihapus.` : `Satuan ${target}: ${summary}.`,
+        ...actorFields(),
+        targetTable: TABLES.SKU_UNITS,
+        targetId: id,
+        ...(current ? { changes: diffFields(current, { units: next }) } : {})
+    });
+};
+
+const SYNC_TIMEOUT_MS = 20000;
+const SYNC_INTERVAL_MS = 15000;
+
+// Firestore writes never reject while offline, they just wait. Bound every
+// database sync step so a dead connection turns into a retry instead of a hang.
+const withTimeout = <T>(promise: Promise<T>, label: string): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`${label} timeout`)), SYNC_TIMEOUT_MS);
+        promise.then(
+            (value) => { clearTimeout(timer); resolve(value); },
+            (error) => { clearTimeout(timer); reject(error); }
+        );
+    });
+};
+
+// Firestore rejects undefined values, so optional fields are left out instead
+const withoutUndefined = <T extends object>(data: T): T =>
+    Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as T;
+
+const syncAuditEntry: OutboxProcessor = async (entry) => {
+    const record = entry.record;
+
+    // 1. The database holds the complete record, so every device sees the same totals
+    if (!entry.dbSynced) {
+        const state: LocationState = {
+            locationId: record.location,
+            status: 'audited',
+            timestamp: record.timestamp,
+            photoUrl: record.evidencePhotos?.[0],
+            description: record.notes,
+            reportedBy: record.teamMember,
+            sessionId: sessionIdOf(record)
+        };
+
+        await withTimeout(getBackend().set(TABLES.AUDIT_LOGS, record.id, withoutUndefined({ ...record, sessionId: sessionIdOf(record) })), 'Database');
+        await withTimeout(getBackend().set(TABLES.LOCATION_STATES, locationStateKey(state.sessionId!, record.location), withoutUndefined(state)), 'Database');
+        entry.dbSynced = true;
+
+        saveActivityLog({
+            type: 'scan',
+            title: 'Scan Terverifikasi',
+            description: `Operator: ${record.teamMember} memindai ${record.physicalQty} unit SKU: ${record.sku}`,
+            // The outbox only sends the signed-in counter's own records
+            ...actorFields(),
+            details: `Lokasi: ${record.location}`,
+            photos: record.evidencePhotos
+        });
+    }
+
+    // 2. Google Sheets is an optional mirror, written in batches from its own queue
+    if (!entry.sheetsSynced) {
+        if (isSheetsMirrorEnabled()) await enqueueSheetsChange(record, 'upsert');
+        entry.sheetsSynced = true;
+    }
+};
+
+// One batch per session's spreadsheet; a session without a usable target
+// only holds back its own changes.
+const syncSheetsBatch: SheetsBatchProcessor = async (entries) => {
+    const done: string[] = [];
+    const errors: Record<string, string> = {};
+    const bySession = new Map<string, typeof entries>();
+    entries.forEach(e => bySession.set(sessionIdOf(e.record), [...(bySession.get(sessionIdOf(e.record)) || []), e]));
+
+    for (const [sessionId, group] of bySession) {
+        try {
+            const target = await resolveSheetsTarget(sessionId);
+            await withTimeout(syncRecordsToSheet(target, group), 'Google Sheets');
+            done.push(...group.map(e => e.id));
+        } catch (e: any) {
+            group.forEach(entry => { errors[entry.id] = e?.message || String(e); });
+        }
+    }
+    return { done, errors };
+};
+
+// Edits, deletions and restores made after a record was synced
+const mirrorToSheets = (record: AuditRecord, operation: SheetsOperation) => {
+    if (!isSheetsMirrorEnabled()) return;
+    enqueueSheetsChange(record, operation)
+        .then(() => flushSheetsOutbox(syncSheetsBatch))
+        .catch(e => console.error("Sheets sync failed:", e));
+};
+
+// Counts queued by someone who has since logged out wait until they sign in again
+export const flushPendingAudits = async () => {
+    const owner = getSessionUser()?.name;
+    if (owner) await flushAuditOutbox(syncAuditEntry, owner);
+    await flushSheetsOutbox(syncSheetsBatch);
+};
+
+export const retryFailedAuditSync = async () => {
+    const owner = getSessionUser()?.name;
+    if (owner) await retryFailedAudits(syncAuditEntry, owner);
+    await retryFailedSheetsChanges(syncSheetsBatch);
+};
+
+// Keeps draining the outbox: on start, whenever the browser comes back
+// online, and on a fixed interval for entries waiting out their backoff.
+export const startAuditSync = () => {
+    const flush = () => {
+        if (navigator.onLine) flushPendingAudits().catch(e => console.error("Audit sync failed:", e));
+    };
+    window.addEventListener('online', flush);
+    const timer = setInterval(flush, SYNC_INTERVAL_MS);
+    flush();
+    return () => {
+        window.removeEventListener('online', flush);
+        clearInterval(timer);
+    };
+};
+
 export const saveAuditLog = async (record: AuditRecord) => {
+  requirePermission('createAudit');
+  const session = getCountSessions().find(s => s.id === sessionIdOf(record));
+  if (session && session.status !== 'active') {
+      throw new Error(`Sesi "${session.name}" tidak aktif. Pilih sesi hitung yang sedang berjalan.`);
+  }
+  record = flagForRecount(record, session);
   try {
-      // 1. Save to Google Sheets first
-      await appendAuditLogToSheets(record);
-
-      // 2. Save only minimal data to Firebase as requested
-      try {
-          const minimalRecord = {
-              id: record.id,
-              teamMember: record.teamMember,
-              evidencePhotos: record.evidencePhotos || [],
-              itemName: record.itemName, // Needed for photo view
-              sku: record.sku, // Needed for photo view
-              location: record.location, // Needed for photo view
-              timestamp: record.timestamp
-          };
-          await setDoc(doc(db, TABLES.AUDIT_LOGS, record.id), minimalRecord);
-      } catch (error) {
-          handleFirestoreError(error, OperationType.WRITE, `${TABLES.AUDIT_LOGS}/${record.id}`);
-      }
+      // Queue first so the count survives a dropped connection or expired Google token
+      await enqueueAuditRecord(record);
 
-      const state: LocationState = {
-          locationId: record.location,
-          status: 'audited',
-          timestamp: record.timestamp,
-          photoUrl: record.evidencePhotos?.[0],
-          description: record.notes,
-          reportedBy: record.teamMember
-      };
-
-      try {
-          await setDoc(doc(db, TABLES.LOCATION_STATES, record.location), state);
-      } catch (error) {
-          handleFirestoreError(error, OperationType.WRITE, `${TABLES.LOCATION_STATES}/${record.location}`);
-      }
-      
       // Update local storage so dashboard still shows it temporarily if needed
       const currentLogs = getLocal<AuditRecord[]>(LOCAL_KEYS.AUDIT_LOGS, []);
       setLocal(LOCAL_KEYS.AUDIT_LOGS, [record, ...currentLogs]);
       
       window.dispatchEvent(new Event('auditDataChanged'));
-      
-      await saveActivityLog({
-          type: 'scan',
-          title: 'Scan Terverifikasi (Tersimpan ke Sheets)',
-          description: `Operator: ${record.teamMember} memindai ${record.physicalQty} unit SKU: ${record.sku}`,
-          user: record.teamMember,
-          details: `Lokasi: ${record.location}`,
-          photos: record.evidencePhotos
-      });
+
+      if (navigator.onLine) {
+          flushPendingAudits().catch(e => console.error("Audit sync failed:", e));
+      }
   } catch (error: any) {
       console.error("Save failed:", error);
       throw error;
   }
 };
 
+// --- AUDIT TRAIL ---
+
+// Who made a change, as stored on the activity log. requirePermission has
+// already checked that a session exists.
+export const actorFields = () => {
+    const actor = getSessionUser()!;
+    return { user: actor.name, actorUsername: actor.username, actorRole: actor.role };
+};
+
+// Firestore rejects undefined, so absent values are recorded as null
+const diffFields = (before: Record<string, any>, after: Record<string, any>): FieldChange[] =>
+    Object.keys(after)
+        .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+        .map(field => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+
+// Edits, recounts and approvals only apply to live records; a soft-deleted
+// count has to be restored from the activity log first.
+const getLiveAuditRecord = async (id: string, missingMessage = "Data hitung tidak ditemukan."): Promise<AuditRecord> => {
+    const record = await getBackend().get<AuditRecord>(TABLES.AUDIT_LOGS, id);
+    if (!record) throw new Error(missingMessage);
+    if (record.deletedAt) throw new Error("Catatan ini sudah dihapus. Pulihkan dulu dari Aktivitas sebelum mengubahnya.");
+    return record;
+};
+
 export const updateAuditLog = async (id: string, updates: Partial<AuditRecord>) => {
+    requirePermission('editAudit');
+    const current = await getLiveAuditRecord(id);
+    const changesQty = (['physicalQty', 'systemQty', 'acceptedQty'] as const)
+        .some(field => updates[field] !== undefined && updates[field] !== current[field]);
+    if (current.approvalStatus === 'approved' && changesQty) {
+        throw new Error("Selisih catatan ini sudah disetujui dan tercatat di jurnal penyesuaian. Jumlahnya tidak dapat diubah.");
+    }
+    // A corrected quantity no longer matches the units it was counted in
+    if (current.unitEntry && updates.physicalQty !== undefined && updates.physicalQty !== current.physicalQty) {
+        updates = { ...updates, unitEntry: null };
+    }
+    const changes = diffFields(current, updates);
+    if (changes.length === 0) return;
     try {
-        try {
-            await updateDoc(doc(db, TABLES.AUDIT_LOGS, id), updates);
-        } catch (error) {
-            handleFirestoreError(error, OperationType.UPDATE, `${TABLES.AUDIT_LOGS}/${id}`);
-        }
+        await getBackend().update(TABLES.AUDIT_LOGS, id, updates);
         window.dispatchEvent(new Event('auditDataChanged'));
+        mirrorToSheets({ ...current, ...updates }, 'upsert');
         
         await saveActivityLog({
             type: 'update',
             title: 'Audit Record Updated',
-            description: `Catatan audit ${id} telah diperbarui.`,
-            user: 'User/Admin'
+            description: `Catatan ${current.sku} di ${current.location} diperbarui: ${changes.map(c => c.field).join(', ')}.`,
+            ...actorFields(),
+            targetTable: TABLES.AUDIT_LOGS,
+            targetId: id,
+            changes
         });
     } catch (e) {
         console.error("Update failed:", e);
@@ -309,20 +874,26 @@ export const updateAuditLog = async (id: string, updates: Partial<AuditRecord>)
     }
 };
 
+// Soft delete: the record stays in the table with deletedAt set, so it can be
+// brought back from the activity log.
 export const deleteAuditLog = async (id: string) => {
+    requirePermission('deleteAudit');
+    const current = await getLiveAuditRecord(id);
+    const actor = actorFields();
+    const updates = { deletedAt: Date.now(), deletedBy: actor.user };
     try {
-        try {
-            await deleteDoc(doc(db, TABLES.AUDIT_LOGS, id));
-        } catch (error) {
-            handleFirestoreError(error, OperationType.DELETE, `${TABLES.AUDIT_LOGS}/${id}`);
-        }
+        await getBackend().update<AuditRecord>(TABLES.AUDIT_LOGS, id, updates);
         window.dispatchEvent(new Event('auditDataChanged'));
+        mirrorToSheets(current, 'delete');
         
         await saveActivityLog({
             type: 'delete',
             title: 'Audit Record Deleted',
-            description: `Catatan audit ${id} telah dihapus.`,
-            user: 'Admin'
+            description: `Catatan ${current.sku} di ${current.location} (${current.teamMember}) dihapus.`,
+            ...actor,
+            targetTable: TABLES.AUDIT_LOGS,
+            targetId: id,
+            changes: diffFields(current, updates)
         });
     } catch (e) {
         console.error("Cloud delete failed:", e);
@@ -330,77 +901,590 @@ export const deleteAuditLog = async (id: string) => {
     }
 };
 
-// --- HELPER: MOVE DATA (Copy then Delete) ---
-const moveTableData = async (
-    sourceCollection: string, 
-    targetCollection: string, 
-    onStatus?: (msg: string) => void
-) => {
-    let snapshot;
-    try {
-        snapshot = await getDocs(collection(db, sourceCollection));
-    } catch (e) {
-        handleFirestoreError(e, OperationType.LIST, sourceCollection);
+export const isRestorableDeletion = (log: ActivityLog) =>
+    log.type === 'delete' && log.targetTable === TABLES.AUDIT_LOGS && !!log.targetId;
+
+export const restoreAuditLog = async (id: string) => {
+    requirePermission('deleteAudit');
+    const current = await getBackend().get<AuditRecord>(TABLES.AUDIT_LOGS, id);
+    if (!current) throw new Error("Data hitung sudah tidak ada (mungkin terhapus saat reset sesi).");
+    if (!current.deletedAt) throw new Error("Catatan ini tidak dalam status terhapus.");
+    const updates = { deletedAt: null, deletedBy: null };
+    await getBackend().update<AuditRecord>(TABLES.AUDIT_LOGS, id, updates);
+    window.dispatchEvent(new Event('auditDataChanged'));
+    mirrorToSheets({ ...current, ...updates }, 'upsert');
+
+    await saveActivityLog({
+        type: 'create',
+        title: 'Audit Record Restored',
+        description: `Catatan ${current.sku} di ${current.location} dipulihkan.`,
+        ...actorFields(),
+        targetTable: TABLES.AUDIT_LOGS,
+        targetId: id,
+        changes: diffFields(current, updates)
+    });
+};
+
+// --- RECOUNT WORKFLOW ---
+// A count whose variance exceeds the session threshold is flagged for a second,
+// independent count by someone else. A supervisor then settles the final
+// quantity from the two counts.
+
+// Prefer the counter with the fewest open recounts among those already active
+// in the session, so the recount lands on someone who is on the floor.
+export const pickRecountAssignee = (record: AuditRecord): string | undefined => {
+    const sessionId = sessionIdOf(record);
+    const logs = getLocal<AuditRecord[]>(LOCAL_KEYS.AUDIT_LOGS, []).filter(l => sessionIdOf(l) === sessionId);
+    const load = new Map<string, number>();
+    logs.forEach(l => {
+        if (l.teamMember && l.teamMember !== record.teamMember && !load.has(l.teamMember)) load.set(l.teamMember, 0);
+    });
+    logs.forEach(l => {
+        if (l.countStatus === 'recount_required' && l.recountAssignee && load.has(l.recountAssignee)) {
+            load.set(l.recountAssignee, load.get(l.recountAssignee)! + 1);
+        }
+    });
+    return [...load.entries()].sort((a, b) => a[1] - b[1])[0]?.[0];
+};
+
+export const flagForRecount = (record: AuditRecord, session: CountSession | undefined): AuditRecord => {
+    if (variancePercent(record.systemQty, record.physicalQty) <= recountThresholdOf(session)) return record;
+    const assignee = pickRecountAssignee(record);
+    return { ...record, countStatus: 'recount_required', ...(assignee ? { recountAssignee: assignee } : {}) };
+};
+
+// Open recounts the given team member may pick up: assigned to them, or
+// unassigned and counted by someone else.
+export const getRecountTasks = (logs: AuditRecord[], teamMember: string) =>
+    logs.filter(l => l.countStatus === 'recount_required'
+        && l.teamMember !== teamMember
+        && (!l.recountAssignee || l.recountAssignee === teamMember));
+
+export const submitRecount = async (id: string, input: { physicalQty: number; unitEntry?: UnitQuantity[]; notes?: string }) => {
+    requirePermission('createAudit');
+    const teamMember = getSessionUser()?.name || '';
+    const record = await getLiveAuditRecord(id, "Data hitung belum tersinkron. Coba lagi sebentar lagi.");
+    if (record.countStatus !== 'recount_required') throw new Error("Item ini tidak lagi menunggu hitung ulang.");
+    if (record.teamMember === teamMember) throw new Error("Hitung ulang harus dilakukan oleh anggota tim yang berbeda.");
+    if (record.recountAssignee && record.recountAssignee !== teamMember) {
+        throw new Error(`Hitung ulang ini ditugaskan kepada ${record.recountAssignee}.`);
     }
-    
-    if (snapshot.empty) return;
 
-    const docs = snapshot.docs;
-    const total = docs.length;
-    const batchSize = 400;
-    
-    if (onStatus) onStatus(`Backing up ${sourceCollection}...`);
-    for (let i = 0; i < total; i += batchSize) {
-        const chunk = docs.slice(i, i + batchSize);
-        const batch = writeBatch(db);
-        chunk.forEach(docSnap => {
-            const targetDocRef = doc(db, targetCollection, docSnap.id);
-            batch.set(targetDocRef, docSnap.data());
-        });
-        await batch.commit();
+    const recount: RecountEntry = {
+        physicalQty: input.physicalQty,
+        teamMember,
+        timestamp: Date.now(),
+        ...(input.unitEntry ? { unitEntry: input.unitEntry } : {}),
+        ...(input.notes ? { notes: input.notes } : {})
+    };
+    const updates: Partial<AuditRecord> = { recount, countStatus: 'recounted' };
+    await getBackend().update<AuditRecord>(TABLES.AUDIT_LOGS, id, updates);
+    window.dispatchEvent(new Event('auditDataChanged'));
+
+    await saveActivityLog({
+        type: 'scan',
+        title: 'Recount Submitted',
+        description: `${teamMember} menghitung ulang SKU ${record.sku} di ${record.location}: ${input.physicalQty} unit.`,
+        ...actorFields(),
+        targetTable: TABLES.AUDIT_LOGS,
+        targetId: id,
+        changes: diffFields(record, updates)
+    });
+};
+
+export const reassignRecount = async (id: string, assignee: string) => {
+    requirePermission('approveVariance');
+    const record = await getLiveAuditRecord(id);
+    if (record.teamMember === assignee) throw new Error("Hitung ulang tidak boleh ditugaskan ke penghitung pertama.");
+    const updates = { recountAssignee: assignee };
+    await getBackend().update<AuditRecord>(TABLES.AUDIT_LOGS, id, updates);
+    window.dispatchEvent(new Event('auditDataChanged'));
+
+    await saveActivityLog({
+        type: 'update',
+        title: 'Recount Reassigned',
+        description: `Hitung ulang SKU ${record.sku} di ${record.location} ditugaskan kepada ${assignee}.`,
+        ...actorFields(),
+        targetTable: TABLES.AUDIT_LOGS,
+        targetId: id,
+        changes: diffFields(record, updates)
+    });
+};
+
+export const resolveRecount = async (id: string, acceptedQty: number) => {
+    requirePermission('approveVariance');
+    const record = await getLiveAuditRecord(id);
+    if (!record.countStatus) throw new Error("Item ini tidak memerlukan hitung ulang.");
+    if (!Number.isFinite(acceptedQty) || acceptedQty < 0) throw new Error("Jumlah akhir tidak valid.");
+
+    const actor = actorFields();
+    const updates: Partial<AuditRecord> = {
+        countStatus: 'resolved',
+        acceptedQty,
+        resolvedBy: actor.user,
+        resolvedAt: Date.now()
+    };
+    await getBackend().update<AuditRecord>(TABLES.AUDIT_LOGS, id, updates);
+    window.dispatchEvent(new Event('auditDataChanged'));
+    mirrorToSheets({ ...record, ...updates }, 'upsert');
+
+    await saveActivityLog({
+        type: 'adjustment',
+        title: 'Recount Resolved',
+        description: `Jumlah akhir SKU ${record.sku} di ${record.location} ditetapkan ${acceptedQty} unit (hitung 1: ${record.physicalQty}, hitung ulang: ${record.recount?.physicalQty ?? '-'}).`,
+        ...actor,
+        targetTable: TABLES.AUDIT_LOGS,
+        targetId: id,
+        changes: diffFields(record, updates)
+    });
+};
+
+// --- VARIANCE APPROVAL ---
+// Supervisors accept or reject every non-zero variance with a reason code.
+// Accepted variances become lines in the adjustment journal, which is exported
+// and posted to the ERP.
+
+export const VARIANCE_REASON_LABELS: Record<VarianceReasonCode, string> = {
+    miscount: 'Salah Hitung Sebelumnya',
+    damaged: 'Barang Rusak',
+    expired: 'Kedaluwarsa',
+    theft_loss: 'Hilang / Pencurian',
+    misplaced: 'Salah Lokasi',
+    unrecorded_receipt: 'Penerimaan Belum Dicatat',
+    unrecorded_issue: 'Pengeluaran Belum Dicatat',
+    other: 'Lainnya'
+};
+
+export const varianceOf = (record: AuditRecord) => acceptedQtyOf(record) - (record.systemQty || 0);
+
+// Records synced before full persistence carry no quantities, so they cannot be judged
+const hasQuantities = (record: AuditRecord) => typeof record.physicalQty === 'number' && typeof record.systemQty === 'number';
+
+// Counts with a variance that still need a decision. Open recounts are settled first.
+export const getApprovalQueue = (logs: AuditRecord[]) =>
+    logs.filter(l => hasQuantities(l)
+        && !l.approvalStatus
+        && l.countStatus !== 'recount_required'
+        && l.countStatus !== 'recounted'
+        && varianceOf(l) !== 0);
+
+// The database copy wins, but for such older records the local cache may still hold the quantities
+const getRecordWithQuantities = async (id: string) => {
+    const stored = await getLiveAuditRecord(id);
+    const cached = getLocal<AuditRecord[]>(LOCAL_KEYS.AUDIT_LOGS, []).find(l => l.id === id);
+    const record: AuditRecord = hasQuantities(stored) ? stored : { ...cached, ...stored };
+    if (!hasQuantities(record)) throw new Error("Jumlah hitung untuk catatan ini belum tersimpan di database.");
+    return record;
+};
+
+export const approveVariance = async (id: string, reasonCode: VarianceReasonCode, note?: string) => {
+    requirePermission('approveVariance');
+    const record = await getRecordWithQuantities(id);
+    if (record.approvalStatus) throw new Error("Selisih ini sudah diputuskan.");
+    if (record.countStatus === 'recount_required' || record.countStatus === 'recounted') {
+        throw new Error("Selesaikan hitung ulang sebelum menyetujui selisih.");
     }
 
-    if (onStatus) onStatus(`Clearing ${sourceCollection}...`);
-    const deleteBatch = writeBatch(db);
-    docs.forEach(docSnap => {
-        deleteBatch.delete(docSnap.ref);
+    const actor = actorFields();
+    const approvedBy = actor.user;
+    const approvedAt = Date.now();
+    const entry: AdjustmentEntry = {
+        id: record.id,
+        auditId: record.id,
+        sessionId: sessionIdOf(record),
+        sku: record.sku,
+        itemName: record.itemName,
+        ...(record.unit ? { unit: record.unit } : {}),
+        batchNumber: record.batchNumber || '-',
+        expiryDate: record.expiryDate || '-',
+        location: record.location,
+        systemQty: record.systemQty,
+        countedQty: acceptedQtyOf(record),
+        qtyDelta: varianceOf(record),
+        reasonCode,
+        ...(note ? { note } : {}),
+        approvedBy,
+        approvedAt
+    };
+    // Journal first: if the record update fails, approving again rewrites the same line
+    await getBackend().set(TABLES.ADJUSTMENTS, entry.id, entry);
+    const updates: Partial<AuditRecord> = {
+        approvalStatus: 'approved',
+        approvalReason: reasonCode,
+        ...(note ? { approvalNote: note } : {}),
+        approvedBy,
+        approvedAt,
+        // Keep the approved numbers next to the decision
+        systemQty: record.systemQty,
+        physicalQty: record.physicalQty,
+        variance: varianceOf(record)
+    };
+    await getBackend().update<AuditRecord>(TABLES.AUDIT_LOGS, id, updates);
+    window.dispatchEvent(new Event('auditDataChanged'));
+
+    await saveActivityLog({
+        type: 'adjustment',
+        title: 'Variance Approved',
+        description: `Selisih ${entry.qtyDelta > 0 ? '+' : ''}${entry.qtyDelta} SKU ${record.sku} di ${record.location} disetujui (${VARIANCE_REASON_LABELS[reasonCode]}).`,
+        ...actor,
+        ...(note ? { details: note } : {}),
+        targetTable: TABLES.AUDIT_LOGS,
+        targetId: id,
+        changes: diffFields(record, updates)
     });
-    await deleteBatch.commit();
+};
+
+export const rejectVariance = async (id: string, reasonCode: VarianceReasonCode, note?: string) => {
+    requirePermission('approveVariance');
+    const record = await getLiveAuditRecord(id);
+    if (record.approvalStatus) throw new Error("Selisih ini sudah diputuskan.");
+
+    const actor = actorFields();
+    const updates: Partial<AuditRecord> = {
+        approvalStatus: 'rejected',
+        approvalReason: reasonCode,
+        ...(note ? { approvalNote: note } : {}),
+        approvedBy: actor.user,
+        approvedAt: Date.now()
+    };
+    await getBackend().update<AuditRecord>(TABLES.AUDIT_LOGS, id, updates);
+    window.dispatchEvent(new Event('auditDataChanged'));
+
+    await saveActivityLog({
+        type: 'alert',
+        title: 'Variance Rejected',
+        description: `Selisih SKU ${record.sku} di ${record.location} ditolak (${VARIANCE_REASON_LABELS[reasonCode]}).`,
+        ...actor,
+        ...(note ? { details: note } : {}),
+        targetTable: TABLES.AUDIT_LOGS,
+        targetId: id,
+        changes: diffFields(record, updates)
+    });
+};
+
+export const markAdjustmentsPosted = async (ids: string[]) => {
+    requirePermission('approveVariance');
+    const actor = actorFields();
+    const postedAt = Date.now();
+    await Promise.all(ids.map(id => getBackend().update<AdjustmentEntry>(TABLES.ADJUSTMENTS, id, { postedAt, postedBy: actor.user })));
+
+    await saveActivityLog({
+        type: 'adjustment',
+        title: 'Adjustments Posted',
+        description: `${ids.length} baris jurnal penyesuaian ditandai sudah diposting ke ERP.`,
+        ...actor,
+        targetTable: TABLES.ADJUSTMENTS
+    });
+};
+
+// --- COUNT SESSIONS ---
+
+export const createCountSession = async (input: {
+    name: string;
+    startDate: string;
+    endDate?: string;
+    scope: CountSessionScope;
+    blindCount?: boolean;
+    recountThresholdPercent?: number;
+}): Promise<CountSession> => {
+    requirePermission('manageSessions');
+    const name = input.name.trim();
+    if (!name) throw new Error("Nama sesi wajib diisi.");
+    if (input.endDate && input.endDate < input.startDate) {
+        throw new Error("Tanggal selesai tidak boleh sebelum tanggal mulai.");
+    }
+    const threshold = input.recountThresholdPercent ?? DEFAULT_RECOUNT_THRESHOLD_PERCENT;
+    if (!Number.isFinite(threshold) || threshold < 0) throw new Error("Ambang hitung ulang tidak valid.");
+    const session: CountSession = {
+        id: uuidv4(),
+        name,
+        startDate: input.startDate,
+        ...(input.endDate ? { endDate: input.endDate } : {}),
+        scope: input.scope,
+        status: 'planned',
+        blindCount: !!input.blindCount,
+        recountThresholdPercent: threshold,
+        createdBy: actorFields().user,
+        createdAt: Date.now()
+    };
+    await getBackend().set(TABLES.COUNT_SESSIONS, session.id, session);
+
+    await saveActivityLog({
+        type: 'create',
+        title: 'Count Session Planned',
+        description: `Sesi hitung "${name}" dijadwalkan mulai ${input.startDate}.`,
+        ...actorFields()
+    });
+    return session;
+};
+
+export const setCountSessionStatus = async (id: string, status: CountSessionStatus) => {
+    requirePermission('manageSessions');
+    const session = await getBackend().get<CountSession>(TABLES.COUNT_SESSIONS, id);
+    if (!session) throw new Error("Sesi hitung tidak ditemukan.");
+
+    const updates: Partial<CountSession> = status === 'closed' ? { status, closedAt: Date.now() } : { status };
+    await getBackend().update(TABLES.COUNT_SESSIONS, id, updates);
+
+    await saveActivityLog({
+        type: status === 'active' ? 'start' : 'adjustment',
+        title: status === 'active' ? 'Count Session Started' : status === 'closed' ? 'Count Session Closed' : 'Count Session Updated',
+        description: `Status sesi "${session.name}" berubah menjadi ${status}.`,
+        ...actorFields()
+    });
+};
+
+export const setCountSessionBlindCount = async (id: string, blindCount: boolean) => {
+    requirePermission('manageSessions');
+    await getBackend().update<CountSession>(TABLES.COUNT_SESSIONS, id, { blindCount });
+
+    await saveActivityLog({
+        type: 'update',
+        title: 'Count Session Updated',
+        description: `Blind count ${blindCount ? 'diaktifkan' : 'dinonaktifkan'} untuk sesi "${countSessionName(id)}".`,
+        ...actorFields()
+    });
+};
+
+// Before count sessions, every record lived in one global audit table. The
+// first time a manager opens the app, file those records under a 'default'
+// session so they show up next to new sessions instead of disappearing.
+export const ensureDefaultCountSession = async () => {
+    const sessions = await getBackend().list<CountSession>(TABLES.COUNT_SESSIONS);
+    if (sessions.length > 0) return;
+
+    const logs = await getBackend().list<AuditRecord>(TABLES.AUDIT_LOGS);
+    const firstScan = logs.reduce((min, l) => Math.min(min, l.timestamp || min), Date.now());
+    const session: CountSession = {
+        id: DEFAULT_COUNT_SESSION_ID,
+        name: 'Stock Opname Awal',
+        startDate: new Date(firstScan).toISOString().slice(0, 10),
+        scope: { zones: [], categories: [] },
+        status: 'active',
+        createdBy: actorFields().user,
+        createdAt: firstScan
+    };
+    await getBackend().set(TABLES.COUNT_SESSIONS, session.id, session);
+};
+
+// --- GOOGLE SHEETS TARGET ---
+
+// Before targets were configurable every count went to this spreadsheet's
+// first tab; the pre-session 'default' session keeps mirroring there.
+const LEGACY_SHEETS_TARGET: SheetsTarget = {
+    spreadsheetId: '1OH-PS33N0WLgE4AMF6PpO2pL9kXfyNuQlDuQol-KwgA',
+    sheetTitle: '',
+    columns: DEFAULT_SHEETS_COLUMNS
+};
+
+// One spreadsheet per session even when several queued counts need it at once
+const pendingSpreadsheets = new Map<string, Promise<SheetsTarget>>();
+
+const saveSessionSheetsTarget = async (sessionId: string, target: SheetsTarget, description: string) => {
+    await getBackend().update<CountSession>(TABLES.COUNT_SESSIONS, sessionId, { sheetsTarget: target });
+    setLocal(LOCAL_KEYS.COUNT_SESSIONS, getCountSessions().map(s => s.id === sessionId ? { ...s, sheetsTarget: target } : s));
+
+    await saveActivityLog({
+        type: 'update',
+        title: 'Google Sheets Target Updated',
+        description,
+        ...actorFields()
+    });
+};
+
+export const createSessionSpreadsheet = async (sessionId: string, columns: SheetsColumnField[] = DEFAULT_SHEETS_COLUMNS): Promise<SheetsTarget> => {
+    requirePermission('manageIntegrations');
+    if (columns.length === 0) throw new Error("Pilih minimal satu kolom.");
+    const pending = pendingSpreadsheets.get(sessionId);
+    if (pending) return pending;
+
+    const name = countSessionName(sessionId);
+    const creation = (async () => {
+        const target = await createSpreadsheet(`Smart Cycle Count - ${name}`, 'Audit', columns);
+        await saveSessionSheetsTarget(sessionId, target, `Spreadsheet baru dibuat untuk sesi "${name}".`);
+        return target;
+    })();
+    pendingSpreadsheets.set(sessionId, creation);
+    try {
+        return await creation;
+    } finally {
+        pendingSpreadsheets.delete(sessionId);
+    }
+};
+
+export const setSessionSheetsTarget = async (sessionId: string, input: { spreadsheet: string; sheetTitle: string; columns: SheetsColumnField[] }): Promise<SheetsTarget> => {
+    requirePermission('manageIntegrations');
+    const spreadsheetId = parseSpreadsheetId(input.spreadsheet);
+    if (!spreadsheetId) throw new Error("Isi URL atau ID spreadsheet.");
+    if (input.columns.length === 0) throw new Error("Pilih minimal satu kolom.");
+
+    // Checks access, creates the tab if needed and rewrites the header row
+    const target = await prepareSheetsTarget({ spreadsheetId, sheetTitle: input.sheetTitle.trim(), columns: input.columns });
+    await saveSessionSheetsTarget(sessionId, target, `Sesi "${countSessionName(sessionId)}" disalin ke tab "${target.sheetTitle}" (${target.columns.length} kolom).`);
+    return target;
+};
+
+// Sessions without a target get a new spreadsheet when an admin's device
+// mirrors the first count; other devices wait until one has been set.
+const resolveSheetsTarget = async (sessionId: string): Promise<SheetsTarget> => {
+    const session = getCountSessions().find(s => s.id === sessionId);
+    if (session?.sheetsTarget) return session.sheetsTarget;
+    if (sessionId === DEFAULT_COUNT_SESSION_ID) return LEGACY_SHEETS_TARGET;
+    if (can(getSessionUser(), 'manageIntegrations')) return createSessionSpreadsheet(sessionId);
+    throw new Error(`Spreadsheet untuk sesi "${countSessionName(sessionId)}" belum diatur admin.`);
 };
 
 // --- HELPER: CLEAR TABLE ---
 const clearTable = async (collectionName: string) => {
-    const snapshot = await getDocs(collection(db, collectionName));
-    if (snapshot.empty) return;
-    const batch = writeBatch(db);
-    snapshot.docs.forEach(docSnap => {
-        batch.delete(docSnap.ref);
-    });
-    await batch.commit();
+    const entries = await getBackend().listEntries(collectionName);
+    if (entries.length === 0) return;
+    await getBackend().removeMany(collectionName, entries.map(e => e.id));
 };
 
-// --- FEATURE: RESET ALL DATA (With Backup) ---
-export const resetAllAuditData = async (onStatus?: (msg: string) => void) => {
+// --- FEATURE: BACKUP HISTORY ---
+// Every reset (and every manual backup) writes a new snapshot: one metadata row
+// in `backups` plus a copy of each record in `backup_records`. Snapshots are
+// never overwritten, only deleted explicitly.
+
+type BackupRecordKind = 'audit_log' | 'location_state';
+
+interface BackupRecord {
+    id: string;
+    backupId: string;
+    kind: BackupRecordKind;
+    originalId: string; // document id in the live table
+    data: AuditRecord | LocationState;
+}
+
+const LIVE_TABLES: Record<BackupRecordKind, string> = {
+    audit_log: TABLES.AUDIT_LOGS,
+    location_state: TABLES.LOCATION_STATES
+};
+
+const backupRecordId = (backupId: string, kind: BackupRecordKind, originalId: string) =>
+    `${backupId}__${kind}__${originalId}`;
+
+const toBackupRecords = (backupId: string, kind: BackupRecordKind, entries: BackendEntry<any>[]): BackendEntry<BackupRecord>[] =>
+    entries.map(e => ({
+        id: backupRecordId(backupId, kind, e.id),
+        data: { id: backupRecordId(backupId, kind, e.id), backupId, kind, originalId: e.id, data: e.data }
+    }));
+
+// Soft-deleted counts are left out of snapshots; resets and replacing restores
+// still clear them from the table (deletedLogIds).
+const listLiveEntries = async (sessionId?: string) => {
+    const inScope = (e: BackendEntry<{ sessionId?: string }>) => !sessionId || sessionIdOf(e.data) === sessionId;
+    const allLogs = (await getBackend().listEntries<AuditRecord>(TABLES.AUDIT_LOGS)).filter(inScope);
+    const states = (await getBackend().listEntries<LocationState>(TABLES.LOCATION_STATES)).filter(inScope);
+    const logs = allLogs.filter(e => !e.data.deletedAt);
+    const deletedLogIds = allLogs.filter(e => e.data.deletedAt).map(e => e.id);
+    return { logs, states, deletedLogIds };
+};
+
+const writeSnapshot = async (
+    meta: Omit<BackupSnapshot, 'id' | 'auditLogCount' | 'locationStateCount'>,
+    logs: BackendEntry<AuditRecord>[],
+    states: BackendEntry<LocationState>[],
+    onStatus?: (msg: string) => void
+): Promise<BackupSnapshot> => {
+    const snapshot: BackupSnapshot = {
+        ...meta,
+        id: uuidv4(),
+        auditLogCount: logs.length,
+        locationStateCount: states.length
+    };
+    if (onStatus) onStatus(`Menyimpan backup (${logs.length} scan, ${states.length} lokasi)...`);
+    await getBackend().setMany(TABLES.BACKUP_RECORDS, [
+        ...toBackupRecords(snapshot.id, 'audit_log', logs),
+        ...toBackupRecords(snapshot.id, 'location_state', states)
+    ]);
+    // Metadata goes last so an interrupted backup never shows up as restorable
+    await getBackend().set(TABLES.BACKUPS, snapshot.id, snapshot);
+    return snapshot;
+};
+
+const snapshotLiveData = async (reason: BackupReason, sessionId?: string, onStatus?: (msg: string) => void) => {
+    const { logs, states, deletedLogIds } = await listLiveEntries(sessionId);
+    const snapshot = await writeSnapshot({
+        createdAt: Date.now(),
+        createdBy: actorFields().user,
+        reason,
+        ...(sessionId ? { sessionId, sessionName: countSessionName(sessionId) } : {})
+    }, logs, states, onStatus);
+    return { snapshot, logs, states, deletedLogIds };
+};
+
+// The old single-slot backup tables become one 'legacy' snapshot the first
+// time an admin opens the backup history.
+const migrateLegacyBackup = async () => {
+    const logs = await getBackend().listEntries<AuditRecord>(TABLES.BACKUP_AUDIT_LOGS);
+    const states = await getBackend().listEntries<LocationState>(TABLES.BACKUP_LOCATION_STATES);
+    if (logs.length === 0 && states.length === 0) return;
+
+    const lastWrite = [...logs, ...states].reduce((max, e) => Math.max(max, e.data.timestamp || 0), 0);
+    // Legacy records predate count sessions, so they all belong to the default one
+    await writeSnapshot({
+        createdAt: lastWrite || Date.now(),
+        createdBy: actorFields().user,
+        reason: 'legacy',
+        sessionId: DEFAULT_COUNT_SESSION_ID,
+        sessionName: countSessionName(DEFAULT_COUNT_SESSION_ID)
+    }, logs, states);
+    await clearTable(TABLES.BACKUP_AUDIT_LOGS);
+    await clearTable(TABLES.BACKUP_LOCATION_STATES);
+};
+
+export const listBackups = async (): Promise<BackupSnapshot[]> => {
+    requirePermission('restoreBackup');
     try {
-        let logsSnap, statesSnap;
-        try {
-            logsSnap = await getDocs(collection(db, TABLES.AUDIT_LOGS));
-            statesSnap = await getDocs(collection(db, TABLES.LOCATION_STATES));
-        } catch (error) {
-            handleFirestoreError(error, OperationType.LIST, 'All');
-        }
+        await migrateLegacyBackup();
+    } catch (e) {
+        console.warn("Legacy backup migration failed:", e);
+    }
+    return getBackend().list<BackupSnapshot>(TABLES.BACKUPS, { orderBy: 'createdAt', direction: 'desc' });
+};
 
-        if (logsSnap.empty && statesSnap.empty) {
-            throw new Error("Tidak ada data untuk di-reset.");
-        }
+export const createBackup = async (sessionId?: string, onStatus?: (msg: string) => void) => {
+    requirePermission('restoreBackup');
+    const { snapshot } = await snapshotLiveData('manual', sessionId, onStatus);
+    if (snapshot.auditLogCount === 0 && snapshot.locationStateCount === 0) {
+        await deleteBackup(snapshot.id);
+        throw new Error("Tidak ada data untuk di-backup.");
+    }
 
+    await saveActivityLog({
+        type: 'create',
+        title: 'Backup Created',
+        description: `Backup manual dibuat: ${snapshot.auditLogCount} scan, ${snapshot.locationStateCount} lokasi${snapshot.sessionName ? ` (sesi ${snapshot.sessionName})` : ''}.`,
+        ...actorFields()
+    });
+    return snapshot;
+};
+
+export const deleteBackup = async (backupId: string) => {
+    requirePermission('restoreBackup');
+    const records = await getBackend().listWhere<BackupRecord>(TABLES.BACKUP_RECORDS, 'backupId', backupId);
+    // Metadata first: a half-deleted snapshot must not stay listed as restorable
+    await getBackend().remove(TABLES.BACKUPS, backupId);
+    await getBackend().removeMany(TABLES.BACKUP_RECORDS, records.map(r => r.id));
+};
+
+// --- FEATURE: RESET SESSION DATA (With Backup) ---
+// Only the given session is cleared; other sessions' counts stay untouched.
+export const resetAllAuditData = async (sessionId: string, onStatus?: (msg: string) => void) => {
+    requirePermission('resetData');
+    try {
         if (onStatus) onStatus("Menyiapkan backup...");
+        const { snapshot, logs, states, deletedLogIds } = await snapshotLiveData('reset', sessionId, onStatus);
 
-        await clearTable(BACKUP_TABLES.AUDIT_LOGS);
-        await clearTable(BACKUP_TABLES.LOCATION_STATES);
+        if (logs.length === 0 && states.length === 0) {
+            await deleteBackup(snapshot.id);
+            throw new Error("Tidak ada data untuk di-reset.");
+        }
 
-        await moveTableData(TABLES.AUDIT_LOGS, BACKUP_TABLES.AUDIT_LOGS, onStatus);
-        await moveTableData(TABLES.LOCATION_STATES, BACKUP_TABLES.LOCATION_STATES, onStatus);
+        if (onStatus) onStatus("Mengosongkan data sesi...");
+        await getBackend().removeMany(TABLES.AUDIT_LOGS, [...logs.map(e => e.id), ...deletedLogIds]);
+        await getBackend().removeMany(TABLES.LOCATION_STATES, states.map(e => e.id));
 
         localStorage.removeItem(LOCAL_KEYS.AUDIT_LOGS);
         localStorage.removeItem(LOCAL_KEYS.STATES);
@@ -411,8 +1495,8 @@ export const resetAllAuditData = async (onStatus?: (msg: string) => void) => {
         await saveActivityLog({
             type: 'adjustment',
             title: 'System Reset',
-            description: 'Semua data audit telah di-reset dan dipindah ke backup.',
-            user: 'Admin'
+            description: `Data audit sesi ${countSessionName(sessionId)} telah di-reset (${logs.length} scan, ${states.length} lokasi disimpan ke backup).`,
+            ...actorFields()
         });
     } catch (e: any) {
         console.error("Reset failed:", e);
@@ -421,34 +1505,55 @@ export const resetAllAuditData = async (onStatus?: (msg: string) => void) => {
 };
 
 // --- FEATURE: RESTORE DATA ---
-export const restoreAuditData = async (onStatus?: (msg: string) => void) => {
+// 'merge' only adds records that no longer exist, so anything counted after the
+// backup wins. 'replace' first backs up and clears the snapshot's scope (its
+// session, or everything for a full backup), then writes the snapshot back.
+export const restoreBackup = async (backupId: string, mode: BackupRestoreMode, onStatus?: (msg: string) => void) => {
+    requirePermission('restoreBackup');
     try {
         if (onStatus) onStatus("Mengecek backup...");
 
-        let logsSnap, statesSnap;
-        try {
-            logsSnap = await getDocs(collection(db, BACKUP_TABLES.AUDIT_LOGS));
-            statesSnap = await getDocs(collection(db, BACKUP_TABLES.LOCATION_STATES));
-        } catch (error) {
-            handleFirestoreError(error, OperationType.LIST, 'Backup');
-        }
+        const snapshot = await getBackend().get<BackupSnapshot>(TABLES.BACKUPS, backupId);
+        if (!snapshot) throw new Error("Backup tidak ditemukan.");
+        const records = await getBackend().listWhere<BackupRecord>(TABLES.BACKUP_RECORDS, 'backupId', backupId);
+        if (records.length === 0) throw new Error("Backup ini tidak berisi data.");
 
-        if (logsSnap.empty && statesSnap.empty) {
-            throw new Error("Tidak ada data backup yang ditemukan.");
+        if (mode === 'replace') {
+            if (onStatus) onStatus("Membuat backup data saat ini...");
+            const { logs, states, deletedLogIds } = await snapshotLiveData('restore', snapshot.sessionId, onStatus);
+            await getBackend().removeMany(TABLES.AUDIT_LOGS, [...logs.map(e => e.id), ...deletedLogIds]);
+            await getBackend().removeMany(TABLES.LOCATION_STATES, states.map(e => e.id));
         }
 
-        await moveTableData(BACKUP_TABLES.AUDIT_LOGS, TABLES.AUDIT_LOGS, onStatus);
-        await moveTableData(BACKUP_TABLES.LOCATION_STATES, TABLES.LOCATION_STATES, onStatus);
+        let restored = 0;
+        for (const kind of Object.keys(LIVE_TABLES) as BackupRecordKind[]) {
+            const table = LIVE_TABLES[kind];
+            // Snapshots taken before deleted counts were left out may still hold them
+            const saved = records
+                .filter(r => r.data.kind === kind && !(r.data.data as AuditRecord).deletedAt)
+                .map(r => ({ id: r.data.originalId, data: r.data.data }));
+            let toWrite = saved;
 
+            if (mode === 'merge') {
+                const existing = new Set((await getBackend().listEntries(table)).map(e => e.id));
+                toWrite = saved.filter(e => !existing.has(e.id));
+            }
+            if (toWrite.length > 0) {
+                if (onStatus) onStatus(`Mengembalikan ${toWrite.length} data ke ${table}...`);
+                await getBackend().setMany(table, toWrite);
+            }
+            restored += toWrite.length;
+        }
         window.dispatchEvent(new Event('auditDataChanged'));
         if (onStatus) onStatus("Data berhasil dikembalikan!");
 
         await saveActivityLog({
             type: 'adjustment',
             title: 'Data Restored',
-            description: 'Data audit telah dipulihkan dari data cadangan (backup).',
-            user: 'Admin'
+            description: `Backup ${new Date(snapshot.createdAt).toLocaleString('id-ID')} dipulihkan (${mode === 'merge' ? 'gabung' : 'timpa'}, ${restored} data).`,
+            ...actorFields()
         });
+        return restored;
     } catch (e: any) {
         console.error("Restore failed:", e);
         throw new Error(e.message || "Gagal mengembalikan data.");
@@ -456,28 +1561,29 @@ export const restoreAuditData = async (onStatus?: (msg: string) => void) => {
 };
 
 export const updateLocationStatus = async (
-    locationName: string, 
+    locationId: string, 
     status: LocationStatusType,
-    data?: { photoUrl?: string, description?: string, teamMember?: string }
+    data?: { photoUrl?: string, description?: string, teamMember?: string, sessionId?: string }
 ) => {
-    const state: LocationState = {
-        locationId: locationName, status, timestamp: Date.now(),
-        photoUrl: data?.photoUrl, description: data?.description, reportedBy: data?.teamMember
-    };
+    requirePermission('createAudit');
+    const sessionId = data?.sessionId || getSelectedCountSessionId();
+    const code = locationId.trim().toUpperCase();
+    // "Tandai Kosong" has no photo or description, which Firestore rejects as undefined
+    const state: LocationState = withoutUndefined({
+        locationId: code, status, timestamp: Date.now(),
+        photoUrl: data?.photoUrl, description: data?.description, reportedBy: data?.teamMember,
+        sessionId
+    });
     try {
-        try {
-            await setDoc(doc(db, TABLES.LOCATION_STATES, locationName), state);
-        } catch (error) {
-            handleFirestoreError(error, OperationType.WRITE, `${TABLES.LOCATION_STATES}/${locationName}`);
-        }
+        await getBackend().set(TABLES.LOCATION_STATES, locationStateKey(sessionId, code), state);
         
         await saveActivityLog({
             type: status === 'damaged' ? 'alert' : 'update',
             title: status === 'damaged' ? 'Discrepancy Alert' : 'Location Status Updated',
             description: status === 'damaged' 
-                ? `Ketidaksesuaian kritis terdeteksi di lokasi ${locationName}. Diperlukan review manual.`
-                : `Status lokasi ${locationName} berubah menjadi ${status}.`,
-            user: data?.teamMember || 'System',
+                ? `Ketidaksesuaian kritis terdeteksi di lokasi ${code}. Diperlukan review manual.`
+                : `Status lokasi ${code} berubah menjadi ${status}.`,
+            ...actorFields(),
             details: data?.description,
             photos: data?.photoUrl ? [data.photoUrl] : undefined
         });
@@ -486,5 +1592,17 @@ export const updateLocationStatus = async (
     }
 };
 
-export const getAuditLogs = async (): Promise<AuditRecord[]> => getLocal<AuditRecord[]>(LOCAL_KEYS.AUDIT_LOGS, []);
-export const getLocationStates = async (): Promise<Record<string, LocationState>> => getLocal<Record<string, LocationState>>(LOCAL_KEYS.STATES, {});
+export const getAuditLogs = async (sessionId?: string): Promise<AuditRecord[]> => {
+    const logs = getLocal<AuditRecord[]>(LOCAL_KEYS.AUDIT_LOGS, []);
+    return sessionId ? logs.filter(l => sessionIdOf(l) === sessionId) : logs;
+};
+
+export const getLocationStates = async (sessionId: string = getSelectedCountSessionId()): Promise<Record<string, LocationState>> =>
+    statesForSession(getLocal<Record<string, LocationState>>(LOCAL_KEYS.STATES, {}), sessionId);
+
+export const getAuditLogById = async (id: string): Promise<AuditRecord | null> => getBackend().get<AuditRecord>(TABLES.AUDIT_LOGS, id);
+
+// Cheap round trip used on startup to tell whether the database answers at all.
+export const checkStorageConnection = async () => {
+    await getBackend().get(TABLES.SYSTEM, 'setup');
+};
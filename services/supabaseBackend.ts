@@ -0,0 +1,208 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { StorageBackend, QueryOptions, BackendEntry } from './storageBackend';
+
+// Postgres implementation of StorageBackend for sites that cannot use Firebase.
+// Table and column names follow supabase-schema.sql (camelCase columns are quoted
+// there, so rows map 1:1 onto the app's types).
+
+const PAGE_SIZE = 1000;
+const CHUNK_SIZE = 500;
+
+// Primary key column per table; everything else is keyed by "id".
+const PRIMARY_KEYS: Record<string, string> = {
+  users: 'username',
+  user_credentials: 'username',
+  login_proofs: 'token',
+  sessions: 'token'
+};
+
+const keyOf = (table: string) => PRIMARY_KEYS[table] || 'id';
+
+// Tables the schema revokes from clients. Reads fail with a permission error;
+// writes go through SECURITY DEFINER functions that check the caller the way
+// firestore.rules does, e.g. comparing a login proof with the stored hash.
+const WRITE_FUNCTIONS: Record<string, { set: string; remove: string }> = {
+  user_credentials: { set: 'save_user_credential', remove: 'delete_user_credential' },
+  login_proofs: { set: 'save_login_proof', remove: 'delete_login_proof' }
+};
+
+let client: SupabaseClient | null = null;
+
+const getClient = (): SupabaseClient => {
+  if (!client) {
+    const url = import.meta.env.VITE_SUPABASE_URL;
+    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+    if (!url || !anonKey) {
+      throw new Error('VITE_SUPABASE_URL dan VITE_SUPABASE_ANON_KEY belum diatur.');
+    }
+    client = createClient(url, anonKey);
+  }
+  return client;
+};
+
+// Row level security identifies a browser by its anonymous Supabase Auth user,
+// just like the Firestore rules do; the app's login binds it to a user via
+// sessions.token. Without Anonymous Sign-Ins enabled every request is denied.
+let signInPromise: Promise<string | null> | null = null;
+
+const ensureSignedIn = (): Promise<string | null> => {
+  if (!signInPromise) {
+    signInPromise = getClient().auth.getSession()
+      .then(async ({ data }) => {
+        if (data.session) return data.session.user.id;
+        const { data: signedIn, error } = await getClient().auth.signInAnonymously();
+        if (error) throw error;
+        return signedIn.user?.id || null;
+      })
+      .catch((error) => {
+        console.warn("Anonymous sign-in failed, continuing without Supabase Auth:", error);
+        signInPromise = null;
+        return null;
+      });
+  }
+  return signInPromise;
+};
+
+const handleSupabaseError = (error: { message: string; code?: string }, operation: string, path: string): never => {
+  const info = { error: error.message, code: error.code, operationType: operation, path };
+  console.error('Supabase Error: ', JSON.stringify(info));
+  throw new Error(JSON.stringify(info));
+};
+
+// Postgres returns NULL for empty optional columns; the app expects them absent.
+const stripNulls = <T>(row: Record<string, any>): T => {
+  const clean: Record<string, any> = {};
+  Object.keys(row).forEach(k => {
+    if (row[k] !== null) clean[k] = row[k];
+  });
+  return clean as T;
+};
+
+const fetchAll = async (
+  table: string,
+  options?: QueryOptions,
+  filter?: { field: string; value: string | number }
+): Promise<Record<string, any>[]> => {
+  await ensureSignedIn();
+  const rows: Record<string, any>[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let q = getClient().from(table).select('*');
+    if (filter) q = q.eq(filter.field, filter.value);
+    if (options?.orderBy) q = q.order(options.orderBy, { ascending: options.direction !== 'desc' });
+    const { data, error } = await q.range(from, from + PAGE_SIZE - 1);
+    if (error) handleSupabaseError(error, 'list', table);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+};
+
+export const createSupabaseBackend = (): StorageBackend => ({
+  name: 'supabase',
+
+  // Realtime only tells us that a table changed; the simplest consistent view
+  // is to refetch it, coalescing bursts (e.g. a 400-row import) into one read.
+  subscribe<T>(table: string, onUpdate: (rows: T[]) => void, onError: (error: any) => void, options?: QueryOptions) {
+    let active = true;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const refresh = () => {
+      fetchAll(table, options)
+        .then(rows => { if (active) onUpdate(rows.map(r => stripNulls<T>(r))); })
+        .catch(onError);
+    };
+
+    const channel = getClient()
+      .channel(`realtime:${table}:${Math.random().toString(36).slice(2)}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table }, () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(refresh, 300);
+      })
+      .subscribe((status, err) => {
+        if (status === 'CHANNEL_ERROR' && err) onError(err);
+      });
+
+    refresh();
+
+    return () => {
+      active = false;
+      if (timer) clearTimeout(timer);
+      getClient().removeChannel(channel);
+    };
+  },
+
+  async list<T>(table: string, options?: QueryOptions) {
+    const rows = await fetchAll(table, options);
+    return rows.map(r => stripNulls<T>(r));
+  },
+
+  async listEntries<T>(table: string) {
+    const key = keyOf(table);
+    const rows = await fetchAll(table);
+    return rows.map(r => ({ id: String(r[key]), data: stripNulls<T>(r) }));
+  },
+
+  async listWhere<T>(table: string, field: string, value: string | number) {
+    const key = keyOf(table);
+    const rows = await fetchAll(table, undefined, { field, value });
+    return rows.map(r => ({ id: String(r[key]), data: stripNulls<T>(r) }));
+  },
+
+  async get<T>(table: string, id: string) {
+    await ensureSignedIn();
+    const { data, error } = await getClient().from(table).select('*').eq(keyOf(table), id).maybeSingle();
+    if (error) handleSupabaseError(error, 'get', `${table}/${id}`);
+    return data ? stripNulls<T>(data) : null;
+  },
+
+  async set<T>(table: string, id: string, data: T) {
+    await ensureSignedIn();
+    const key = keyOf(table);
+    const { error } = WRITE_FUNCTIONS[table]
+      ? await getClient().rpc(WRITE_FUNCTIONS[table].set, { p_id: id, p_data: data })
+      : await getClient().from(table).upsert({ ...(data as any), [key]: id }, { onConflict: key });
+    if (error) handleSupabaseError(error, 'write', `${table}/${id}`);
+  },
+
+  async setMany<T>(table: string, entries: BackendEntry<T>[]) {
+    if (WRITE_FUNCTIONS[table]) {
+      for (const e of entries) await this.set(table, e.id, e.data);
+      return;
+    }
+    await ensureSignedIn();
+    const key = keyOf(table);
+    for (let i = 0; i < entries.length; i += CHUNK_SIZE) {
+      const rows = entries.slice(i, i + CHUNK_SIZE).map(e => ({ ...(e.data as any), [key]: e.id }));
+      const { error } = await getClient().from(table).upsert(rows, { onConflict: key });
+      if (error) handleSupabaseError(error, 'write', table);
+    }
+  },
+
+  async update<T>(table: string, id: string, updates: Partial<T>) {
+    await ensureSignedIn();
+    const { error } = await getClient().from(table).update(updates as any).eq(keyOf(table), id);
+    if (error) handleSupabaseError(error, 'update', `${table}/${id}`);
+  },
+
+  async remove(table: string, id: string) {
+    await ensureSignedIn();
+    const { error } = WRITE_FUNCTIONS[table]
+      ? await getClient().rpc(WRITE_FUNCTIONS[table].remove, { p_id: id })
+      : await getClient().from(table).delete().eq(keyOf(table), id);
+    if (error) handleSupabaseError(error, 'delete', `${table}/${id}`);
+  },
+
+  async removeMany(table: string, ids: string[]) {
+    if (WRITE_FUNCTIONS[table]) {
+      for (const id of ids) await this.remove(table, id);
+      return;
+    }
+    await ensureSignedIn();
+    for (let i = 0; i < ids.length; i += CHUNK_SIZE) {
+      const { error } = await getClient().from(table).delete().in(keyOf(table), ids.slice(i, i + CHUNK_SIZE));
+      if (error) handleSupabaseError(error, 'delete', table);
+    }
+  },
+
+  clientId: ensureSignedIn
+});
@@ -1,49 +1,206 @@
 -- Supabase Schema for Smart Cycle Count
 
 -- 1. Users Table
+-- Holds the public part of each account (profile and PBKDF2 salt). The hash is
+-- kept in user_credentials. The plaintext "password" column only exists for
+-- accounts created before hashing; it is cleared on next login.
 CREATE TABLE IF NOT EXISTS public.users (
     username TEXT PRIMARY KEY,
-    password TEXT NOT NULL,
-    role TEXT NOT NULL CHECK (role IN ('admin', 'user')),
+    password TEXT,
+    "passwordSalt" TEXT,
+    "passwordIterations" INTEGER,
+    role TEXT NOT NULL CHECK (role IN ('admin', 'supervisor', 'auditor', 'user', 'viewer')),
     name TEXT NOT NULL
 );
 
+-- Never readable by clients; written through save_user_credential (section 7)
+CREATE TABLE IF NOT EXISTS public.user_credentials (
+    username TEXT PRIMARY KEY,
+    "passwordHash" TEXT NOT NULL
+);
+
+-- 1b. Login Sessions, keyed by the browser's anonymous Supabase Auth user id.
+-- A session is only accepted right after save_login_proof has checked the
+-- password for the same browser; the proof row holds no hash.
+CREATE TABLE IF NOT EXISTS public.login_proofs (
+    token TEXT PRIMARY KEY,
+    username TEXT NOT NULL,
+    "createdAt" BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.sessions (
+    token TEXT PRIMARY KEY,
+    username TEXT NOT NULL,
+    role TEXT NOT NULL,
+    name TEXT NOT NULL,
+    "issuedAt" BIGINT NOT NULL,
+    "expiresAt" BIGINT NOT NULL
+);
+
+-- 1c. System markers (system/setup is written once the first admin exists)
+CREATE TABLE IF NOT EXISTS public.system (
+    id TEXT PRIMARY KEY,
+    admin TEXT,
+    "completedAt" BIGINT
+);
+
 -- 2. Master Data Table
+-- id is "SKU|batchNumber|expiryDate", plus "|LOCATION" for stock kept by bin (SKU and location upper-cased, '-' for an empty part, '/' written as %2F)
 CREATE TABLE IF NOT EXISTS public.master_data (
-    sku TEXT PRIMARY KEY,
+    id TEXT PRIMARY KEY,
+    sku TEXT NOT NULL,
     name TEXT NOT NULL,
     "systemStock" INTEGER NOT NULL DEFAULT 0,
     "batchNumber" TEXT,
     "expiryDate" TEXT,
     category TEXT,
-    unit TEXT
+    unit TEXT,
+    location TEXT
+);
+
+-- 2a. Bin/rack locations; id is the upper-cased location code ('/' written as %2F)
+CREATE TABLE IF NOT EXISTS public.master_locations (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    zone TEXT NOT NULL DEFAULT 'General'
+);
+
+-- 2b. SKU aliases: GTIN/supplier codes that resolve to a master SKU when scanned;
+-- id is the upper-cased code, GTINs padded to 14 digits ('/' written as %2F)
+CREATE TABLE IF NOT EXISTS public.sku_aliases (
+    id TEXT PRIMARY KEY,
+    alias TEXT NOT NULL,
+    sku TEXT NOT NULL,
+    unit TEXT,
+    "createdBy" TEXT,
+    "createdAt" BIGINT
+);
+
+-- 2c. Pack units per SKU; units is [{ "unit": "BOX", "factor": 12 }], factor in base units
+CREATE TABLE IF NOT EXISTS public.sku_units (
+    id TEXT PRIMARY KEY,
+    sku TEXT NOT NULL,
+    units JSONB NOT NULL DEFAULT '[]',
+    "updatedBy" TEXT,
+    "updatedAt" BIGINT
+);
+
+-- 2d. Scheduled master data sync: the saved Google Sheet (id 'default') and one row per run
+CREATE TABLE IF NOT EXISTS public.master_data_sources (
+    id TEXT PRIMARY KEY,
+    "sheetUrl" TEXT NOT NULL,
+    "spreadsheetId" TEXT NOT NULL,
+    gid TEXT NOT NULL DEFAULT '0',
+    "headerMapping" JSONB NOT NULL DEFAULT '{}',
+    "intervalMinutes" INTEGER NOT NULL DEFAULT 0,
+    "autoApply" BOOLEAN NOT NULL DEFAULT FALSE,
+    "removeMissing" BOOLEAN NOT NULL DEFAULT FALSE,
+    "updatedBy" TEXT NOT NULL,
+    "updatedAt" BIGINT NOT NULL,
+    "lastSyncAt" BIGINT
+);
+
+CREATE TABLE IF NOT EXISTS public.master_sync_history (
+    id TEXT PRIMARY KEY,
+    "startedAt" BIGINT NOT NULL,
+    trigger TEXT NOT NULL CHECK (trigger IN ('manual', 'startup', 'scheduled')),
+    status TEXT NOT NULL CHECK (status IN ('applied', 'unchanged', 'pending', 'failed')),
+    added INTEGER NOT NULL DEFAULT 0,
+    changed INTEGER NOT NULL DEFAULT 0,
+    removed INTEGER NOT NULL DEFAULT 0,
+    "stockChanges" INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    "user" TEXT NOT NULL
+);
+
+-- 2e. Count Sessions (one row per stock opname campaign)
+CREATE TABLE IF NOT EXISTS public.count_sessions (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    "startDate" TEXT NOT NULL,
+    "endDate" TEXT,
+    scope JSONB NOT NULL DEFAULT '{"zones": [], "categories": []}',
+    status TEXT NOT NULL CHECK (status IN ('planned', 'active', 'closed')),
+    "blindCount" BOOLEAN NOT NULL DEFAULT FALSE,
+    "recountThresholdPercent" NUMERIC NOT NULL DEFAULT 10,
+    "sheetsTarget" JSONB,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" BIGINT NOT NULL,
+    "closedAt" BIGINT
 );
 
 -- 3. Audit Logs Table
+-- Holds the complete AuditRecord; Google Sheets is only a mirror. Quantities
+-- default to 0 for rows written by older versions, which stored a minimal record.
 CREATE TABLE IF NOT EXISTS public.audit_logs (
     id TEXT PRIMARY KEY,
     sku TEXT NOT NULL,
     "itemName" TEXT NOT NULL,
+    unit TEXT,
     location TEXT NOT NULL,
     "batchNumber" TEXT,
     "expiryDate" TEXT,
-    "systemQty" INTEGER NOT NULL,
-    "physicalQty" INTEGER NOT NULL,
-    variance INTEGER NOT NULL,
+    "systemQty" INTEGER NOT NULL DEFAULT 0,
+    "physicalQty" INTEGER NOT NULL DEFAULT 0,
+    "unitEntry" JSONB,
+    variance INTEGER NOT NULL DEFAULT 0,
     timestamp BIGINT NOT NULL,
     "teamMember" TEXT NOT NULL,
     notes TEXT,
-    "evidencePhotos" JSONB
+    "evidencePhotos" JSONB,
+    "sessionId" TEXT,
+    -- Recount workflow (see submitRecount / resolveRecount)
+    "countStatus" TEXT CHECK ("countStatus" IN ('recount_required', 'recounted', 'resolved')),
+    "recountAssignee" TEXT,
+    recount JSONB,
+    "acceptedQty" INTEGER,
+    "resolvedBy" TEXT,
+    "resolvedAt" BIGINT,
+    -- Variance approval (see approveVariance / rejectVariance)
+    "approvalStatus" TEXT CHECK ("approvalStatus" IN ('approved', 'rejected')),
+    "approvalReason" TEXT,
+    "approvalNote" TEXT,
+    "approvedBy" TEXT,
+    "approvedAt" BIGINT,
+    -- Soft delete (see deleteAuditLog / restoreAuditLog)
+    "deletedAt" BIGINT,
+    "deletedBy" TEXT
+);
+
+-- 3b. Adjustment Journal (one row per approved variance, id = audit log id)
+CREATE TABLE IF NOT EXISTS public.adjustments (
+    id TEXT PRIMARY KEY,
+    "auditId" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    sku TEXT NOT NULL,
+    "itemName" TEXT NOT NULL,
+    unit TEXT,
+    "batchNumber" TEXT,
+    "expiryDate" TEXT,
+    location TEXT NOT NULL,
+    "systemQty" INTEGER NOT NULL,
+    "countedQty" INTEGER NOT NULL,
+    "qtyDelta" INTEGER NOT NULL,
+    "reasonCode" TEXT NOT NULL,
+    note TEXT,
+    "approvedBy" TEXT NOT NULL,
+    "approvedAt" BIGINT NOT NULL,
+    "postedAt" BIGINT,
+    "postedBy" TEXT
 );
 
 -- 4. Location States Table
+-- One row per location per count session. id is "{sessionId}__{locationId}",
+-- or just the locationId for the 'default' session.
 CREATE TABLE IF NOT EXISTS public.location_states (
-    "locationId" TEXT PRIMARY KEY,
+    id TEXT PRIMARY KEY,
+    "locationId" TEXT NOT NULL,
     status TEXT NOT NULL,
     timestamp BIGINT NOT NULL,
     "photoUrl" TEXT,
     description TEXT,
-    "reportedBy" TEXT
+    "reportedBy" TEXT,
+    "sessionId" TEXT
 );
 
 -- 5. Activity Logs Table
@@ -55,10 +212,40 @@ CREATE TABLE IF NOT EXISTS public.activity_logs (
     timestamp BIGINT NOT NULL,
     "user" TEXT NOT NULL,
     details TEXT,
-    photos JSONB
+    photos JSONB,
+    -- Audit trail of record mutations
+    "actorUsername" TEXT,
+    "actorRole" TEXT,
+    "targetTable" TEXT,
+    "targetId" TEXT,
+    changes JSONB
 );
 
 -- 6. Backup Tables
+-- Each reset or manual backup adds one row to backups and copies every record
+-- into backup_records ("data" holds the original row). Nothing is overwritten.
+CREATE TABLE IF NOT EXISTS public.backups (
+    id TEXT PRIMARY KEY,
+    "createdAt" BIGINT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    reason TEXT NOT NULL CHECK (reason IN ('reset', 'manual', 'restore', 'legacy')),
+    "sessionId" TEXT,
+    "sessionName" TEXT,
+    "auditLogCount" INTEGER NOT NULL DEFAULT 0,
+    "locationStateCount" INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS public.backup_records (
+    id TEXT PRIMARY KEY,
+    "backupId" TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('audit_log', 'location_state')),
+    "originalId" TEXT NOT NULL,
+    data JSONB NOT NULL
+);
+CREATE INDEX IF NOT EXISTS backup_records_backup_id ON public.backup_records ("backupId");
+
+-- Single-slot backup tables from older versions. The app moves their contents
+-- into a 'legacy' snapshot the first time an admin opens Backup History.
 CREATE TABLE IF NOT EXISTS public.backup_audit_logs_latest (
     id TEXT PRIMARY KEY,
     sku TEXT NOT NULL,
@@ -66,26 +253,363 @@ CREATE TABLE IF NOT EXISTS public.backup_audit_logs_latest (
     location TEXT NOT NULL,
     "batchNumber" TEXT,
     "expiryDate" TEXT,
-    "systemQty" INTEGER NOT NULL,
-    "physicalQty" INTEGER NOT NULL,
-    variance INTEGER NOT NULL,
+    "systemQty" INTEGER NOT NULL DEFAULT 0,
+    "physicalQty" INTEGER NOT NULL DEFAULT 0,
+    variance INTEGER NOT NULL DEFAULT 0,
     timestamp BIGINT NOT NULL,
     "teamMember" TEXT NOT NULL,
     notes TEXT,
-    "evidencePhotos" JSONB
+    "evidencePhotos" JSONB,
+    "sessionId" TEXT
 );
 
 CREATE TABLE IF NOT EXISTS public.backup_location_states_latest (
-    "locationId" TEXT PRIMARY KEY,
+    id TEXT PRIMARY KEY,
+    "locationId" TEXT NOT NULL,
     status TEXT NOT NULL,
     timestamp BIGINT NOT NULL,
     "photoUrl" TEXT,
     description TEXT,
-    "reportedBy" TEXT
+    "reportedBy" TEXT,
+    "sessionId" TEXT
 );
 
+-- Upgrading a database created before count sessions: existing rows become
+-- the 'default' session, whose location state id is the bare locationId.
+ALTER TABLE public.count_sessions ADD COLUMN IF NOT EXISTS "blindCount" BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS "sessionId" TEXT;
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS unit TEXT;
+ALTER TABLE public.backup_audit_logs_latest ADD COLUMN IF NOT EXISTS "sessionId" TEXT;
+ALTER TABLE public.location_states ADD COLUMN IF NOT EXISTS "sessionId" TEXT;
+ALTER TABLE public.backup_location_states_latest ADD COLUMN IF NOT EXISTS "sessionId" TEXT;
+ALTER TABLE public.count_sessions ADD COLUMN IF NOT EXISTS "recountThresholdPercent" NUMERIC NOT NULL DEFAULT 10;
+ALTER TABLE public.count_sessions ADD COLUMN IF NOT EXISTS "sheetsTarget" JSONB;
+ALTER TABLE public.master_data ADD COLUMN IF NOT EXISTS location TEXT;
+ALTER TABLE public.sku_aliases ADD COLUMN IF NOT EXISTS unit TEXT;
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS "unitEntry" JSONB;
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS "countStatus" TEXT CHECK ("countStatus" IN ('recount_required', 'recounted', 'resolved'));
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS "recountAssignee" TEXT;
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS recount JSONB;
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS "acceptedQty" INTEGER;
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS "resolvedBy" TEXT;
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS "resolvedAt" BIGINT;
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS "approvalStatus" TEXT CHECK ("approvalStatus" IN ('approved', 'rejected'));
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS "approvalReason" TEXT;
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS "approvalNote" TEXT;
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS "approvedBy" TEXT;
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS "approvedAt" BIGINT;
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS "deletedAt" BIGINT;
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS "deletedBy" TEXT;
+ALTER TABLE public.activity_logs ADD COLUMN IF NOT EXISTS "actorUsername" TEXT;
+ALTER TABLE public.activity_logs ADD COLUMN IF NOT EXISTS "actorRole" TEXT;
+ALTER TABLE public.activity_logs ADD COLUMN IF NOT EXISTS "targetTable" TEXT;
+ALTER TABLE public.activity_logs ADD COLUMN IF NOT EXISTS "targetId" TEXT;
+ALTER TABLE public.activity_logs ADD COLUMN IF NOT EXISTS changes JSONB;
+-- Sessions used to carry the password hash as their proof
+ALTER TABLE public.sessions DROP COLUMN IF EXISTS "passwordHash";
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'location_states' AND column_name = 'id') THEN
+        ALTER TABLE public.location_states ADD COLUMN id TEXT;
+        UPDATE public.location_states SET id = "locationId";
+        ALTER TABLE public.location_states DROP CONSTRAINT location_states_pkey;
+        ALTER TABLE public.location_states ADD PRIMARY KEY (id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'backup_location_states_latest' AND column_name = 'id') THEN
+        ALTER TABLE public.backup_location_states_latest ADD COLUMN id TEXT;
+        UPDATE public.backup_location_states_latest SET id = "locationId";
+        ALTER TABLE public.backup_location_states_latest DROP CONSTRAINT backup_location_states_latest_pkey;
+        ALTER TABLE public.backup_location_states_latest ADD PRIMARY KEY (id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'master_data' AND column_name = 'id') THEN
+        ALTER TABLE public.master_data ADD COLUMN id TEXT;
+        -- Same key as masterItemKey in services/storageService.ts
+        UPDATE public.master_data SET id = replace(concat_ws('|',
+            upper(trim(sku)),
+            coalesce(nullif(trim("batchNumber"), ''), '-'),
+            coalesce(nullif(regexp_replace(trim("expiryDate"), '^(\d{2})-(\d{2})-(\d{4})$', '\3-\2-\1'), ''), '-'),
+            nullif(upper(trim(location)), '')), '/', '%2F');
+        ALTER TABLE public.master_data DROP CONSTRAINT master_data_pkey;
+        ALTER TABLE public.master_data ADD PRIMARY KEY (id);
+    END IF;
+END $$;
+
+-- 7. Row Level Security
+-- Mirrors firestore.rules (see security_spec.md). Every browser signs in to
+-- Supabase Auth anonymously, so enable Anonymous Sign-Ins under Authentication
+-- → Sign In / Providers. auth.uid() is the session token; the helpers below run
+-- as the table owner so policies can look up the caller's session and role
+-- without exposing sessions or credentials. Policies cannot compare columns
+-- with the old row, so the audit_logs columns a counter may set are checked by
+-- a trigger below; the admin-only sheetsTarget of count_sessions is left to
+-- the app here.
+CREATE OR REPLACE FUNCTION public.now_ms() RETURNS BIGINT
+LANGUAGE sql STABLE AS $$
+    SELECT (extract(epoch FROM now()) * 1000)::BIGINT
+$$;
+
+-- Current role of the caller's live session; NULL without one
+CREATE OR REPLACE FUNCTION public.app_role() RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT u.role FROM public.sessions s JOIN public.users u ON u.username = s.username
+    WHERE s.token = auth.uid()::TEXT AND s."expiresAt" > public.now_ms()
+$$;
+
+CREATE OR REPLACE FUNCTION public.app_user_name() RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT u.name FROM public.sessions s JOIN public.users u ON u.username = s.username
+    WHERE s.token = auth.uid()::TEXT AND s."expiresAt" > public.now_ms()
+$$;
+
+CREATE OR REPLACE FUNCTION public.app_username() RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT s.username FROM public.sessions s
+    WHERE s.token = auth.uid()::TEXT AND s."expiresAt" > public.now_ms()
+$$;
+
+-- Open only until the first admin has been created
+CREATE OR REPLACE FUNCTION public.setup_open() RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT NOT EXISTS (SELECT 1 FROM public.system WHERE id = 'setup')
+$$;
+
+-- Admins set hashes; during first-run setup anyone may create the first one
+CREATE OR REPLACE FUNCTION public.save_user_credential(p_id TEXT, p_data JSONB) RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    IF p_data->>'username' IS DISTINCT FROM p_id OR coalesce(p_data->>'passwordHash', '') = ''
+        OR NOT (public.app_role() = 'admin'
+            OR (public.setup_open() AND NOT EXISTS (SELECT 1 FROM public.user_credentials WHERE username = p_id))) THEN
+        RAISE EXCEPTION 'permission denied for user_credentials' USING ERRCODE = '42501';
+    END IF;
+    INSERT INTO public.user_credentials (username, "passwordHash") VALUES (p_id, p_data->>'passwordHash')
+    ON CONFLICT (username) DO UPDATE SET "passwordHash" = EXCLUDED."passwordHash";
+END $$;
+
+CREATE OR REPLACE FUNCTION public.delete_user_credential(p_id TEXT) RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    IF public.app_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'permission denied for user_credentials' USING ERRCODE = '42501';
+    END IF;
+    DELETE FROM public.user_credentials WHERE username = p_id;
+END $$;
+
+-- The password check: only a hash equal to the stored one records a proof,
+-- good for five minutes, for the calling browser. The hash itself is not kept.
+CREATE OR REPLACE FUNCTION public.save_login_proof(p_id TEXT, p_data JSONB) RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    IF auth.uid() IS NULL OR p_id IS DISTINCT FROM auth.uid()::TEXT
+        OR NOT EXISTS (SELECT 1 FROM public.user_credentials
+                       WHERE username = p_data->>'username' AND "passwordHash" = p_data->>'passwordHash')
+        OR abs((p_data->>'createdAt')::BIGINT - public.now_ms()) >= 300000 THEN
+        RAISE EXCEPTION 'permission denied for login_proofs' USING ERRCODE = '42501';
+    END IF;
+    INSERT INTO public.login_proofs (token, username, "createdAt")
+    VALUES (p_id, p_data->>'username', (p_data->>'createdAt')::BIGINT)
+    ON CONFLICT (token) DO UPDATE SET username = EXCLUDED.username, "createdAt" = EXCLUDED."createdAt";
+END $$;
+
+CREATE OR REPLACE FUNCTION public.delete_login_proof(p_id TEXT) RETURNS VOID
+LANGUAGE sql SECURITY DEFINER SET search_path = public AS $$
+    DELETE FROM public.login_proofs WHERE token = p_id AND token = auth.uid()::TEXT
+$$;
+
+-- 12h session (SESSION_TTL_MS) plus five minutes of clock skew
+CREATE OR REPLACE FUNCTION public.valid_session(p_token TEXT, p_username TEXT, p_role TEXT, p_name TEXT, p_expires BIGINT) RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT p_token = auth.uid()::TEXT
+        AND p_expires <= public.now_ms() + 43500000
+        AND EXISTS (SELECT 1 FROM public.users WHERE username = p_username AND role = p_role AND name = p_name)
+        AND EXISTS (SELECT 1 FROM public.login_proofs
+                    WHERE token = p_token AND username = p_username AND "createdAt" > public.now_ms() - 300000)
+$$;
+
+REVOKE ALL ON public.user_credentials, public.login_proofs FROM anon, authenticated;
+
+DO $$
+DECLARE t TEXT;
+BEGIN
+    FOREACH t IN ARRAY ARRAY['users', 'user_credentials', 'login_proofs', 'sessions', 'system', 'master_data',
+        'master_locations', 'sku_aliases', 'sku_units', 'master_data_sources', 'master_sync_history', 'count_sessions',
+        'audit_logs', 'adjustments', 'location_states', 'activity_logs', 'backups', 'backup_records',
+        'backup_audit_logs_latest', 'backup_location_states_latest'] LOOP
+        EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', t);
+    END LOOP;
+
+    -- Readable with a live session, writable by admins
+    FOREACH t IN ARRAY ARRAY['master_data', 'master_locations', 'sku_aliases', 'sku_units'] LOOP
+        EXECUTE format('DROP POLICY IF EXISTS session_read ON public.%I', t);
+        EXECUTE format('CREATE POLICY session_read ON public.%I FOR SELECT USING ((SELECT public.app_role()) IS NOT NULL)', t);
+        EXECUTE format('DROP POLICY IF EXISTS admin_write ON public.%I', t);
+        EXECUTE format('CREATE POLICY admin_write ON public.%I FOR ALL USING ((SELECT public.app_role()) = ''admin'') WITH CHECK ((SELECT public.app_role()) = ''admin'')', t);
+    END LOOP;
+
+    -- Admins only
+    FOREACH t IN ARRAY ARRAY['master_data_sources', 'master_sync_history', 'backups', 'backup_records',
+        'backup_audit_logs_latest', 'backup_location_states_latest'] LOOP
+        EXECUTE format('DROP POLICY IF EXISTS admin_all ON public.%I', t);
+        EXECUTE format('CREATE POLICY admin_all ON public.%I FOR ALL USING ((SELECT public.app_role()) = ''admin'') WITH CHECK ((SELECT public.app_role()) = ''admin'')', t);
+    END LOOP;
+END $$;
+
+-- Users: profile and public salt only. Postgres cannot tell a single read from
+-- a listing, so signed-in browsers may read profiles (Firestore: get only).
+DROP POLICY IF EXISTS users_read ON public.users;
+CREATE POLICY users_read ON public.users FOR SELECT USING (auth.uid() IS NOT NULL);
+DROP POLICY IF EXISTS users_create ON public.users;
+CREATE POLICY users_create ON public.users FOR INSERT WITH CHECK (password IS NULL
+    AND ((SELECT public.app_role()) = 'admin' OR (public.setup_open() AND role = 'admin')));
+DROP POLICY IF EXISTS users_update ON public.users;
+CREATE POLICY users_update ON public.users FOR UPDATE USING ((SELECT public.app_role()) = 'admin')
+    WITH CHECK (password IS NULL AND (SELECT public.app_role()) = 'admin');
+DROP POLICY IF EXISTS users_delete ON public.users;
+CREATE POLICY users_delete ON public.users FOR DELETE USING ((SELECT public.app_role()) = 'admin');
+
+-- Sessions: own row, or any row for admins
+DROP POLICY IF EXISTS sessions_read ON public.sessions;
+CREATE POLICY sessions_read ON public.sessions FOR SELECT
+    USING (token = auth.uid()::TEXT OR (SELECT public.app_role()) = 'admin');
+DROP POLICY IF EXISTS sessions_create ON public.sessions;
+CREATE POLICY sessions_create ON public.sessions FOR INSERT
+    WITH CHECK (public.valid_session(token, username, role, name, "expiresAt"));
+DROP POLICY IF EXISTS sessions_update ON public.sessions;
+CREATE POLICY sessions_update ON public.sessions FOR UPDATE USING (token = auth.uid()::TEXT)
+    WITH CHECK (public.valid_session(token, username, role, name, "expiresAt"));
+DROP POLICY IF EXISTS sessions_delete ON public.sessions;
+CREATE POLICY sessions_delete ON public.sessions FOR DELETE
+    USING (token = auth.uid()::TEXT OR (SELECT public.app_role()) = 'admin');
+
+-- Setup marker: readable by anyone, written once for an existing admin
+DROP POLICY IF EXISTS system_read ON public.system;
+CREATE POLICY system_read ON public.system FOR SELECT USING (true);
+DROP POLICY IF EXISTS system_create ON public.system;
+CREATE POLICY system_create ON public.system FOR INSERT WITH CHECK (id = 'setup' AND auth.uid() IS NOT NULL
+    AND ((SELECT public.app_role()) = 'admin' OR EXISTS (SELECT 1 FROM public.users u WHERE u.username = admin AND u.role = 'admin')));
+
+-- Count sessions: managed by supervisors and admins
+DROP POLICY IF EXISTS count_sessions_read ON public.count_sessions;
+CREATE POLICY count_sessions_read ON public.count_sessions FOR SELECT USING ((SELECT public.app_role()) IS NOT NULL);
+DROP POLICY IF EXISTS count_sessions_create ON public.count_sessions;
+CREATE POLICY count_sessions_create ON public.count_sessions FOR INSERT
+    WITH CHECK ((SELECT public.app_role()) IN ('admin', 'supervisor'));
+DROP POLICY IF EXISTS count_sessions_update ON public.count_sessions;
+CREATE POLICY count_sessions_update ON public.count_sessions FOR UPDATE
+    USING ((SELECT public.app_role()) IN ('admin', 'supervisor')) WITH CHECK ((SELECT public.app_role()) IN ('admin', 'supervisor'));
+DROP POLICY IF EXISTS count_sessions_delete ON public.count_sessions;
+CREATE POLICY count_sessions_delete ON public.count_sessions FOR DELETE USING ((SELECT public.app_role()) = 'admin');
+
+-- Audit logs: counters file and resend counts under their own name, and may
+-- file the recount of someone else's flagged record
+DROP POLICY IF EXISTS audit_logs_read ON public.audit_logs;
+CREATE POLICY audit_logs_read ON public.audit_logs FOR SELECT USING ((SELECT public.app_role()) IS NOT NULL);
+DROP POLICY IF EXISTS audit_logs_create ON public.audit_logs;
+CREATE POLICY audit_logs_create ON public.audit_logs FOR INSERT WITH CHECK ((SELECT public.app_role()) = 'admin'
+    OR ((SELECT public.app_role()) IN ('supervisor', 'auditor', 'user') AND "teamMember" = (SELECT public.app_user_name())));
+DROP POLICY IF EXISTS audit_logs_update ON public.audit_logs;
+CREATE POLICY audit_logs_update ON public.audit_logs FOR UPDATE
+    USING ((SELECT public.app_role()) IN ('admin', 'supervisor')
+        OR ((SELECT public.app_role()) IN ('auditor', 'user')
+            AND ("teamMember" = (SELECT public.app_user_name()) OR "countStatus" = 'recount_required')))
+    WITH CHECK ((SELECT public.app_role()) IN ('admin', 'supervisor')
+        OR ((SELECT public.app_role()) IN ('auditor', 'user') AND "deletedAt" IS NULL
+            AND ("teamMember" = (SELECT public.app_user_name()) OR "countStatus" = 'recounted')));
+DROP POLICY IF EXISTS audit_logs_delete ON public.audit_logs;
+CREATE POLICY audit_logs_delete ON public.audit_logs FOR DELETE USING ((SELECT public.app_role()) = 'admin');
+
+-- Counters may flag their own count for a recount but never file it resolved
+-- or approved, may not touch review columns when resending, and may not change
+-- the quantities once approved. A recount of someone else's record only fills
+-- in recount and countStatus. Mirrors validCounterReview, keepsApprovedQty
+-- and isRecount in firestore.rules.
+CREATE OR REPLACE FUNCTION public.check_audit_log_columns() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    v_role TEXT := public.app_role();
+    v_name TEXT := public.app_user_name();
+BEGIN
+    IF v_role IS NULL OR v_role IN ('admin', 'supervisor') THEN
+        RETURN NEW;
+    END IF;
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.recount IS NOT NULL OR NEW."acceptedQty" IS NOT NULL OR NEW."resolvedBy" IS NOT NULL
+            OR NEW."resolvedAt" IS NOT NULL OR NEW."approvalStatus" IS NOT NULL OR NEW."approvalReason" IS NOT NULL
+            OR NEW."approvalNote" IS NOT NULL OR NEW."approvedBy" IS NOT NULL OR NEW."approvedAt" IS NOT NULL
+            OR (NEW."countStatus" IS DISTINCT FROM 'recount_required'
+                AND (NEW."countStatus" IS NOT NULL OR NEW."recountAssignee" IS NOT NULL)) THEN
+            RAISE EXCEPTION 'permission denied for audit_logs' USING ERRCODE = '42501';
+        END IF;
+    ELSIF OLD."teamMember" = v_name THEN
+        IF (NEW."countStatus", NEW."recountAssignee", NEW.recount, NEW."acceptedQty", NEW."resolvedBy", NEW."resolvedAt",
+            NEW."approvalStatus", NEW."approvalReason", NEW."approvalNote", NEW."approvedBy", NEW."approvedAt")
+            IS DISTINCT FROM
+            (OLD."countStatus", OLD."recountAssignee", OLD.recount, OLD."acceptedQty", OLD."resolvedBy", OLD."resolvedAt",
+            OLD."approvalStatus", OLD."approvalReason", OLD."approvalNote", OLD."approvedBy", OLD."approvedAt")
+            OR (OLD."approvalStatus" = 'approved'
+                AND (NEW."physicalQty", NEW."systemQty", NEW.variance, NEW."unitEntry")
+                    IS DISTINCT FROM (OLD."physicalQty", OLD."systemQty", OLD.variance, OLD."unitEntry")) THEN
+            RAISE EXCEPTION 'permission denied for audit_logs' USING ERRCODE = '42501';
+        END IF;
+    ELSIF OLD."countStatus" IS DISTINCT FROM 'recount_required'
+        OR (OLD."recountAssignee" IS NOT NULL AND OLD."recountAssignee" <> v_name)
+        OR NEW."countStatus" IS DISTINCT FROM 'recounted'
+        OR NEW.recount->>'teamMember' IS DISTINCT FROM v_name
+        OR to_jsonb(NEW) - 'recount' - 'countStatus' <> to_jsonb(OLD) - 'recount' - 'countStatus' THEN
+        RAISE EXCEPTION 'permission denied for audit_logs' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS audit_logs_columns ON public.audit_logs;
+CREATE TRIGGER audit_logs_columns BEFORE INSERT OR UPDATE ON public.audit_logs
+    FOR EACH ROW EXECUTE FUNCTION public.check_audit_log_columns();
+
+-- Adjustment journal: approvals under the approver's own name
+DROP POLICY IF EXISTS adjustments_read ON public.adjustments;
+CREATE POLICY adjustments_read ON public.adjustments FOR SELECT
+    USING ((SELECT public.app_role()) IN ('admin', 'supervisor', 'viewer'));
+DROP POLICY IF EXISTS adjustments_create ON public.adjustments;
+CREATE POLICY adjustments_create ON public.adjustments FOR INSERT WITH CHECK ((SELECT public.app_role()) IN ('admin', 'supervisor')
+    AND id = "auditId" AND "approvedBy" = (SELECT public.app_user_name()));
+DROP POLICY IF EXISTS adjustments_update ON public.adjustments;
+CREATE POLICY adjustments_update ON public.adjustments FOR UPDATE
+    USING ((SELECT public.app_role()) IN ('admin', 'supervisor')) WITH CHECK ((SELECT public.app_role()) IN ('admin', 'supervisor'));
+DROP POLICY IF EXISTS adjustments_delete ON public.adjustments;
+CREATE POLICY adjustments_delete ON public.adjustments FOR DELETE USING ((SELECT public.app_role()) = 'admin');
+
+-- Location states: counters report under their own name
+DROP POLICY IF EXISTS location_states_read ON public.location_states;
+CREATE POLICY location_states_read ON public.location_states FOR SELECT USING ((SELECT public.app_role()) IS NOT NULL);
+DROP POLICY IF EXISTS location_states_create ON public.location_states;
+CREATE POLICY location_states_create ON public.location_states FOR INSERT WITH CHECK ((SELECT public.app_role()) = 'admin'
+    OR ((SELECT public.app_role()) IN ('supervisor', 'auditor', 'user') AND "reportedBy" = (SELECT public.app_user_name())));
+DROP POLICY IF EXISTS location_states_update ON public.location_states;
+CREATE POLICY location_states_update ON public.location_states FOR UPDATE
+    USING ((SELECT public.app_role()) IN ('admin', 'supervisor', 'auditor', 'user'))
+    WITH CHECK ((SELECT public.app_role()) = 'admin'
+        OR ((SELECT public.app_role()) IN ('supervisor', 'auditor', 'user') AND "reportedBy" = (SELECT public.app_user_name())));
+DROP POLICY IF EXISTS location_states_delete ON public.location_states;
+CREATE POLICY location_states_delete ON public.location_states FOR DELETE USING ((SELECT public.app_role()) = 'admin');
+
+-- Activity logs: append-only for staff, under their own name and username
+DROP POLICY IF EXISTS activity_logs_read ON public.activity_logs;
+CREATE POLICY activity_logs_read ON public.activity_logs FOR SELECT USING ((SELECT public.app_role()) IS NOT NULL);
+DROP POLICY IF EXISTS activity_logs_create ON public.activity_logs;
+CREATE POLICY activity_logs_create ON public.activity_logs FOR INSERT
+    WITH CHECK (((SELECT public.app_role()) = 'admin' OR "user" = (SELECT public.app_user_name()))
+        AND ("actorUsername" IS NULL OR "actorUsername" = (SELECT public.app_username())));
+DROP POLICY IF EXISTS activity_logs_admin ON public.activity_logs;
+CREATE POLICY activity_logs_admin ON public.activity_logs FOR ALL
+    USING ((SELECT public.app_role()) = 'admin') WITH CHECK ((SELECT public.app_role()) = 'admin');
+
 -- Enable Realtime for all tables
 alter publication supabase_realtime add table public.audit_logs;
 alter publication supabase_realtime add table public.master_data;
+alter publication supabase_realtime add table public.master_locations;
+alter publication supabase_realtime add table public.sku_aliases;
+alter publication supabase_realtime add table public.sku_units;
 alter publication supabase_realtime add table public.location_states;
 alter publication supabase_realtime add table public.activity_logs;
+alter publication supabase_realtime add table public.count_sessions;
+alter publication supabase_realtime add table public.adjustments;
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { AuditRecord } from '../types';
+
+// The outbox keeps its queue in module state, so every test loads a fresh copy.
+// IndexedDB is missing under Node and the outbox falls back to memory.
+const loadOutbox = async () => {
+  vi.resetModules();
+  return import('../services/auditOutbox');
+};
+
+const record = (id: string, teamMember = 'Staf Satu') => ({ id, sku: 'SKU-1', physicalQty: 1, teamMember } as AuditRecord);
+
+beforeEach(() => {
+  vi.stubGlobal('window', new EventTarget());
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.useFakeTimers();
+  vi.setSystemTime(0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('audit outbox', () => {
+  it('doubles the retry delay up to five minutes', async () => {
+    const { getBackoffDelay } = await loadOutbox();
+    expect([1, 2, 3, 4].map(getBackoffDelay)).toEqual([5000, 10000, 20000, 40000]);
+    expect(getBackoffDelay(7)).toBe(5 * 60 * 1000);
+    expect(getBackoffDelay(0)).toBe(5000);
+  });
+
+  it('removes an entry once both targets have it', async () => {
+    const outbox = await loadOutbox();
+    await outbox.enqueueAuditRecord(record('r1'));
+    expect(outbox.getOutboxCounts()).toEqual({ pending: 1, failed: 0 });
+
+    await outbox.flushAuditOutbox(async entry => {
+      entry.dbSynced = true;
+      entry.sheetsSynced = true;
+    });
+    expect(outbox.getQueuedAuditRecords()).toEqual([]);
+  });
+
+  it('keeps the targets that succeeded and waits for the backoff before retrying', async () => {
+    const outbox = await loadOutbox();
+    await outbox.enqueueAuditRecord(record('r1'));
+    const processor = vi.fn(async (entry: { dbSynced: boolean; sheetsSynced: boolean }) => {
+      entry.dbSynced = true;
+      if (processor.mock.calls.length === 1) throw new Error('Sheets offline');
+      entry.sheetsSynced = true;
+    });
+
+    await outbox.flushAuditOutbox(processor);
+    expect(outbox.getOutboxCounts()).toEqual({ pending: 1, failed: 0 });
+
+    // Not due yet
+    await outbox.flushAuditOutbox(processor);
+    expect(processor).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(5000);
+    await outbox.flushAuditOutbox(processor);
+    expect(processor).toHaveBeenCalledTimes(2);
+    expect(processor.mock.calls[1][0].dbSynced).toBe(true);
+    expect(outbox.getQueuedAuditRecords()).toEqual([]);
+  });
+
+  it('marks an entry failed after eight attempts until it is retried by hand', async () => {
+    const outbox = await loadOutbox();
+    await outbox.enqueueAuditRecord(record('r1'));
+    const failing = vi.fn(async () => { throw new Error('offline'); });
+
+    for (let attempt = 0; attempt < 8; attempt++) {
+      await outbox.flushAuditOutbox(failing);
+      vi.setSystemTime(Date.now() + 5 * 60 * 1000);
+    }
+    expect(failing).toHaveBeenCalledTimes(8);
+    expect(outbox.getOutboxCounts()).toEqual({ pending: 0, failed: 1 });
+
+    await outbox.flushAuditOutbox(failing);
+    expect(failing).toHaveBeenCalledTimes(8);
+
+    await outbox.retryFailedAudits(async entry => {
+      entry.dbSynced = true;
+      entry.sheetsSynced = true;
+    });
+    expect(outbox.getOutboxCounts()).toEqual({ pending: 0, failed: 0 });
+  });
+
+  it('only sends the signed-in counter\'s entries and holds the rest for their owner', async () => {
+    const outbox = await loadOutbox();
+    await outbox.enqueueAuditRecord(record('r1', 'Staf Satu'));
+    await outbox.enqueueAuditRecord(record('r2', 'Staf Dua'));
+    const processor = vi.fn(async (entry: { dbSynced: boolean; sheetsSynced: boolean }) => {
+      entry.dbSynced = true;
+      entry.sheetsSynced = true;
+    });
+
+    for (let attempt = 0; attempt < 10; attempt++) {
+      await outbox.flushAuditOutbox(processor, 'Staf Dua');
+      vi.setSystemTime(Date.now() + 5 * 60 * 1000);
+    }
+    expect(processor).toHaveBeenCalledTimes(1);
+    expect(outbox.getQueuedAuditRecords().map(r => r.id)).toEqual(['r1']);
+    expect(outbox.getOutboxCounts()).toEqual({ pending: 1, failed: 0 });
+    expect(outbox.getHeldAuditOwners('Staf Dua')).toEqual(['Staf Satu']);
+
+    await outbox.flushAuditOutbox(processor, 'Staf Satu');
+    expect(outbox.getQueuedAuditRecords()).toEqual([]);
+    expect(outbox.getHeldAuditOwners('Staf Dua')).toEqual([]);
+  });
+});
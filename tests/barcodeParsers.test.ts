@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { parseBarcode, isValidGtin, registerBarcodeParser, resolveScanSku } from '../services/barcodeParsers';
+
+const GS = '\u001d';
+const GTIN = '09506000134352';
+
+describe('GS1 parser', () => {
+  it('reads GTIN, batch, expiry date and quantity from scanner output with FNC1', () => {
+    const scan = parseBarcode(`]C101${GTIN}17261231${GS}10ABC123${GS}3024`);
+    expect(scan).toEqual({
+      parser: 'gs1', code: GTIN, gtin: GTIN, batchNumber: 'ABC123', expiryDate: '31-12-2026', quantity: 24
+    });
+  });
+
+  it('reads the bracketed form printed under the barcode', () => {
+    const scan = parseBarcode(`(01)${GTIN}(10)LOT 7(17)270200(37)12`);
+    expect(scan.gtin).toBe(GTIN);
+    expect(scan.batchNumber).toBe('LOT 7');
+    // Day 00 is the last day of the month
+    expect(scan.expiryDate).toBe('28-02-2027');
+    expect(scan.quantity).toBe(12);
+  });
+
+  it('claims bare digits only when they start with a valid GTIN', () => {
+    expect(isValidGtin(GTIN)).toBe(true);
+    expect(parseBarcode(`01${GTIN}10B1`).parser).toBe('gs1');
+    expect(parseBarcode('0109506000134353').parser).toBe('plain');
+  });
+});
+
+describe('other formats', () => {
+  it('splits our own SKU,BATCH,DDMMYYYY labels', () => {
+    expect(parseBarcode('123BX,12345GG,30092039')).toEqual({
+      parser: 'delimited', code: '123BX', batchNumber: '12345GG', expiryDate: '30-09-2039'
+    });
+    expect(parseBarcode('123BX|B2').batchNumber).toBe('B2');
+  });
+
+  it('takes anything else as a plain code', () => {
+    expect(parseBarcode('  SKU-001 ')).toEqual({ parser: 'plain', code: 'SKU-001' });
+  });
+
+  it('tries registered parsers first', () => {
+    registerBarcodeParser({
+      id: 'supplier-x',
+      parse: text => text.startsWith('X:') ? { parser: 'supplier-x', code: text.slice(2) } : null
+    });
+    expect(parseBarcode('X:ABC,1')).toEqual({ parser: 'supplier-x', code: 'ABC,1' });
+  });
+});
+
+describe('resolveScanSku', () => {
+  const aliases: Record<string, string> = { [GTIN]: 'SKU-9', 'OLD-1': 'SKU-1' };
+  const skuOfAlias = (code: string) => aliases[code];
+
+  it('counts an aliased code as its SKU and a plain code as a SKU of its own', () => {
+    expect(resolveScanSku(parseBarcode(`(01)${GTIN}`), skuOfAlias)).toEqual({ resolved: true, sku: 'SKU-9' });
+    expect(resolveScanSku(parseBarcode('OLD-1'), skuOfAlias)).toEqual({ resolved: true, sku: 'SKU-1' });
+    expect(resolveScanSku(parseBarcode('SKU-2'), skuOfAlias)).toEqual({ resolved: true, sku: 'SKU-2' });
+  });
+
+  it('leaves a GTIN without an alias unresolved instead of using it as a SKU', () => {
+    expect(resolveScanSku(parseBarcode('(01)00012345600012'), skuOfAlias)).toEqual({ resolved: false, gtin: '00012345600012' });
+  });
+});
@@ -0,0 +1,539 @@
+// Security rules tests. Run against the Firestore emulator with `npm run test:rules`
+// (needs Java for the emulator). Each test starts from the fixture in seed().
+
+import { before, after, beforeEach, describe, it } from 'node:test';
+import { readFileSync } from 'node:fs';
+import {
+  initializeTestEnvironment,
+  assertSucceeds,
+  assertFails,
+  RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+
+const HOUR = 60 * 60 * 1000;
+
+const ADMIN = { username: 'admin1', name: 'Admin Satu', role: 'admin' };
+const STAFF = { username: 'staff1', name: 'Staf Satu', role: 'user' };
+const SUPERVISOR = { username: 'spv1', name: 'Supervisor Satu', role: 'supervisor' };
+const VIEWER = { username: 'finance1', name: 'Finance Satu', role: 'viewer' };
+const HASHES: Record<string, string> = { admin1: 'hash-admin', staff1: 'hash-staff', spv1: 'hash-spv', finance1: 'hash-viewer' };
+
+let env: RulesTestEnvironment;
+
+const profile = (u: typeof ADMIN) => ({ ...u, passwordSalt: 'c2FsdA==', passwordIterations: 210000 });
+
+const session = (uid: string, u: typeof ADMIN, overrides: Record<string, any> = {}) => ({
+  token: uid,
+  username: u.username,
+  role: u.role,
+  name: u.name,
+  issuedAt: Date.now(),
+  expiresAt: Date.now() + 12 * HOUR,
+  ...overrides
+});
+
+const loginProof = (u: typeof ADMIN, overrides: Record<string, any> = {}) => ({
+  username: u.username,
+  passwordHash: HASHES[u.username],
+  createdAt: Date.now(),
+  ...overrides
+});
+
+const auditRecord = (id: string, teamMember: string, overrides: Record<string, any> = {}) => ({
+  id, sku: 'SKU-1', itemName: 'Item', location: 'A-01', batchNumber: '-', expiryDate: '-',
+  systemQty: 10, physicalQty: 10, variance: 0, timestamp: 2, teamMember, ...overrides
+});
+
+const seed = async (options: { setupDone?: boolean } = {}) => {
+  await env.clearFirestore();
+  await env.withSecurityRulesDisabled(async (ctx) => {
+    const db = ctx.firestore();
+    if (options.setupDone !== false) {
+      await db.doc('system/setup').set({ admin: ADMIN.username, completedAt: Date.now() });
+      for (const u of [ADMIN, STAFF, SUPERVISOR, VIEWER]) {
+        await db.doc(`users/${u.username}`).set(profile(u));
+        await db.doc(`user_credentials/${u.username}`).set({ username: u.username, passwordHash: HASHES[u.username] });
+      }
+      await db.doc('sessions/admin-uid').set(session('admin-uid', ADMIN));
+      await db.doc('sessions/staff-uid').set(session('staff-uid', STAFF));
+      await db.doc('sessions/spv-uid').set(session('spv-uid', SUPERVISOR));
+      await db.doc('sessions/viewer-uid').set(session('viewer-uid', VIEWER));
+      await db.doc('sessions/expired-uid').set(session('expired-uid', STAFF, { expiresAt: Date.now() - HOUR }));
+      await db.doc('master_data/SKU-1').set({ sku: 'SKU-1', name: 'Item', systemStock: 10 });
+      await db.doc('audit_logs/log-1').set({ id: 'log-1', sku: 'SKU-1', teamMember: STAFF.name, timestamp: 1 });
+      await db.doc('backup_audit_logs_latest/log-0').set({ id: 'log-0', teamMember: STAFF.name });
+    }
+  });
+};
+
+const adminDb = () => env.authenticatedContext('admin-uid').firestore();
+const staffDb = () => env.authenticatedContext('staff-uid').firestore();
+const supervisorDb = () => env.authenticatedContext('spv-uid').firestore();
+const viewerDb = () => env.authenticatedContext('viewer-uid').firestore();
+const anonDb = () => env.authenticatedContext('no-session-uid').firestore();
+const guestDb = () => env.unauthenticatedContext().firestore();
+
+before(async () => {
+  env = await initializeTestEnvironment({
+    projectId: 'demo-smart-cycle-count',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+  });
+});
+
+after(async () => {
+  await env.cleanup();
+});
+
+describe('users', () => {
+  beforeEach(() => seed());
+
+  it('lets signed-in clients read a single profile for login', async () => {
+    await assertSucceeds(anonDb().doc('users/staff1').get());
+    await assertFails(guestDb().doc('users/staff1').get());
+  });
+
+  it('only lets admins list users', async () => {
+    await assertFails(staffDb().collection('users').get());
+    await assertSucceeds(adminDb().collection('users').get());
+  });
+
+  it('only lets admins create or change users', async () => {
+    await assertFails(staffDb().doc('users/staff2').set(profile({ ...STAFF, username: 'staff2' })));
+    await assertFails(staffDb().doc('users/staff1').update({ role: 'admin' }));
+    await assertSucceeds(adminDb().doc('users/staff2').set(profile({ ...STAFF, username: 'staff2' })));
+    await assertSucceeds(adminDb().doc('users/staff1').delete());
+  });
+
+  it('rejects plaintext passwords, inline hashes and unknown roles', async () => {
+    await assertFails(adminDb().doc('users/staff2').set({ ...profile({ ...STAFF, username: 'staff2' }), password: 'secret' }));
+    await assertFails(adminDb().doc('users/staff2').set({ ...profile({ ...STAFF, username: 'staff2' }), passwordHash: 'x' }));
+    await assertFails(adminDb().doc('users/staff2').set(profile({ ...STAFF, username: 'staff2', role: 'super-admin' })));
+  });
+});
+
+describe('initial setup', () => {
+  beforeEach(() => seed({ setupDone: false }));
+
+  it('lets an anonymous client create the first admin and close setup', async () => {
+    const db = anonDb();
+    await assertSucceeds(db.collection('users').get());
+    await assertSucceeds(db.doc('user_credentials/admin1').set({ username: 'admin1', passwordHash: 'hash-admin' }));
+    await assertSucceeds(db.doc('users/admin1').set(profile(ADMIN)));
+    await assertSucceeds(db.doc('system/setup').set({ admin: 'admin1', completedAt: Date.now() }));
+    await assertFails(db.doc('users/intruder').set(profile({ ...ADMIN, username: 'intruder' })));
+  });
+
+  it('does not allow creating staff accounts during setup', async () => {
+    await assertFails(anonDb().doc('users/staff1').set(profile(STAFF)));
+  });
+
+  it('cannot be reopened once the marker exists', async () => {
+    await seed();
+    await assertFails(anonDb().doc('system/setup').set({ admin: 'admin1', completedAt: 0 }));
+    await assertFails(anonDb().doc('system/setup').delete());
+    await assertFails(anonDb().doc('users/intruder').set(profile({ ...ADMIN, username: 'intruder' })));
+  });
+});
+
+describe('user_credentials', () => {
+  beforeEach(() => seed());
+
+  it('is never readable, even by admins', async () => {
+    await assertFails(adminDb().doc('user_credentials/staff1').get());
+    await assertFails(adminDb().collection('user_credentials').get());
+  });
+
+  it('is only writable by admins', async () => {
+    await assertFails(staffDb().doc('user_credentials/staff1').set({ username: 'staff1', passwordHash: 'mine' }));
+    await assertSucceeds(adminDb().doc('user_credentials/staff1').set({ username: 'staff1', passwordHash: 'reset' }));
+  });
+});
+
+describe('login_proofs', () => {
+  beforeEach(() => seed());
+
+  it('accepts a fresh proof that matches the stored hash', async () => {
+    const db = env.authenticatedContext('new-uid').firestore();
+    await assertSucceeds(db.doc('login_proofs/new-uid').set(loginProof(STAFF)));
+    await assertSucceeds(db.doc('login_proofs/new-uid').delete());
+  });
+
+  it('rejects a wrong hash, a stale proof or another uid', async () => {
+    const db = env.authenticatedContext('new-uid').firestore();
+    await assertFails(db.doc('login_proofs/new-uid').set(loginProof(STAFF, { passwordHash: 'guess' })));
+    await assertFails(db.doc('login_proofs/new-uid').set(loginProof(STAFF, { createdAt: Date.now() - HOUR })));
+    await assertFails(db.doc('login_proofs/other-uid').set(loginProof(STAFF)));
+  });
+
+  it('is never readable, even by its owner or admins', async () => {
+    await env.withSecurityRulesDisabled(ctx => ctx.firestore().doc('login_proofs/staff-uid').set(loginProof(STAFF)));
+    await assertFails(staffDb().doc('login_proofs/staff-uid').get());
+    await assertFails(adminDb().doc('login_proofs/staff-uid').get());
+    await assertFails(adminDb().collection('login_proofs').get());
+  });
+});
+
+describe('sessions', () => {
+  beforeEach(() => seed());
+
+  const withProof = async (uid: string, u: typeof ADMIN, overrides: Record<string, any> = {}) => {
+    await env.withSecurityRulesDisabled(ctx => ctx.firestore().doc(`login_proofs/${uid}`).set(loginProof(u, overrides)));
+    return env.authenticatedContext(uid).firestore();
+  };
+
+  it('accepts a session backed by a fresh proof', async () => {
+    const db = await withProof('new-uid', STAFF);
+    await assertSucceeds(db.doc('sessions/new-uid').set(session('new-uid', STAFF)));
+  });
+
+  it('rejects a session without a proof, with a stale one or one for another user', async () => {
+    const db = env.authenticatedContext('new-uid').firestore();
+    await assertFails(db.doc('sessions/new-uid').set(session('new-uid', STAFF)));
+    await withProof('new-uid', STAFF, { createdAt: Date.now() - HOUR });
+    await assertFails(db.doc('sessions/new-uid').set(session('new-uid', STAFF)));
+    await withProof('new-uid', STAFF);
+    await assertFails(db.doc('sessions/new-uid').set(session('new-uid', ADMIN)));
+  });
+
+  it('does not store the password hash in the session', async () => {
+    const db = await withProof('new-uid', STAFF);
+    await assertFails(db.doc('sessions/new-uid').set(session('new-uid', STAFF, { passwordHash: HASHES.staff1 })));
+  });
+
+  it('rejects a role that does not match the user', async () => {
+    const db = await withProof('new-uid', STAFF);
+    await assertFails(db.doc('sessions/new-uid').set(session('new-uid', STAFF, { role: 'admin' })));
+  });
+
+  it('rejects sessions for another uid or longer than a shift', async () => {
+    const db = await withProof('new-uid', STAFF);
+    await withProof('other-uid', STAFF);
+    await assertFails(db.doc('sessions/other-uid').set(session('other-uid', STAFF)));
+    await assertFails(db.doc('sessions/new-uid').set(session('new-uid', STAFF, { expiresAt: Date.now() + 48 * HOUR })));
+  });
+
+  it('only exposes a session to its owner and admins', async () => {
+    await assertSucceeds(staffDb().doc('sessions/staff-uid').get());
+    await assertFails(staffDb().doc('sessions/admin-uid').get());
+    await assertFails(staffDb().collection('sessions').get());
+    await assertSucceeds(adminDb().collection('sessions').get());
+  });
+});
+
+describe('master_data', () => {
+  beforeEach(() => seed());
+
+  it('is readable with a live session only', async () => {
+    await assertSucceeds(staffDb().collection('master_data').get());
+    await assertFails(anonDb().collection('master_data').get());
+    await assertFails(env.authenticatedContext('expired-uid').firestore().collection('master_data').get());
+  });
+
+  it('is only writable by admins', async () => {
+    await assertFails(staffDb().doc('master_data/SKU-1').set({ sku: 'SKU-1', name: 'Item', systemStock: 0 }));
+    await assertFails(staffDb().doc('master_data/SKU-1').delete());
+    await assertSucceeds(adminDb().doc('master_data/SKU-2').set({ sku: 'SKU-2', name: 'Item 2', systemStock: 5 }));
+  });
+
+  it('stops applying admin rights once the user is demoted', async () => {
+    await env.withSecurityRulesDisabled(ctx => ctx.firestore().doc('users/admin1').update({ role: 'user' }));
+    await assertFails(adminDb().doc('master_data/SKU-2').set({ sku: 'SKU-2', name: 'Item 2', systemStock: 5 }));
+  });
+
+  it('keeps the sync source and history to admins', async () => {
+    const source = { id: 'default', sheetUrl: 'https://docs.google.com/spreadsheets/d/abc', spreadsheetId: 'abc', gid: '0', headerMapping: { SKU: 'sku' } };
+    await assertFails(supervisorDb().doc('master_data_sources/default').set(source));
+    await assertFails(staffDb().doc('master_sync_history/run1').set({ id: 'run1', status: 'applied' }));
+    await assertFails(staffDb().collection('master_sync_history').get());
+    await assertSucceeds(adminDb().doc('master_data_sources/default').set(source));
+    await assertSucceeds(adminDb().doc('master_sync_history/run1').set({ id: 'run1', status: 'applied' }));
+  });
+});
+
+describe('master_locations', () => {
+  beforeEach(() => seed());
+
+  it('is readable with a live session and only writable by admins', async () => {
+    const location = { id: 'A-01', name: 'A-01', zone: 'Zona A' };
+    await assertSucceeds(staffDb().collection('master_locations').get());
+    await assertFails(anonDb().collection('master_locations').get());
+    await assertFails(staffDb().doc('master_locations/A-01').set(location));
+    await assertFails(supervisorDb().doc('master_locations/A-01').set(location));
+    await assertSucceeds(adminDb().doc('master_locations/A-01').set(location));
+    await assertSucceeds(adminDb().doc('master_locations/A-01').delete());
+  });
+});
+
+describe('sku_aliases', () => {
+  beforeEach(() => seed());
+
+  it('is readable with a live session and only writable by admins', async () => {
+    const alias = { alias: '09501101020917', sku: 'SKU-1', createdBy: ADMIN.name, createdAt: 1 };
+    await assertSucceeds(staffDb().collection('sku_aliases').get());
+    await assertFails(anonDb().collection('sku_aliases').get());
+    await assertFails(staffDb().doc('sku_aliases/09501101020917').set(alias));
+    await assertFails(supervisorDb().doc('sku_aliases/09501101020917').set(alias));
+    await assertSucceeds(adminDb().doc('sku_aliases/09501101020917').set(alias));
+    await assertSucceeds(adminDb().doc('sku_aliases/09501101020917').delete());
+  });
+});
+
+describe('sku_units', () => {
+  beforeEach(() => seed());
+
+  it('is readable with a live session and only writable by admins', async () => {
+    const units = { sku: 'SKU-1', units: [{ unit: 'BOX', factor: 12 }] };
+    await assertSucceeds(staffDb().collection('sku_units').get());
+    await assertFails(anonDb().collection('sku_units').get());
+    await assertFails(staffDb().doc('sku_units/SKU-1').set(units));
+    await assertFails(supervisorDb().doc('sku_units/SKU-1').set(units));
+    await assertSucceeds(adminDb().doc('sku_units/SKU-1').set(units));
+    await assertSucceeds(adminDb().doc('sku_units/SKU-1').delete());
+  });
+});
+
+describe('audit_logs', () => {
+  beforeEach(() => seed());
+
+  it('lets staff create records under their own name only', async () => {
+    await assertSucceeds(staffDb().doc('audit_logs/log-2').set(auditRecord('log-2', STAFF.name)));
+    await assertFails(staffDb().doc('audit_logs/log-3').set(auditRecord('log-3', ADMIN.name)));
+  });
+
+  it('requires counters to store the complete record', async () => {
+    await assertFails(staffDb().doc('audit_logs/log-4').set({ id: 'log-4', sku: 'SKU-1', teamMember: STAFF.name, timestamp: 4 }));
+    await assertFails(staffDb().doc('audit_logs/log-5').set(auditRecord('log-5', STAFF.name, { physicalQty: '10' })));
+    await assertFails(staffDb().doc('audit_logs/log-6').set(auditRecord('log-7', STAFF.name)));
+    await assertFails(staffDb().doc('audit_logs/log-8').set(auditRecord('log-8', STAFF.name, { unitEntry: '2 BOX' })));
+  });
+
+  it('accepts a count entered in mixed units', async () => {
+    const unitEntry = [{ unit: 'BOX', qty: 2, factor: 12 }, { unit: 'PCS', qty: 3, factor: 1 }];
+    await assertSucceeds(staffDb().doc('audit_logs/log-9').set(auditRecord('log-9', STAFF.name, { physicalQty: 27, unitEntry })));
+  });
+
+  it('lets counters flag their own record for a recount but not review it', async () => {
+    const flagged = { countStatus: 'recount_required', recountAssignee: ADMIN.name };
+    await assertSucceeds(staffDb().doc('audit_logs/log-10').set(auditRecord('log-10', STAFF.name, flagged)));
+    await assertFails(staffDb().doc('audit_logs/log-11').set(auditRecord('log-11', STAFF.name, { countStatus: 'resolved', acceptedQty: 10 })));
+    await assertFails(staffDb().doc('audit_logs/log-12').set(auditRecord('log-12', STAFF.name, { approvalStatus: 'approved' })));
+    await assertFails(staffDb().doc('audit_logs/log-13').set(auditRecord('log-13', STAFF.name, { ...flagged, resolvedBy: STAFF.name })));
+    await assertFails(staffDb().doc('audit_logs/log-14').set(auditRecord('log-14', STAFF.name, { recountAssignee: ADMIN.name })));
+    await assertSucceeds(supervisorDb().doc('audit_logs/log-15').set(auditRecord('log-15', SUPERVISOR.name, { approvalStatus: 'approved' })));
+  });
+
+  it('freezes the quantities of an approved record for its counter', async () => {
+    await env.withSecurityRulesDisabled(ctx => ctx.firestore().doc('audit_logs/log-16').set(auditRecord('log-16', STAFF.name, { approvalStatus: 'approved' })));
+    await assertFails(staffDb().doc('audit_logs/log-16').update({ physicalQty: 3 }));
+    await assertFails(staffDb().doc('audit_logs/log-16').update({ systemQty: 3, variance: 7 }));
+    await assertSucceeds(staffDb().doc('audit_logs/log-16').update({ notes: 'Rak penuh' }));
+    await assertSucceeds(staffDb().doc('audit_logs/log-2').set(auditRecord('log-2', STAFF.name)));
+    await assertSucceeds(staffDb().doc('audit_logs/log-2').update({ physicalQty: 3 }));
+  });
+
+  it('lets staff resend their own record but not take over others', async () => {
+    await assertSucceeds(staffDb().doc('audit_logs/log-1').set({ id: 'log-1', teamMember: STAFF.name, timestamp: 1 }));
+    await assertFails(staffDb().doc('audit_logs/log-1').set({ id: 'log-1', teamMember: 'Orang Lain', timestamp: 1 }));
+  });
+
+  it('reserves deletes for admins', async () => {
+    await assertFails(staffDb().doc('audit_logs/log-1').delete());
+    await assertSucceeds(adminDb().doc('audit_logs/log-1').delete());
+  });
+
+  it('reserves soft deletes and restores for admins', async () => {
+    await assertFails(staffDb().doc('audit_logs/log-1').update({ deletedAt: 5, deletedBy: STAFF.name }));
+    await assertFails(supervisorDb().doc('audit_logs/log-1').update({ deletedAt: 5, deletedBy: SUPERVISOR.name }));
+    await assertSucceeds(adminDb().doc('audit_logs/log-1').update({ deletedAt: 5, deletedBy: ADMIN.name }));
+    await assertSucceeds(adminDb().doc('audit_logs/log-1').update({ deletedAt: null, deletedBy: null }));
+  });
+});
+
+describe('location_states', () => {
+  beforeEach(() => seed());
+
+  it('lets staff report a location under their own name only', async () => {
+    await assertSucceeds(staffDb().doc('location_states/A-01').set({ locationId: 'A-01', status: 'audited', timestamp: 1, reportedBy: STAFF.name }));
+    await assertFails(staffDb().doc('location_states/A-02').set({ locationId: 'A-02', status: 'audited', timestamp: 1, reportedBy: ADMIN.name }));
+    await assertFails(staffDb().doc('location_states/A-03').set({ locationId: 'A-03', status: 'empty', timestamp: 1 }));
+  });
+
+  it('reserves deletes for admins', async () => {
+    await env.withSecurityRulesDisabled(ctx => ctx.firestore().doc('location_states/A-01').set({ locationId: 'A-01', status: 'audited', timestamp: 1 }));
+    await assertFails(staffDb().doc('location_states/A-01').delete());
+    await assertSucceeds(adminDb().doc('location_states/A-01').delete());
+  });
+});
+
+describe('activity_logs', () => {
+  beforeEach(() => seed());
+
+  it('is append-only for staff under their own name', async () => {
+    await assertSucceeds(staffDb().doc('activity_logs/a1').set({ id: 'a1', type: 'scan', user: STAFF.name, timestamp: 1 }));
+    await assertFails(staffDb().doc('activity_logs/a2').set({ id: 'a2', type: 'scan', user: ADMIN.name, timestamp: 1 }));
+    await assertFails(staffDb().doc('activity_logs/a1').update({ title: 'edited' }));
+    await assertFails(staffDb().doc('activity_logs/a1').delete());
+  });
+
+  it('records the real actor of a change', async () => {
+    const change = { type: 'update', timestamp: 1, targetTable: 'audit_logs', targetId: 'log-1', changes: [{ field: 'physicalQty', before: 5, after: 7 }] };
+    await assertSucceeds(supervisorDb().doc('activity_logs/a3').set({ id: 'a3', ...change, user: SUPERVISOR.name, actorUsername: SUPERVISOR.username }));
+    await assertFails(supervisorDb().doc('activity_logs/a4').set({ id: 'a4', ...change, user: SUPERVISOR.name, actorUsername: ADMIN.username }));
+    await assertFails(adminDb().doc('activity_logs/a5').set({ id: 'a5', ...change, user: ADMIN.name, actorUsername: STAFF.username }));
+  });
+});
+
+describe('backups', () => {
+  beforeEach(() => seed());
+
+  it('are admin-only for reset and restore', async () => {
+    await assertFails(staffDb().collection('backups').get());
+    await assertFails(staffDb().doc('backup_records/b1__audit_log__log-1').set({ backupId: 'b1' }));
+    await assertSucceeds(adminDb().doc('backups/b1').set({ id: 'b1', createdAt: 1, reason: 'manual' }));
+    await assertSucceeds(adminDb().collection('backup_records').where('backupId', '==', 'b1').get());
+    await assertFails(staffDb().collection('backup_audit_logs_latest').get());
+    await assertFails(staffDb().doc('backup_location_states_latest/A-01').set({ locationId: 'A-01' }));
+    await assertSucceeds(adminDb().collection('backup_audit_logs_latest').get());
+    await assertSucceeds(adminDb().doc('backup_location_states_latest/A-01').set({ locationId: 'A-01' }));
+  });
+});
+
+describe('count_sessions', () => {
+  beforeEach(() => seed());
+
+  const countSession = (id: string, overrides: Record<string, any> = {}) => ({
+    id, name: 'SO Q3', startDate: '2026-07-01', scope: { zones: [], categories: [] },
+    status: 'planned', createdBy: SUPERVISOR.name, createdAt: 1, ...overrides
+  });
+
+  it('lets supervisors and admins plan and close sessions', async () => {
+    await assertSucceeds(supervisorDb().doc('count_sessions/s1').set(countSession('s1')));
+    await assertSucceeds(supervisorDb().doc('count_sessions/s1').update({ status: 'closed', closedAt: 2 }));
+    await assertSucceeds(adminDb().doc('count_sessions/s2').set(countSession('s2', { status: 'active' })));
+  });
+
+  it('rejects sessions from counters, unknown statuses and mismatched ids', async () => {
+    await assertFails(staffDb().doc('count_sessions/s1').set(countSession('s1')));
+    await assertFails(supervisorDb().doc('count_sessions/s1').set(countSession('s1', { status: 'archived' })));
+    await assertFails(supervisorDb().doc('count_sessions/s1').set(countSession('other')));
+  });
+
+  it('reserves the Google Sheets target for admins', async () => {
+    const sheetsTarget = { spreadsheetId: 'abc', sheetTitle: 'Audit', columns: ['sku', 'physicalQty'] };
+    await assertFails(supervisorDb().doc('count_sessions/s1').set(countSession('s1', { sheetsTarget })));
+    await assertSucceeds(supervisorDb().doc('count_sessions/s1').set(countSession('s1')));
+    await assertFails(supervisorDb().doc('count_sessions/s1').update({ sheetsTarget }));
+    await assertSucceeds(adminDb().doc('count_sessions/s1').update({ sheetsTarget }));
+    await assertSucceeds(supervisorDb().doc('count_sessions/s1').update({ status: 'active' }));
+  });
+
+  it('is readable by every role but only deletable by admins', async () => {
+    await env.withSecurityRulesDisabled(ctx => ctx.firestore().doc('count_sessions/s1').set(countSession('s1')));
+    await assertSucceeds(viewerDb().collection('count_sessions').get());
+    await assertFails(supervisorDb().doc('count_sessions/s1').delete());
+    await assertSucceeds(adminDb().doc('count_sessions/s1').delete());
+  });
+});
+
+describe('supervisor and viewer roles', () => {
+  beforeEach(() => seed());
+
+  it('lets supervisors correct counts but not delete them', async () => {
+    await assertSucceeds(supervisorDb().doc('audit_logs/log-1').update({ physicalQty: 7 }));
+    await assertFails(supervisorDb().doc('audit_logs/log-1').delete());
+  });
+
+  it('does not let supervisors reset data or change master data', async () => {
+    await assertFails(supervisorDb().doc('backup_audit_logs_latest/log-1').set({ id: 'log-1' }));
+    await assertFails(supervisorDb().doc('master_data/SKU-1').set({ sku: 'SKU-1', name: 'Item', systemStock: 0 }));
+  });
+
+  it('keeps viewers read-only', async () => {
+    await assertSucceeds(viewerDb().collection('audit_logs').get());
+    await assertSucceeds(viewerDb().collection('master_data').get());
+    await assertFails(viewerDb().doc('audit_logs/log-9').set(auditRecord('log-9', VIEWER.name)));
+    await assertFails(viewerDb().doc('location_states/A-09').set({ locationId: 'A-09', status: 'empty', timestamp: 1, reportedBy: VIEWER.name }));
+    await assertFails(viewerDb().doc('audit_logs/log-1').update({ physicalQty: 0 }));
+  });
+});
+
+describe('recounts', () => {
+  beforeEach(async () => {
+    await seed();
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      const db = ctx.firestore();
+      await db.doc('audit_logs/flag-1').set({
+        id: 'flag-1', sku: 'SKU-1', teamMember: ADMIN.name, timestamp: 5,
+        systemQty: 10, physicalQty: 4, variance: -6,
+        countStatus: 'recount_required', recountAssignee: STAFF.name
+      });
+      await db.doc('audit_logs/flag-2').set({
+        id: 'flag-2', sku: 'SKU-1', teamMember: STAFF.name, timestamp: 6,
+        systemQty: 10, physicalQty: 2, variance: -8, countStatus: 'recount_required'
+      });
+    });
+  });
+
+  const recount = (u: typeof ADMIN, physicalQty = 9) => ({ physicalQty, teamMember: u.name, timestamp: 7 });
+
+  it('lets the assigned counter file a recount', async () => {
+    await assertSucceeds(staffDb().doc('audit_logs/flag-1').update({ recount: recount(STAFF), countStatus: 'recounted' }));
+  });
+
+  it('rejects recounts that touch the first count or use another name', async () => {
+    await assertFails(staffDb().doc('audit_logs/flag-1').update({ recount: recount(STAFF), countStatus: 'recounted', physicalQty: 9 }));
+    await assertFails(staffDb().doc('audit_logs/flag-1').update({ recount: recount(SUPERVISOR), countStatus: 'recounted' }));
+    await assertFails(staffDb().doc('audit_logs/flag-1').update({ recount: recount(STAFF), countStatus: 'resolved' }));
+  });
+
+  it('keeps the first counter and viewers from recounting', async () => {
+    await assertFails(staffDb().doc('audit_logs/flag-2').update({ recount: recount(STAFF), countStatus: 'recounted' }));
+    await assertFails(viewerDb().doc('audit_logs/flag-2').update({ recount: recount(VIEWER), countStatus: 'recounted' }));
+  });
+
+  it('leaves resolving to supervisors', async () => {
+    await assertFails(staffDb().doc('audit_logs/flag-2').update({ countStatus: 'resolved', acceptedQty: 2 }));
+    await assertSucceeds(supervisorDb().doc('audit_logs/flag-2').update({ countStatus: 'resolved', acceptedQty: 9, resolvedBy: SUPERVISOR.name, resolvedAt: 8 }));
+  });
+});
+
+describe('adjustments', () => {
+  beforeEach(() => seed());
+
+  const adjustment = (id: string, approvedBy = SUPERVISOR.name) => ({
+    id, auditId: id, sessionId: 'default', sku: 'SKU-1', itemName: 'Item', batchNumber: '-', expiryDate: '-',
+    location: 'A-01', systemQty: 10, countedQty: 8, qtyDelta: -2, reasonCode: 'damaged', approvedBy, approvedAt: 1
+  });
+
+  it('lets supervisors journal approvals under their own name', async () => {
+    await assertSucceeds(supervisorDb().doc('adjustments/log-1').set(adjustment('log-1')));
+    await assertFails(supervisorDb().doc('adjustments/log-2').set(adjustment('log-2', ADMIN.name)));
+    await assertFails(supervisorDb().doc('adjustments/log-3').set(adjustment('log-1')));
+    await assertFails(staffDb().doc('adjustments/log-1').set(adjustment('log-1', STAFF.name)));
+  });
+
+  it('only allows the ERP posting stamp to change', async () => {
+    await env.withSecurityRulesDisabled(ctx => ctx.firestore().doc('adjustments/log-1').set(adjustment('log-1')));
+    await assertSucceeds(supervisorDb().doc('adjustments/log-1').update({ postedAt: 2, postedBy: SUPERVISOR.name }));
+    await assertFails(supervisorDb().doc('adjustments/log-1').update({ qtyDelta: 5 }));
+  });
+
+  it('is readable by variance viewers only', async () => {
+    await assertSucceeds(viewerDb().collection('adjustments').get());
+    await assertFails(staffDb().collection('adjustments').get());
+  });
+
+  it('keeps counters from approving their own variance', async () => {
+    await assertFails(staffDb().doc('audit_logs/log-1').update({ approvalStatus: 'approved', approvedBy: STAFF.name }));
+    await assertSucceeds(supervisorDb().doc('audit_logs/log-1').update({ approvalStatus: 'approved', approvedBy: SUPERVISOR.name }));
+  });
+});
+
+describe('other collections', () => {
+  beforeEach(() => seed());
+
+  it('are denied by default', async () => {
+    await assertFails(adminDb().doc('anything/else').set({ x: 1 }));
+    await assertFails(adminDb().doc('anything/else').get());
+  });
+});
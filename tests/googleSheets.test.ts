@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import type { AuditRecord, SheetsTarget } from '../types';
+import { useGoogleAuth, syncRecordsToSheet, writeHeaderRow } from '../services/googleSheets';
+
+// The access token is only set by the Google sign-in hook, so the hook runs
+// outside React with a sign-in that always succeeds.
+vi.mock('react', () => ({
+  useState: (value: unknown) => [value, () => {}],
+  useEffect: () => {}
+}));
+
+vi.mock('firebase/auth', () => ({
+  GoogleAuthProvider: class {
+    addScope() {}
+    static credentialFromResult() { return { accessToken: 'google-token' }; }
+  },
+  signInWithPopup: async () => ({}),
+  onAuthStateChanged: () => () => {},
+  signOut: async () => {}
+}));
+
+type Cell = string | number;
+
+const columnIndex = (letters: string) => [...letters].reduce((n, c) => n * 26 + c.charCodeAt(0) - 64, 0) - 1;
+
+// Enough of the Sheets API for one tab: row 1 and key column reads, cell and
+// row writes (null skips a cell), appends and row deletions.
+const fakeSheets = (initial: Cell[][]) => {
+  const grid: (Cell | undefined)[][] = initial.map(row => [...row]);
+  const calls: string[] = [];
+
+  const parseRange = (range: string) => {
+    const [, col, row] = range.split('!')[1].match(/^([A-Z]*)(\d*)/)!;
+    return { col: col ? columnIndex(col) : 0, row: row ? Number(row) - 1 : 0 };
+  };
+
+  const writeRow = (row: number, col: number, values: (Cell | null)[]) => {
+    while (grid.length <= row) grid.push([]);
+    values.forEach((value, i) => {
+      if (value !== null) grid[row][col + i] = value;
+    });
+  };
+
+  const fetchMock = vi.fn(async (url: string, init: RequestInit = {}) => {
+    const method = init.method || 'GET';
+    const path = decodeURIComponent(url.replace('https://sheets.googleapis.com/v4/spreadsheets/', ''));
+    calls.push(`${method} ${path}`);
+    const body = init.body ? JSON.parse(init.body as string) : undefined;
+    let result: any = {};
+
+    if (path.includes('?fields=sheets.properties')) {
+      result = { sheets: [{ properties: { title: 'Opname', sheetId: 7 } }] };
+    } else if (method === 'GET' && path.endsWith('!1:1')) {
+      result = grid[0] ? { values: [grid[0].map(cell => cell ?? '')] } : {};
+    } else if (method === 'GET' && path.includes('majorDimension=COLUMNS')) {
+      const { col } = parseRange(path);
+      result = grid.length > 1 ? { values: [grid.slice(1).map(row => row[col] ?? '')] } : {};
+    } else if (method === 'PUT') {
+      const { col, row } = parseRange(path.split('?')[0]);
+      writeRow(row, col, body.values[0]);
+    } else if (path.endsWith('values:batchUpdate')) {
+      body.data.forEach((update: { range: string; values: (Cell | null)[][] }) => {
+        const { col, row } = parseRange(update.range);
+        writeRow(row, col, update.values[0]);
+      });
+    } else if (path.includes(':append')) {
+      body.values.forEach((values: (Cell | null)[]) => writeRow(grid.length, 0, values));
+    } else if (path.endsWith(':batchUpdate')) {
+      body.requests.forEach((request: any) => grid.splice(request.deleteDimension.range.startIndex, 1));
+    }
+    return { ok: true, status: 200, json: async () => result } as Response;
+  });
+
+  return { fetchMock, calls, rows: () => grid.map(row => Array.from(row, cell => cell ?? '')) };
+};
+
+const record = (id: string, sku: string, physicalQty: number) =>
+  ({ id, sku, physicalQty, location: 'R-01' } as AuditRecord);
+
+const target: SheetsTarget = { spreadsheetId: 'sheet-1', sheetTitle: 'Opname', columns: ['sku', 'physicalQty', 'location'] };
+const HEADER = ['Kode Barang', 'QTY Fisik', 'Lokasi', 'ID Record'];
+
+let sheets: ReturnType<typeof fakeSheets>;
+const useSheet = (initial: Cell[][]) => {
+  sheets = fakeSheets(initial);
+  vi.stubGlobal('fetch', sheets.fetchMock);
+};
+
+beforeAll(async () => {
+  await useGoogleAuth().login();
+});
+
+beforeEach(() => useSheet([]));
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('Google Sheets sync', () => {
+  it('titles an empty tab and appends new records with their id', async () => {
+    await writeHeaderRow(target);
+    await syncRecordsToSheet(target, [{ record: record('r1', 'SKU-1', 5), operation: 'upsert' }]);
+
+    expect(sheets.rows()).toEqual([HEADER, ['SKU-1', 5, 'R-01', 'r1']]);
+  });
+
+  it('keeps the ids after the columns of a tab with older headers', async () => {
+    useSheet([['Kode Barang', 'QTY Fisik', 'Lokasi', 'Catatan Gudang'], ['SKU-0', 1, 'R-09', 'cek ulang']]);
+
+    await syncRecordsToSheet(target, [{ record: record('r1', 'SKU-1', 5), operation: 'upsert' }]);
+
+    expect(sheets.rows()).toEqual([
+      ['Kode Barang', 'QTY Fisik', 'Lokasi', 'Catatan Gudang', 'ID Record'],
+      ['SKU-0', 1, 'R-09', 'cek ulang'],
+      ['SKU-1', 5, 'R-01', '', 'r1']
+    ]);
+  });
+
+  it('rewrites the row of a record it already sent instead of appending', async () => {
+    useSheet([HEADER, ['SKU-1', 5, 'R-01', 'r1'], ['SKU-2', 3, 'R-01', 'r2']]);
+
+    await syncRecordsToSheet(target, [{ record: record('r2', 'SKU-2', 8), operation: 'upsert' }]);
+
+    expect(sheets.rows()).toEqual([HEADER, ['SKU-1', 5, 'R-01', 'r1'], ['SKU-2', 8, 'R-01', 'r2']]);
+    expect(sheets.calls.some(call => call.includes(':append'))).toBe(false);
+  });
+
+  it('keeps the first row of an id found twice and removes the other', async () => {
+    useSheet([HEADER, ['SKU-1', 5, 'R-01', 'r1'], ['SKU-2', 3, 'R-01', 'r2'], ['SKU-1', 5, 'R-01', 'r1']]);
+
+    await syncRecordsToSheet(target, [{ record: record('r1', 'SKU-1', 6), operation: 'upsert' }]);
+
+    expect(sheets.rows()).toEqual([HEADER, ['SKU-1', 6, 'R-01', 'r1'], ['SKU-2', 3, 'R-01', 'r2']]);
+  });
+
+  it('removes the row of a deleted record', async () => {
+    useSheet([HEADER, ['SKU-1', 5, 'R-01', 'r1'], ['SKU-2', 3, 'R-01', 'r2'], ['SKU-3', 2, 'R-01', 'r3']]);
+
+    await syncRecordsToSheet(target, [{ record: record('r2', 'SKU-2', 3), operation: 'delete' }]);
+
+    expect(sheets.rows()).toEqual([HEADER, ['SKU-1', 5, 'R-01', 'r1'], ['SKU-3', 2, 'R-01', 'r3']]);
+  });
+});
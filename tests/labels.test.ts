@@ -0,0 +1,27 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { labelCodeProblem, printLabels, LABEL_SIZES } from '../services/labels';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('label codes', () => {
+  it('rejects codes Code128 cannot encode but QR can', () => {
+    expect(labelCodeProblem('RAK-A1', 'code128')).toBeNull();
+    expect(labelCodeProblem('RAK-Ä1', 'code128')).not.toBeNull();
+    expect(labelCodeProblem('RAK-Ä1', 'qr')).toBeNull();
+    expect(labelCodeProblem('  ', 'qr')).not.toBeNull();
+  });
+
+  it('names the labels that cannot be printed before opening the print window', async () => {
+    const open = vi.fn();
+    vi.stubGlobal('window', { open });
+    const labels = [
+      { code: 'RAK-A1', title: 'Rak A1' },
+      { code: 'GUDANG-É', title: 'Gudang É' }
+    ];
+    await expect(printLabels(labels, { symbology: 'code128', size: LABEL_SIZES[0], layout: 'sheet' }))
+      .rejects.toThrow('Gudang É');
+    expect(open).not.toHaveBeenCalled();
+  });
+});
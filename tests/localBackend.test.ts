@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createLocalBackend } from '../services/localBackend';
+
+// No IndexedDB under Node, so the backend runs purely in memory here.
+
+interface Row {
+  id: string;
+  sku: string;
+  qty: number;
+}
+
+describe('local backend', () => {
+  it('stores, reads and removes rows without any network', async () => {
+    const backend = createLocalBackend({ persist: false });
+    await backend.set<Row>('items', 'a', { id: 'a', sku: 'SKU-1', qty: 2 });
+    await backend.setMany<Row>('items', [
+      { id: 'b', data: { id: 'b', sku: 'SKU-2', qty: 5 } },
+      { id: 'c', data: { id: 'c', sku: 'SKU-1', qty: 1 } }
+    ]);
+
+    expect(await backend.get<Row>('items', 'b')).toEqual({ id: 'b', sku: 'SKU-2', qty: 5 });
+    expect(await backend.get<Row>('items', 'missing')).toBeNull();
+    expect((await backend.listWhere<Row>('items', 'sku', 'SKU-1')).map(e => e.id).sort()).toEqual(['a', 'c']);
+
+    await backend.removeMany('items', ['a', 'b']);
+    expect((await backend.listEntries<Row>('items')).map(e => e.id)).toEqual(['c']);
+  });
+
+  it('sorts lists by the requested field', async () => {
+    const backend = createLocalBackend({ persist: false });
+    await backend.setMany<Row>('items', [
+      { id: 'a', data: { id: 'a', sku: 'A', qty: 2 } },
+      { id: 'b', data: { id: 'b', sku: 'B', qty: 9 } },
+      { id: 'c', data: { id: 'c', sku: 'C', qty: 4 } }
+    ]);
+    const rows = await backend.list<Row>('items', { orderBy: 'qty', direction: 'desc' });
+    expect(rows.map(r => r.qty)).toEqual([9, 4, 2]);
+  });
+
+  it('hands out copies so callers cannot change stored rows', async () => {
+    const backend = createLocalBackend({ persist: false });
+    const row = { id: 'a', sku: 'SKU-1', qty: 2 };
+    await backend.set<Row>('items', 'a', row);
+    row.qty = 99;
+    const read = await backend.get<Row>('items', 'a');
+    read!.qty = 42;
+    expect((await backend.get<Row>('items', 'a'))!.qty).toBe(2);
+  });
+
+  it('merges updates and rejects updates of missing rows', async () => {
+    const backend = createLocalBackend({ persist: false });
+    await backend.set<Row>('items', 'a', { id: 'a', sku: 'SKU-1', qty: 2 });
+    await backend.update<Row>('items', 'a', { qty: 3 });
+    expect(await backend.get<Row>('items', 'a')).toEqual({ id: 'a', sku: 'SKU-1', qty: 3 });
+    await expect(backend.update<Row>('items', 'x', { qty: 1 })).rejects.toThrow('items/x');
+  });
+
+  it('notifies subscribers of every change until they unsubscribe', async () => {
+    const backend = createLocalBackend({ persist: false });
+    const onUpdate = vi.fn();
+    const unsubscribe = backend.subscribe<Row>('items', onUpdate, () => {});
+    await vi.waitFor(() => expect(onUpdate).toHaveBeenCalledWith([]));
+
+    await backend.set<Row>('items', 'a', { id: 'a', sku: 'SKU-1', qty: 2 });
+    expect(onUpdate).toHaveBeenLastCalledWith([{ id: 'a', sku: 'SKU-1', qty: 2 }]);
+
+    unsubscribe();
+    await backend.remove('items', 'a');
+    expect(onUpdate).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import type { MasterItem } from '../types';
+import { diffMasterData, stockChangesOf, isEmptyDiff } from '../services/masterDataSync';
+
+const item = (sku: string, batchNumber: string, systemStock: number, extra: Partial<MasterItem> = {}): MasterItem => ({
+  sku, name: `Item ${sku}`, systemStock, batchNumber, expiryDate: '2027-01-31', category: 'General', unit: 'PCS', ...extra
+});
+
+describe('master data diff', () => {
+  it('compares rows by SKU, batch and expiry date', () => {
+    const current = [item('A', 'B1', 10), item('A', 'B2', 5), item('B', '-', 3)];
+    const incoming = [item('A', 'B1', 12), item('A', 'B2', 5), item('A', 'B3', 7)];
+    const diff = diffMasterData(current, incoming, true);
+
+    expect(diff.added.map(i => i.batchNumber)).toEqual(['B3']);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].before.systemStock).toBe(10);
+    expect(diff.changed[0].after.systemStock).toBe(12);
+    expect(diff.changed[0].fields).toEqual(['systemStock']);
+    expect(diff.removed.map(i => i.sku)).toEqual(['B']);
+    expect(stockChangesOf(diff)).toBe(1);
+  });
+
+  it('keeps rows missing from the sheet unless removal is enabled', () => {
+    const diff = diffMasterData([item('A', 'B1', 10), item('B', '-', 3)], [item('A', 'B1', 10)], false);
+    expect(diff.removed).toEqual([]);
+    expect(isEmptyDiff(diff)).toBe(true);
+  });
+
+  it('treats another expiry date or location as a separate row', () => {
+    const current = [item('A', 'B1', 10, { location: 'R-01' })];
+    const incoming = [
+      item('A', 'B1', 10, { location: 'r-01 ' }),
+      item('A', 'B1', 4, { location: 'R-02' }),
+      item('A', 'B1', 1, { expiryDate: '2028-01-31', location: 'R-01' })
+    ];
+    const diff = diffMasterData(current, incoming, true);
+    expect(diff.changed).toEqual([]);
+    expect(diff.added).toHaveLength(2);
+    expect(diff.removed).toEqual([]);
+  });
+
+  it('uses the last row when the sheet lists a batch twice', () => {
+    const diff = diffMasterData([item('A', 'B1', 10)], [item('A', 'B1', 8), item('A', 'B1', 9, { name: 'Renamed' })], true);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].after.systemStock).toBe(9);
+    expect(diff.changed[0].fields).toEqual(['name', 'systemStock']);
+  });
+});
@@ -0,0 +1,10 @@
+import { vi } from 'vitest';
+
+// Unit tests run on the offline backend. Google Sheets still imports the
+// Firebase client, which would set up the live project's app and auth.
+vi.mock('../services/firebaseClient', () => ({
+  db: {},
+  auth: {},
+  ensureSignedIn: async () => null,
+  handleFirestoreError: (error: unknown) => { throw error; }
+}));
@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { AuditRecord, CountSession, MasterItem, MasterLocation, SkuAlias, SkuUnits, UserRole } from '../types';
+import { masterItemKey, findMasterBatch, locationCodeOf, normalizeAliasCode, findSkuAlias, unitsOfSku, unitEntryTotal, formatUnitEntry, baseUnitOf, approveVariance,
+  setLocal, pickRecountAssignee, flagForRecount, submitRecount, resolveRecount } from '../services/storageService';
+import { setBackend, getBackend, TABLES } from '../services/storageBackend';
+import { createLocalBackend } from '../services/localBackend';
+
+// Services read the session and their caches from localStorage, which Node lacks
+const memoryStorage = () => {
+  const data = new Map<string, string>();
+  return {
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => { data.set(key, String(value)); },
+    removeItem: (key: string) => { data.delete(key); }
+  };
+};
+
+const signIn = (name: string, role: UserRole) => localStorage.setItem('app_session', JSON.stringify({
+  token: `token-${name}`, username: name.toLowerCase(), role, name, issuedAt: Date.now(), expiresAt: Date.now() + 60 * 60 * 1000
+}));
+
+const useServiceBackend = () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', new EventTarget());
+    vi.stubGlobal('localStorage', memoryStorage());
+    // No Google Sheets copy, so nothing is queued in the background
+    localStorage.setItem('sheets_mirror_enabled', 'false');
+    setBackend(createLocalBackend({ persist: false }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+};
+
+const audit = (id: string, teamMember: string, systemQty: number, physicalQty: number, extra: Partial<AuditRecord> = {}): AuditRecord => ({
+  id, sku: 'SKU-1', itemName: 'Item SKU-1', location: 'R-01', batchNumber: 'B1', expiryDate: '2027-01-31',
+  systemQty, physicalQty, variance: physicalQty - systemQty, timestamp: 1, teamMember, ...extra
+});
+
+const item = (sku: string, batchNumber: string, expiryDate: string, systemStock: number, location?: string): MasterItem => ({
+  sku, name: `Item ${sku}`, systemStock, batchNumber, expiryDate, category: 'General', unit: 'PCS', ...(location ? { location } : {})
+});
+
+describe('master item keys', () => {
+  it('joins SKU, batch and expiry date with "-" for missing parts', () => {
+    expect(masterItemKey(item('SKU-1', 'B1', '2027-01-31', 0))).toBe('SKU-1|B1|2027-01-31');
+    expect(masterItemKey({ sku: 'SKU-1', batchNumber: ' ', expiryDate: '' })).toBe('SKU-1|-|-');
+  });
+
+  it('normalises the SKU, expiry date and location the way lookups do', () => {
+    const stored = masterItemKey(item('SKU-1', 'B1', '2027-01-31', 0, 'R-01'));
+    expect(masterItemKey({ sku: ' sku-1 ', batchNumber: 'B1', expiryDate: '31-01-2027', location: 'r-01' })).toBe(stored);
+    expect(stored).toBe('SKU-1|B1|2027-01-31|R-01');
+  });
+
+  it('escapes slashes, which document ids cannot contain', () => {
+    expect(masterItemKey(item('A/B', 'B/1', '-', 0))).toBe('A%2FB|B%2F1|-');
+  });
+});
+
+describe('findMasterBatch', () => {
+  const items = [
+    item('SKU-1', 'B1', '2027-01-31', 10),
+    item('SKU-1', 'B1', '2028-01-31', 4),
+    item('SKU-1', 'B2', '2027-06-30', 7),
+    item('SKU-2', '-', '-', 50),
+    item('SKU-3', 'B1', '2027-01-31', 3, 'R-01'),
+    item('SKU-3', 'B1', '2027-01-31', 6, 'R-02')
+  ];
+
+  it('finds the batch and expiry date being counted, whatever the SKU case', () => {
+    expect(findMasterBatch(items, 'sku-1', 'B1', '31-01-2028')?.systemStock).toBe(4);
+    expect(findMasterBatch(items, ' SKU-1', 'B2', '2027-06-30')?.systemStock).toBe(7);
+  });
+
+  it('has no system stock for an expiry date or batch missing from master data', () => {
+    expect(findMasterBatch(items, 'SKU-1', 'B1', '2029-01-31')).toBeUndefined();
+    expect(findMasterBatch(items, 'SKU-1', 'B9', '2027-01-31')).toBeUndefined();
+  });
+
+  it('uses the single row of a SKU imported without batches for every batch', () => {
+    expect(findMasterBatch(items, 'SKU-2', 'ANY', '2030-01-01')?.systemStock).toBe(50);
+  });
+
+  it('compares with the stock at the counted location only', () => {
+    expect(findMasterBatch(items, 'SKU-3', 'B1', '2027-01-31', 'r-02')?.systemStock).toBe(6);
+    expect(findMasterBatch(items, 'SKU-3', 'B1', '2027-01-31', 'R-09')).toBeUndefined();
+  });
+});
+
+describe('locationCodeOf', () => {
+  const locations: MasterLocation[] = [
+    { id: 'A-01-01', name: 'Rak A Baris 1', zone: 'Gudang A' },
+    { id: 'B-02', name: 'B-02', zone: 'Gudang B' }
+  ];
+
+  it('resolves a code or a name to the location code', () => {
+    expect(locationCodeOf(locations, ' a-01-01 ')).toBe('A-01-01');
+    expect(locationCodeOf(locations, 'rak a baris 1')).toBe('A-01-01');
+  });
+
+  it('keeps a location that is not in the list, upper-cased', () => {
+    expect(locationCodeOf(locations, 'lantai 3')).toBe('LANTAI 3');
+  });
+});
+
+describe('SKU alias codes', () => {
+  it('pads GTIN-8/12/13 to 14 digits and upper-cases other codes', () => {
+    expect(normalizeAliasCode('12345670')).toBe('00000012345670');
+    expect(normalizeAliasCode(' 9506000134352 ')).toBe('09506000134352');
+    expect(normalizeAliasCode('sup-77a')).toBe('SUP-77A');
+    // Not a GTIN length, so no padding
+    expect(normalizeAliasCode('1234567890')).toBe('1234567890');
+  });
+
+  it('finds an alias however the code was typed or scanned', () => {
+    const aliases = [{ alias: '09506000134352', sku: 'SKU-9' }, { alias: 'SUP-77A', sku: 'SKU-7' }] as SkuAlias[];
+    expect(findSkuAlias(aliases, '9506000134352')?.sku).toBe('SKU-9');
+    expect(findSkuAlias(aliases, 'sup-77a')?.sku).toBe('SKU-7');
+    expect(findSkuAlias(aliases, '')).toBeUndefined();
+  });
+});
+
+describe('units of measure', () => {
+  const skuUnits: SkuUnits[] = [{ sku: 'SKU-1', units: [{ unit: 'BOX', factor: 12 }, { unit: 'CTN', factor: 120 }] }];
+
+  it('lists pack units largest first, whatever the SKU case', () => {
+    expect(unitsOfSku(skuUnits, ' sku-1').map(u => u.unit)).toEqual(['CTN', 'BOX']);
+    expect(unitsOfSku(skuUnits, 'SKU-2')).toEqual([]);
+    expect(unitsOfSku([{ sku: ' sku-3 ', units: [{ unit: 'BOX', factor: 6 }] }], 'SKU-3').map(u => u.unit)).toEqual(['BOX']);
+  });
+
+  it('adds a mixed-unit entry up in the base unit', () => {
+    const entry = [{ unit: 'CTN', qty: 2, factor: 120 }, { unit: 'BOX', qty: 3, factor: 12 }, { unit: 'PCS', qty: 5, factor: 1 }];
+    expect(unitEntryTotal(entry)).toBe(281);
+    expect(unitEntryTotal([])).toBe(0);
+    expect(formatUnitEntry([...entry, { unit: 'PAK', qty: 0, factor: 6 }])).toBe('2 CTN + 3 BOX + 5 PCS');
+  });
+
+  it('takes the base unit from master data and rejects SKUs whose rows disagree', () => {
+    const items = [item('SKU-1', 'B1', '2027-01-31', 1), item('SKU-1', 'B2', '2027-02-28', 1), { ...item('SKU-2', 'B1', '-', 1), unit: 'Pcs' }, { ...item('SKU-2', 'B2', '-', 1), unit: 'BOX' }];
+    expect(baseUnitOf(items, 'sku-1')).toBe('PCS');
+    expect(() => baseUnitOf(items, 'SKU-2')).toThrow('PCS, BOX');
+    expect(() => baseUnitOf(items, 'SKU-3')).toThrow();
+  });
+});
+
+describe('variance approval', () => {
+  useServiceBackend();
+
+  it('approves the quantity a supervisor settled on after a recount', async () => {
+    await getBackend().set(TABLES.AUDIT_LOGS, 'log-1', audit('log-1', 'Staf Satu', 10, 4, {
+      countStatus: 'resolved', acceptedQty: 9, resolvedBy: 'Supervisor', resolvedAt: 2,
+      recount: { physicalQty: 9, teamMember: 'Staf Dua', timestamp: 2 }
+    }));
+    signIn('Supervisor', 'supervisor');
+
+    await approveVariance('log-1', 'miscount');
+
+    const approved = await getBackend().get<AuditRecord>(TABLES.AUDIT_LOGS, 'log-1');
+    expect(approved?.approvalStatus).toBe('approved');
+    expect(approved?.physicalQty).toBe(4);
+    expect(approved?.variance).toBe(-1);
+    expect((await getBackend().get<{ qtyDelta: number }>(TABLES.ADJUSTMENTS, 'log-1'))?.qtyDelta).toBe(-1);
+  });
+});
+
+describe('recount workflow', () => {
+  useServiceBackend();
+
+  const session = { id: 'opname-1', recountThresholdPercent: 20 } as CountSession;
+
+  it('flags a count only when its variance exceeds the session threshold', () => {
+    expect(flagForRecount(audit('log-1', 'Staf Satu', 10, 8), session).countStatus).toBeUndefined();
+    expect(flagForRecount(audit('log-2', 'Staf Satu', 10, 7), session).countStatus).toBe('recount_required');
+    // Without a session the default threshold of 10% applies
+    expect(flagForRecount(audit('log-3', 'Staf Satu', 10, 8), undefined).countStatus).toBe('recount_required');
+    expect(flagForRecount(audit('log-4', 'Staf Satu', 0, 1), session).countStatus).toBe('recount_required');
+  });
+
+  it('assigns the recount to the least busy other counter of the session', () => {
+    setLocal('local_audit_logs', [
+      audit('log-1', 'Staf Satu', 10, 10, { sessionId: 'opname-1' }),
+      audit('log-2', 'Staf Dua', 10, 10, { sessionId: 'opname-1' }),
+      audit('log-3', 'Staf Tiga', 10, 10, { sessionId: 'opname-1' }),
+      audit('log-4', 'Staf Satu', 10, 2, { sessionId: 'opname-1', countStatus: 'recount_required', recountAssignee: 'Staf Dua' }),
+      audit('log-5', 'Staf Empat', 10, 10, { sessionId: 'opname-2' })
+    ]);
+
+    expect(pickRecountAssignee(audit('log-6', 'Staf Tiga', 10, 2, { sessionId: 'opname-1' }))).toBe('Staf Satu');
+    expect(pickRecountAssignee(audit('log-7', 'Staf Satu', 10, 2, { sessionId: 'opname-1' }))).toBe('Staf Tiga');
+    expect(pickRecountAssignee(audit('log-8', 'Staf Empat', 10, 2, { sessionId: 'opname-2' }))).toBeUndefined();
+  });
+
+  it('lets only the assigned second counter file the recount', async () => {
+    await getBackend().set(TABLES.AUDIT_LOGS, 'log-1', audit('log-1', 'Staf Satu', 10, 4, { countStatus: 'recount_required', recountAssignee: 'Staf Dua' }));
+
+    signIn('Staf Satu', 'user');
+    await expect(submitRecount('log-1', { physicalQty: 9 })).rejects.toThrow('anggota tim yang berbeda');
+    signIn('Staf Tiga', 'user');
+    await expect(submitRecount('log-1', { physicalQty: 9 })).rejects.toThrow('Staf Dua');
+
+    signIn('Staf Dua', 'user');
+    await submitRecount('log-1', { physicalQty: 9 });
+    const recounted = await getBackend().get<AuditRecord>(TABLES.AUDIT_LOGS, 'log-1');
+    expect(recounted?.countStatus).toBe('recounted');
+    expect(recounted?.recount).toMatchObject({ physicalQty: 9, teamMember: 'Staf Dua' });
+    expect(recounted?.physicalQty).toBe(4);
+    await expect(submitRecount('log-1', { physicalQty: 8 })).rejects.toThrow('tidak lagi menunggu');
+  });
+
+  it('leaves the final quantity to a supervisor', async () => {
+    await getBackend().set(TABLES.AUDIT_LOGS, 'log-1', audit('log-1', 'Staf Satu', 10, 4, {
+      countStatus: 'recounted', recount: { physicalQty: 9, teamMember: 'Staf Dua', timestamp: 2 }
+    }));
+
+    signIn('Staf Dua', 'user');
+    await expect(resolveRecount('log-1', 9)).rejects.toThrow();
+
+    signIn('Supervisor', 'supervisor');
+    await expect(resolveRecount('log-1', -1)).rejects.toThrow('tidak valid');
+    await resolveRecount('log-1', 9);
+    expect(await getBackend().get<AuditRecord>(TABLES.AUDIT_LOGS, 'log-1')).toMatchObject({
+      countStatus: 'resolved', acceptedQty: 9, resolvedBy: 'Supervisor', physicalQty: 4
+    });
+  });
+});
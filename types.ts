@@ -7,6 +7,7 @@ export interface MasterItem {
   expiryDate: string; // YYYY-MM-DD
   category: string;
   unit: string;
+  location?: string; // bin/rack code (MasterLocation id); absent = warehouse-wide stock
 }
 
 export interface MasterLocation {
@@ -15,15 +16,49 @@ export interface MasterLocation {
   zone: string;
 }
 
+// Another code printed on the goods (GTIN/EAN, supplier code, old internal code) that stands for a master SKU
+export interface SkuAlias {
+  alias: string; // GTINs are kept as 14 digits
+  sku: string;
+  unit?: string; // pack unit (sku_units) the code is printed on, e.g. CTN for a carton code; absent = base unit
+  createdBy?: string;
+  createdAt?: number;
+}
+
+// --- UNITS OF MEASURE ---
+
+// A pack unit of a SKU, e.g. BOX with factor 12 when a box holds 12 of the
+// base unit (MasterItem.unit)
+export interface UnitConversion {
+  unit: string;
+  factor: number; // base units in one of this unit
+}
+
+export interface SkuUnits {
+  sku: string;
+  units: UnitConversion[];
+  updatedBy?: string;
+  updatedAt?: number;
+}
+
+// One line of a count entered in mixed units; factor is the one in force at
+// the time of counting, so later changes to the SKU's units leave it intact
+export interface UnitQuantity {
+  unit: string;
+  qty: number;
+  factor: number;
+}
+
 export type LocationStatusType = 'pending' | 'audited' | 'empty' | 'damaged';
 
 export interface LocationState {
-  locationId: string; // matches MasterLocation.name or id
+  locationId: string; // location code (MasterLocation id), upper-cased
   status: LocationStatusType;
   timestamp: number;
   photoUrl?: string; // Base64 string for evidence
   description?: string; // Description of damage
   reportedBy?: string;
+  sessionId?: string; // missing on records from before count sessions (= 'default')
 }
 
 export interface AuditRecord {
@@ -35,12 +70,177 @@ export interface AuditRecord {
   batchNumber: string;
   expiryDate: string;
   systemQty: number;
-  physicalQty: number;
+  physicalQty: number; // always in the base unit
+  unitEntry?: UnitQuantity[] | null; // the count as entered, when packs were used; null once the quantity is corrected
   variance: number;
   timestamp: number; // Unix timestamp
   teamMember: string;
   notes?: string;
   evidencePhotos?: string[];
+  sessionId?: string; // CountSession.id; missing on records from before count sessions
+  // Recount workflow, set only when the variance crossed the session threshold
+  countStatus?: CountStatus;
+  recountAssignee?: string;  // team member asked to count again, never the first counter
+  recount?: RecountEntry;
+  acceptedQty?: number;      // final quantity chosen by a supervisor
+  resolvedBy?: string;
+  resolvedAt?: number;
+  // Variance approval; an approved record has a line in the adjustment journal
+  approvalStatus?: VarianceApprovalStatus;
+  approvalReason?: VarianceReasonCode;
+  approvalNote?: string;
+  approvedBy?: string;
+  approvedAt?: number;
+  // Soft delete: hidden everywhere but recoverable until the session is reset
+  deletedAt?: number | null;
+  deletedBy?: string | null;
+}
+
+export type CountStatus = 'recount_required' | 'recounted' | 'resolved';
+
+// The second, independent count of a flagged record
+export interface RecountEntry {
+  physicalQty: number;
+  unitEntry?: UnitQuantity[];
+  teamMember: string;
+  timestamp: number;
+  notes?: string;
+}
+
+// --- VARIANCE APPROVAL ---
+export type VarianceApprovalStatus = 'approved' | 'rejected';
+
+export type VarianceReasonCode =
+  | 'miscount'
+  | 'damaged'
+  | 'expired'
+  | 'theft_loss'
+  | 'misplaced'
+  | 'unrecorded_receipt'
+  | 'unrecorded_issue'
+  | 'other';
+
+// One line of the adjustment journal: an approved variance, ready to be posted
+// to the ERP. Keyed by the audit record id, so a record is journaled once.
+export interface AdjustmentEntry {
+  id: string;
+  auditId: string;
+  sessionId: string;
+  sku: string;
+  itemName: string;
+  unit?: string;
+  batchNumber: string;
+  expiryDate: string;
+  location: string;
+  systemQty: number;
+  countedQty: number;
+  qtyDelta: number;
+  reasonCode: VarianceReasonCode;
+  note?: string;
+  approvedBy: string;
+  approvedAt: number;
+  postedAt?: number;
+  postedBy?: string;
+}
+
+// --- COUNT SESSIONS ---
+export type CountSessionStatus = 'planned' | 'active' | 'closed';
+
+export interface CountSessionScope {
+  zones: string[];      // empty = every zone
+  categories: string[]; // empty = every category
+}
+
+// AuditRecord fields that can be mapped to a Google Sheets column
+export type SheetsColumnField =
+  | 'id' | 'sessionId' | 'sku' | 'itemName' | 'systemQty' | 'physicalQty' | 'variance' | 'acceptedQty'
+  | 'unit' | 'location' | 'batchNumber' | 'expiryDate' | 'teamMember' | 'notes'
+  | 'photoCount' | 'photoLink' | 'timestamp' | 'unitEntry';
+
+export interface SheetsTarget {
+  spreadsheetId: string;
+  sheetTitle: string;           // tab name; empty = first tab
+  columns: SheetsColumnField[]; // column A, B, C... in order
+}
+
+// One stock opname campaign. Audit records and location states belong to
+// exactly one session, so past counts stay queryable after a new one starts.
+export interface CountSession {
+  id: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  endDate?: string;  // YYYY-MM-DD
+  scope: CountSessionScope;
+  status: CountSessionStatus;
+  blindCount?: boolean; // counters do not see system stock or variance
+  recountThresholdPercent?: number; // variance above this needs a second count
+  sheetsTarget?: SheetsTarget;      // where counts are mirrored in Google Sheets
+  createdBy: string;
+  createdAt: number;
+  closedAt?: number;
+}
+
+// --- BACKUPS ---
+export type BackupReason = 'reset' | 'manual' | 'restore' | 'legacy';
+export type BackupRestoreMode = 'merge' | 'replace';
+
+// Metadata of one point-in-time copy of audit_logs and location_states.
+export interface BackupSnapshot {
+  id: string;
+  createdAt: number;
+  createdBy: string;
+  reason: BackupReason;
+  sessionId?: string;   // unset when the snapshot covers every session
+  sessionName?: string;
+  auditLogCount: number;
+  locationStateCount: number;
+}
+
+// --- MASTER DATA SYNC ---
+export type MasterField = 'sku' | 'name' | 'unit' | 'category' | 'batchNumber' | 'expiryDate' | 'systemStock' | 'location';
+
+// The Google Sheet master data is pulled from on app start and on a schedule
+export interface MasterDataSource {
+  id: string;                               // always 'default'
+  sheetUrl: string;
+  spreadsheetId: string;
+  gid: string;                              // tab id from the URL, '0' = first tab
+  headerMapping: Record<string, MasterField>; // sheet header -> field; other headers are ignored
+  intervalMinutes: number;                  // 0 = app start and on demand only
+  autoApply: boolean;                       // scheduled runs write changes without a preview
+  removeMissing: boolean;                   // delete batches that are no longer in the sheet
+  updatedBy: string;
+  updatedAt: number;
+  lastSyncAt?: number;
+}
+
+export interface MasterItemChange {
+  before: MasterItem;
+  after: MasterItem;
+  fields: (keyof MasterItem)[];
+}
+
+export interface MasterDataDiff {
+  added: MasterItem[];
+  changed: MasterItemChange[];
+  removed: MasterItem[];
+}
+
+export type MasterSyncTrigger = 'manual' | 'startup' | 'scheduled';
+// pending = changes found but waiting for an admin to apply them
+export type MasterSyncStatus = 'applied' | 'unchanged' | 'pending' | 'failed';
+
+export interface MasterSyncRun {
+  id: string;
+  startedAt: number;
+  trigger: MasterSyncTrigger;
+  status: MasterSyncStatus;
+  added: number;
+  changed: number;
+  removed: number;
+  stockChanges: number;
+  error?: string;
+  user: string;
 }
 
 export enum AppView {
@@ -49,7 +249,21 @@ export enum AppView {
   MASTER_DATA = 'MASTER_DATA',
   DAMAGED_REPORT = 'DAMAGED_REPORT',
   ACTIVITIES = 'ACTIVITIES',
-  USER_MANAGEMENT = 'USER_MANAGEMENT'
+  USER_MANAGEMENT = 'USER_MANAGEMENT',
+  COUNT_SESSIONS = 'COUNT_SESSIONS',
+  APPROVALS = 'APPROVALS',
+  MASTER_LOCATIONS = 'MASTER_LOCATIONS',
+  LOCATION_CHECKLIST = 'LOCATION_CHECKLIST',
+  LABELS = 'LABELS',
+  SKU_ALIASES = 'SKU_ALIASES',
+  UNIT_CONVERSIONS = 'UNIT_CONVERSIONS'
+}
+
+// One changed field of an edited record; values are null when absent
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
 }
 
 export interface ActivityLog {
@@ -61,6 +275,12 @@ export interface ActivityLog {
   user: string;
   details?: string;
   photos?: string[];
+  // Set on record mutations so every change can be traced and, for deletes, undone
+  actorUsername?: string;
+  actorRole?: UserRole;
+  targetTable?: string;
+  targetId?: string;
+  changes?: FieldChange[];
 }
 
 export interface InventoryStats {
@@ -71,10 +291,19 @@ export interface InventoryStats {
 }
 
 // --- AUTH TYPES ---
-export type UserRole = 'admin' | 'user';
+export type UserRole = 'admin' | 'supervisor' | 'auditor' | 'user' | 'viewer';
 
 export interface AppUser {
   username: string;
   role: UserRole;
   name: string;
 }
+
+export interface AppSession {
+  token: string;
+  username: string;
+  role: UserRole;
+  name: string;
+  issuedAt: number;
+  expiresAt: number;
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -10,6 +11,13 @@ export default defineConfig(({ mode }) => {
     },
     define: {
       'process.env.API_KEY': JSON.stringify(env.API_KEY)
+    },
+    test: {
+      include: ['tests/**/*.test.ts'],
+      setupFiles: ['tests/setup.ts'],
+      env: { VITE_STORAGE_BACKEND: 'local' },
+      // Needs the Firestore emulator; run with `npm run test:rules`
+      exclude: ['tests/firestore.rules.test.ts']
     }
   };
-});
\ No newline at end of file
+});